@@ -1,83 +1,448 @@
 // api/generate-image.ts
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { GoogleGenAI, Part } from '@google/genai';
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-    if (req.method !== 'POST') {
-        return res.status(405).json({ error: 'Method not allowed' });
+/**
+ * Server-side generation proxy for every image provider.
+ *
+ * POST takes the same request the client adapters build (see
+ * src/services/generationProxy.ts) and answers with a job status. Providers
+ * that render asynchronously (Leonardo, SeaArt) are polled for a while here;
+ * if the image isn't ready yet the response is `pending` with a job id, and
+ * the client keeps polling `GET ?provider=…&jobId=…`. `GET` with no job lists
+ * the providers this deployment holds keys for.
+ *
+ * Keys come from the environment so teams can keep them off client machines.
+ * A key sent in the request is only used when the server has none. When
+ * Supabase is configured, callers must send a signed-in user's access token.
+ */
+
+type Provider = 'gemini' | 'leonardo' | 'grok' | 'fal' | 'seaart' | 'openai';
+
+interface GenerateImageRequest {
+    provider: Provider;
+    prompt: string;
+    aspectRatio: string;   // AspectRatio value: wide, std, square, tall, portrait
+    apiKey?: string;
+    initImage?: string;
+    referenceImages?: string[];   // Character and location references, for providers that take them
+    strength?: number;
+    seed?: number;
+    model?: string;        // FAL Flux model
+}
+
+interface GenerateImageResult {
+    status: 'pending' | 'succeeded' | 'failed';
+    jobId?: string;
+    imageUrl?: string;
+    error?: string;
+}
+
+const SERVER_KEYS: Record<Provider, string | undefined> = {
+    gemini: process.env.GEMINI_API_KEY,
+    leonardo: process.env.LEONARDO_API_KEY,
+    grok: process.env.XAI_API_KEY,
+    fal: process.env.FAL_API_KEY,
+    seaart: process.env.SEAART_API_KEY,
+    openai: process.env.OPENAI_API_KEY,
+};
+
+const PROVIDERS = Object.keys(SERVER_KEYS) as Provider[];
+
+// How long one request may wait on an async provider before handing back a job id
+const SERVER_POLL_BUDGET_MS = 20000;
+const SERVER_POLL_INTERVAL_MS = 2000;
+
+const LEONARDO_PHOENIX_MODEL_ID = 'de7d3faf-762f-48e0-b3b7-9d0ac3a3fcf3';
+
+// Pixel sizes per aspect ratio, matching the client services
+const SIZES: Record<string, Record<string, [number, number]>> = {
+    leonardo: { wide: [1472, 832], std: [1360, 1024], square: [1024, 1024], tall: [1024, 1360], portrait: [832, 1472] },
+    grok: { wide: [1344, 768], std: [1152, 896], square: [1024, 1024], tall: [896, 1152], portrait: [768, 1344] },
+    seaart: { wide: [1344, 768], std: [1152, 896], square: [1024, 1024], tall: [896, 1152], portrait: [768, 1344] },
+    openai: { wide: [1536, 1024], std: [1024, 1024], square: [1024, 1024], tall: [1024, 1536], portrait: [1024, 1536] },
+};
+
+const FAL_IMAGE_SIZES: Record<string, string> = {
+    wide: 'landscape_16_9',
+    std: 'landscape_4_3',
+    square: 'square_hd',
+    tall: 'portrait_4_3',
+    portrait: 'portrait_16_9',
+};
+
+// Flux models callers may pick, so the server's FAL key can't be spent on other fal.ai endpoints
+const FAL_FLUX_MODELS = ['fal-ai/flux-pro', 'fal-ai/flux/dev', 'fal-ai/flux/schnell'];
+const DEFAULT_FAL_MODEL = 'fal-ai/flux-pro';
+
+const GEMINI_RATIOS: Record<string, string> = { wide: '16:9', std: '4:3', square: '1:1', tall: '3:4', portrait: '9:16' };
+
+const sizeFor = (provider: Provider, aspectRatio: string): [number, number] =>
+    SIZES[provider][aspectRatio] || SIZES[provider].square;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const stripDataUrl = (image: string) => (image.includes(',') ? image.split(',')[1] : image);
+
+class ProviderError extends Error {
+    status: number;
+
+    constructor(message: string, status: number = 502) {
+        super(message);
+        this.status = status;
     }
+}
 
-    const { prompt, modelId = '6bef9f1b-29cb-40c7-b9df-32b51c1f67d3' } = req.body; // Default to Leonardo Diffusion XL
+interface ProviderErrorBody {
+    error?: string | { message?: string };
+    detail?: string;
+    message?: string;
+    msg?: string;
+}
 
-    if (!prompt) {
-        return res.status(400).json({ error: 'Prompt required' });
+async function callJson<T>(url: string, init: RequestInit, label: string): Promise<T> {
+    const response = await fetch(url, init);
+    const rawText = await response.text();
+    if (!response.ok) {
+        let message = rawText;
+        try {
+            const err: ProviderErrorBody = JSON.parse(rawText);
+            message = (typeof err.error === 'string' ? err.error : err.error?.message) || err.detail || err.message || err.msg || rawText;
+        } catch {
+            // Not JSON; keep the raw text
+        }
+        throw new ProviderError(`${label} API error ${response.status}: ${message}`, response.status);
     }
+    return (rawText ? JSON.parse(rawText) : {}) as T;
+}
 
-    const apiKey = process.env.LEONARDO_API_KEY;
+interface ImagesResponse {
+    data?: Array<{ url?: string; b64_json?: string }>;
+}
 
-    if (!apiKey) {
-        return res.status(500).json({ error: 'Leonardo API key not set—add it in Vercel env vars' });
+interface FalResponse {
+    images?: Array<{ url?: string }>;
+}
+
+interface LeonardoCreateResponse {
+    sdGenerationJob?: { generationId?: string };
+}
+
+interface LeonardoStatusResponse {
+    generations_by_pk?: {
+        status?: 'PENDING' | 'COMPLETE' | 'FAILED';
+        generated_images?: Array<{ url: string }>;
+    };
+}
+
+interface SeaArtResponse {
+    data?: {
+        task_id?: string;
+        status?: number;
+        items?: Array<{ img_url?: string }>;
+    };
+    error?: string;
+    msg?: string;
+}
+
+// --- Providers that answer with the image ---
+
+async function generateGemini(req: GenerateImageRequest, apiKey: string): Promise<string> {
+    const ai = new GoogleGenAI({ apiKey });
+    const parts: Part[] = [];
+    let prompt = `${req.prompt} Aspect ratio ${GEMINI_RATIOS[req.aspectRatio] || '1:1'}.`;
+
+    if (req.initImage) {
+        const strength = req.strength ?? 0.7;
+        const influence = strength > 0.75
+            ? 'Maintain the original composition and character details very strictly.'
+            : strength < 0.4
+            ? 'Be very creative and transformative, deviating significantly from the reference structure.'
+            : 'Maintain character consistency and general scene structure.';
+        parts.push({ inlineData: { data: stripDataUrl(req.initImage), mimeType: 'image/png' } });
+        prompt = `${prompt} ${influence}`;
     }
+    req.referenceImages?.forEach(image => parts.push({ inlineData: { data: stripDataUrl(image), mimeType: 'image/png' } }));
+    parts.push({ text: prompt });
 
-    try {
-        const response = await fetch('https://cloud.leonardo.ai/api/rest/v1/generations', {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${apiKey}`,
-                'Content-Type': 'application/json',
-                'Accept': 'application/json',
-            },
-            body: JSON.stringify({
-                prompt: prompt,
-                modelId: modelId,
-                width: 512,
-                height: 512,
-                num_images: 1,
-                alchemy: false, // Off by default for free tier token savings (turn on for better quality)
-            presetStyle: 'CINEMATIC', // Good for storyboard vibes; tweak to 'DYNAMIC' or others
-            num_inference_steps: 10, // Low for speed/cost
-            guidance_scale: 7.5,
-            }),
+    const response = await ai.models.generateContent({
+        model: 'gemini-2.0-flash-exp-image-generation',
+        contents: { parts },
+        config: { responseModalities: ['Text', 'Image'] },
+    });
+
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData) return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+    }
+    throw new ProviderError('No image returned from Gemini.');
+}
+
+async function generateGrok(req: GenerateImageRequest, apiKey: string): Promise<string> {
+    const [width, height] = sizeFor('grok', req.aspectRatio);
+    const data = await callJson<ImagesResponse>('https://api.x.ai/v1/images/generations', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: 'grok-2-image', prompt: req.prompt.trim(), n: 1, size: `${width}x${height}`, response_format: 'url' }),
+    }, 'Grok');
+
+    const image = data.data?.[0];
+    if (image?.b64_json) return `data:image/png;base64,${image.b64_json}`;
+    if (image?.url) return image.url;
+    throw new ProviderError('No image URL returned from Grok.');
+}
+
+async function generateFal(req: GenerateImageRequest, apiKey: string): Promise<string> {
+    // Flux takes a single image, so a character sheet stands in when no panel is linked
+    const initImage = req.initImage || req.referenceImages?.[0];
+    const endpoint = initImage ? 'fal-ai/flux/dev/image-to-image' : (req.model || DEFAULT_FAL_MODEL);
+    const body: Record<string, unknown> = { prompt: req.prompt, num_images: 1, enable_safety_checker: true, sync_mode: true };
+    if (req.seed !== undefined) body.seed = req.seed;
+    if (initImage) {
+        body.image_url = initImage;
+        body.strength = req.strength ?? 0.7;
+    } else {
+        body.image_size = FAL_IMAGE_SIZES[req.aspectRatio] || 'square_hd';
+    }
+
+    const data = await callJson<FalResponse>(`https://fal.run/${endpoint}`, {
+        method: 'POST',
+        headers: { 'Authorization': `Key ${apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    }, 'fal.ai');
+
+    const url = data.images?.[0]?.url;
+    if (!url) throw new ProviderError('No image URL returned from fal.ai.');
+    return url;
+}
+
+async function generateOpenAI(req: GenerateImageRequest, apiKey: string): Promise<string> {
+    const [width, height] = sizeFor('openai', req.aspectRatio);
+    const settings = { model: 'gpt-image-1', prompt: req.prompt.trim(), n: '1', size: `${width}x${height}`, quality: 'medium' };
+    let init: RequestInit;
+
+    // Character references go through the edits endpoint, which takes them as images
+    if (req.referenceImages?.length) {
+        const form = new FormData();
+        Object.entries(settings).forEach(([key, value]) => form.append(key, value));
+        req.referenceImages.forEach((image, i) => {
+            form.append('image[]', new Blob([Buffer.from(stripDataUrl(image), 'base64')], { type: 'image/png' }), `reference-${i}.png`);
         });
+        init = { method: 'POST', headers: { 'Authorization': `Bearer ${apiKey}` }, body: form };
+    } else {
+        init = {
+            method: 'POST',
+            headers: { 'Authorization': `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...settings, n: 1, moderation: 'low' }),
+        };
+    }
 
-        if (!response.ok) {
-            const errorData = await response.json();
-            return res.status(response.status).json({ error: errorData.message || 'Leonardo API call failed—check tokens or prompt' });
-        }
+    const endpoint = req.referenceImages?.length ? 'edits' : 'generations';
+    const data = await callJson<ImagesResponse>(`https://api.openai.com/v1/images/${endpoint}`, init, 'OpenAI');
+
+    const base64Data = data.data?.[0]?.b64_json;
+    if (!base64Data) throw new ProviderError('No image data returned from OpenAI.');
+    return `data:image/png;base64,${base64Data}`;
+}
 
-        const data = await response.json();
-        const generationId = data.sdGenerationJob?.generationId;
+// --- Providers that run as jobs ---
 
-        if (!generationId) {
-            return res.status(500).json({ error: 'No generation ID returned' });
-        }
+async function startLeonardo(req: GenerateImageRequest, apiKey: string): Promise<string> {
+    const [width, height] = sizeFor('leonardo', req.aspectRatio);
+    const body: Record<string, unknown> = {
+        modelId: LEONARDO_PHOENIX_MODEL_ID,
+        prompt: req.prompt,
+        num_images: 1,
+        width,
+        height,
+        alchemy: true,
+        contrast: 3.5,
+        enhancePrompt: false,
+        public: false,
+    };
+    if (req.seed !== undefined) body.seed = req.seed;
 
-        // Leonardo needs a quick poll for the image to be ready (usually <10s)
-        let attempts = 0;
-        let imageUrl = null;
-        while (attempts < 5 && !imageUrl) {
-            attempts++;
-            const pollResponse = await fetch(`https://cloud.leonardo.ai/api/rest/v1/generations/${generationId}`, {
-                headers: {
-                    'Authorization': `Bearer ${apiKey}`,
-                    'Accept': 'application/json',
-                },
-            });
-
-            const pollData = await pollResponse.json();
-            if (pollData.generations_by_pk?.generated_images?.[0]?.url) {
-                imageUrl = pollData.generations_by_pk.generated_images[0].url;
-            } else {
-                await new Promise(resolve => setTimeout(resolve, 2000)); // Wait 2s before retry
-            }
-        }
+    const data = await callJson<LeonardoCreateResponse>('https://cloud.leonardo.ai/api/rest/v1/generations', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${apiKey}`, 'Content-Type': 'application/json', 'Accept': 'application/json' },
+        body: JSON.stringify(body),
+    }, 'Leonardo');
 
-        if (!imageUrl) {
-            return res.status(500).json({ error: 'Image not ready after polling—try again or check Leonardo status' });
-        }
+    const generationId = data.sdGenerationJob?.generationId;
+    if (!generationId) throw new ProviderError('No generation ID returned from Leonardo.');
+    return generationId;
+}
+
+async function checkLeonardo(jobId: string, apiKey: string): Promise<GenerateImageResult> {
+    const data = await callJson<LeonardoStatusResponse>(`https://cloud.leonardo.ai/api/rest/v1/generations/${encodeURIComponent(jobId)}`, {
+        headers: { 'Authorization': `Bearer ${apiKey}`, 'Accept': 'application/json' },
+    }, 'Leonardo');
+
+    const generation = data.generations_by_pk;
+    if (generation?.status === 'COMPLETE') {
+        const url = generation.generated_images?.[0]?.url;
+        return url ? { status: 'succeeded', jobId, imageUrl: url } : { status: 'failed', jobId, error: 'Generation complete but no images returned.' };
+    }
+    if (generation?.status === 'FAILED') return { status: 'failed', jobId, error: 'Leonardo generation failed.' };
+    return { status: 'pending', jobId };
+}
+
+async function startSeaArt(req: GenerateImageRequest, apiKey: string): Promise<string> {
+    const [width, height] = sizeFor('seaart', req.aspectRatio);
+    const body: Record<string, unknown> = {
+        prompt: req.prompt.trim(),
+        negative_prompt: 'blurry, low quality, distorted',
+        width,
+        height,
+        num: 1,
+        guidance: 7,
+        steps: 30,
+    };
+    if (req.seed !== undefined) body.seed = req.seed;
+    if (req.initImage) {
+        body.init_image = stripDataUrl(req.initImage);
+        body.strength = req.strength ?? 0.7;
+    }
+
+    const data = await callJson<SeaArtResponse>('https://www.seaart.ai/api/v1/task/create', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    }, 'SeaArt');
+
+    const taskId = data.data?.task_id;
+    if (!taskId) throw new ProviderError(`SeaArt API error: ${data.msg || data.error || 'No task ID returned'}`);
+    return taskId;
+}
+
+async function checkSeaArt(jobId: string, apiKey: string): Promise<GenerateImageResult> {
+    const data = await callJson<SeaArtResponse>(`https://www.seaart.ai/api/v1/task/${encodeURIComponent(jobId)}`, {
+        headers: { 'Authorization': `Bearer ${apiKey}`, 'Accept': 'application/json' },
+    }, 'SeaArt');
+
+    // Status: 1=pending, 2=processing, 3=success, 4=failed
+    const status = data.data?.status;
+    if (status === 3) {
+        const url = data.data?.items?.[0]?.img_url;
+        return url ? { status: 'succeeded', jobId, imageUrl: url } : { status: 'failed', jobId, error: 'Generation complete but no image URL returned.' };
+    }
+    if (status === 4) return { status: 'failed', jobId, error: 'SeaArt generation failed.' };
+    return { status: 'pending', jobId };
+}
+
+const SYNC_PROVIDERS: Partial<Record<Provider, (req: GenerateImageRequest, apiKey: string) => Promise<string>>> = {
+    gemini: generateGemini,
+    grok: generateGrok,
+    fal: generateFal,
+    openai: generateOpenAI,
+};
+
+const JOB_PROVIDERS: Partial<Record<Provider, {
+    start: (req: GenerateImageRequest, apiKey: string) => Promise<string>;
+    check: (jobId: string, apiKey: string) => Promise<GenerateImageResult>;
+}>> = {
+    leonardo: { start: startLeonardo, check: checkLeonardo },
+    seaart: { start: startSeaArt, check: checkSeaArt },
+};
+
+async function pollJob(provider: Provider, jobId: string, apiKey: string, budgetMs: number): Promise<GenerateImageResult> {
+    const job = JOB_PROVIDERS[provider]!;
+    const deadline = Date.now() + budgetMs;
+    let result = await job.check(jobId, apiKey);
+    while (result.status === 'pending' && Date.now() + SERVER_POLL_INTERVAL_MS < deadline) {
+        await sleep(SERVER_POLL_INTERVAL_MS);
+        result = await job.check(jobId, apiKey);
+    }
+    return result;
+}
+
+// --- Request handling ---
+
+const isProvider = (value: unknown): value is Provider => PROVIDERS.includes(value as Provider);
+
+const resolveKey = (provider: Provider, requestKey?: string) => SERVER_KEYS[provider] || requestKey?.trim() || '';
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+const supabase = supabaseUrl && supabaseAnonKey ? createClient(supabaseUrl, supabaseAnonKey) : null;
+
+// Anyone can reach the proxy, so it only serves anonymous requests when that is
+// switched on explicitly, e.g. for local development
+const allowAnonymous = process.env.ALLOW_ANONYMOUS_PROXY === '1';
 
-        res.status(200).json({ imageUrl });
+// Requests need a verified Supabase session; without Supabase nobody can sign in
+async function isAuthorized(req: VercelRequest): Promise<boolean> {
+    if (allowAnonymous) return true;
+    if (!supabase) return false;
+    const token = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+    if (!token) return false;
+    const { data, error } = await supabase.auth.getUser(token);
+    return !error && !!data.user;
+}
+
+async function handleStatus(req: VercelRequest, res: VercelResponse) {
+    const { provider, jobId } = req.query;
+
+    if (!provider && !jobId) {
+        return res.status(200).json({ providers: PROVIDERS.filter(p => !!SERVER_KEYS[p]) });
+    }
+    if (!isProvider(provider) || !JOB_PROVIDERS[provider] || typeof jobId !== 'string' || !jobId) {
+        return res.status(400).json({ error: 'Status checks need a job provider and jobId' });
+    }
+
+    const apiKey = resolveKey(provider, req.headers['x-provider-key'] as string | undefined);
+    if (!apiKey) return res.status(400).json({ error: `No API key for ${provider}` });
+
+    return res.status(200).json(await pollJob(provider, jobId, apiKey, SERVER_POLL_INTERVAL_MS * 3));
+}
+
+async function handleGenerate(req: VercelRequest, res: VercelResponse) {
+    const body = (req.body || {}) as GenerateImageRequest;
+
+    if (!isProvider(body.provider)) {
+        return res.status(400).json({ error: `Unknown provider. Use one of: ${PROVIDERS.join(', ')}` });
+    }
+    if (!body.prompt?.trim()) {
+        return res.status(400).json({ error: 'Prompt required' });
+    }
+    if (body.provider === 'fal' && body.model !== undefined && !FAL_FLUX_MODELS.includes(body.model)) {
+        return res.status(400).json({ error: `Unknown Flux model. Use one of: ${FAL_FLUX_MODELS.join(', ')}` });
+    }
+
+    const apiKey = resolveKey(body.provider, body.apiKey);
+    if (!apiKey) {
+        return res.status(400).json({ error: `No API key for ${body.provider} on the server or in the request` });
+    }
+
+    const generate = SYNC_PROVIDERS[body.provider];
+    if (generate) {
+        const result: GenerateImageResult = { status: 'succeeded', imageUrl: await generate(body, apiKey) };
+        return res.status(200).json(result);
+    }
+
+    const job = JOB_PROVIDERS[body.provider]!;
+    const jobId = await job.start(body, apiKey);
+    const result = await pollJob(body.provider, jobId, apiKey, SERVER_POLL_BUDGET_MS);
+    return res.status(result.status === 'pending' ? 202 : 200).json(result);
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    if (req.method !== 'POST' && req.method !== 'GET') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    try {
+        if (!(await isAuthorized(req))) {
+            const error = supabase
+                ? 'Sign in to generate through the proxy'
+                : 'The generation proxy needs Supabase accounts, or ALLOW_ANONYMOUS_PROXY=1';
+            return res.status(401).json({ error });
+        }
+        return await (req.method === 'GET' ? handleStatus(req, res) : handleGenerate(req, res));
     } catch (error) {
-        console.error(error);
-        res.status(500).json({ error: 'Something went wrong with the generation' });
+        console.error('Generation proxy error:', error);
+        const status = error instanceof ProviderError ? error.status : 500;
+        const result: GenerateImageResult = { status: 'failed', error: (error as Error).message || 'Something went wrong with the generation' };
+        return res.status(status).json(result);
     }
 }
@@ -14,8 +14,7 @@ import {
   useTransformContext
 } from 'react-zoom-pan-pinch';
 import JSZip from 'jszip';
-import { jsPDF } from 'jspdf';
-import { Undo2, Redo2, LayoutGrid, Grid2X2, Grid3X3, Columns, Square, RectangleHorizontal, FileImage, FileText, Play, X, ChevronLeft, ChevronRight, Users, Sparkles, Loader2, BookOpen } from 'lucide-react';
+import { Undo2, Redo2, LayoutGrid, Grid2X2, Grid3X3, Columns, Square, RectangleHorizontal, FileImage, FileText, Play, X, ChevronLeft, ChevronRight, Users, MapPin, Package, Sparkles, Loader2, BookOpen } from 'lucide-react';
 
 import {
   Page,
@@ -23,23 +22,36 @@ import {
   Character,
   AspectRatio,
   Project,
+  ProjectRole,
   Panel,
   TextElement
 } from './types';
 import { historyReducer, createInitialHistoryState, canUndo, canRedo } from './state/reducer';
-import { createInitialState, normalizeProjects } from './state/initialState';
+import { createInitialState } from './state/initialState';
 import { Action } from './state/actions';
 import { genId } from './utils/helpers';
-import { getImage, saveImage } from './services/imageStorage';
-import { ART_STYLES, Icons, ASPECT_CONFIGS, GENERATION_DELAY_MS } from './constants';
+import { dataUrlToBlob, getImageBlob } from './services/imageStorage';
+import { Icons } from './constants';
 import { ScriptImportModal } from './components/ScriptImportModal';
+import PrintExportModal from './components/PrintExportModal';
+import SyncConflictModal from './components/SyncConflictModal';
+import StorageManagerModal from './components/StorageManagerModal';
+import UsageDashboardModal from './components/UsageDashboardModal';
+import { confirmStorageForGeneration } from './services/storageManager';
+import { resolveImportedLocations } from './services/locations';
+import { MatchResolutions, detectCharacters, findNewCharacters, getImportedPanelSources } from './services/characterDetection';
+import { formatCost, getProjectSpend, isOverBudget, loadProjectSpend } from './services/usageTracking';
 import { ParseResult } from './services/scriptParser';
+import { exportIssueToFountain } from './services/fountainExporter';
+import { exportIssueToCbz } from './services/cbzExporter';
 
 import Sidebar from './components/Sidebar';
 import PanelCard from './components/PanelCard';
 import ZoomControls from './components/ZoomControls';
 import ProjectHub from './components/ProjectHub';
 import CharacterBank from './components/CharacterBank';
+import LocationBank from './components/LocationBank';
+import PropBank from './components/PropBank';
 import UserGuide from './components/UserGuide';
 import TextOverlay from './components/TextOverlay';
 import PresentMode from './components/PresentMode';
@@ -48,55 +60,14 @@ import { BatchProgressIndicator, StatusBarIndicator } from './components/Generat
 import { SplitView } from './components/SplitView';
 import { AuthProvider, useAuth } from './context/AuthContext';
 import { useCloudSync } from './hooks/useCloudSync';
+import { useCollaboration } from './hooks/useCollaboration';
+import { useKeyVault } from './hooks/useKeyVault';
+import { CollabPresence } from './services/collaboration';
+import { ROLE_DESCRIPTIONS, ROLE_LABELS, getProjectRole } from './services/permissions';
+import { CollaborationPanel } from './components/CollaborationPanel';
 import { SyncIndicator } from './components/SyncIndicator';
-import { useImageGeneration } from './hooks/useImageGeneration';
-
-import { generateImage as generateGeminiImage } from './services/geminiService';
-import { generateLeonardoImage } from './services/leonardoService';
-import { generateGrokImage } from './services/grokService';
-import { generateFluxImage as generateFalFlux } from './services/falFluxService';
-import { generateSeaArtImage } from './services/seaartService';
-import { generateOpenAIImage } from './services/openaiService';
-
-/**
- * Helper to build a full appearance description for image generation
- */
-function buildCharacterPrompt(char: Character): string {
-  const parts: string[] = [char.name];
-  
-  if (char.appearance) {
-    const a = char.appearance;
-    const desc: string[] = [];
-    
-    if (a.age) desc.push(a.age);
-    if (a.gender) desc.push(a.gender);
-    if (a.ethnicity) desc.push(a.ethnicity);
-    if (a.height) desc.push(a.height);
-    if (a.build) desc.push(a.build);
-    if (a.skinTone) desc.push(`${a.skinTone} skin`);
-    if (a.hairColor && a.hairStyle) {
-      desc.push(`${a.hairColor} ${a.hairStyle} hair`);
-    } else if (a.hairColor) {
-      desc.push(`${a.hairColor} hair`);
-    } else if (a.hairStyle) {
-      desc.push(`${a.hairStyle} hair`);
-    }
-    if (a.eyeColor) desc.push(`${a.eyeColor} eyes`);
-    if (a.facialFeatures) desc.push(a.facialFeatures);
-    if (a.distinguishingMarks) desc.push(a.distinguishingMarks);
-    if (a.clothing) desc.push(`wearing ${a.clothing}`);
-    if (a.accessories) desc.push(`with ${a.accessories}`);
-    if (a.additionalNotes) desc.push(a.additionalNotes);
-    
-    if (desc.length > 0) {
-      parts.push(`(${desc.join(', ')})`);
-    }
-  } else if (char.description) {
-    parts.push(`(${char.description})`);
-  }
-  
-  return parts.join(' ');
-}
+import { useGenerationQueue } from './hooks/useGenerationQueue';
+import { GenerationQueuePanel } from './components/GenerationQueuePanel';
 
 /**
  * Custom modifier for dnd-kit to handle the scale factor from react-zoom-pan-pinch.
@@ -131,10 +102,12 @@ interface CanvasProps {
   setSelectedPanelId: (id: string | null) => void;
   copiedPanelSettings: { aspectRatio: AspectRatio; characterIds: string[] } | null;
   setCopiedPanelSettings: (settings: { aspectRatio: AspectRatio; characterIds: string[] } | null) => void;
+  peerSelections: Record<string, CollabPresence[]>;
 }
 
 function AppContent() {
   const { user, signOut, loading } = useAuth();
+  useKeyVault();
   const [stateWithHistory, dispatchWithHistory] = useReducer(
     historyReducer,
     null,
@@ -143,38 +116,26 @@ function AppContent() {
   
   // Extract present state and create dispatch wrapper
   const state = stateWithHistory.present;
-  const dispatch = dispatchWithHistory as React.Dispatch<Action>;
-
-  const activeProjectIdRef = useRef<string | null>(state.activeProjectId);
+  const baseDispatch = dispatchWithHistory as React.Dispatch<Action>;
 
-  useEffect(() => {
-    activeProjectIdRef.current = state.activeProjectId;
-  }, [state.activeProjectId]);
-
-  const handleCloudProjectsLoaded = useCallback((cloudProjects: Project[]) => {
-    if (!cloudProjects.length) return;
-    const normalizedProjects = normalizeProjects(cloudProjects);
-    const preferredProjectId = activeProjectIdRef.current &&
-      normalizedProjects.some((project) => project.id === activeProjectIdRef.current)
-      ? activeProjectIdRef.current
-      : normalizedProjects[0]?.id;
-    const activeProject = normalizedProjects.find((project) => project.id === preferredProjectId);
+  // Cloud projects arrive already migrated to the current schema
+  const handleProjectsSynced = useCallback((projects: Project[]) => {
+    baseDispatch({ type: 'SYNC_PROJECTS', projects });
+  }, [baseDispatch]);
 
-    dispatch({
-      type: 'HYDRATE',
-      payload: {
-        projects: normalizedProjects,
-        activeProjectId: preferredProjectId || null,
-        activeIssueId: activeProject?.issues[0]?.id || null,
-        activePageId: activeProject?.issues[0]?.pages[0]?.id || null,
-      },
-    });
-  }, [dispatch]);
+  const handleRolesLoaded = useCallback((roles: Record<string, ProjectRole>) => {
+    baseDispatch({ type: 'SET_PROJECT_ROLES', roles });
+  }, [baseDispatch]);
 
-  const { syncStatus } = useCloudSync(state, handleCloudProjectsLoaded);
+  const { syncStatus, imageProgress, conflicts: syncConflicts, resolveConflict, reload: reloadCloud } = useCloudSync(state, handleProjectsSynced, handleRolesLoaded);
   
   const [projectsOpen, setProjectsOpen] = useState(false);
-  const [batching, setBatching] = useState(false);
+  const [showStorageManager, setShowStorageManager] = useState(false);
+  const [showUsageDashboard, setShowUsageDashboard] = useState(false);
+  const historyStates = useMemo(
+    () => [...stateWithHistory.past, ...stateWithHistory.future],
+    [stateWithHistory.past, stateWithHistory.future]
+  );
   const [exporting, setExporting] = useState(false);
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [activeId, setActiveId] = useState<string | null>(null);
@@ -186,23 +147,39 @@ function AppContent() {
   const [showScriptPanel, setShowScriptPanel] = useState(false);
   const [showReadThrough, setShowReadThrough] = useState(false);
   const [selectedPanelId, setSelectedPanelId] = useState<string | null>(null);
+  // Edits go through the live session when one is running so peers see them
+  const collaboration = useCollaboration(state, baseDispatch, selectedPanelId);
+  const { dispatch } = collaboration;
+  const [showCollaborationPanel, setShowCollaborationPanel] = useState(false);
+  const peerSelections = useMemo(() => {
+    const selections: Record<string, CollabPresence[]> = {};
+    collaboration.peers.forEach(peer => {
+      if (peer.panelId) selections[peer.panelId] = [...(selections[peer.panelId] || []), peer];
+    });
+    return selections;
+  }, [collaboration.peers]);
   const [copiedPanelSettings, setCopiedPanelSettings] = useState<{ aspectRatio: AspectRatio; characterIds: string[] } | null>(null);
   const [showCharacterBank, setShowCharacterBank] = useState(false);
+  const [showLocationBank, setShowLocationBank] = useState(false);
+  const [showPropBank, setShowPropBank] = useState(false);
   const [activeTab, setActiveTab] = useState<'canvas' | 'guide'>('canvas');
   const [showSplitView, setShowSplitView] = useState(false);
   
-  // Generate All state
-  const [isGeneratingAll, setIsGeneratingAll] = useState(false);
-  const [currentPanel, setCurrentPanel] = useState(0);
-  const [totalPanels, setTotalPanels] = useState(0);
-  const cancelGenerationRef = useRef(false);
+  // Batch generation runs through the persistent queue
+  const generationQueue = useGenerationQueue(state.projects, dispatch);
+  const { currentPanel, totalPanels } = generationQueue;
+  const isGeneratingAll = generationQueue.activeCount > 0;
+  const [showQueuePanel, setShowQueuePanel] = useState(false);
+  const [printScope, setPrintScope] = useState<'page' | 'issue' | null>(null);
 
   const activeProject = state.projects.find(p => p.id === state.activeProjectId);
   const activeIssue = activeProject?.issues.find(i => i.id === state.activeIssueId);
   const activePage = activeIssue?.pages.find(p => p.id === state.activePageId);
-  
-  // Use the shared image generation hook
-  const imageGeneration = activeProject ? useImageGeneration(activeProject) : null;
+  const activeRole = getProjectRole(state, state.activeProjectId);
+  // Viewers land in Present mode for each issue they open; closing it shows the read-only canvas
+  const [viewerDismissedIssueId, setViewerDismissedIssueId] = useState<string | null>(null);
+  const viewerPresenting = activeRole === 'viewer' && !projectsOpen && viewerDismissedIssueId !== state.activeIssueId;
+  const isPresenting = showReadThrough || viewerPresenting;
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -214,7 +191,7 @@ function AppContent() {
 
       // When PresentMode is open, it handles its own keyboard via capture phase.
       // Don't let App-level handlers interfere.
-      if (showReadThrough) return;
+      if (isPresenting) return;
 
       // Undo: Ctrl+Z
       if ((e.ctrlKey || e.metaKey) && e.key === 'z' && !e.shiftKey) {
@@ -265,7 +242,7 @@ function AppContent() {
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [stateWithHistory, activePage, selectedPanelId, showReadThrough]);
+  }, [stateWithHistory, activePage, selectedPanelId, isPresenting]);
 
   const sensors = useSensors(
     useSensor(PointerSensor, { activationConstraint: { distance: 8 } })
@@ -315,16 +292,11 @@ function AppContent() {
       const pageFolder = zip.folder(`Page_${activePage.number}`);
       for (let i = 0; i < activePage.panels.length; i++) {
         const panel = activePage.panels[i];
-        if (panel.imageUrl) {
-          let dataUrl = panel.imageUrl;
-          if (dataUrl.startsWith('idb://')) {
-            const id = dataUrl.replace('idb://', '');
-            dataUrl = await getImage(id) || '';
-          }
-          if (dataUrl) {
-            const base64 = dataUrl.split(',')[1];
-            pageFolder?.file(`panel_${i + 1}.png`, base64, { base64: true });
-          }
+        if (panel.imageUrl?.startsWith('idb://')) {
+          const blob = await getImageBlob(panel.imageUrl.replace('idb://', ''));
+          if (blob) pageFolder?.file(`panel_${i + 1}.${blob.type.split('/')[1] || 'png'}`, blob);
+        } else if (panel.imageUrl?.startsWith('data:')) {
+          pageFolder?.file(`panel_${i + 1}.png`, dataUrlToBlob(panel.imageUrl));
         }
       }
       const content = await zip.generateAsync({ type: "blob" });
@@ -342,29 +314,11 @@ function AppContent() {
   };
 
   const handleExportIssue = async () => {
-    if (!activeIssue) return;
+    if (!activeIssue || !activeProject) return;
     setExporting(true);
     setShowExportMenu(false);
     try {
-      const zip = new JSZip();
-      for (const page of activeIssue.pages) {
-        for (let i = 0; i < page.panels.length; i++) {
-          const panel = page.panels[i];
-          if (panel.imageUrl) {
-            let dataUrl = panel.imageUrl;
-            if (dataUrl.startsWith('idb://')) {
-              const id = dataUrl.replace('idb://', '');
-              dataUrl = await getImage(id) || '';
-            }
-            if (dataUrl) {
-              const base64 = dataUrl.split(',')[1];
-              const fileName = `pg${String(page.number).padStart(3, '0')}_p${String(i + 1).padStart(2, '0')}.png`;
-              zip.file(fileName, base64, { base64: true });
-            }
-          }
-        }
-      }
-      const content = await zip.generateAsync({ type: "blob" });
+      const content = await exportIssueToCbz(activeProject, activeIssue);
       const url = window.URL.createObjectURL(content);
       const a = document.createElement("a");
       a.href = url;
@@ -378,151 +332,50 @@ function AppContent() {
     }
   };
 
-  // Export page as PDF
-  const handleExportPagePDF = async () => {
+  const handleExportFountain = () => {
+    if (!activeIssue) return;
+    setShowExportMenu(false);
+    const blob = new Blob([exportIssueToFountain(activeIssue)], { type: 'text/plain' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${activeIssue.title.replace(/\s+/g, '_')}.fountain`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  // Print PDFs are configured (trim, bleed, crop marks) in PrintExportModal
+  const handleExportPagePDF = () => {
     if (!activePage) return;
-    setExporting(true);
     setShowExportMenu(false);
-    try {
-      // Create PDF in landscape for comic pages
-      const pdf = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
-      const pageWidth = pdf.internal.pageSize.getWidth();
-      const pageHeight = pdf.internal.pageSize.getHeight();
-      
-      let hasContent = false;
-      for (let i = 0; i < activePage.panels.length; i++) {
-        const panel = activePage.panels[i];
-        if (panel.imageUrl) {
-          let dataUrl = panel.imageUrl;
-          if (dataUrl.startsWith('idb://')) {
-            const id = dataUrl.replace('idb://', '');
-            dataUrl = await getImage(id) || '';
-          }
-          if (dataUrl) {
-            if (hasContent) pdf.addPage();
-            hasContent = true;
-            
-            // Add image centered on page
-            const img = new Image();
-            await new Promise<void>((resolve) => {
-              img.onload = () => resolve();
-              img.src = dataUrl;
-            });
-            
-            const imgRatio = img.width / img.height;
-            const pageRatio = pageWidth / pageHeight;
-            let imgWidth, imgHeight;
-            
-            if (imgRatio > pageRatio) {
-              imgWidth = pageWidth - 20;
-              imgHeight = imgWidth / imgRatio;
-            } else {
-              imgHeight = pageHeight - 20;
-              imgWidth = imgHeight * imgRatio;
-            }
-            
-            const x = (pageWidth - imgWidth) / 2;
-            const y = (pageHeight - imgHeight) / 2;
-            
-            pdf.addImage(dataUrl, 'PNG', x, y, imgWidth, imgHeight);
-            
-            // Add panel number
-            pdf.setFontSize(10);
-            pdf.setTextColor(150);
-            pdf.text(`Panel ${i + 1}`, 10, 10);
-          }
-        }
-      }
-      
-      if (hasContent) {
-        pdf.save(`Page_${activePage.number}.pdf`);
-      } else {
-        alert('No images to export');
-      }
-    } catch (e) {
-      alert("PDF export failed: " + e);
-    } finally {
-      setExporting(false);
-    }
+    setPrintScope('page');
   };
 
-  // Export issue as PDF
-  const handleExportIssuePDF = async () => {
+  const handleExportIssuePDF = () => {
     if (!activeIssue) return;
-    setExporting(true);
     setShowExportMenu(false);
-    try {
-      const pdf = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
-      const pageWidth = pdf.internal.pageSize.getWidth();
-      const pageHeight = pdf.internal.pageSize.getHeight();
-      
-      let hasContent = false;
-      for (const page of activeIssue.pages) {
-        for (let i = 0; i < page.panels.length; i++) {
-          const panel = page.panels[i];
-          if (panel.imageUrl) {
-            let dataUrl = panel.imageUrl;
-            if (dataUrl.startsWith('idb://')) {
-              const id = dataUrl.replace('idb://', '');
-              dataUrl = await getImage(id) || '';
-            }
-            if (dataUrl) {
-              if (hasContent) pdf.addPage();
-              hasContent = true;
-              
-              const img = new Image();
-              await new Promise<void>((resolve) => {
-                img.onload = () => resolve();
-                img.src = dataUrl;
-              });
-              
-              const imgRatio = img.width / img.height;
-              const pageRatio = pageWidth / pageHeight;
-              let imgWidth, imgHeight;
-              
-              if (imgRatio > pageRatio) {
-                imgWidth = pageWidth - 20;
-                imgHeight = imgWidth / imgRatio;
-              } else {
-                imgHeight = pageHeight - 20;
-                imgWidth = imgHeight * imgRatio;
-              }
-              
-              const x = (pageWidth - imgWidth) / 2;
-              const y = (pageHeight - imgHeight) / 2;
-              
-              pdf.addImage(dataUrl, 'PNG', x, y, imgWidth, imgHeight);
-              
-              pdf.setFontSize(10);
-              pdf.setTextColor(150);
-              pdf.text(`Page ${page.number} - Panel ${i + 1}`, 10, 10);
-            }
-          }
-        }
-      }
-      
-      if (hasContent) {
-        pdf.save(`${activeIssue.title.replace(/\s+/g, '_')}.pdf`);
-      } else {
-        alert('No images to export');
-      }
-    } catch (e) {
-      alert("PDF export failed: " + e);
-    } finally {
-      setExporting(false);
-    }
+    setPrintScope('issue');
   };
 
-  const handleScriptImport = (result: ParseResult, scriptText: string) => {
+  const handleScriptImport = (result: ParseResult, scriptText: string, resolutions: MatchResolutions = {}) => {
     if (!result.success || !activeProject) return;
-    const newPages: Page[] = result.pages.map((parsedPage) => ({
+    const { created: newLocations, locationIds } = resolveImportedLocations(result.pages, activeProject.locations || []);
+    // Names that match someone in the bank link to them instead of creating a duplicate
+    const newCharacters: Character[] = findNewCharacters(result.characters, activeProject.characters).map(c => ({
+      id: genId(),
+      name: c.name,
+      description: c.firstAppearance || `${c.lineCount} lines`,
+    }));
+    const roster = [...activeProject.characters, ...newCharacters];
+    const newPages: Page[] = result.pages.map((parsedPage, pageIndex) => ({
       id: genId(),
       number: parsedPage.pageNumber,
       panels: parsedPage.panels.map((parsedPanel, index) => ({
         id: genId(),
         prompt: parsedPanel.description,
         aspectRatio: parsedPanel.aspectRatio,
-        characterIds: [],
+        characterIds: detectCharacters(getImportedPanelSources(parsedPanel), roster, resolutions).characterIds,
+        locationId: locationIds[pageIndex],
         x: (index % 3) * 400,
         y: Math.floor(index / 3) * 500,
         textElements: parsedPanel.bubbles.map((bubble, idx) => ({
@@ -542,140 +395,50 @@ function AppContent() {
         } : undefined
       })),
     }));
-    const newCharacters: Character[] = result.characters.map(c => ({
-      id: genId(),
-      name: c.name,
-      description: c.firstAppearance || `${c.lineCount} lines`,
-    }));
     const newIssue: Issue = { 
       id: genId(), 
       title: result.issue?.title ? `${result.issue.title}${result.issue.issueNumber ? ` #${result.issue.issueNumber}` : ''}` : `Imported: ${result.pages.length} Pages`, 
       pages: newPages,
       scriptText: scriptText // Store original script for reference
     };
-    dispatch({ type: 'IMPORT_ISSUE', projectId: activeProject.id, issue: newIssue, characters: newCharacters });
+    dispatch({ type: 'IMPORT_ISSUE', projectId: activeProject.id, issue: newIssue, characters: newCharacters, locations: newLocations });
     setShowScriptImport(false);
     setShowScriptPanel(true); // Auto-show script panel after import
   };
 
+  // Panels that have something to generate from but no image yet
+  const getPanelsToGenerate = (page: Page) =>
+    page.panels.filter(panel => (panel.prompt?.trim() || panel.characterIds.length > 0) && !panel.imageUrl);
+
+  // Batch generation stops once the project's estimated spend reaches its cap
+  const isBudgetBlocked = (project: Project) => {
+    const spend = loadProjectSpend();
+    if (!isOverBudget(project, spend)) return false;
+    alert(`Budget cap reached for "${project.title}": ${formatCost(getProjectSpend(project.id, spend))} of ${formatCost(project.budgetCap ?? 0)} spent. Raise or clear the cap in the usage dashboard to keep batch generating.`);
+    return true;
+  };
+
   const generatePage = async () => {
-    if (!activePage || batching || !activeProject) return;
-    setBatching(true);
-    try {
-      for (const panel of activePage.panels) {
-        if (!panel.prompt && panel.characterIds.length === 0) continue;
-        if (panel.imageUrl) continue;
-        const styleConfig = ART_STYLES.find(s => s.id === activeProject?.style);
-        const stylePrompt = styleConfig?.prompt || '';
-        const activeChars = activeProject?.characters.filter(c => panel.characterIds.includes(c.id)) || [];
-        // Use buildCharacterPrompt for full appearance descriptions
-        const charSection = activeChars.length > 0 ? `Characters: ${activeChars.map(c => buildCharacterPrompt(c)).join('; ')}.` : '';
-        const config = ASPECT_CONFIGS[panel.aspectRatio];
-        let initImage: string | undefined;
-        if (panel.referencePanelId) {
-          const refPanel = activePage.panels.find(p => p.id === panel.referencePanelId);
-          if (refPanel?.imageUrl) {
-            const id = refPanel.imageUrl.startsWith('idb://') ? refPanel.imageUrl.slice(6) : null;
-            if (id) initImage = await getImage(id) || undefined;
-          }
-        }
-        const consistencySuffix = " Maintain strong visual and character consistency with the reference image. Same lighting, angle, style.";
-        const fullPrompt = `${stylePrompt}. ${charSection} ${panel.prompt}.${initImage ? consistencySuffix : ''}`.trim();
-        let url: string | undefined;
-        try {
-          if (activeProject.imageProvider === 'gemini' && activeProject.geminiApiKey) {
-            url = await generateGeminiImage(fullPrompt, config.ratio, activeProject.geminiApiKey, initImage, panel.referenceStrength ?? 0.7);
-          } else if (activeProject.imageProvider === 'leonardo' && activeProject.leonardoApiKey) {
-            url = await generateLeonardoImage(fullPrompt, panel.aspectRatio, activeProject.leonardoApiKey, initImage, panel.referenceStrength ?? 0.7);
-          } else if (activeProject.imageProvider === 'grok' && activeProject.grokApiKey) {
-            url = await generateGrokImage(fullPrompt, panel.aspectRatio, activeProject.grokApiKey, initImage, panel.referenceStrength ?? 0.7);
-          } else if (activeProject.imageProvider === 'fal' && activeProject.falApiKey) {
-            url = await generateFalFlux(fullPrompt, panel.aspectRatio, activeProject.falApiKey, activeProject.fluxModel || 'fal-ai/flux-pro', initImage, panel.referenceStrength ?? 0.7);
-          } else if (activeProject.imageProvider === 'seaart' && activeProject.seaartApiKey) {
-            url = await generateSeaArtImage(fullPrompt, panel.aspectRatio, activeProject.seaartApiKey, initImage, panel.referenceStrength ?? 0.7);
-          } else if (activeProject.imageProvider === 'openai' && activeProject.openaiApiKey) {
-            url = await generateOpenAIImage(fullPrompt, panel.aspectRatio, activeProject.openaiApiKey, initImage, panel.referenceStrength ?? 0.7);
-          } else {
-            console.warn(`No API key configured for provider: ${activeProject.imageProvider}`);
-          }
-        } catch (err) { console.error(err); }
-        if (url) {
-          const storedRef = await saveImage(panel.id, url);
-          dispatch({ type: 'UPDATE_PANEL', panelId: panel.id, updates: { imageUrl: storedRef } });
-        }
-        await new Promise(r => setTimeout(r, GENERATION_DELAY_MS));
-      }
-    } catch (e: any) {
-      alert(`Batch Failed: ${e.message}`);
-    } finally { setBatching(false); }
+    if (!activePage || !activeProject) return;
+    if (isBudgetBlocked(activeProject)) return;
+    const panelsToGenerate = getPanelsToGenerate(activePage);
+    if (!(await confirmStorageForGeneration(panelsToGenerate.length))) return;
+    generationQueue.enqueuePanels(activeProject, activePage, panelsToGenerate);
   };
 
   const handleGenerateAll = async () => {
-    if (!activePage || !activeProject || !imageGeneration) return;
+    if (!activePage || !activeProject) return;
     
-    // Get panels that need generation (have prompt, no image)
-    const panelsToGenerate = activePage.panels.filter(
-      panel => (panel.prompt?.trim() || panel.characterIds.length > 0) && !panel.imageUrl
-    );
+    const panelsToGenerate = getPanelsToGenerate(activePage);
     
     if (panelsToGenerate.length === 0) {
       alert('No panels to generate. All panels either have images or lack prompts.');
       return;
     }
     
-    setIsGeneratingAll(true);
-    setTotalPanels(panelsToGenerate.length);
-    cancelGenerationRef.current = false;
-    
-    for (let i = 0; i < panelsToGenerate.length; i++) {
-      if (cancelGenerationRef.current) {
-        console.log('Generation cancelled by user');
-        break;
-      }
-      
-      setCurrentPanel(i + 1);
-      const panel = panelsToGenerate[i];
-      
-      try {
-        // Get active characters for this panel
-        const activeChars = activeProject.characters.filter(c => panel.characterIds.includes(c.id));
-        
-        // Get reference image if set
-        let initImage: string | undefined;
-        if (panel.referencePanelId) {
-          const refPanel = activePage.panels.find(p => p.id === panel.referencePanelId);
-          if (refPanel?.imageUrl) {
-            const id = refPanel.imageUrl.startsWith('idb://') ? refPanel.imageUrl.slice(6) : null;
-            if (id) initImage = await getImage(id) || undefined;
-          }
-        }
-        
-        // Use the shared hook to generate
-        const url = await imageGeneration.generateImage(
-          panel.prompt || '',
-          panel.aspectRatio,
-          activeChars,
-          initImage,
-          panel.referenceStrength ?? 0.7
-        );
-        
-        if (url) {
-          const storedRef = await saveImage(panel.id, url);
-          dispatch({ type: 'UPDATE_PANEL', panelId: panel.id, updates: { imageUrl: storedRef } });
-        }
-        
-        // Delay between generations (same as AUTO-INK)
-        await new Promise(r => setTimeout(r, GENERATION_DELAY_MS));
-        
-      } catch (err) {
-        console.error(`Failed to generate panel ${i + 1}:`, err);
-        // Continue to next panel instead of stopping
-      }
-    }
-    
-    setIsGeneratingAll(false);
-    setCurrentPanel(0);
-    setTotalPanels(0);
+    if (isBudgetBlocked(activeProject)) return;
+    if (!(await confirmStorageForGeneration(panelsToGenerate.length))) return;
+    generationQueue.enqueuePanels(activeProject, activePage, panelsToGenerate);
   };
 
   // Page navigation handlers for spread view
@@ -735,9 +498,72 @@ function AppContent() {
     </div>
 
     <div className="flex items-center gap-4">
+      {activeRole !== 'owner' && (
+        <span
+          className={`font-mono text-[10px] px-3 py-1.5 tracking-widest uppercase rounded-full border ${showGutters ? 'bg-white border-gray-300 text-gray-600' : 'bg-ink-900 border-ember-500/40 text-ember-500'}`}
+          title={ROLE_DESCRIPTIONS[activeRole]}
+        >
+          {ROLE_LABELS[activeRole]}
+        </span>
+      )}
+      {collaboration.available && (
+        <div className="relative">
+          <button
+            onClick={() => setShowCollaborationPanel(!showCollaborationPanel)}
+            className={`font-mono text-[10px] px-3 py-1.5 tracking-widest uppercase rounded-full border flex items-center gap-2 transition-colors ${showGutters ? 'bg-white border-gray-300 text-gray-600 hover:text-black' : 'bg-ink-900 border-ink-700 text-steel-400 hover:text-ember-500'}`}
+            title="Live session"
+          >
+            <Users size={12} className={collaboration.status === 'live' ? 'text-green-400' : collaboration.status === 'error' ? 'text-red-400' : ''} />
+            Live
+            {collaboration.peers.map(peer => (
+              <span key={peer.clientId} className="w-2 h-2 rounded-full" style={{ backgroundColor: peer.color }} title={peer.name} />
+            ))}
+          </button>
+          {showCollaborationPanel && (
+            <CollaborationPanel
+              status={collaboration.status}
+              error={collaboration.error}
+              sharedIssueId={collaboration.sharedIssueId}
+              activeIssue={activeIssue}
+              projects={state.projects}
+              peers={collaboration.peers}
+              onStart={collaboration.start}
+              onJoin={collaboration.join}
+              onStop={collaboration.stop}
+              onClose={() => setShowCollaborationPanel(false)}
+            />
+          )}
+        </div>
+      )}
+      {generationQueue.jobs.length > 0 && (
+        <div className="relative">
+          <button
+            onClick={() => setShowQueuePanel(!showQueuePanel)}
+            className={`font-mono text-[10px] px-3 py-1.5 tracking-widest uppercase rounded-full border flex items-center gap-2 transition-colors ${showGutters ? 'bg-white border-gray-300 text-gray-600 hover:text-black' : 'bg-ink-900 border-ink-700 text-steel-400 hover:text-ember-500'}`}
+            title="Generation queue"
+          >
+            {isGeneratingAll && <Loader2 size={12} className="animate-spin" />}
+            Queue {generationQueue.activeCount}
+            {generationQueue.failedJobs.length > 0 && (
+              <span className="px-1.5 rounded-full bg-red-600 text-white font-bold">{generationQueue.failedJobs.length}</span>
+            )}
+          </button>
+          {showQueuePanel && (
+            <GenerationQueuePanel
+              jobs={generationQueue.jobs}
+              projects={state.projects}
+              onRetry={generationQueue.retryJob}
+              onDismiss={generationQueue.dismissJob}
+              onClearFailed={generationQueue.clearFailed}
+              onCancelPending={generationQueue.cancelPending}
+              onClose={() => setShowQueuePanel(false)}
+            />
+          )}
+        </div>
+      )}
       {user && (
         <div className="flex items-center gap-3">
-          <SyncIndicator status={syncStatus} />
+          <SyncIndicator status={syncStatus} imageProgress={imageProgress} />
           <button
             onClick={signOut}
             className={`text-[10px] font-mono uppercase tracking-widest transition-colors ${
@@ -879,11 +705,13 @@ function AppContent() {
       <div className={`px-4 py-2 text-[9px] font-mono uppercase tracking-widest ${showGutters ? 'text-gray-400 border-y border-gray-200' : 'text-steel-600 border-y border-ink-800'}`}>PDF</div>
       <button onClick={handleExportPagePDF} className={`w-full text-left px-4 py-2.5 text-xs font-mono transition-colors uppercase tracking-widest flex items-center gap-3 ${showGutters ? 'text-gray-700 hover:bg-gray-100' : 'text-steel-300 hover:bg-ember-500 hover:text-ink-950'}`}><FileImage size={14} /><span>PDF Page</span></button>
       <button onClick={handleExportIssuePDF} className={`w-full text-left px-4 py-2.5 text-xs font-mono transition-colors uppercase tracking-widest flex items-center gap-3 ${showGutters ? 'text-gray-700 hover:bg-gray-100' : 'text-steel-300 hover:bg-ember-500 hover:text-ink-950'}`}><FileImage size={14} /><span>PDF Issue</span></button>
+      <div className={`px-4 py-2 text-[9px] font-mono uppercase tracking-widest ${showGutters ? 'text-gray-400 border-y border-gray-200' : 'text-steel-600 border-y border-ink-800'}`}>Script</div>
+      <button onClick={handleExportFountain} className={`w-full text-left px-4 py-2.5 text-xs font-mono transition-colors uppercase tracking-widest flex items-center gap-3 ${showGutters ? 'text-gray-700 hover:bg-gray-100' : 'text-steel-300 hover:bg-ember-500 hover:text-ink-950'}`}><FileText size={14} /><span>Fountain Script</span></button>
       </div>
     )}
     </div>
-    <button disabled={batching || !activePage?.panels.length} onClick={generatePage} className={`font-mono text-xs px-4 py-2 tracking-widest transition-all rounded-full border flex items-center gap-3 disabled:opacity-20 active:scale-95 shadow-lg ${showGutters ? 'bg-white border-black text-black hover:bg-gray-100' : 'bg-ink-800 border-ink-700 text-steel-200 hover:bg-ink-700'}`}>
-    {batching ? <Icons.Loader /> : <Icons.Magic />}{batching ? `INKING WITH ${(activeProject?.imageProvider || 'AI').toUpperCase()}...` : 'AUTO-INK'}
+    <button disabled={isGeneratingAll || !activePage?.panels.length} onClick={generatePage} className={`font-mono text-xs px-4 py-2 tracking-widest transition-all rounded-full border flex items-center gap-3 disabled:opacity-20 active:scale-95 shadow-lg ${showGutters ? 'bg-white border-black text-black hover:bg-gray-100' : 'bg-ink-800 border-ink-700 text-steel-200 hover:bg-ink-700'}`}>
+    {isGeneratingAll ? <Icons.Loader /> : <Icons.Magic />}{isGeneratingAll ? `INKING WITH ${(activeProject?.imageProvider || 'AI').toUpperCase()}...` : 'AUTO-INK'}
     </button>
     {/* Generate All Button */}
     {activePage && activePage.panels.some(panel => (panel.prompt?.trim() || panel.characterIds.length > 0) && !panel.imageUrl) && (
@@ -893,13 +721,13 @@ function AppContent() {
             provider={activeProject.imageProvider}
             current={currentPanel}
             total={totalPanels}
-            onCancel={() => { cancelGenerationRef.current = true; }}
+            onCancel={generationQueue.cancelPending}
           />
         ) : (
           <>
             <button
               onClick={handleGenerateAll}
-              disabled={isGeneratingAll || batching}
+              disabled={isGeneratingAll}
               className={`font-mono text-xs px-4 py-2 tracking-widest transition-all rounded-full border flex items-center gap-3 disabled:opacity-20 active:scale-95 shadow-lg ${showGutters ? 'bg-white border-black text-black hover:bg-gray-100' : 'bg-ink-800 border-ink-700 text-steel-200 hover:bg-ink-700'}`}
             >
               <Sparkles className="w-4 h-4" />
@@ -989,6 +817,24 @@ function AppContent() {
       <Users size={16} />
       CHARACTERS
     </button>
+    {/* Location Bank */}
+    <button
+      onClick={() => setShowLocationBank(true)}
+      className={`font-mono text-xs px-4 py-2 tracking-widest transition-all rounded-full border flex items-center gap-2 active:scale-95 shadow-lg ${showGutters ? 'bg-white border-black text-black hover:bg-gray-100' : 'bg-ink-800 border-ink-700 text-steel-200 hover:bg-ink-700'}`}
+      title="Manage locations"
+    >
+      <MapPin size={16} />
+      LOCATIONS
+    </button>
+    {/* Props and continuity report */}
+    <button
+      onClick={() => setShowPropBank(true)}
+      className={`font-mono text-xs px-4 py-2 tracking-widest transition-all rounded-full border flex items-center gap-2 active:scale-95 shadow-lg ${showGutters ? 'bg-white border-black text-black hover:bg-gray-100' : 'bg-ink-800 border-ink-700 text-steel-200 hover:bg-ink-700'}`}
+      title="Manage props and check their continuity"
+    >
+      <Package size={16} />
+      PROPS
+    </button>
     {/* Read-through Mode */}
     {(() => {
       const totalIssuePanels = activeIssue?.pages.reduce((sum, p) => sum + p.panels.length, 0) || 0;
@@ -1067,6 +913,7 @@ function AppContent() {
               setSelectedPanelId={setSelectedPanelId}
               copiedPanelSettings={copiedPanelSettings}
               setCopiedPanelSettings={setCopiedPanelSettings}
+              peerSelections={peerSelections}
               />
             ) : (
               <ZoomableCanvas
@@ -1084,6 +931,7 @@ function AppContent() {
               setSelectedPanelId={setSelectedPanelId}
               copiedPanelSettings={copiedPanelSettings}
               setCopiedPanelSettings={setCopiedPanelSettings}
+              peerSelections={peerSelections}
               />
             )}
             </TransformComponent>
@@ -1110,6 +958,7 @@ function AppContent() {
             setSelectedPanelId={setSelectedPanelId}
             copiedPanelSettings={copiedPanelSettings}
             setCopiedPanelSettings={setCopiedPanelSettings}
+            peerSelections={peerSelections}
             />
           ) : (
             <ZoomableCanvas
@@ -1127,6 +976,7 @@ function AppContent() {
             setSelectedPanelId={setSelectedPanelId}
             copiedPanelSettings={copiedPanelSettings}
             setCopiedPanelSettings={setCopiedPanelSettings}
+            peerSelections={peerSelections}
             />
           )}
           </TransformComponent>
@@ -1136,7 +986,7 @@ function AppContent() {
         <div className={`absolute bottom-8 left-1/2 -translate-x-1/2 border border-white/10 rounded-full px-8 py-4 flex items-center gap-10 shadow-2xl z-[400] transition-all ${showGutters ? 'bg-white border-black text-black' : 'bg-ink-900/95 backdrop-blur-2xl text-steel-400'}`}>
         <div className="flex items-center gap-4">
         <StatusBarIndicator
-          batching={batching}
+          batching={isGeneratingAll}
           exporting={exporting}
           isGeneratingAll={isGeneratingAll}
           provider={activeProject?.imageProvider}
@@ -1202,15 +1052,51 @@ function AppContent() {
     </main>
     </TransformWrapper>
 
-    {projectsOpen && <ProjectHub state={state} dispatch={dispatch} onClose={() => setProjectsOpen(false)} />}
+    {projectsOpen && <ProjectHub state={state} dispatch={dispatch} onClose={() => setProjectsOpen(false)} onOpenStorage={() => setShowStorageManager(true)} onOpenUsage={() => setShowUsageDashboard(true)} onInviteAccepted={reloadCloud} />}
+    {showStorageManager && <StorageManagerModal state={state} historyStates={historyStates} onClose={() => setShowStorageManager(false)} />}
+    {showUsageDashboard && <UsageDashboardModal state={state} dispatch={dispatch} onClose={() => setShowUsageDashboard(false)} />}
     {showScriptImport && activeProject && <ScriptImportModal project={activeProject} onClose={() => setShowScriptImport(false)} onImport={handleScriptImport} />}
+    {syncConflicts.length > 0 && (
+      <SyncConflictModal
+        key={syncConflicts[0].merge.local.id}
+        conflict={syncConflicts[0]}
+        remaining={syncConflicts.length}
+        onResolve={resolveConflict}
+      />
+    )}
+    {printScope && activeProject && activeIssue && (
+      <PrintExportModal
+        project={activeProject}
+        pages={printScope === 'page' && activePage ? [activePage] : activeIssue.pages}
+        fileName={printScope === 'page' && activePage ? `Page_${activePage.number}` : activeIssue.title.replace(/\s+/g, '_')}
+        dispatch={dispatch}
+        onClose={() => setPrintScope(null)}
+      />
+    )}
     {showCharacterBank && activeProject && (
       <CharacterBank 
+        project={activeProject}
         characters={activeProject.characters} 
         dispatch={dispatch} 
         onClose={() => setShowCharacterBank(false)} 
       />
     )}
+    {showLocationBank && activeProject && (
+      <LocationBank
+        project={activeProject}
+        locations={activeProject.locations || []}
+        dispatch={dispatch}
+        onClose={() => setShowLocationBank(false)}
+      />
+    )}
+    {showPropBank && activeProject && (
+      <PropBank
+        project={activeProject}
+        props={activeProject.props || []}
+        dispatch={dispatch}
+        onClose={() => setShowPropBank(false)}
+      />
+    )}
     
     {/* Side-by-side Script Panel */}
     {showScriptPanel && activeIssue?.scriptText && (
@@ -1228,10 +1114,10 @@ function AppContent() {
     )}
 
     {/* Cinematic Presentation Mode */}
-    {showReadThrough && activeIssue && activeIssue.pages.some(p => p.panels.length > 0) && (
+    {isPresenting && activeIssue && activeIssue.pages.some(p => p.panels.length > 0) && (
       <PresentMode
         issue={activeIssue}
-        onClose={() => setShowReadThrough(false)}
+        onClose={() => { setShowReadThrough(false); setViewerDismissedIssueId(state.activeIssueId); }}
         textOverlayStyle={activeProject?.textOverlayStyle || 'opaque'}
       />
     )}
@@ -1256,7 +1142,7 @@ export default App;
 function ZoomableCanvas({
   activePage, activeProject, dispatch, sensors, handleDragStart, handleDragEnd,
   activeId, activePanelForOverlay, showGutters, zoomEnabled,
-  selectedPanelId, setSelectedPanelId, copiedPanelSettings, setCopiedPanelSettings
+  selectedPanelId, setSelectedPanelId, copiedPanelSettings, setCopiedPanelSettings, peerSelections
 }: any) {
   const { state: transformState } = useTransformContext() as any;
   const scale = transformState?.scale || 1;
@@ -1313,6 +1199,7 @@ function ZoomableCanvas({
         activePage={activePage}
         isDragging={activeId === panel.id}
         isSelected={selectedPanelId === panel.id}
+        collaborators={peerSelections[panel.id]}
         onSelect={() => setSelectedPanelId(panel.id)}
         copiedSettings={copiedPanelSettings}
         onCopySettings={() => setCopiedPanelSettings({ aspectRatio: panel.aspectRatio, characterIds: panel.characterIds })}
@@ -1345,7 +1232,7 @@ function SpreadCanvas({
   activePage, activeProject, dispatch, sensors, handleDragStart, handleDragEnd,
   activeId, activePanelForOverlay, showGutters, zoomEnabled,
   selectedPanelId, setSelectedPanelId, copiedPanelSettings, setCopiedPanelSettings,
-  activeIssue
+  activeIssue, peerSelections
 }: CanvasProps) {
   const { state: transformState } = useTransformContext() as any;
   const scale = transformState?.scale || 1;
@@ -1427,6 +1314,7 @@ function SpreadCanvas({
                   activePage={page}
                   isDragging={activeId === panel.id}
                   isSelected={selectedPanelId === panel.id}
+                  collaborators={peerSelections[panel.id]}
                   onSelect={() => setSelectedPanelId(panel.id)}
                   copiedSettings={copiedPanelSettings}
                   onCopySettings={() => setCopiedPanelSettings({ aspectRatio: panel.aspectRatio, characterIds: panel.characterIds })}
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { Lock } from 'lucide-react';
+import { ImageProvider } from '../types';
+import { getProviderAdapter } from '../services/imageProviders';
+import { createVault, lockVault, resetVault, setApiKey, unlockVault } from '../services/keyVault';
+import { hasServerKey } from '../services/generationProxy';
+import { useKeyVault } from '../hooks/useKeyVault';
+
+interface ApiKeyInputProps {
+    provider: ImageProvider;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const inputClass = 'flex-1 min-w-0 bg-ink-950 border border-ink-700 rounded-lg px-3 py-2 text-[10px] text-steel-300 focus:border-ember-500 outline-none';
+const buttonClass = 'bg-ember-500 hover:bg-ember-400 disabled:opacity-50 text-ink-950 px-4 rounded-lg text-[9px] transition-colors font-bold';
+
+/**
+ * Key entry for one provider. Keys are saved to the user's encrypted key vault,
+ * so the vault is created or unlocked here first.
+ */
+const ApiKeyInput: React.FC<ApiKeyInputProps> = ({ provider }) => {
+    const vault = useKeyVault();
+    const adapter = getProviderAdapter(provider);
+    const savedKey = vault.keys[provider] || '';
+
+    const [passphrase, setPassphrase] = useState('');
+    const [draft, setDraft] = useState<{ provider: ImageProvider; value: string } | null>(null);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [serverKeyProvider, setServerKeyProvider] = useState<ImageProvider | null>(null);
+
+    // The deployment may hold a key for this provider, so users don't need their own
+    useEffect(() => {
+        hasServerKey(provider).then(available => setServerKeyProvider(available ? provider : null));
+    }, [provider]);
+
+    const serverKey = serverKeyProvider === provider;
+
+    const keyValue = draft?.provider === provider ? draft.value : savedKey;
+
+    const run = async (task: () => Promise<void>) => {
+        setBusy(true);
+        setError(null);
+        try {
+            await task();
+            return true;
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+            return false;
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handlePassphrase = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (vault.status === 'empty' && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+            setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+            return;
+        }
+        const task = vault.status === 'empty' ? () => createVault(passphrase) : () => unlockVault(passphrase);
+        if (await run(task)) setPassphrase('');
+    };
+
+    const handleSaveKey = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (await run(() => setApiKey(provider, keyValue))) setDraft(null);
+    };
+
+    const handleReset = () => {
+        if (confirm('Delete your key vault and every API key in it? You will need to enter your keys again.')) {
+            resetVault();
+            setError(null);
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            <label className="text-[9px] font-mono text-steel-500 uppercase flex justify-between items-center">
+                <span>{adapter.label} Key</span>
+                <span className="flex items-center gap-2">
+                    {!savedKey && (serverKey
+                        ? <span className="text-green-500 font-bold text-[8px]" title="Generation uses the key held by this deployment">SERVER KEY</span>
+                        : <span className="text-red-500 font-bold animate-pulse text-[8px]">REQUIRED</span>)}
+                    {vault.status === 'unlocked' && (
+                        <button type="button" onClick={lockVault} className="text-steel-600 hover:text-steel-300 transition-colors" title="Lock key vault">
+                            <Lock size={10} />
+                        </button>
+                    )}
+                </span>
+            </label>
+
+            {vault.status === 'unlocked' ? (
+                <form onSubmit={handleSaveKey} className="flex gap-1">
+                    <input
+                        type="password"
+                        placeholder="Enter API Key..."
+                        value={keyValue}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraft({ provider, value: e.target.value })}
+                        className={inputClass}
+                    />
+                    <button type="submit" disabled={busy || keyValue.trim() === savedKey} className={buttonClass}>
+                        SET
+                    </button>
+                </form>
+            ) : (
+                <form onSubmit={handlePassphrase} className="space-y-1">
+                    <p className="text-[9px] text-steel-500">
+                        {vault.status === 'empty'
+                            ? 'Choose a passphrase for your key vault. API keys are encrypted with it and never saved with projects.'
+                            : 'Enter your passphrase to unlock your API keys.'}
+                        {vault.pendingProviders.length > 0 && ` Your ${vault.pendingProviders.map(id => getProviderAdapter(id).label).join(', ')} key from an earlier version is added to it then, and can't be used before.`}
+                    </p>
+                    <div className="flex gap-1">
+                        <input
+                            type="password"
+                            placeholder="Passphrase..."
+                            value={passphrase}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassphrase(e.target.value)}
+                            className={inputClass}
+                        />
+                        <button type="submit" disabled={busy || !passphrase} className={buttonClass}>
+                            {vault.status === 'empty' ? 'CREATE' : 'UNLOCK'}
+                        </button>
+                    </div>
+                    {vault.status === 'locked' && (
+                        <button type="button" onClick={handleReset} className="text-[8px] text-steel-600 hover:text-red-400 transition-colors">
+                            Forgot passphrase? Reset vault
+                        </button>
+                    )}
+                </form>
+            )}
+
+            {serverKey && !savedKey && (
+                <p className="text-[9px] text-steel-500">This deployment has a {adapter.label} key, so you can generate without your own.</p>
+            )}
+
+            {error && <p className="text-[9px] font-mono text-red-400">{error}</p>}
+
+            <a
+                href={adapter.apiKeyUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block text-[8px] text-steel-600 italic hover:underline hover:text-steel-400 cursor-pointer transition-colors"
+            >
+                {adapter.apiKeyHint}
+            </a>
+        </div>
+    );
+};
+
+export default ApiKeyInput;
@@ -1,11 +1,16 @@
-import React, { useState } from 'react';
-import { X, Plus, Edit2, Trash2, User, ChevronDown, ChevronUp, Save } from 'lucide-react';
-import { Character } from '../types';
+import React, { useRef, useState } from 'react';
+import { X, Plus, Edit2, Trash2, User, ChevronDown, ChevronUp, Save, Upload, Sparkles, Loader2 } from 'lucide-react';
+import { Character, Project, WardrobeVariant } from '../types';
 import { Action } from '../state/actions';
 import { genId } from '../utils/helpers';
+import { getProviderAdapter } from '../services/imageProviders';
+import { MAX_REFERENCE_IMAGES, saveReferenceImage } from '../services/characterReferences';
+import { generateCharacterSheet } from '../hooks/useImageGeneration';
 import EmptyState from './EmptyState';
+import { ReferenceThumbnail } from './ReferenceThumbnail';
 
 interface Props {
+    project: Project;
     characters: Character[];
     dispatch: React.Dispatch<Action>;
     onClose: () => void;
@@ -13,8 +18,10 @@ interface Props {
 
 interface CharacterFormData {
     name: string;
+    aliases: string;    // Comma-separated
     description: string;
     appearance: NonNullable<Character['appearance']>;
+    wardrobe: WardrobeVariant[];
 }
 
 const emptyAppearance: NonNullable<Character['appearance']> = {
@@ -36,11 +43,13 @@ const emptyAppearance: NonNullable<Character['appearance']> = {
 
 const emptyForm: CharacterFormData = {
     name: '',
+    aliases: '',
     description: '',
     appearance: { ...emptyAppearance },
+    wardrobe: [],
 };
 
-export function CharacterBank({ characters, dispatch, onClose }: Props) {
+export function CharacterBank({ project, characters, dispatch, onClose }: Props) {
     const [editingId, setEditingId] = useState<string | null>(null);
     const [isAdding, setIsAdding] = useState(false);
     const [expandedId, setExpandedId] = useState<string | null>(null);
@@ -57,8 +66,10 @@ export function CharacterBank({ characters, dispatch, onClose }: Props) {
         setIsAdding(false);
         setFormData({
             name: char.name,
+            aliases: (char.aliases || []).join(', '),
             description: char.description,
             appearance: char.appearance ? { ...emptyAppearance, ...char.appearance } : { ...emptyAppearance },
+            wardrobe: char.wardrobe || [],
         });
     };
 
@@ -74,13 +85,19 @@ export function CharacterBank({ characters, dispatch, onClose }: Props) {
         // Build a simple description from appearance if no description provided
         const autoDescription = buildDescriptionFromAppearance(formData.appearance);
         const finalDescription = formData.description.trim() || autoDescription;
+        const wardrobe = formData.wardrobe
+            .filter(variant => variant.name.trim())
+            .map(variant => ({ ...variant, name: variant.name.trim() }));
+        const aliases = formData.aliases.split(',').map(alias => alias.trim()).filter(Boolean);
 
         if (isAdding) {
             dispatch({
                 type: 'ADD_CHARACTER',
                 name: formData.name.trim(),
+                aliases,
                 description: finalDescription,
                 appearance: formData.appearance,
+                wardrobe,
             });
         } else if (editingId) {
             dispatch({
@@ -88,8 +105,10 @@ export function CharacterBank({ characters, dispatch, onClose }: Props) {
                 id: editingId,
                 updates: {
                     name: formData.name.trim(),
+                    aliases,
                     description: finalDescription,
                     appearance: formData.appearance,
+                    wardrobe,
                 },
             });
         }
@@ -109,6 +128,21 @@ export function CharacterBank({ characters, dispatch, onClose }: Props) {
         }));
     };
 
+    const updateVariant = (id: string, updates: Partial<WardrobeVariant>) => {
+        setFormData(prev => ({
+            ...prev,
+            wardrobe: prev.wardrobe.map(variant => variant.id === id ? { ...variant, ...updates } : variant),
+        }));
+    };
+
+    const addVariant = () => {
+        setFormData(prev => ({ ...prev, wardrobe: [...prev.wardrobe, { id: genId(), name: '', clothing: '', accessories: '' }] }));
+    };
+
+    const removeVariant = (id: string) => {
+        setFormData(prev => ({ ...prev, wardrobe: prev.wardrobe.filter(variant => variant.id !== id) }));
+    };
+
     return (
         <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-[600] flex items-center justify-center p-4">
             <div className="bg-ink-950 border border-ink-800 rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col">
@@ -170,6 +204,18 @@ export function CharacterBank({ characters, dispatch, onClose }: Props) {
                                 </div>
                             </div>
 
+                            <div>
+                                <label className="block text-[10px] font-mono text-steel-500 uppercase mb-1">Aliases & Nicknames</label>
+                                <input
+                                    type="text"
+                                    value={formData.aliases}
+                                    onChange={(e) => setFormData(prev => ({ ...prev, aliases: e.target.value }))}
+                                    placeholder="e.g., Eli, The Kid (comma-separated)"
+                                    className="w-full px-3 py-2 bg-ink-950 border border-ink-700 rounded-lg text-steel-200 text-sm placeholder:text-steel-700 focus:outline-none focus:border-ember-500"
+                                />
+                                <p className="mt-1 text-[10px] text-steel-600">Other names the script uses, so panels naming them link to this character.</p>
+                            </div>
+
                             {/* Appearance fields */}
                             <div className="space-y-3">
                                 <p className="text-[10px] font-mono text-steel-500 uppercase">Physical Appearance</p>
@@ -199,6 +245,37 @@ export function CharacterBank({ characters, dispatch, onClose }: Props) {
                                 <AppearanceField label="Additional Notes" value={formData.appearance.additionalNotes || ''} onChange={(v) => updateAppearance('additionalNotes', v)} placeholder="e.g., always looks tired, nervous energy" />
                             </div>
 
+                            {/* Wardrobe variants */}
+                            <div className="space-y-3">
+                                <div className="flex items-center justify-between">
+                                    <p className="text-[10px] font-mono text-steel-500 uppercase">Wardrobe</p>
+                                    <button
+                                        onClick={addVariant}
+                                        className="flex items-center gap-1 text-[10px] font-mono text-steel-500 hover:text-ember-500 uppercase transition-colors"
+                                    >
+                                        <Plus size={12} />
+                                        Add Outfit
+                                    </button>
+                                </div>
+                                {formData.wardrobe.length === 0 && (
+                                    <p className="text-xs text-steel-600">Named outfits replace the typical clothing and accessories on the issues, pages or panels that pick them.</p>
+                                )}
+                                {formData.wardrobe.map(variant => (
+                                    <div key={variant.id} className="grid grid-cols-[1fr_2fr_2fr_auto] gap-2 items-end">
+                                        <AppearanceField label="Outfit Name" value={variant.name} onChange={(v) => updateVariant(variant.id, { name: v })} placeholder="e.g., winter coat" />
+                                        <AppearanceField label="Clothing" value={variant.clothing} onChange={(v) => updateVariant(variant.id, { clothing: v })} placeholder="e.g., long wool coat, scarf" />
+                                        <AppearanceField label="Accessories" value={variant.accessories || ''} onChange={(v) => updateVariant(variant.id, { accessories: v })} placeholder="e.g., leather gloves" />
+                                        <button
+                                            onClick={() => removeVariant(variant.id)}
+                                            className="p-2 text-steel-500 hover:text-red-500 transition-colors"
+                                            title="Remove outfit"
+                                        >
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+
                             {/* Action buttons */}
                             <div className="flex gap-2 pt-2">
                                 <button
@@ -244,6 +321,7 @@ export function CharacterBank({ characters, dispatch, onClose }: Props) {
                                         <div className="flex-1 min-w-0">
                                             <p className="font-bold text-steel-200 truncate">{char.name}</p>
                                             <p className="text-xs text-steel-500 truncate">{char.description || 'No description'}</p>
+                                            {char.aliases?.length ? <p className="text-[10px] text-steel-600 truncate">aka {char.aliases.join(', ')}</p> : null}
                                         </div>
                                         <div className="flex items-center gap-1">
                                             <button
@@ -271,25 +349,28 @@ export function CharacterBank({ characters, dispatch, onClose }: Props) {
                                     </div>
 
                                     {/* Expanded appearance details */}
-                                    {expandedId === char.id && char.appearance && (
-                                        <div className="px-3 pb-3 pt-0">
-                                            <div className="bg-ink-950 rounded-lg p-3 text-xs space-y-1">
-                                                <p className="font-mono text-[10px] text-steel-600 uppercase mb-2">Appearance Details</p>
-                                                {char.appearance.age && <DetailRow label="Age" value={char.appearance.age} />}
-                                                {char.appearance.gender && <DetailRow label="Gender" value={char.appearance.gender} />}
-                                                {char.appearance.ethnicity && <DetailRow label="Ethnicity" value={char.appearance.ethnicity} />}
-                                                {char.appearance.height && <DetailRow label="Height" value={char.appearance.height} />}
-                                                {char.appearance.build && <DetailRow label="Build" value={char.appearance.build} />}
-                                                {char.appearance.skinTone && <DetailRow label="Skin Tone" value={char.appearance.skinTone} />}
-                                                {char.appearance.hairColor && <DetailRow label="Hair Color" value={char.appearance.hairColor} />}
-                                                {char.appearance.hairStyle && <DetailRow label="Hair Style" value={char.appearance.hairStyle} />}
-                                                {char.appearance.eyeColor && <DetailRow label="Eye Color" value={char.appearance.eyeColor} />}
-                                                {char.appearance.facialFeatures && <DetailRow label="Facial Features" value={char.appearance.facialFeatures} />}
-                                                {char.appearance.distinguishingMarks && <DetailRow label="Marks" value={char.appearance.distinguishingMarks} />}
-                                                {char.appearance.clothing && <DetailRow label="Clothing" value={char.appearance.clothing} />}
-                                                {char.appearance.accessories && <DetailRow label="Accessories" value={char.appearance.accessories} />}
-                                                {char.appearance.additionalNotes && <DetailRow label="Notes" value={char.appearance.additionalNotes} />}
-                                            </div>
+                                    {expandedId === char.id && (
+                                        <div className="px-3 pb-3 pt-0 space-y-2">
+                                            <ReferenceSheets project={project} character={char} dispatch={dispatch} />
+                                            {char.appearance && (
+                                                <div className="bg-ink-950 rounded-lg p-3 text-xs space-y-1">
+                                                    <p className="font-mono text-[10px] text-steel-600 uppercase mb-2">Appearance Details</p>
+                                                    {char.appearance.age && <DetailRow label="Age" value={char.appearance.age} />}
+                                                    {char.appearance.gender && <DetailRow label="Gender" value={char.appearance.gender} />}
+                                                    {char.appearance.ethnicity && <DetailRow label="Ethnicity" value={char.appearance.ethnicity} />}
+                                                    {char.appearance.height && <DetailRow label="Height" value={char.appearance.height} />}
+                                                    {char.appearance.build && <DetailRow label="Build" value={char.appearance.build} />}
+                                                    {char.appearance.skinTone && <DetailRow label="Skin Tone" value={char.appearance.skinTone} />}
+                                                    {char.appearance.hairColor && <DetailRow label="Hair Color" value={char.appearance.hairColor} />}
+                                                    {char.appearance.hairStyle && <DetailRow label="Hair Style" value={char.appearance.hairStyle} />}
+                                                    {char.appearance.eyeColor && <DetailRow label="Eye Color" value={char.appearance.eyeColor} />}
+                                                    {char.appearance.facialFeatures && <DetailRow label="Facial Features" value={char.appearance.facialFeatures} />}
+                                                    {char.appearance.distinguishingMarks && <DetailRow label="Marks" value={char.appearance.distinguishingMarks} />}
+                                                    {char.appearance.clothing && <DetailRow label="Clothing" value={char.appearance.clothing} />}
+                                                    {char.appearance.accessories && <DetailRow label="Accessories" value={char.appearance.accessories} />}
+                                                    {char.appearance.additionalNotes && <DetailRow label="Notes" value={char.appearance.additionalNotes} />}
+                                                </div>
+                                            )}
                                         </div>
                                     )}
                                 </div>
@@ -309,6 +390,83 @@ export function CharacterBank({ characters, dispatch, onClose }: Props) {
     );
 }
 
+function ReferenceSheets({ project, character, dispatch }: {
+    project: Project;
+    character: Character;
+    dispatch: React.Dispatch<Action>;
+}) {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const references = character.referenceImages || [];
+    const isFull = references.length >= MAX_REFERENCE_IMAGES;
+    const { label, capabilities } = getProviderAdapter(project.imageProvider);
+
+    const setReferences = (referenceImages: string[]) => {
+        dispatch({ type: 'UPDATE_CHARACTER', id: character.id, updates: { referenceImages } });
+    };
+
+    const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            setReferences([...references, await saveReferenceImage(file)]);
+        } catch (error) {
+            alert(`Couldn't save the reference image: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
+    const handleGenerate = async () => {
+        setIsGenerating(true);
+        try {
+            setReferences([...references, await generateCharacterSheet(project, character)]);
+        } catch (error) {
+            alert(`Turnaround sheet failed: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    return (
+        <div className="bg-ink-950 rounded-lg p-3 text-xs space-y-2">
+            <div className="flex items-center justify-between">
+                <p className="font-mono text-[10px] text-steel-600 uppercase">Reference Sheets</p>
+                <div className="flex items-center gap-1">
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isFull}
+                        className="p-1.5 text-steel-500 hover:text-ember-500 disabled:opacity-30 transition-colors"
+                        title="Upload reference image"
+                    >
+                        <Upload size={14} />
+                    </button>
+                    <button
+                        onClick={handleGenerate}
+                        disabled={isFull || isGenerating}
+                        className="p-1.5 text-steel-500 hover:text-ember-500 disabled:opacity-30 transition-colors"
+                        title="Generate turnaround sheet"
+                    >
+                        {isGenerating ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+                    </button>
+                    <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleUpload} />
+                </div>
+            </div>
+            {references.length > 0 ? (
+                <div className="grid grid-cols-4 gap-2">
+                    {references.map(url => (
+                        <ReferenceThumbnail key={url} url={url} alt="Character reference" onRemove={() => setReferences(references.filter(r => r !== url))} />
+                    ))}
+                </div>
+            ) : (
+                <p className="text-steel-600">Upload or generate a turnaround sheet to keep this character's face consistent.</p>
+            )}
+            {references.length > 0 && capabilities.referenceImages === 0 && (
+                <p className="text-steel-600">{label} can't take reference images; switch to Gemini, FAL or OpenAI to use them.</p>
+            )}
+        </div>
+    );
+}
+
 function AppearanceField({ label, value, onChange, placeholder }: { 
     label: string; 
     value: string; 
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { X, Copy, LogOut } from 'lucide-react';
+import { Issue, Project } from '../types';
+import { CollabPresence, describePresence } from '../services/collaboration';
+import { CollabStatus } from '../hooks/useCollaboration';
+
+interface Props {
+    status: CollabStatus;
+    error: string | null;
+    sharedIssueId: string | null;
+    activeIssue: Issue | undefined;
+    projects: Project[];
+    peers: CollabPresence[];
+    onStart: (issueId: string) => void;
+    onJoin: (code: string) => void;
+    onStop: () => void;
+    onClose: () => void;
+}
+
+const STATUS_LABELS: Record<CollabStatus, string> = {
+    off: 'Not sharing',
+    connecting: 'Connecting...',
+    live: 'Live',
+    error: 'Connection lost',
+};
+
+/**
+ * Drop-down for starting, joining and leaving a live session, with where
+ * everyone else in it currently is.
+ */
+export function CollaborationPanel({ status, error, sharedIssueId, activeIssue, projects, peers, onStart, onJoin, onStop, onClose }: Props) {
+    const [code, setCode] = useState('');
+    const sharedIssue = projects.flatMap(p => p.issues).find(i => i.id === sharedIssueId);
+
+    return (
+        <div className="absolute top-full right-0 mt-2 w-80 flex flex-col bg-ink-900 border border-ink-700 rounded-2xl shadow-2xl overflow-hidden z-50 animate-fade-in">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-ink-700">
+                <span className="text-[10px] font-mono uppercase tracking-widest text-steel-300 font-bold">Live Session</span>
+                <button onClick={onClose} className="text-steel-500 hover:text-steel-200 transition-colors">
+                    <X size={14} />
+                </button>
+            </div>
+
+            {sharedIssueId ? (
+                <div className="p-4 space-y-3">
+                    <div className="flex items-center justify-between">
+                        <span className="text-[10px] font-mono text-steel-400 truncate">{sharedIssue?.title || 'Waiting for the project...'}</span>
+                        <span className={`text-[9px] font-mono uppercase ${status === 'error' ? 'text-red-400' : status === 'live' ? 'text-green-400' : 'text-steel-500'}`}>
+                            {STATUS_LABELS[status]}
+                        </span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <code className="flex-1 text-[10px] font-mono text-steel-200 bg-ink-950 border border-ink-800 rounded px-2 py-1.5 truncate">{sharedIssueId}</code>
+                        <button
+                            onClick={() => navigator.clipboard?.writeText(sharedIssueId)}
+                            className="text-steel-500 hover:text-ember-500 transition-colors"
+                            title="Copy session code"
+                        >
+                            <Copy size={14} />
+                        </button>
+                    </div>
+
+                    {error && <p className="text-[10px] font-mono text-red-400">{error}</p>}
+
+                    <div className="space-y-1">
+                        {peers.length === 0 ? (
+                            <p className="text-[10px] font-mono text-steel-600">Nobody else is here yet. Share the code above with people on this project.</p>
+                        ) : (
+                            peers.map(peer => (
+                                <div key={peer.clientId} className="flex items-center gap-2 text-[10px] font-mono">
+                                    <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: peer.color }} />
+                                    <span className="text-steel-200 font-bold truncate">{peer.name}</span>
+                                    <span className="text-steel-500 truncate">{describePresence(peer, projects)}</span>
+                                </div>
+                            ))
+                        )}
+                    </div>
+
+                    <button
+                        onClick={onStop}
+                        className="w-full flex items-center justify-center gap-2 text-[10px] font-mono uppercase tracking-widest text-steel-400 hover:text-red-400 border border-ink-700 rounded-lg py-2 transition-colors"
+                    >
+                        <LogOut size={12} /> Leave Session
+                    </button>
+                </div>
+            ) : (
+                <div className="p-4 space-y-4">
+                    <button
+                        onClick={() => activeIssue && onStart(activeIssue.id)}
+                        disabled={!activeIssue}
+                        className="w-full bg-ember-500 hover:bg-ember-400 disabled:opacity-50 text-ink-950 font-bold py-2 rounded-lg uppercase text-xs transition-colors"
+                    >
+                        Share {activeIssue?.title || 'this issue'}
+                    </button>
+                    <form
+                        onSubmit={(e: React.FormEvent) => { e.preventDefault(); if (code.trim()) onJoin(code); }}
+                        className="flex items-center gap-2"
+                    >
+                        <input
+                            value={code}
+                            onChange={e => setCode(e.target.value)}
+                            placeholder="Session code"
+                            className="flex-1 bg-ink-950 border border-ink-700 rounded px-2 py-1.5 text-[10px] font-mono text-steel-200 focus:outline-none focus:border-ember-500"
+                        />
+                        <button type="submit" className="text-[10px] font-mono uppercase tracking-widest text-steel-300 hover:text-ember-500 transition-colors">
+                            Join
+                        </button>
+                    </form>
+                </div>
+            )}
+        </div>
+    );
+}
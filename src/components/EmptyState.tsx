@@ -6,7 +6,7 @@ import React from 'react';
  */
 
 interface EmptyStateProps {
-    variant: 'projects' | 'panels' | 'characters' | 'cast' | 'issues' | 'page-spread';
+    variant: 'projects' | 'panels' | 'characters' | 'cast' | 'locations' | 'issues' | 'page-spread';
     showGutters?: boolean;
     onAction?: () => void;
     actionLabel?: string;
@@ -100,7 +100,7 @@ const VARIANT_CONFIG: Record<EmptyStateProps['variant'], VariantConfig> = {
         title: 'Your stories begin here',
         description: 'Every great comic starts with a blank page. Create your first project to set up your style, characters, and storyboard.',
         tips: [
-            'Each project holds its own art style and API keys',
+            'Each project holds its own art style and image provider',
             'Import a script or build panels from scratch',
             'Characters you define carry across every panel',
         ],
@@ -133,6 +133,17 @@ const VARIANT_CONFIG: Record<EmptyStateProps['variant'], VariantConfig> = {
             'Open Character Bank for detailed appearance fields',
         ],
     },
+    locations: {
+        illustration: IllustrationPanels,
+        title: 'No sets yet',
+        description: 'Describe the places your story returns to so every panel set there looks the same.',
+        tips: [
+            'Importing a script adds a location for each scene heading',
+            'Lighting notes and reference images are sent with the prompt',
+            'Link panels to a location from their More Options',
+        ],
+        actionDefault: 'Add First Location',
+    },
     issues: {
         illustration: IllustrationIssues,
         title: 'No chapters yet',
@@ -0,0 +1,103 @@
+import React from 'react';
+import { X, RotateCcw, Trash2, Loader2, Clock, AlertTriangle } from 'lucide-react';
+import { Project } from '../types';
+import { GenerationJob } from '../services/generationQueue';
+import { getProviderAdapter } from '../services/imageProviders';
+
+interface Props {
+    jobs: GenerationJob[];
+    projects: Project[];
+    onRetry: (jobId: string) => void;
+    onDismiss: (jobId: string) => void;
+    onClearFailed: () => void;
+    onCancelPending: () => void;
+    onClose: () => void;
+}
+
+function describeJob(job: GenerationJob, projects: Project[]): string {
+    const project = projects.find(p => p.id === job.projectId);
+    const page = project?.issues.flatMap(issue => issue.pages).find(pg => pg.id === job.pageId);
+    const panelIndex = page ? page.panels.findIndex(p => p.id === job.panelId) : -1;
+
+    if (!page || panelIndex === -1) return 'Deleted panel';
+    return `Page ${page.number} · Frame ${panelIndex + 1}`;
+}
+
+function formatRetryTime(nextAttemptAt: number): string {
+    const seconds = Math.ceil((nextAttemptAt - Date.now()) / 1000);
+    return seconds > 0 ? `retry in ${seconds}s` : 'queued';
+}
+
+/**
+ * Drop-down list of queued, running and failed generation jobs.
+ * Failed jobs keep the provider's error text so it can be acted on.
+ */
+export function GenerationQueuePanel({ jobs, projects, onRetry, onDismiss, onClearFailed, onCancelPending, onClose }: Props) {
+    const failedCount = jobs.filter(job => job.status === 'failed').length;
+    const pendingCount = jobs.filter(job => job.status === 'pending').length;
+
+    return (
+        <div className="absolute top-full right-0 mt-2 w-96 max-h-[60vh] flex flex-col bg-ink-900 border border-ink-700 rounded-2xl shadow-2xl overflow-hidden z-50 animate-fade-in">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-ink-700">
+                <span className="text-[10px] font-mono uppercase tracking-widest text-steel-300 font-bold">Generation Queue</span>
+                <button onClick={onClose} className="text-steel-500 hover:text-steel-200 transition-colors">
+                    <X size={14} />
+                </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+                {jobs.length === 0 ? (
+                    <p className="px-4 py-6 text-[10px] font-mono text-steel-600 text-center">Queue is empty</p>
+                ) : (
+                    jobs.map(job => (
+                        <div key={job.id} className="px-4 py-3 border-b border-ink-800 last:border-b-0">
+                            <div className="flex items-center gap-2">
+                                {job.status === 'running' && <Loader2 size={12} className="animate-spin text-ember-500" />}
+                                {job.status === 'pending' && <Clock size={12} className="text-steel-500" />}
+                                {job.status === 'failed' && <AlertTriangle size={12} className="text-red-500" />}
+                                <span className="flex-1 text-[10px] font-mono text-steel-200 truncate">{describeJob(job, projects)}</span>
+                                <span className="text-[9px] font-mono uppercase text-steel-500">{getProviderAdapter(job.provider).label}</span>
+                            </div>
+                            <div className="flex items-center justify-between mt-1 pl-5">
+                                <span className="text-[9px] font-mono text-steel-600">
+                                    {job.status === 'running' ? 'generating...' : job.status === 'pending' ? formatRetryTime(job.nextAttemptAt) : 'failed'}
+                                    {job.attempts > 0 && ` · attempt ${job.attempts}/${job.maxAttempts}`}
+                                </span>
+                                {job.status === 'failed' && (
+                                    <div className="flex items-center gap-2">
+                                        <button onClick={() => onRetry(job.id)} className="text-steel-500 hover:text-ember-500 transition-colors" title="Retry">
+                                            <RotateCcw size={12} />
+                                        </button>
+                                        <button onClick={() => onDismiss(job.id)} className="text-steel-500 hover:text-red-500 transition-colors" title="Dismiss">
+                                            <Trash2 size={12} />
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                            {job.lastError && (
+                                <p className="mt-1 pl-5 text-[9px] font-mono text-red-400 break-words">{job.lastError}</p>
+                            )}
+                        </div>
+                    ))
+                )}
+            </div>
+
+            {(failedCount > 0 || pendingCount > 0) && (
+                <div className="flex items-center justify-end gap-4 px-4 py-2 border-t border-ink-700">
+                    {pendingCount > 0 && (
+                        <button onClick={onCancelPending} className="text-[9px] font-mono uppercase tracking-widest text-steel-500 hover:text-red-400 transition-colors">
+                            Cancel Pending
+                        </button>
+                    )}
+                    {failedCount > 0 && (
+                        <button onClick={onClearFailed} className="text-[9px] font-mono uppercase tracking-widest text-steel-500 hover:text-red-400 transition-colors">
+                            Clear Failed
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default GenerationQueuePanel;
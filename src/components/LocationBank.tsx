@@ -0,0 +1,261 @@
+import React, { useState } from 'react';
+import { X, Plus, Edit2, Trash2, MapPin, ChevronDown, ChevronUp, Save } from 'lucide-react';
+import { Project, SceneLocation } from '../types';
+import { Action } from '../state/actions';
+import EmptyState from './EmptyState';
+import { ReferenceImages } from './ReferenceImages';
+
+interface Props {
+    project: Project;
+    locations: SceneLocation[];
+    dispatch: React.Dispatch<Action>;
+    onClose: () => void;
+}
+
+interface LocationFormData {
+    name: string;
+    description: string;
+    lighting: string;
+}
+
+const emptyForm: LocationFormData = {
+    name: '',
+    description: '',
+    lighting: '',
+};
+
+export function LocationBank({ project, locations, dispatch, onClose }: Props) {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [isAdding, setIsAdding] = useState(false);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [formData, setFormData] = useState<LocationFormData>({ ...emptyForm });
+
+    const panelCounts = new Map<string, number>();
+    project.issues.forEach(issue => issue.pages.forEach(page => page.panels.forEach(panel => {
+        if (panel.locationId) panelCounts.set(panel.locationId, (panelCounts.get(panel.locationId) || 0) + 1);
+    })));
+
+    const handleStartAdd = () => {
+        setIsAdding(true);
+        setEditingId(null);
+        setFormData({ ...emptyForm });
+    };
+
+    const handleStartEdit = (location: SceneLocation) => {
+        setEditingId(location.id);
+        setIsAdding(false);
+        setFormData({
+            name: location.name,
+            description: location.description,
+            lighting: location.lighting || '',
+        });
+    };
+
+    const handleCancel = () => {
+        setIsAdding(false);
+        setEditingId(null);
+        setFormData({ ...emptyForm });
+    };
+
+    const handleSave = () => {
+        if (!formData.name.trim()) return;
+
+        const fields = {
+            name: formData.name.trim(),
+            description: formData.description.trim(),
+            lighting: formData.lighting.trim() || undefined,
+        };
+        if (isAdding) {
+            dispatch({ type: 'ADD_LOCATION', ...fields });
+        } else if (editingId) {
+            dispatch({ type: 'UPDATE_LOCATION', id: editingId, updates: fields });
+        }
+        handleCancel();
+    };
+
+    const handleDelete = (id: string) => {
+        if (confirm('Delete this location? It will be unlinked from all panels.')) {
+            dispatch({ type: 'DELETE_LOCATION', id });
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-[600] flex items-center justify-center p-4">
+            <div className="bg-ink-950 border border-ink-800 rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col">
+                {/* Header */}
+                <div className="flex items-center justify-between p-4 border-b border-ink-800">
+                    <div className="flex items-center gap-3">
+                        <MapPin size={20} className="text-ember-500" />
+                        <h2 className="font-mono text-sm uppercase tracking-widest text-steel-200">Location Bank</h2>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-ink-800 rounded-lg text-steel-400 hover:text-steel-200 transition-colors"
+                    >
+                        <X size={18} />
+                    </button>
+                </div>
+
+                {/* Content */}
+                <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                    {/* Add new location button */}
+                    {!isAdding && !editingId && (
+                        <button
+                            onClick={handleStartAdd}
+                            className="w-full py-3 border-2 border-dashed border-ink-700 rounded-xl text-steel-500 hover:text-ember-500 hover:border-ember-500 transition-colors flex items-center justify-center gap-2 font-mono text-sm"
+                        >
+                            <Plus size={16} />
+                            Add New Location
+                        </button>
+                    )}
+
+                    {/* Add/Edit Form */}
+                    {(isAdding || editingId) && (
+                        <div className="bg-ink-900 border border-ink-700 rounded-xl p-4 space-y-4">
+                            <h3 className="font-mono text-xs uppercase tracking-widest text-ember-500 mb-3">
+                                {isAdding ? 'New Location' : 'Edit Location'}
+                            </h3>
+
+                            <LocationField label="Name *" value={formData.name} onChange={(v) => setFormData(prev => ({ ...prev, name: v }))} placeholder="e.g., Joe's Diner" />
+                            <div>
+                                <label className="block text-[10px] font-mono text-steel-500 uppercase mb-1">Description</label>
+                                <textarea
+                                    value={formData.description}
+                                    onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                                    placeholder="e.g., cramped 1950s diner, red vinyl booths, chrome counter, rain-streaked windows"
+                                    rows={3}
+                                    className="w-full px-3 py-2 bg-ink-950 border border-ink-700 rounded-lg text-steel-200 text-sm placeholder:text-steel-700 focus:outline-none focus:border-ember-500 resize-none"
+                                />
+                            </div>
+                            <LocationField label="Lighting" value={formData.lighting} onChange={(v) => setFormData(prev => ({ ...prev, lighting: v }))} placeholder="e.g., flickering neon, harsh overhead fluorescents" />
+
+                            {/* Action buttons */}
+                            <div className="flex gap-2 pt-2">
+                                <button
+                                    onClick={handleCancel}
+                                    className="px-4 py-2 text-steel-400 hover:text-steel-200 font-mono text-xs uppercase tracking-widest transition-colors"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    onClick={handleSave}
+                                    disabled={!formData.name.trim()}
+                                    className="flex-1 py-2 bg-ember-500 hover:bg-ember-400 text-ink-950 rounded-lg font-mono text-xs uppercase tracking-widest flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+                                >
+                                    <Save size={14} />
+                                    Save Location
+                                </button>
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Location list */}
+                    {locations.length === 0 && !isAdding ? (
+                        <div className="py-4">
+                            <EmptyState
+                                variant="locations"
+                                onAction={handleStartAdd}
+                                actionLabel="Add First Location"
+                            />
+                        </div>
+                    ) : (
+                        <div className="space-y-2">
+                            {locations.map(location => (
+                                <div
+                                    key={location.id}
+                                    className={`bg-ink-900 border rounded-xl overflow-hidden transition-colors ${
+                                        editingId === location.id ? 'border-ember-500' : 'border-ink-700'
+                                    }`}
+                                >
+                                    <div className="flex items-center gap-3 p-3">
+                                        <div className="w-10 h-10 rounded-lg bg-ink-800 flex items-center justify-center text-ember-500">
+                                            <MapPin size={18} />
+                                        </div>
+                                        <div className="flex-1 min-w-0">
+                                            <p className="font-bold text-steel-200 truncate">{location.name}</p>
+                                            <p className="text-xs text-steel-500 truncate">{location.description || 'No description'}</p>
+                                        </div>
+                                        <span className="text-[10px] font-mono text-steel-600 flex-shrink-0">
+                                            {panelCounts.get(location.id) || 0} panel{panelCounts.get(location.id) === 1 ? '' : 's'}
+                                        </span>
+                                        <div className="flex items-center gap-1">
+                                            <button
+                                                onClick={() => setExpandedId(expandedId === location.id ? null : location.id)}
+                                                className="p-2 text-steel-500 hover:text-steel-200 transition-colors"
+                                                title="View details"
+                                            >
+                                                {expandedId === location.id ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                                            </button>
+                                            <button
+                                                onClick={() => handleStartEdit(location)}
+                                                className="p-2 text-steel-500 hover:text-ember-500 transition-colors"
+                                                title="Edit"
+                                            >
+                                                <Edit2 size={16} />
+                                            </button>
+                                            <button
+                                                onClick={() => handleDelete(location.id)}
+                                                className="p-2 text-steel-500 hover:text-red-500 transition-colors"
+                                                title="Delete"
+                                            >
+                                                <Trash2 size={16} />
+                                            </button>
+                                        </div>
+                                    </div>
+
+                                    {/* Expanded details */}
+                                    {expandedId === location.id && (
+                                        <div className="px-3 pb-3 pt-0 space-y-2">
+                                            {location.lighting && (
+                                                <div className="bg-ink-950 rounded-lg p-3 text-xs flex">
+                                                    <span className="text-steel-600 w-24 flex-shrink-0">Lighting:</span>
+                                                    <span className="text-steel-300">{location.lighting}</span>
+                                                </div>
+                                            )}
+                                            <ReferenceImages
+                                                project={project}
+                                                images={location.referenceImages || []}
+                                                onChange={(referenceImages) => dispatch({ type: 'UPDATE_LOCATION', id: location.id, updates: { referenceImages } })}
+                                                alt="Location reference"
+                                                emptyHint="Upload concept art or photos to keep this set consistent."
+                                            />
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="p-4 border-t border-ink-800">
+                    <p className="text-[10px] text-steel-600 font-mono text-center">
+                        {locations.length} location{locations.length !== 1 ? 's' : ''} • A panel's location is included in its image generation prompt
+                    </p>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+function LocationField({ label, value, onChange, placeholder }: {
+    label: string;
+    value: string;
+    onChange: (v: string) => void;
+    placeholder: string;
+}) {
+    return (
+        <div>
+            <label className="block text-[10px] font-mono text-steel-500 uppercase mb-1">{label}</label>
+            <input
+                type="text"
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                placeholder={placeholder}
+                className="w-full px-3 py-2 bg-ink-950 border border-ink-700 rounded-lg text-steel-200 text-sm placeholder:text-steel-700 focus:outline-none focus:border-ember-500"
+            />
+        </div>
+    );
+}
+
+export default LocationBank;
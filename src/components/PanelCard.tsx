@@ -1,20 +1,26 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useDraggable } from '@dnd-kit/core';
-import { GripVertical, Trash2, ImageIcon, ChevronDown, ChevronUp, Sparkles, Loader2, Move, Link2, Unlink, MessageCircle, Cloud, Type, Smartphone, Upload, RefreshCw, Copy, ClipboardPaste, History, Plus, X, Settings2 } from 'lucide-react';
+import { GripVertical, Trash2, ImageIcon, ChevronDown, ChevronUp, Sparkles, Loader2, Move, Link2, Unlink, MessageCircle, Cloud, Type, Smartphone, Upload, RefreshCw, Copy, ClipboardPaste, History, Plus, X, Settings2, MessageSquare } from 'lucide-react';
 import { Panel, Project, Character, AspectRatio, Page, TextElement, TextElementType, PanelFrameStyle, TextOverlayStyle } from '../types';
 import { Action } from '../state/actions';
-import { ASPECT_CONFIGS, ART_STYLES } from '../constants';
-import { getImage, saveImage } from '../services/imageStorage';
+import { ASPECT_CONFIGS } from '../constants';
+import { savePanelTake } from '../services/imageStorage';
+import { useIndexedDBImage } from '../hooks/useIndexedDBImage';
+import { confirmStorageForGeneration } from '../services/storageManager';
 import { genId } from '../utils/helpers';
 import TextOverlay from './TextOverlay';
 import { PanelGenerationOverlay } from './GenerationSpinner';
-
-import { generateImage as generateGeminiImage } from '../services/geminiService';
-import { generateLeonardoImage } from '../services/leonardoService';
-import { generateGrokImage } from '../services/grokService';
-import { generateFluxImage as generateFalFlux } from '../services/falFluxService';
-import { generateSeaArtImage } from '../services/seaartService';
-import { generateOpenAIImage } from '../services/openaiService';
+import { getPanelGenerationInputs, useImageGeneration } from '../hooks/useImageGeneration';
+import { createSeed, getProviderAdapter } from '../services/imageProviders';
+import { PanelTakesBrowser } from './PanelTakesBrowser';
+import { CollabPresence } from '../services/collaboration';
+import { getOpenThreads, memberFromUser } from '../services/comments';
+import { useAuth } from '../context/AuthContext';
+import { PanelComments } from './PanelComments';
+import { WardrobePicker } from './WardrobePicker';
+import { resolveWardrobe, updateWardrobeSelection } from '../services/wardrobe';
+import { getPanelProps, togglePanelProp } from '../services/props';
+import { AmbiguousMatch, DetectionResult, detectCharacters, detectEditedCharacters, getPanelSources } from '../services/characterDetection';
 
 function getAppearanceSummary(char: Character): string {
     if (!char.appearance) return char.description || '';
@@ -28,33 +34,6 @@ function getAppearanceSummary(char: Character): string {
     return parts.join(', ');
 }
 
-function buildCharacterPrompt(char: Character): string {
-    const parts: string[] = [char.name];
-    if (char.appearance) {
-        const a = char.appearance;
-        const desc: string[] = [];
-        if (a.age) desc.push(a.age);
-        if (a.gender) desc.push(a.gender);
-        if (a.ethnicity) desc.push(a.ethnicity);
-        if (a.height) desc.push(a.height);
-        if (a.build) desc.push(a.build);
-        if (a.skinTone) desc.push(`${a.skinTone} skin`);
-        if (a.hairColor && a.hairStyle) desc.push(`${a.hairColor} ${a.hairStyle} hair`);
-        else if (a.hairColor) desc.push(`${a.hairColor} hair`);
-        else if (a.hairStyle) desc.push(`${a.hairStyle} hair`);
-        if (a.eyeColor) desc.push(`${a.eyeColor} eyes`);
-        if (a.facialFeatures) desc.push(a.facialFeatures);
-        if (a.distinguishingMarks) desc.push(a.distinguishingMarks);
-        if (a.clothing) desc.push(`wearing ${a.clothing}`);
-        if (a.accessories) desc.push(`with ${a.accessories}`);
-        if (a.additionalNotes) desc.push(a.additionalNotes);
-        if (desc.length > 0) parts.push(`(${desc.join(', ')})`);
-    } else if (char.description) {
-        parts.push(`(${char.description})`);
-    }
-    return parts.join(' ');
-}
-
 interface PanelCardProps {
     panel: Panel; pageId: string; dispatch: React.Dispatch<Action>; project: Project;
     characters: Character[]; index: number; total: number; showGutters?: boolean;
@@ -62,6 +41,7 @@ interface PanelCardProps {
     onSelect?: () => void; copiedSettings?: { aspectRatio: AspectRatio; characterIds: string[] } | null;
     onCopySettings?: () => void; onPasteSettings?: () => void;
     panelFrameStyle?: PanelFrameStyle; textOverlayStyle?: TextOverlayStyle;
+    collaborators?: CollabPresence[];   // Peers in a live session who have this panel selected
 }
 
 const MIN_WIDTH = 280;
@@ -72,7 +52,7 @@ const PanelCard: React.FC<PanelCardProps> = ({
     showGutters = false, activePage, isOverlay = false,
     isDragging: isDraggingProp = false, isSelected = false, onSelect,
     copiedSettings, onCopySettings, onPasteSettings,
-    panelFrameStyle = 'opaque-black', textOverlayStyle = 'opaque',
+    panelFrameStyle = 'opaque-black', textOverlayStyle = 'opaque', collaborators = [],
 }) => {
     const [isGenerating, setIsGenerating] = useState(false);
     const [showAspectMenu, setShowAspectMenu] = useState(false);
@@ -80,10 +60,23 @@ const PanelCard: React.FC<PanelCardProps> = ({
     const [showRefMenu, setShowRefMenu] = useState(false);
     const [showPromptHistory, setShowPromptHistory] = useState(false);
     const [showMoreOptions, setShowMoreOptions] = useState(false);
-    const [imageDataUrl, setImageDataUrl] = useState<string | null>(null);
+    const [showComments, setShowComments] = useState(false);
+    const [pendingMatches, setPendingMatches] = useState<AmbiguousMatch[]>([]);
+    const editSnapshot = useRef<Panel | null>(null);
+    const imageDataUrl = useIndexedDBImage(panel.imageUrl);
     const [isResizing, setIsResizing] = useState(false);
     const resizeRef = useRef<{ startX: number; startY: number; startWidth: number; startHeight: number } | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const { generateImage } = useImageGeneration(project);
+    const { user } = useAuth();
+    const currentMember = memberFromUser(user);
+    const members = [currentMember, ...(project.members || []).filter(m => m.id !== currentMember.id)];
+    const openThreadCount = getOpenThreads(panel).length;
+    const issue = project.issues.find(iss => iss.pages.some(pg => pg.id === pageId));
+    const page = issue?.pages.find(pg => pg.id === pageId);
+    const locations = project.locations || [];
+    const panelLocation = locations.find(loc => loc.id === panel.locationId);
+    const panelProps = getPanelProps(project.props, panel);
 
     const panelWidth = panel.width || 360;
     const panelHeight = panel.height || 420;
@@ -100,22 +93,10 @@ const PanelCard: React.FC<PanelCardProps> = ({
         zIndex: isDragging ? 1000 : (isSelected ? 100 : 1),
         transform: transform ? `translate(${transform.x}px, ${transform.y}px)` : undefined,
         transition: isResizing ? 'none' : 'box-shadow 0.2s',
-        outline: isSelected ? '3px solid #60a5fa' : undefined,
-        outlineOffset: isSelected ? '2px' : undefined,
+        outline: isSelected ? '3px solid #60a5fa' : collaborators.length ? `3px solid ${collaborators[0].color}` : undefined,
+        outlineOffset: isSelected || collaborators.length ? '2px' : undefined,
     };
 
-    useEffect(() => {
-        const loadImage = async () => {
-            if (panel.imageUrl?.startsWith('idb://')) {
-                const id = panel.imageUrl.replace('idb://', '');
-                const dataUrl = await getImage(id);
-                setImageDataUrl(dataUrl || null);
-            } else if (panel.imageUrl) { setImageDataUrl(panel.imageUrl); }
-            else { setImageDataUrl(null); }
-        };
-        loadImage();
-    }, [panel.imageUrl]);
-
     const handleResizeStart = useCallback((e: React.MouseEvent) => {
         e.preventDefault(); e.stopPropagation(); setIsResizing(true);
         resizeRef.current = { startX: e.clientX, startY: e.clientY, startWidth: panelWidth, startHeight: panelHeight };
@@ -135,44 +116,54 @@ const PanelCard: React.FC<PanelCardProps> = ({
 
     const handleGenerateImage = async () => {
         if (!panel.prompt?.trim() && panel.characterIds.length === 0) { alert('Please enter a prompt or select characters first.'); return; }
+        if (!(await confirmStorageForGeneration(1))) return;
         setIsGenerating(true);
         try {
-            const styleConfig = ART_STYLES.find(s => s.id === project.style);
-            const stylePrompt = project.style === 'custom' ? (project.customStylePrompt || '') : (styleConfig?.prompt || '');
-            const activeChars = characters.filter(c => panel.characterIds.includes(c.id));
-            const charSection = activeChars.length > 0 ? `Characters: ${activeChars.map(c => buildCharacterPrompt(c)).join('; ')}.` : '';
-            const config = ASPECT_CONFIGS[panel.aspectRatio];
-            let initImage: string | undefined;
-            if (panel.referencePanelId) {
-                const refPanel = activePage.panels.find(p => p.id === panel.referencePanelId);
-                if (refPanel?.imageUrl) { const id = refPanel.imageUrl.startsWith('idb://') ? refPanel.imageUrl.slice(6) : null; if (id) initImage = await getImage(id) || undefined; }
-            }
-            const consistencySuffix = initImage ? " Maintain strong visual and character consistency with the reference image. Same lighting, angle, style." : '';
-            const fullPrompt = `${stylePrompt}. ${charSection} ${panel.prompt || ''}.${consistencySuffix}`.trim();
-            let url: string | undefined;
-            if (project.imageProvider === 'gemini' && project.geminiApiKey) url = await generateGeminiImage(fullPrompt, config.ratio, project.geminiApiKey, initImage, panel.referenceStrength ?? 0.7);
-            else if (project.imageProvider === 'leonardo' && project.leonardoApiKey) url = await generateLeonardoImage(fullPrompt, panel.aspectRatio, project.leonardoApiKey, initImage, panel.referenceStrength ?? 0.7);
-            else if (project.imageProvider === 'grok' && project.grokApiKey) url = await generateGrokImage(fullPrompt, panel.aspectRatio, project.grokApiKey, initImage, panel.referenceStrength ?? 0.7);
-            else if (project.imageProvider === 'fal' && project.falApiKey) url = await generateFalFlux(fullPrompt, panel.aspectRatio, project.falApiKey, project.fluxModel || 'fal-ai/flux-pro', initImage, panel.referenceStrength ?? 0.7);
-            else if (project.imageProvider === 'seaart' && project.seaartApiKey) url = await generateSeaArtImage(fullPrompt, panel.aspectRatio, project.seaartApiKey, initImage, panel.referenceStrength ?? 0.7);
-            else if (project.imageProvider === 'openai' && project.openaiApiKey) url = await generateOpenAIImage(fullPrompt, panel.aspectRatio, project.openaiApiKey, initImage, panel.referenceStrength ?? 0.7);
-            else throw new Error(`No API key configured for ${project.imageProvider}. Please add your API key in the sidebar.`);
-            if (url) { const storedRef = await saveImage(panel.id, url); dispatch({ type: 'UPDATE_PANEL', panelId: panel.id, updates: { imageUrl: storedRef } }); }
+            const inputs = await getPanelGenerationInputs(project, issue, activePage, panel);
+            const seed = createSeed(project.imageProvider);
+            const url = await generateImage(panel.prompt || '', panel.aspectRatio, inputs.characters, inputs.initImage, panel.referenceStrength ?? 0.7, seed, { source: 'panel', issueId: issue?.id, panelId: panel.id }, inputs.wardrobe, inputs.location, inputs.props);
+            if (url) { const take = await savePanelTake(url, { prompt: panel.prompt || '', provider: project.imageProvider, seed }); dispatch({ type: 'ADD_PANEL_TAKE', panelId: panel.id, take }); }
         } catch (err: any) { console.error('Image generation failed:', err); alert(`Generation failed: ${err.message}`); }
         finally { setIsGenerating(false); }
     };
 
     const handlePromptChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => { dispatch({ type: 'UPDATE_PANEL', panelId: panel.id, updates: { prompt: e.target.value } }); };
     const handleAspectChange = (ratio: AspectRatio) => { dispatch({ type: 'UPDATE_PANEL', panelId: panel.id, updates: { aspectRatio: ratio } }); setShowAspectMenu(false); };
+    const setCharacterOutfit = (charId: string, variantId?: string) => { dispatch({ type: 'UPDATE_PANEL', panelId: panel.id, updates: { wardrobe: updateWardrobeSelection(panel.wardrobe, charId, variantId) } }); };
+    const handleLocationChange = (e: React.ChangeEvent<HTMLSelectElement>) => { dispatch({ type: 'UPDATE_PANEL', panelId: panel.id, updates: { locationId: e.target.value || undefined } }); };
+    // Characters named in the prompt or bubble speakers: link clear matches, ask about ambiguous ones
+    const linkDetectedCharacters = (detected: DetectionResult) => {
+        if (detected.characterIds.length > 0) dispatch({ type: 'UPDATE_PANEL', panelId: panel.id, updates: { characterIds: [...panel.characterIds, ...detected.characterIds] } });
+        setPendingMatches(prev => [...prev.filter(m => !detected.ambiguous.some(a => a.name === m.name)), ...detected.ambiguous]);
+    };
+    const handleTextFocus = () => { editSnapshot.current = panel; };
+    const handleTextBlur = () => { const before = editSnapshot.current; editSnapshot.current = null; if (before) linkDetectedCharacters(detectEditedCharacters(before, panel, characters)); };
+    // Bubbles edited on the art commit on blur, so compare against the panel with the new text in place
+    const handleOverlayCommit = (elementId: string, content: string) => {
+        const edited = { ...panel, textElements: panel.textElements.map(el => el.id === elementId ? { ...el, content } : el) };
+        linkDetectedCharacters(detectEditedCharacters(panel, edited, characters));
+    };
+    const handleDetectCharacters = () => {
+        const detected = detectCharacters(getPanelSources(panel), characters);
+        linkDetectedCharacters({
+            characterIds: detected.characterIds.filter(id => !panel.characterIds.includes(id)),
+            ambiguous: detected.ambiguous.filter(m => !m.candidates.some(c => panel.characterIds.includes(c.id))),
+        });
+    };
+    const resolvePendingMatch = (name: string, characterId?: string) => {
+        if (characterId && !panel.characterIds.includes(characterId)) dispatch({ type: 'UPDATE_PANEL', panelId: panel.id, updates: { characterIds: [...panel.characterIds, characterId] } });
+        setPendingMatches(prev => prev.filter(m => m.name !== name));
+    };
+    const toggleProp = (propId: string) => { dispatch({ type: 'UPDATE_PANEL', panelId: panel.id, updates: { propIds: togglePanelProp(panel, propId) } }); };
     const toggleCharacter = (charId: string) => { const newIds = panel.characterIds.includes(charId) ? panel.characterIds.filter(id => id !== charId) : [...panel.characterIds, charId]; dispatch({ type: 'UPDATE_PANEL', panelId: panel.id, updates: { characterIds: newIds } }); };
     const handleDelete = () => { if (confirm('Delete this frame?')) dispatch({ type: 'DELETE_PANEL', panelId: panel.id, pageId }); };
-    const handleClearImage = () => { dispatch({ type: 'UPDATE_PANEL', panelId: panel.id, updates: { imageUrl: undefined } }); setImageDataUrl(null); };
+    const handleClearImage = () => { dispatch({ type: 'UPDATE_PANEL', panelId: panel.id, updates: { imageUrl: undefined, activeTakeId: undefined } }); };
 
     const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0]; if (!file) return;
         if (!file.type.startsWith('image/')) { alert('Please select an image file'); return; }
         if (file.size > 10 * 1024 * 1024) { alert('Image must be less than 10MB'); return; }
-        try { const reader = new FileReader(); reader.onload = async (event) => { const dataUrl = event.target?.result as string; if (dataUrl) { const storedRef = await saveImage(panel.id, dataUrl); dispatch({ type: 'UPDATE_PANEL', panelId: panel.id, updates: { imageUrl: storedRef } }); } }; reader.readAsDataURL(file); }
+        try { const reader = new FileReader(); reader.onload = async (event) => { const dataUrl = event.target?.result as string; if (dataUrl) { const take = await savePanelTake(dataUrl, { prompt: panel.prompt || '' }); dispatch({ type: 'ADD_PANEL_TAKE', panelId: panel.id, take }); } }; reader.readAsDataURL(file); }
         catch (err: any) { console.error('Image upload failed:', err); alert('Failed to upload image'); }
         if (fileInputRef.current) fileInputRef.current.value = '';
     };
@@ -205,6 +196,15 @@ const PanelCard: React.FC<PanelCardProps> = ({
                             : 'bg-ink-900 border-2 border-black shadow-2xl hover:shadow-ember-500/10'
             } ${isDragging ? 'ring-2 ring-ember-500 shadow-2xl' : ''} ${isResizing ? 'cursor-nwse-resize' : ''}`}
         >
+            {collaborators.length > 0 && (
+                <div className="absolute -top-6 left-0 flex gap-1 pointer-events-none">
+                    {collaborators.map(peer => (
+                        <span key={peer.clientId} className="px-2 py-0.5 rounded-t text-[9px] font-mono font-bold text-ink-950" style={{ backgroundColor: peer.color }}>
+                            {peer.name}
+                        </span>
+                    ))}
+                </div>
+            )}
             {/* HEADER */}
             <div className={`flex items-center justify-between px-3 py-2 border-b ${
                 panelFrameStyle === 'translucent' ? 'border-gray-400/30 bg-white/10 backdrop-blur-sm'
@@ -217,6 +217,17 @@ const PanelCard: React.FC<PanelCardProps> = ({
                     <span className={`text-xs font-mono font-bold ${showGutters ? 'text-gray-600' : 'text-steel-400'}`}>{index + 1}/{total}</span>
                 </div>
                 <div className="flex items-center gap-1">
+                    <div className="relative">
+                        <button onClick={() => setShowComments(!showComments)} className={`relative p-1 transition-colors ${openThreadCount ? 'text-ember-500 hover:text-ember-400' : 'text-steel-600 hover:text-steel-300'}`} title="Comments">
+                            <MessageSquare size={14} />
+                            {openThreadCount > 0 && (
+                                <span className="absolute -top-1 -right-1 min-w-[14px] h-[14px] px-0.5 rounded-full bg-ember-500 text-ink-950 text-[8px] font-bold flex items-center justify-center">{openThreadCount}</span>
+                            )}
+                        </button>
+                        {showComments && (
+                            <PanelComments panel={panel} members={members} currentMember={currentMember} dispatch={dispatch} onClose={() => setShowComments(false)} />
+                        )}
+                    </div>
                     <div className="relative">
                         <button onClick={() => setShowAspectMenu(!showAspectMenu)} className={`text-[10px] font-mono px-2 py-1 rounded flex items-center gap-1 transition-colors ${showGutters ? 'bg-gray-100 text-gray-600 hover:bg-gray-200' : 'bg-ink-800 text-steel-500 hover:bg-ink-700'}`}>
                             {aspectConfig?.label.split(' ')[0]}<ChevronDown size={12} />
@@ -243,7 +254,7 @@ const PanelCard: React.FC<PanelCardProps> = ({
                     {imageDataUrl ? (
                         <>
                             <img src={imageDataUrl} alt={`Panel ${index + 1}`} className="w-full h-full object-cover" />
-                            {overlayElements.map(element => (<TextOverlay key={element.id} element={element} panelId={panel.id} dispatch={dispatch} textOverlayStyle={textOverlayStyle} />))}
+                            {overlayElements.map(element => (<TextOverlay key={element.id} element={element} panelId={panel.id} dispatch={dispatch} textOverlayStyle={textOverlayStyle} onContentCommit={content => handleOverlayCommit(element.id, content)} />))}
                             <div className="absolute top-2 right-2 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
                                 <button onClick={handleGenerateImage} disabled={isGenerating} className="p-1.5 bg-black/60 hover:bg-ember-500 text-white rounded-full transition-colors disabled:opacity-50" title="Regenerate"><RefreshCw size={12} className={isGenerating ? 'animate-spin' : ''} /></button>
                                 <button onClick={() => fileInputRef.current?.click()} className="p-1.5 bg-black/60 hover:bg-ember-500 text-white rounded-full transition-colors" title="Upload"><Upload size={12} /></button>
@@ -260,6 +271,8 @@ const PanelCard: React.FC<PanelCardProps> = ({
                     {isGenerating && <PanelGenerationOverlay provider={project.imageProvider} />}
                 </div>
 
+                <PanelTakesBrowser panel={panel} dispatch={dispatch} showGutters={showGutters} />
+
                 {/* DIALOGUE BOX (below image) */}
                 {dialogueLines.length > 0 && (
                     <div className={`rounded-lg border ${showGutters ? 'border-gray-200 bg-gray-50' : 'border-ink-800 bg-ink-950/50'}`}>
@@ -269,6 +282,7 @@ const PanelCard: React.FC<PanelCardProps> = ({
                                 <div key={line.id} className="flex items-start gap-1 group/line">
                                     <textarea value={line.content}
                                         onChange={(e) => dispatch({ type: 'UPDATE_TEXT_ELEMENT', panelId: panel.id, elementId: line.id, updates: { content: e.target.value } })}
+                                        onFocus={handleTextFocus} onBlur={handleTextBlur}
                                         placeholder="CHARACTER: Dialogue text..."
                                         rows={1}
                                         className={`flex-1 rounded px-2 py-1 text-xs resize-none transition-colors outline-none ${showGutters ? 'bg-white border border-gray-200 text-gray-800 placeholder-gray-400 focus:border-blue-400' : 'bg-ink-900 border border-ink-700 text-steel-200 placeholder-steel-600 focus:border-ember-500'}`}
@@ -287,10 +301,28 @@ const PanelCard: React.FC<PanelCardProps> = ({
                 </button>
 
                 {/* PROMPT */}
-                <textarea value={panel.prompt || ''} onChange={handlePromptChange} placeholder="Describe this panel... (scene, action, mood)" rows={3}
+                <textarea value={panel.prompt || ''} onChange={handlePromptChange} onFocus={handleTextFocus} onBlur={handleTextBlur} placeholder="Describe this panel... (scene, action, mood)" rows={3}
                     className={`w-full rounded-lg px-3 py-2 text-sm resize-none transition-colors outline-none ${showGutters ? 'bg-gray-50 border border-gray-200 text-gray-800 placeholder-gray-400 focus:border-blue-400' : 'bg-ink-950 border border-ink-800 text-steel-200 placeholder-steel-600 focus:border-ember-500'}`}
                 />
 
+                {/* AMBIGUOUS CHARACTER NAMES */}
+                {pendingMatches.length > 0 && (
+                    <div className={`rounded-lg border px-3 py-2 space-y-1 text-[10px] ${showGutters ? 'border-amber-300 bg-amber-50 text-gray-700' : 'border-amber-500/30 bg-amber-500/10 text-steel-300'}`}>
+                        {pendingMatches.map(match => (
+                            <div key={match.name} className="flex flex-wrap items-center gap-1">
+                                <span className="font-mono">Who is <span className="font-bold">{match.name}</span>?</span>
+                                {match.candidates.map(candidate => (
+                                    <button key={candidate.id} onClick={() => resolvePendingMatch(match.name, candidate.id)}
+                                        className={`px-2 py-0.5 rounded border font-bold transition-colors ${showGutters ? 'border-gray-300 hover:bg-gray-100' : 'border-ink-700 hover:border-ember-500 hover:text-ember-400'}`}>
+                                        {candidate.name}
+                                    </button>
+                                ))}
+                                <button onClick={() => resolvePendingMatch(match.name)} className="p-0.5 text-steel-500 hover:text-red-500 transition-colors" title="Leave unlinked"><X size={10} /></button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
                 {/* REFERENCE PANEL LINKER */}
                 {activePage.panels.length > 1 && (
                     <div className="relative">
@@ -344,7 +376,15 @@ const PanelCard: React.FC<PanelCardProps> = ({
                     <div className={`space-y-3 pt-1 border-t ${showGutters ? 'border-gray-200' : 'border-ink-800'}`}>
                         {/* Character selector */}
                         <div className="relative">
-                            <label className={`block text-[10px] font-mono uppercase mb-1 ${showGutters ? 'text-gray-500' : 'text-steel-600'}`}>Characters in this panel</label>
+                            <div className="flex items-center justify-between mb-1">
+                                <label className={`block text-[10px] font-mono uppercase ${showGutters ? 'text-gray-500' : 'text-steel-600'}`}>Characters in this panel</label>
+                                {characters.length > 0 && (
+                                    <button onClick={handleDetectCharacters} className={`text-[10px] font-mono uppercase transition-colors ${showGutters ? 'text-gray-400 hover:text-gray-700' : 'text-steel-600 hover:text-ember-500'}`}
+                                        title="Link characters named in the prompt and dialogue">
+                                        Detect
+                                    </button>
+                                )}
+                            </div>
                             {characters.length > 0 ? (
                                 <>
                                     <button onClick={() => setShowCharMenu(!showCharMenu)}
@@ -374,10 +414,44 @@ const PanelCard: React.FC<PanelCardProps> = ({
                                             {selectedChars.map(char => { const summary = getAppearanceSummary(char); return summary ? (<div key={char.id} className="flex gap-1"><span className="font-bold text-ember-500">{char.name}:</span><span className="truncate">{summary}</span></div>) : null; })}
                                         </div>
                                     )}
+                                    <WardrobePicker characters={selectedChars} selection={panel.wardrobe} inherited={resolveWardrobe(issue, page)} inheritedLabel="Page" onChange={setCharacterOutfit} light={showGutters} className="mt-2" />
                                 </>
                             ) : (<p className={`text-xs ${showGutters ? 'text-gray-400' : 'text-steel-600'}`}>No characters defined. Use the CHARACTERS button to add some.</p>)}
                         </div>
 
+                        {/* Location selector */}
+                        <div>
+                            <label className={`block text-[10px] font-mono uppercase mb-1 ${showGutters ? 'text-gray-500' : 'text-steel-600'}`}>Location</label>
+                            {locations.length > 0 ? (
+                                <>
+                                    <select value={panelLocation?.id || ''} onChange={handleLocationChange}
+                                        className={`w-full px-3 py-2 rounded-lg text-xs font-mono outline-none focus:border-ember-500 border ${panelLocation ? 'bg-ember-500/10 border-ember-500/30 text-ember-400' : showGutters ? 'bg-gray-50 border-gray-200 text-gray-600' : 'bg-ink-950 border-ink-800 text-steel-500'}`}>
+                                        <option value="">No location</option>
+                                        {locations.map(loc => <option key={loc.id} value={loc.id}>{loc.name}</option>)}
+                                    </select>
+                                    {panelLocation?.description && <p className={`mt-1 text-[10px] truncate ${showGutters ? 'text-gray-500' : 'text-steel-600'}`}>{panelLocation.description}</p>}
+                                </>
+                            ) : (<p className={`text-xs ${showGutters ? 'text-gray-400' : 'text-steel-600'}`}>No locations defined. Use the LOCATIONS button to add some.</p>)}
+                        </div>
+
+                        {/* Prop selector */}
+                        {(project.props?.length ?? 0) > 0 && (
+                            <div>
+                                <label className={`block text-[10px] font-mono uppercase mb-1 ${showGutters ? 'text-gray-500' : 'text-steel-600'}`}>Props in this panel</label>
+                                <div className="flex flex-wrap gap-1">
+                                    {project.props!.map(prop => {
+                                        const isLinked = panelProps.includes(prop);
+                                        return (
+                                            <button key={prop.id} onClick={() => toggleProp(prop.id)} title={prop.description || prop.name}
+                                                className={`px-2 py-1 rounded text-[10px] font-mono border transition-colors ${isLinked ? 'bg-ember-500/20 border-ember-500/40 text-ember-400' : showGutters ? 'bg-gray-50 border-gray-200 text-gray-600 hover:bg-gray-100' : 'bg-ink-950 border-ink-800 text-steel-500 hover:bg-ink-900'}`}>
+                                                {prop.name}
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        )}
+
                         {/* Overlay bubble tools */}
                         {imageDataUrl && (
                             <div>
@@ -428,7 +502,7 @@ const PanelCard: React.FC<PanelCardProps> = ({
             <div className={`px-3 py-2 border-t ${panelFrameStyle === 'translucent' ? 'border-gray-400/30 bg-white/10 backdrop-blur-sm' : showGutters ? 'border-gray-200 bg-gray-50' : 'border-ink-800 bg-ink-950/50'} rounded-b-xl`}>
                 <button onClick={handleGenerateImage} disabled={isGenerating || (!panel.prompt?.trim() && panel.characterIds.length === 0)}
                     className={`w-full py-2 rounded-lg text-xs font-mono font-bold uppercase tracking-widest flex items-center justify-center gap-2 transition-all disabled:opacity-40 disabled:cursor-not-allowed ${showGutters ? 'bg-blue-600 hover:bg-blue-500 text-white' : 'bg-ember-500 hover:bg-ember-400 text-ink-950'}`}>
-                    {isGenerating ? (<><Loader2 size={14} className="animate-spin" />Generating with {project.imageProvider === 'gemini' ? 'Gemini' : project.imageProvider === 'leonardo' ? 'Leonardo' : project.imageProvider === 'grok' ? 'Grok' : project.imageProvider === 'fal' ? 'FAL' : project.imageProvider === 'seaart' ? 'SeaArt' : project.imageProvider === 'openai' ? 'OpenAI' : 'AI'}...</>)
+                    {isGenerating ? (<><Loader2 size={14} className="animate-spin" />Generating with {getProviderAdapter(project.imageProvider).label}...</>)
                     : (<><Sparkles size={14} />Generate</>)}
                 </button>
             </div>
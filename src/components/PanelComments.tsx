@@ -0,0 +1,192 @@
+import React, { useRef, useState } from 'react';
+import { X, Check, RotateCcw, Trash2 } from 'lucide-react';
+import { CommentThread, Panel, ProjectMember } from '../types';
+import { Action } from '../state/actions';
+import { createComment, getMentionQuery } from '../services/comments';
+import { genId } from '../utils/helpers';
+
+interface Props {
+    panel: Panel;
+    members: ProjectMember[];
+    currentMember: ProjectMember;
+    dispatch: React.Dispatch<Action>;
+    onClose: () => void;
+}
+
+function formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+// Highlights @mentions of known members in a comment body
+function CommentBody({ body, members }: { body: string; members: ProjectMember[] }) {
+    if (!members.length) return <>{body}</>;
+    const names = members.map(m => m.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+    const parts = body.split(new RegExp(`(@(?:${names}))`, 'gi'));
+    return (
+        <>
+            {parts.map((part, i) => i % 2 === 1
+                ? <span key={i} className="text-ember-400 font-bold">{part}</span>
+                : <React.Fragment key={i}>{part}</React.Fragment>)}
+        </>
+    );
+}
+
+/**
+ * Text box that suggests project members after typing @.
+ */
+function CommentInput({ members, placeholder, onSubmit }: { members: ProjectMember[]; placeholder: string; onSubmit: (body: string) => void }) {
+    const [text, setText] = useState('');
+    const [query, setQuery] = useState<string | null>(null);
+    const inputRef = useRef<HTMLTextAreaElement>(null);
+    const suggestions = query === null ? [] : members.filter(m => m.name.toLowerCase().startsWith(query.toLowerCase())).slice(0, 5);
+
+    const insertMention = (member: ProjectMember) => {
+        const caret = inputRef.current?.selectionStart ?? text.length;
+        const start = text.slice(0, caret).lastIndexOf('@');
+        setText(`${text.slice(0, start)}@${member.name} ${text.slice(caret)}`);
+        setQuery(null);
+        inputRef.current?.focus();
+    };
+
+    const submit = () => {
+        if (!text.trim()) return;
+        onSubmit(text);
+        setText('');
+        setQuery(null);
+    };
+
+    return (
+        <div className="relative">
+            <textarea
+                ref={inputRef}
+                value={text}
+                rows={2}
+                placeholder={placeholder}
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => {
+                    setText(e.target.value);
+                    setQuery(getMentionQuery(e.target.value, e.target.selectionStart));
+                }}
+                onKeyDown={(e: React.KeyboardEvent) => {
+                    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) { e.preventDefault(); submit(); }
+                }}
+                className="w-full bg-ink-950 border border-ink-700 rounded px-2 py-1.5 text-[11px] text-steel-200 focus:border-ember-500 outline-none resize-none"
+            />
+            {suggestions.length > 0 && (
+                <div className="absolute left-0 bottom-full mb-1 w-48 bg-ink-900 border border-ink-700 rounded-lg shadow-xl py-1 z-10">
+                    {suggestions.map(member => (
+                        <button key={member.id} onClick={() => insertMention(member)} className="w-full text-left px-3 py-1 text-[11px] text-steel-300 hover:bg-ink-800">
+                            @{member.name}
+                        </button>
+                    ))}
+                </div>
+            )}
+            <div className="flex justify-end mt-1">
+                <button onClick={submit} disabled={!text.trim()} className="text-[9px] font-mono uppercase tracking-widest text-ember-500 hover:text-ember-400 disabled:opacity-40">
+                    Post
+                </button>
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Review threads on a panel and its text elements: post, reply with
+ * @mentions, resolve and reopen.
+ */
+export function PanelComments({ panel, members, currentMember, dispatch, onClose }: Props) {
+    const [showResolved, setShowResolved] = useState(false);
+    const [target, setTarget] = useState('');
+    const threads = panel.comments || [];
+    const visible = threads.filter(thread => showResolved || !thread.resolved);
+    const resolvedCount = threads.length - threads.filter(t => !t.resolved).length;
+
+    const describeTarget = (thread: CommentThread) => {
+        if (!thread.elementId) return 'Panel';
+        const element = panel.textElements.find(el => el.id === thread.elementId);
+        return element ? `${element.type}: “${element.content.slice(0, 30)}”` : 'Deleted text';
+    };
+
+    const post = (body: string, threadId: string, elementId?: string) => {
+        dispatch({ type: 'ADD_PANEL_COMMENT', panelId: panel.id, threadId, elementId, comment: createComment(body, currentMember, members) });
+    };
+
+    return (
+        <div
+            onClick={(e: React.MouseEvent) => e.stopPropagation()}
+            className="absolute right-0 top-full mt-1 z-50 w-80 max-h-[28rem] flex flex-col bg-ink-900 border border-ink-700 rounded-xl shadow-2xl overflow-hidden"
+        >
+            <div className="flex items-center justify-between px-3 py-2 border-b border-ink-700">
+                <span className="text-[10px] font-mono uppercase tracking-widest text-steel-300 font-bold">Comments</span>
+                <div className="flex items-center gap-3">
+                    {resolvedCount > 0 && (
+                        <button onClick={() => setShowResolved(!showResolved)} className="text-[9px] font-mono text-steel-500 hover:text-steel-200">
+                            {showResolved ? 'Hide' : 'Show'} resolved ({resolvedCount})
+                        </button>
+                    )}
+                    <button onClick={onClose} className="text-steel-500 hover:text-steel-200 transition-colors"><X size={14} /></button>
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+                {visible.length === 0 && (
+                    <p className="px-3 py-4 text-[10px] font-mono text-steel-600 text-center">No open comments</p>
+                )}
+                {visible.map(thread => (
+                    <div key={thread.id} className={`px-3 py-2 border-b border-ink-800 ${thread.resolved ? 'opacity-60' : ''}`}>
+                        <div className="flex items-center justify-between mb-1">
+                            <span className="text-[9px] font-mono uppercase text-steel-500 truncate">{describeTarget(thread)}</span>
+                            <button
+                                onClick={() => dispatch({ type: 'RESOLVE_COMMENT_THREAD', panelId: panel.id, threadId: thread.id, resolved: !thread.resolved, by: currentMember.name, at: Date.now() })}
+                                className="flex items-center gap-1 text-[9px] font-mono uppercase text-steel-500 hover:text-ember-500"
+                                title={thread.resolved ? `Resolved by ${thread.resolvedBy || 'someone'}` : 'Resolve'}
+                            >
+                                {thread.resolved ? <><RotateCcw size={10} /> Reopen</> : <><Check size={10} /> Resolve</>}
+                            </button>
+                        </div>
+                        {thread.comments.map(comment => (
+                            <div key={comment.id} className="group/comment mb-1.5">
+                                <div className="flex items-center gap-2 text-[9px] font-mono">
+                                    <span className="text-steel-300 font-bold">{comment.authorName}</span>
+                                    <span className="text-steel-600">{formatTime(comment.createdAt)}</span>
+                                    {comment.authorId === currentMember.id && (
+                                        <button
+                                            onClick={() => dispatch({ type: 'DELETE_PANEL_COMMENT', panelId: panel.id, threadId: thread.id, commentId: comment.id })}
+                                            className="ml-auto opacity-0 group-hover/comment:opacity-100 text-steel-600 hover:text-red-500"
+                                            title="Delete comment"
+                                        >
+                                            <Trash2 size={10} />
+                                        </button>
+                                    )}
+                                </div>
+                                <p className={`text-[11px] whitespace-pre-wrap break-words ${comment.mentions.includes(currentMember.id) ? 'text-steel-100' : 'text-steel-400'}`}>
+                                    <CommentBody body={comment.body} members={members} />
+                                </p>
+                            </div>
+                        ))}
+                        {!thread.resolved && (
+                            <CommentInput members={members} placeholder="Reply..." onSubmit={body => post(body, thread.id)} />
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            <div className="p-3 border-t border-ink-700 space-y-2">
+                <select
+                    value={target}
+                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setTarget(e.target.value)}
+                    className="w-full bg-ink-950 border border-ink-700 rounded px-2 py-1 text-[10px] font-mono text-steel-300 outline-none focus:border-ember-500"
+                >
+                    <option value="">On this panel</option>
+                    {panel.textElements.map(el => (
+                        <option key={el.id} value={el.id}>On {el.type}: {el.content.slice(0, 30) || '(empty)'}</option>
+                    ))}
+                </select>
+                <CommentInput
+                    members={members}
+                    placeholder="Leave a comment, @mention someone..."
+                    onSubmit={body => post(body, genId(), target || undefined)}
+                />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Layers, Star, X } from 'lucide-react';
+import { Panel, PanelTake } from '../types';
+import { Action } from '../state/actions';
+import { getProviderAdapter } from '../services/imageProviders';
+import { useIndexedDBImage } from '../hooks/useIndexedDBImage';
+
+interface Props {
+    panel: Panel;
+    dispatch: React.Dispatch<Action>;
+    showGutters: boolean;
+}
+
+function describeTake(take: PanelTake): string {
+    const source = take.provider ? getProviderAdapter(take.provider).label : 'Upload';
+    const parts = [source];
+    if (take.seed !== undefined) parts.push(`seed ${take.seed}`);
+    if (take.createdAt) parts.push(new Date(take.createdAt).toLocaleString());
+    if (take.prompt) parts.push(take.prompt);
+    return parts.join(' · ');
+}
+
+function TakeThumbnail({ take, isHero, onSelect, onDelete }: { take: PanelTake; isHero: boolean; onSelect: () => void; onDelete: () => void }) {
+    const src = useIndexedDBImage(take.imageUrl);
+
+    return (
+        <div className={`relative aspect-square rounded-md overflow-hidden border-2 cursor-pointer group/take ${isHero ? 'border-ember-500' : 'border-transparent hover:border-steel-500'}`} onClick={onSelect} title={describeTake(take)}>
+            {src ? <img src={src} alt="" className="w-full h-full object-cover" /> : <div className="w-full h-full bg-ink-800 animate-pulse" />}
+            {isHero && <div className="absolute bottom-0.5 left-0.5 p-0.5 bg-ember-500 rounded-full"><Star size={8} className="text-white fill-white" /></div>}
+            <button onClick={(e) => { e.stopPropagation(); onDelete(); }} className="absolute top-0.5 right-0.5 p-0.5 bg-black/70 hover:bg-red-600 text-white rounded-full opacity-0 group-hover/take:opacity-100 transition-opacity" title="Delete take"><X size={8} /></button>
+        </div>
+    );
+}
+
+/**
+ * Grid of every image generated for a panel. Clicking a take makes it the
+ * hero (the image shown on the canvas and used for export).
+ */
+export function PanelTakesBrowser({ panel, dispatch, showGutters }: Props) {
+    const [isOpen, setIsOpen] = useState(false);
+    const takes = panel.takes || [];
+
+    if (takes.length < 2) return null;
+
+    // The image stays so undo can bring the take back; the storage manager's
+    // orphan sweep reclaims it once nothing refers to it
+    const handleDelete = (take: PanelTake) => {
+        if (!confirm('Delete this take?')) return;
+        dispatch({ type: 'DELETE_PANEL_TAKE', panelId: panel.id, takeId: take.id });
+    };
+
+    return (
+        <div>
+            <button onClick={() => setIsOpen(!isOpen)} className={`w-full flex items-center justify-center gap-1.5 py-1.5 rounded-lg text-[10px] font-mono transition-colors ${showGutters ? 'bg-gray-100 text-gray-600 hover:bg-gray-200' : 'bg-ink-800 text-steel-500 hover:bg-ink-700'}`}>
+                <Layers size={12} />Takes ({takes.length})
+            </button>
+            {isOpen && (
+                <div className={`mt-1 p-2 grid grid-cols-4 gap-1.5 rounded-lg border ${showGutters ? 'bg-white border-gray-200' : 'bg-ink-950 border-ink-800'}`}>
+                    {[...takes].reverse().map(take => (
+                        <TakeThumbnail
+                            key={take.id}
+                            take={take}
+                            isHero={take.id === panel.activeTakeId}
+                            onSelect={() => dispatch({ type: 'SELECT_PANEL_TAKE', panelId: panel.id, takeId: take.id })}
+                            onDelete={() => handleDelete(take)}
+                        />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default PanelTakesBrowser;
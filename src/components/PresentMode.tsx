@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { ChevronLeft, ChevronRight, X, Play, Pause } from 'lucide-react';
 import { Issue, Panel, TextElement, TextElementType, TextOverlayStyle } from '../types';
-import { getImage } from '../services/imageStorage';
+import { acquireImageUrl, releaseImageUrl } from '../services/imageStorage';
 
 interface PresentModeProps {
   issue: Issue;
@@ -448,19 +448,24 @@ function PresentPanel({
     if (imageUrl.startsWith('data:') || imageUrl.startsWith('http')) {
       setImage(imageUrl);
       setLoading(false);
-    } else if (imageUrl.startsWith('idb://')) {
-      const id = imageUrl.replace('idb://', '');
-      getImage(id).then((data) => {
-        if (data) setImage(data);
-        setLoading(false);
-      });
-    } else {
-      // Try loading as idb key directly
-      getImage(imageUrl).then((data) => {
-        if (data) setImage(data);
-        setLoading(false);
-      });
+      return;
     }
+
+    // Anything else is an idb:// reference or, for older data, a bare idb key
+    const id = imageUrl.replace('idb://', '');
+    let active = true;
+    acquireImageUrl(id).then((url) => {
+      if (!active) return;
+      if (url) setImage(url);
+      setLoading(false);
+    }).catch(() => {
+      if (active) setLoading(false);
+    });
+
+    return () => {
+      active = false;
+      releaseImageUrl(id);
+    };
   }, [imageUrl, panelId]);
 
   if (loading) {
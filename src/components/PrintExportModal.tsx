@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Action } from '../state/actions';
+import { Page, PrintPageSize, PrintSettings, Project } from '../types';
+import { DEFAULT_PRINT_SETTINGS, PRINT_PAGE_SIZES, LowDpiPanel, UnsafeLettering, exportPrintPdf, findLowDpiPanels, findUnsafeLettering } from '../services/printExporter';
+
+interface PrintExportModalProps {
+    project: Project;
+    pages: Page[];
+    fileName: string;
+    dispatch: React.Dispatch<Action>;
+    onClose: () => void;
+}
+
+const inputClass = 'w-full bg-ink-950 border border-ink-700 rounded-lg px-4 py-3 text-sm text-steel-300 font-mono outline-none focus:border-ember-500 transition-colors';
+const labelClass = 'block text-[10px] font-mono text-steel-400 uppercase tracking-widest mb-2';
+
+const PrintExportModal: React.FC<PrintExportModalProps> = ({ project, pages, fileName, dispatch, onClose }) => {
+    const [settings, setSettings] = useState<PrintSettings>({ ...DEFAULT_PRINT_SETTINGS, ...project.printSettings });
+    const [lowDpiPanels, setLowDpiPanels] = useState<LowDpiPanel[] | null>(null);
+    const [unsafeLettering, setUnsafeLettering] = useState<UnsafeLettering[]>([]);
+    const [status, setStatus] = useState<'idle' | 'checking' | 'exporting'>('idle');
+
+    const update = (updates: Partial<PrintSettings>) => {
+        setSettings(prev => ({ ...prev, ...updates }));
+        setLowDpiPanels(null);
+        setUnsafeLettering([]);
+    };
+
+    const handleExport = async () => {
+        dispatch({ type: 'UPDATE_PROJECT', id: project.id, updates: { printSettings: settings } });
+        try {
+            // Check resolution and lettering first; a second click exports anyway
+            if (lowDpiPanels === null) {
+                setStatus('checking');
+                const lowDpi = await findLowDpiPanels(pages, settings);
+                const unsafe = findUnsafeLettering(pages, settings);
+                if (lowDpi.length > 0 || unsafe.length > 0) {
+                    setLowDpiPanels(lowDpi);
+                    setUnsafeLettering(unsafe);
+                    return;
+                }
+            }
+
+            setStatus('exporting');
+            const pdf = await exportPrintPdf(project, pages, settings);
+            pdf.save(`${fileName}.pdf`);
+            onClose();
+        } catch (e) {
+            alert("PDF export failed: " + e);
+        } finally {
+            setStatus('idle');
+        }
+    };
+
+    const numberInput = (label: string, field: 'bleed' | 'safeMargin' | 'minDpi', step: number) => (
+        <div>
+            <label className={labelClass}>{label}</label>
+            <input
+                type="number"
+                min={0}
+                step={step}
+                value={settings[field]}
+                onChange={(e) => update({ [field]: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className={inputClass}
+            />
+        </div>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-ink-950/95 backdrop-blur-xl flex items-center justify-center z-[600] p-8">
+            <div className="w-full max-w-md bg-ink-900 border-2 border-ink-700 rounded-2xl shadow-2xl overflow-hidden">
+
+                {/* Header */}
+                <div className="p-6 border-b border-ink-700 flex items-center justify-between">
+                    <div>
+                        <h2 className="font-display text-3xl tracking-widest text-ember-500 uppercase">Print PDF</h2>
+                        <p className="text-[10px] font-mono text-steel-500 mt-1 uppercase tracking-widest">{pages.length} {pages.length === 1 ? 'Page' : 'Pages'}</p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="w-10 h-10 flex items-center justify-center rounded-full bg-ink-800 hover:bg-red-500 text-steel-400 hover:text-white transition-all text-xl font-bold"
+                    >
+                        ×
+                    </button>
+                </div>
+
+                {/* Content */}
+                <div className="p-6 space-y-4">
+                    <div>
+                        <label className={labelClass}>Trim Size</label>
+                        <select
+                            value={settings.pageSize}
+                            onChange={(e) => update({ pageSize: e.target.value as PrintPageSize })}
+                            className={`${inputClass} cursor-pointer`}
+                        >
+                            {Object.entries(PRINT_PAGE_SIZES).map(([key, size]) => (
+                                <option key={key} value={key}>{size.label}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-3">
+                        {numberInput('Bleed (in)', 'bleed', 0.0625)}
+                        {numberInput('Safe (in)', 'safeMargin', 0.0625)}
+                        {numberInput('Min DPI', 'minDpi', 25)}
+                    </div>
+
+                    <label className="flex items-center gap-3 text-xs font-mono text-steel-300 uppercase tracking-widest cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={settings.fullBleed}
+                            onChange={(e) => update({ fullBleed: e.target.checked })}
+                            className="accent-ember-500"
+                        />
+                        Full Bleed
+                    </label>
+                    <p className="text-[10px] font-mono text-steel-500">
+                        {settings.fullBleed
+                            ? 'Art runs out to the bleed line; lettering outside the safe area is flagged.'
+                            : 'Pages sit inside the safe area, with white margins.'}
+                    </p>
+
+                    <label className="flex items-center gap-3 text-xs font-mono text-steel-300 uppercase tracking-widest cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={settings.cropMarks}
+                            onChange={(e) => update({ cropMarks: e.target.checked })}
+                            className="accent-ember-500"
+                        />
+                        Crop Marks
+                    </label>
+
+                    {lowDpiPanels && lowDpiPanels.length > 0 && (
+                        <div className="p-3 rounded-lg border border-amber-500/50 bg-amber-500/10 text-amber-400 text-xs font-mono space-y-1 max-h-40 overflow-y-auto">
+                            <div className="flex items-center gap-2 font-bold uppercase tracking-widest"><AlertTriangle size={14} />Low resolution</div>
+                            {lowDpiPanels.map(p => (
+                                <div key={p.panelId}>Page {p.pageNumber}, panel {p.panelIndex + 1}: {p.dpi} DPI (min {settings.minDpi})</div>
+                            ))}
+                        </div>
+                    )}
+
+                    {unsafeLettering.length > 0 && (
+                        <div className="p-3 rounded-lg border border-amber-500/50 bg-amber-500/10 text-amber-400 text-xs font-mono space-y-1 max-h-40 overflow-y-auto">
+                            <div className="flex items-center gap-2 font-bold uppercase tracking-widest"><AlertTriangle size={14} />Lettering outside the safe area</div>
+                            {unsafeLettering.map(l => (
+                                <div key={l.elementId}>Page {l.pageNumber}, panel {l.panelIndex + 1}</div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="p-6 border-t border-ink-700 flex gap-3">
+                    <button
+                        onClick={onClose}
+                        className="flex-1 bg-ink-800 hover:bg-ink-700 text-steel-400 hover:text-steel-300 font-bold py-3 rounded-lg uppercase text-xs transition-colors border border-ink-700"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleExport}
+                        disabled={status !== 'idle'}
+                        className="flex-1 bg-ember-500 hover:bg-ember-400 disabled:opacity-50 text-ink-950 font-bold py-3 rounded-lg uppercase text-xs transition-colors"
+                    >
+                        {status === 'checking' ? 'Checking...' : status === 'exporting' ? 'Exporting...' : lowDpiPanels?.length || unsafeLettering.length ? 'Export Anyway' : 'Export'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PrintExportModal;
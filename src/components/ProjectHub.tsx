@@ -1,37 +1,88 @@
-import React, { useState, useEffect } from 'react';
-import { AppState } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { BarChart3, Download, HardDrive, Upload, Users } from 'lucide-react';
+import { AppState, Project } from '../types';
 import { Action } from '../state/actions';
 import { Icons } from '../constants';
+import { PROJECT_ARCHIVE_EXTENSION, exportProjectArchive, importProjectArchive } from '../services/projectArchive';
+import { ROLE_LABELS, canEditProject, getProjectRole } from '../services/permissions';
+import { ProjectMembership, acceptInvite, loadPendingInvites, removeMember } from '../services/projectSharing';
+import { isSupabaseConfigured } from '../services/supabase';
+import { useAuth } from '../context/AuthContext';
 import NewProjectModal from './NewProjectModal';
+import ShareProjectModal from './ShareProjectModal';
+import ApiKeyInput from './ApiKeyInput';
 import EmptyState from './EmptyState';
 
 interface ProjectHubProps {
     state: AppState;
     dispatch: React.Dispatch<Action>;
     onClose: () => void;
+    onOpenStorage?: () => void;
+    onOpenUsage?: () => void;
+    onInviteAccepted?: () => void;
 }
 
-const ProjectHub: React.FC<ProjectHubProps> = ({ state, dispatch, onClose }) => {
+const ProjectHub: React.FC<ProjectHubProps> = ({ state, dispatch, onClose, onOpenStorage, onOpenUsage, onInviteAccepted }) => {
+    const { user } = useAuth();
+    const [sharingId, setSharingId] = useState<string | null>(null);
+    const [invites, setInvites] = useState<ProjectMembership[]>([]);
     const [editingId, setEditingId] = useState<string | null>(null);
     const [showNewProjectModal, setShowNewProjectModal] = useState(false);
-    const [localGeminiKey, setLocalGeminiKey] = useState<string>('');
-    const [localLeonardoKey, setLocalLeonardoKey] = useState<string>('');
-    const [localGrokKey, setLocalGrokKey] = useState<string>('');
-    const [localFalKey, setLocalFalKey] = useState<string>('');
-    const [localSeaArtKey, setLocalSeaArtKey] = useState<string>('');
-    const [localOpenAIKey, setLocalOpenAIKey] = useState<string>('');
+    const [archiveBusy, setArchiveBusy] = useState(false);
+    const importInputRef = useRef<HTMLInputElement>(null);
 
+    // Invites to other people's projects wait here until accepted or declined
     useEffect(() => {
-        if (editingId) {
-            const proj = state.projects.find(p => p.id === editingId);
-            setLocalGeminiKey(proj?.geminiApiKey || '');
-            setLocalLeonardoKey(proj?.leonardoApiKey || '');
-            setLocalGrokKey(proj?.grokApiKey || '');
-            setLocalFalKey(proj?.falApiKey || '');
-            setLocalSeaArtKey(proj?.seaartApiKey || '');
-            setLocalOpenAIKey(proj?.openaiApiKey || '');
+        if (!user?.email || !isSupabaseConfigured()) return;
+        loadPendingInvites(user.email).then(result => setInvites(result.invites));
+    }, [user?.email]);
+
+    const handleInvite = async (invite: ProjectMembership, accept: boolean) => {
+        if (!user) return;
+        const result = accept ? await acceptInvite(invite, user.id) : await removeMember(invite);
+        if (!result.success) {
+            alert(`Could not ${accept ? 'accept' : 'decline'} the invite: ${result.error}`);
+            return;
+        }
+        setInvites(invites.filter(i => i !== invite));
+        if (accept) onInviteAccepted?.();
+    };
+
+    const sharingProject = state.projects.find(p => p.id === sharingId);
+
+    const handleExportProject = async (project: Project) => {
+        setArchiveBusy(true);
+        try {
+            const blob = await exportProjectArchive(project);
+            const url = window.URL.createObjectURL(blob);
+            const a = document.createElement("a");
+            a.href = url;
+            a.download = `${project.title.replace(/\s+/g, '_')}${PROJECT_ARCHIVE_EXTENSION}`;
+            a.click();
+            window.URL.revokeObjectURL(url);
+        } catch (e) {
+            alert("Project export failed: " + e);
+        } finally {
+            setArchiveBusy(false);
         }
-    }, [editingId, state.projects]);
+    };
+
+    const handleImportProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setArchiveBusy(true);
+        try {
+            const project = await importProjectArchive(file);
+            dispatch({ type: 'IMPORT_PROJECT', project });
+            onClose();
+        } catch (err) {
+            alert("Project import failed: " + (err instanceof Error ? err.message : err));
+        } finally {
+            setArchiveBusy(false);
+        }
+    };
 
     return (
         <div className="fixed inset-0 z-[500] bg-ink-950/98 backdrop-blur-xl flex items-center justify-center p-8 animate-fade-in">
@@ -41,6 +92,25 @@ const ProjectHub: React.FC<ProjectHubProps> = ({ state, dispatch, onClose }) =>
         <h2 className="font-display text-5xl tracking-widest text-steel-100 uppercase text-center">Archive</h2>
         <p className="font-mono text-xs text-ember-500 mt-2 tracking-[0.3em] uppercase text-center">Storyboard Management</p>
         </div>
+        <div className="flex items-center gap-3">
+        {onOpenUsage && (
+        <button
+        onClick={onOpenUsage}
+        className="w-12 h-12 flex items-center justify-center rounded-full bg-ink-800 hover:bg-ink-700 text-steel-400 hover:text-ember-500 transition-all"
+        title="Generation usage and cost"
+        >
+        <BarChart3 size={20} />
+        </button>
+        )}
+        {onOpenStorage && (
+        <button
+        onClick={onOpenStorage}
+        className="w-12 h-12 flex items-center justify-center rounded-full bg-ink-800 hover:bg-ink-700 text-steel-400 hover:text-ember-500 transition-all"
+        title="Storage usage and cleanup"
+        >
+        <HardDrive size={20} />
+        </button>
+        )}
         <button
         onClick={onClose}
         className="w-12 h-12 flex items-center justify-center rounded-full bg-ink-800 hover:bg-red-500 text-steel-400 hover:text-white transition-all"
@@ -48,8 +118,27 @@ const ProjectHub: React.FC<ProjectHubProps> = ({ state, dispatch, onClose }) =>
         <Icons.X />
         </button>
         </div>
+        </div>
 
         <div className="p-10 overflow-y-auto">
+        {invites.length > 0 && (
+            <div className="mb-8 space-y-2">
+                {invites.map(invite => (
+                    <div key={`${invite.ownerId}:${invite.projectId}`} className="flex items-center gap-4 p-4 rounded-xl border border-ember-500/30 bg-ember-500/5">
+                        <Users size={16} className="text-ember-500 shrink-0" />
+                        <p className="flex-1 text-xs font-mono text-steel-300">
+                            {invite.invitedBy || 'Someone'} invited you to a project as <span className="text-ember-500 uppercase">{ROLE_LABELS[invite.role]}</span>
+                        </p>
+                        <button onClick={() => handleInvite(invite, true)} className="bg-ember-500 hover:bg-ember-400 text-ink-950 font-bold px-4 py-2 rounded-lg uppercase text-[9px] transition-colors">
+                            Accept
+                        </button>
+                        <button onClick={() => handleInvite(invite, false)} className="text-[9px] font-mono uppercase tracking-widest text-steel-500 hover:text-red-400 transition-colors">
+                            Decline
+                        </button>
+                    </div>
+                ))}
+            </div>
+        )}
         {state.projects.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-16">
                 <EmptyState
@@ -57,6 +146,13 @@ const ProjectHub: React.FC<ProjectHubProps> = ({ state, dispatch, onClose }) =>
                     onAction={() => setShowNewProjectModal(true)}
                     actionLabel="Create First Project"
                 />
+                <button
+                    onClick={() => importInputRef.current?.click()}
+                    disabled={archiveBusy}
+                    className="mt-4 flex items-center gap-2 text-xs font-mono uppercase tracking-widest text-steel-500 hover:text-ember-500 transition-colors disabled:opacity-50"
+                >
+                    <Upload size={14} />{archiveBusy ? 'Working...' : 'Or restore a project backup'}
+                </button>
             </div>
         ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
@@ -75,6 +171,7 @@ const ProjectHub: React.FC<ProjectHubProps> = ({ state, dispatch, onClose }) =>
             <h3 className="font-display text-3xl text-steel-100 group-hover:text-ember-500 transition-colors mb-2 uppercase truncate pr-4">
             {proj.title}
             </h3>
+            {canEditProject(getProjectRole(state, proj.id)) && (
             <button
             onClick={(e) => { e.stopPropagation(); setEditingId(proj.id === editingId ? null : proj.id); }}
             className={`p-2 rounded-full border transition-all flex-shrink-0 ${
@@ -83,11 +180,18 @@ const ProjectHub: React.FC<ProjectHubProps> = ({ state, dispatch, onClose }) =>
             >
             <Icons.Edit />
             </button>
+            )}
             </div>
             <div className="flex items-center gap-4 text-[10px] font-mono text-steel-500 uppercase tracking-widest">
             <span>{proj.issues.reduce((acc, i) => acc + i.pages.length, 0)} Pages</span>
             <div className="w-1 h-1 rounded-full bg-steel-700"></div>
             <span>{proj.characters.length} Cast</span>
+            {getProjectRole(state, proj.id) !== 'owner' && (
+                <>
+                <div className="w-1 h-1 rounded-full bg-steel-700"></div>
+                <span className="text-ember-500">Shared · {ROLE_LABELS[getProjectRole(state, proj.id)]}</span>
+                </>
+            )}
             </div>
             </div>
 
@@ -103,6 +207,26 @@ const ProjectHub: React.FC<ProjectHubProps> = ({ state, dispatch, onClose }) =>
             }`}>
             {proj.imageProvider}
             </span>
+            <div className="flex items-center gap-1">
+            <button
+            onClick={(e) => { e.stopPropagation(); handleExportProject(proj); }}
+            disabled={archiveBusy}
+            title="Export project backup"
+            className="w-8 h-8 flex items-center justify-center rounded-full text-steel-700 hover:text-ember-500 hover:bg-ember-500/10 transition-all disabled:opacity-50"
+            >
+            <Download size={14} />
+            </button>
+            {getProjectRole(state, proj.id) === 'owner' && (
+            <>
+            {user && isSupabaseConfigured() && (
+            <button
+            onClick={(e) => { e.stopPropagation(); setSharingId(proj.id); }}
+            title="Share project"
+            className="w-8 h-8 flex items-center justify-center rounded-full text-steel-700 hover:text-ember-500 hover:bg-ember-500/10 transition-all"
+            >
+            <Users size={14} />
+            </button>
+            )}
             <button
             onClick={(e) => {
                 e.stopPropagation();
@@ -112,6 +236,9 @@ const ProjectHub: React.FC<ProjectHubProps> = ({ state, dispatch, onClose }) =>
             >
             <Icons.Trash />
             </button>
+            </>
+            )}
+            </div>
             </div>
 
             {editingId === proj.id && (
@@ -161,119 +288,8 @@ const ProjectHub: React.FC<ProjectHubProps> = ({ state, dispatch, onClose }) =>
                 </div>
 
                 {/* API Key input for selected provider */}
-                <div className="mt-3 p-3 bg-ink-800 rounded-lg border border-ink-700 space-y-2">
-                <label className="block text-[9px] font-mono text-steel-400 uppercase mb-1">
-                {proj.imageProvider === 'gemini' ? 'Gemini' :
-                 proj.imageProvider === 'leonardo' ? 'Leonardo' :
-                 proj.imageProvider === 'grok' ? 'Grok (xAI)' :
-                 proj.imageProvider === 'fal' ? 'FAL' :
-                 proj.imageProvider === 'seaart' ? 'SeaArt' :
-                 proj.imageProvider === 'openai' ? 'OpenAI' : ''} API Key
-                </label>
-                <div className="flex gap-2">
-                <input
-                type="password"
-                placeholder="Enter API key..."
-                value={
-                    proj.imageProvider === 'gemini' ? localGeminiKey :
-                    proj.imageProvider === 'leonardo' ? localLeonardoKey :
-                    proj.imageProvider === 'grok' ? localGrokKey :
-                    proj.imageProvider === 'fal' ? localFalKey :
-                    proj.imageProvider === 'seaart' ? localSeaArtKey :
-                    proj.imageProvider === 'openai' ? localOpenAIKey : ''
-                }
-                onChange={e => {
-                    if (proj.imageProvider === 'gemini') setLocalGeminiKey(e.target.value);
-                    else if (proj.imageProvider === 'leonardo') setLocalLeonardoKey(e.target.value);
-                    else if (proj.imageProvider === 'grok') setLocalGrokKey(e.target.value);
-                    else if (proj.imageProvider === 'fal') setLocalFalKey(e.target.value);
-                    else if (proj.imageProvider === 'seaart') setLocalSeaArtKey(e.target.value);
-                    else if (proj.imageProvider === 'openai') setLocalOpenAIKey(e.target.value);
-                }}
-                className="flex-1 bg-ink-900 border border-ink-700 rounded-lg px-3 py-2 text-xs text-steel-300 font-mono outline-none focus:border-ember-500"
-                />
-                <button
-                onClick={() => {
-                    if (proj.imageProvider === 'gemini' && localGeminiKey.trim()) {
-                        dispatch({ type: 'UPDATE_PROJECT_GEMINI_KEY', projectId: proj.id, apiKey: localGeminiKey.trim() });
-                        alert('Gemini Key saved!');
-                    } else if (proj.imageProvider === 'leonardo' && localLeonardoKey.trim()) {
-                        dispatch({ type: 'UPDATE_PROJECT_LEONARDO_KEY', projectId: proj.id, apiKey: localLeonardoKey.trim() });
-                        alert('Leonardo Key saved!');
-                    } else if (proj.imageProvider === 'grok' && localGrokKey.trim()) {
-                        dispatch({ type: 'UPDATE_PROJECT_GROK_KEY', projectId: proj.id, apiKey: localGrokKey.trim() });
-                        alert('Grok Key saved!');
-                    } else if (proj.imageProvider === 'fal' && localFalKey.trim()) {
-                        dispatch({ type: 'UPDATE_PROJECT_FAL_KEY', projectId: proj.id, apiKey: localFalKey.trim() });
-                        alert('FAL Key saved!');
-                    } else if (proj.imageProvider === 'seaart' && localSeaArtKey.trim()) {
-                        dispatch({ type: 'UPDATE_PROJECT_SEAART_KEY', projectId: proj.id, apiKey: localSeaArtKey.trim() });
-                        alert('SeaArt Key saved!');
-                    } else if (proj.imageProvider === 'openai' && localOpenAIKey.trim()) {
-                        dispatch({ type: 'UPDATE_PROJECT_OPENAI_KEY', projectId: proj.id, apiKey: localOpenAIKey.trim() });
-                        alert('OpenAI Key saved!');
-                    }
-                }}
-                className="bg-ember-500 hover:bg-ember-400 text-ink-950 font-bold px-4 py-2 rounded-lg uppercase text-[9px] transition-colors"
-                >
-                Save
-                </button>
-                </div>
-                {proj.imageProvider === 'gemini' ? (
-                    <a 
-                        href="https://aistudio.google.com/app/apikey" 
-                        target="_blank" 
-                        rel="noopener noreferrer"
-                        className="text-[8px] text-steel-600 italic hover:underline hover:text-steel-400 cursor-pointer transition-colors mt-1 block"
-                    >
-                        Get key from ai.google.dev
-                    </a>
-                ) : proj.imageProvider === 'leonardo' ? (
-                    <a 
-                        href="https://leonardo.ai/settings" 
-                        target="_blank" 
-                        rel="noopener noreferrer"
-                        className="text-[8px] text-steel-600 italic hover:underline hover:text-steel-400 cursor-pointer transition-colors mt-1 block"
-                    >
-                        Get key from leonardo.ai
-                    </a>
-                ) : proj.imageProvider === 'grok' ? (
-                    <a 
-                        href="https://console.x.ai" 
-                        target="_blank" 
-                        rel="noopener noreferrer"
-                        className="text-[8px] text-steel-600 italic hover:underline hover:text-steel-400 cursor-pointer transition-colors mt-1 block"
-                    >
-                        Get key from console.x.ai (experimental)
-                    </a>
-                ) : proj.imageProvider === 'fal' ? (
-                    <a 
-                        href="https://fal.ai/dashboard/keys" 
-                        target="_blank" 
-                        rel="noopener noreferrer"
-                        className="text-[8px] text-steel-600 italic hover:underline hover:text-steel-400 cursor-pointer transition-colors mt-1 block"
-                    >
-                        Get key from fal.ai
-                    </a>
-                ) : proj.imageProvider === 'seaart' ? (
-                    <a 
-                        href="https://seaart.ai/api" 
-                        target="_blank" 
-                        rel="noopener noreferrer"
-                        className="text-[8px] text-steel-600 italic hover:underline hover:text-steel-400 cursor-pointer transition-colors mt-1 block"
-                    >
-                        Get key from seaart.ai/api
-                    </a>
-                ) : proj.imageProvider === 'openai' ? (
-                    <a 
-                        href="https://platform.openai.com/api-keys" 
-                        target="_blank" 
-                        rel="noopener noreferrer"
-                        className="text-[8px] text-steel-600 italic hover:underline hover:text-steel-400 cursor-pointer transition-colors mt-1 block"
-                    >
-                        Get key from platform.openai.com
-                    </a>
-                ) : null}
+                <div className="mt-3 p-3 bg-ink-800 rounded-lg border border-ink-700">
+                <ApiKeyInput provider={proj.imageProvider} />
                 </div>
                 </div>
             )}
@@ -289,11 +305,26 @@ const ProjectHub: React.FC<ProjectHubProps> = ({ state, dispatch, onClose }) =>
         </div>
         <span className="font-display text-2xl uppercase tracking-widest text-center">Initialize Sequence</span>
         </button>
+
+        <button
+        onClick={() => importInputRef.current?.click()}
+        disabled={archiveBusy}
+        className="p-8 rounded-2xl border-2 border-dashed border-ink-700 hover:border-ember-500 hover:bg-ember-500/5 flex flex-col items-center justify-center gap-6 text-steel-500 hover:text-ember-500 transition-all group min-h-[220px] disabled:opacity-50"
+        >
+        <div className="w-16 h-16 rounded-full border-2 border-dashed border-steel-800 flex items-center justify-center group-hover:scale-110 transition-transform">
+        <Upload size={20} />
+        </div>
+        <span className="font-display text-2xl uppercase tracking-widest text-center">{archiveBusy ? 'Working...' : 'Import Project'}</span>
+        </button>
         </div>
         )}
         </div>
         </div>
+        <input ref={importInputRef} type="file" accept=".zip" className="hidden" onChange={handleImportProject} />
         {showNewProjectModal && <NewProjectModal onClose={() => setShowNewProjectModal(false)} dispatch={dispatch} />}
+        {sharingProject && user && (
+            <ShareProjectModal project={sharingProject} ownerId={user.id} ownerEmail={user.email || ''} onClose={() => setSharingId(null)} />
+        )}
         </div>
     );
 };
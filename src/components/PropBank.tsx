@@ -0,0 +1,312 @@
+import React, { useState } from 'react';
+import { X, Plus, Edit2, Trash2, Package, ChevronDown, ChevronUp, Save, AlertTriangle, Link2 } from 'lucide-react';
+import { Project, Prop } from '../types';
+import { Action } from '../state/actions';
+import { PropAppearance, buildContinuityReport, togglePanelProp } from '../services/props';
+import { useIndexedDBImage } from '../hooks/useIndexedDBImage';
+import { ReferenceImages } from './ReferenceImages';
+
+interface Props {
+    project: Project;
+    props: Prop[];
+    dispatch: React.Dispatch<Action>;
+    onClose: () => void;
+}
+
+interface PropFormData {
+    name: string;
+    description: string;
+}
+
+const emptyForm: PropFormData = {
+    name: '',
+    description: '',
+};
+
+export function PropBank({ project, props, dispatch, onClose }: Props) {
+    const [view, setView] = useState<'registry' | 'continuity'>('registry');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [isAdding, setIsAdding] = useState(false);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [formData, setFormData] = useState<PropFormData>({ ...emptyForm });
+    const report = buildContinuityReport(project);
+
+    const handleStartAdd = () => {
+        setIsAdding(true);
+        setEditingId(null);
+        setFormData({ ...emptyForm });
+    };
+
+    const handleStartEdit = (prop: Prop) => {
+        setEditingId(prop.id);
+        setIsAdding(false);
+        setFormData({ name: prop.name, description: prop.description });
+    };
+
+    const handleCancel = () => {
+        setIsAdding(false);
+        setEditingId(null);
+        setFormData({ ...emptyForm });
+    };
+
+    const handleSave = () => {
+        if (!formData.name.trim()) return;
+
+        const fields = { name: formData.name.trim(), description: formData.description.trim() };
+        if (isAdding) {
+            dispatch({ type: 'ADD_PROP', ...fields });
+        } else if (editingId) {
+            dispatch({ type: 'UPDATE_PROP', id: editingId, updates: fields });
+        }
+        handleCancel();
+    };
+
+    const handleDelete = (id: string) => {
+        if (confirm('Delete this prop? It will be unlinked from all panels.')) {
+            dispatch({ type: 'DELETE_PROP', id });
+        }
+    };
+
+    const handleOpenPanel = (appearance: PropAppearance) => {
+        dispatch({ type: 'SET_ACTIVE_ISSUE', id: appearance.issueId });
+        dispatch({ type: 'SET_ACTIVE_PAGE', id: appearance.pageId });
+        onClose();
+    };
+
+    const handleLinkPanel = (prop: Prop, appearance: PropAppearance) => {
+        const panel = project.issues.flatMap(issue => issue.pages.flatMap(page => page.panels)).find(p => p.id === appearance.panelId);
+        if (panel) dispatch({ type: 'UPDATE_PANEL', panelId: panel.id, updates: { propIds: togglePanelProp(panel, prop.id) } });
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-[600] flex items-center justify-center p-4">
+            <div className="bg-ink-950 border border-ink-800 rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col">
+                {/* Header */}
+                <div className="flex items-center justify-between p-4 border-b border-ink-800">
+                    <div className="flex items-center gap-3">
+                        <Package size={20} className="text-ember-500" />
+                        <h2 className="font-mono text-sm uppercase tracking-widest text-steel-200">Props</h2>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <div className="flex rounded-lg border border-ink-700 overflow-hidden">
+                            {(['registry', 'continuity'] as const).map(option => (
+                                <button
+                                    key={option}
+                                    onClick={() => setView(option)}
+                                    className={`px-3 py-1.5 font-mono text-[10px] uppercase tracking-widest transition-colors ${view === option ? 'bg-ember-500 text-ink-950' : 'text-steel-400 hover:bg-ink-800'}`}
+                                >
+                                    {option === 'registry' ? 'Registry' : 'Continuity'}
+                                </button>
+                            ))}
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="p-2 hover:bg-ink-800 rounded-lg text-steel-400 hover:text-steel-200 transition-colors"
+                        >
+                            <X size={18} />
+                        </button>
+                    </div>
+                </div>
+
+                {/* Content */}
+                <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                    {view === 'registry' ? (
+                        <>
+                            {/* Add new prop button */}
+                            {!isAdding && !editingId && (
+                                <button
+                                    onClick={handleStartAdd}
+                                    className="w-full py-3 border-2 border-dashed border-ink-700 rounded-xl text-steel-500 hover:text-ember-500 hover:border-ember-500 transition-colors flex items-center justify-center gap-2 font-mono text-sm"
+                                >
+                                    <Plus size={16} />
+                                    Add New Prop
+                                </button>
+                            )}
+
+                            {/* Add/Edit Form */}
+                            {(isAdding || editingId) && (
+                                <div className="bg-ink-900 border border-ink-700 rounded-xl p-4 space-y-4">
+                                    <h3 className="font-mono text-xs uppercase tracking-widest text-ember-500 mb-3">
+                                        {isAdding ? 'New Prop' : 'Edit Prop'}
+                                    </h3>
+                                    <div>
+                                        <label className="block text-[10px] font-mono text-steel-500 uppercase mb-1">Name *</label>
+                                        <input
+                                            type="text"
+                                            value={formData.name}
+                                            onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                                            placeholder="e.g., Hank's revolver"
+                                            className="w-full px-3 py-2 bg-ink-950 border border-ink-700 rounded-lg text-steel-200 text-sm placeholder:text-steel-700 focus:outline-none focus:border-ember-500"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-[10px] font-mono text-steel-500 uppercase mb-1">Description</label>
+                                        <textarea
+                                            value={formData.description}
+                                            onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                                            placeholder="e.g., nickel-plated snub-nose .38, black tape wrapped around the grip"
+                                            rows={3}
+                                            className="w-full px-3 py-2 bg-ink-950 border border-ink-700 rounded-lg text-steel-200 text-sm placeholder:text-steel-700 focus:outline-none focus:border-ember-500 resize-none"
+                                        />
+                                    </div>
+
+                                    {/* Action buttons */}
+                                    <div className="flex gap-2 pt-2">
+                                        <button
+                                            onClick={handleCancel}
+                                            className="px-4 py-2 text-steel-400 hover:text-steel-200 font-mono text-xs uppercase tracking-widest transition-colors"
+                                        >
+                                            Cancel
+                                        </button>
+                                        <button
+                                            onClick={handleSave}
+                                            disabled={!formData.name.trim()}
+                                            className="flex-1 py-2 bg-ember-500 hover:bg-ember-400 text-ink-950 rounded-lg font-mono text-xs uppercase tracking-widest flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+                                        >
+                                            <Save size={14} />
+                                            Save Prop
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Prop list */}
+                            {props.length === 0 && !isAdding ? (
+                                <p className="py-8 text-center text-xs text-steel-600">
+                                    No props yet. Add the objects your story keeps coming back to, then link them to panels from More Options.
+                                </p>
+                            ) : (
+                                <div className="space-y-2">
+                                    {props.map(prop => (
+                                        <div
+                                            key={prop.id}
+                                            className={`bg-ink-900 border rounded-xl overflow-hidden transition-colors ${
+                                                editingId === prop.id ? 'border-ember-500' : 'border-ink-700'
+                                            }`}
+                                        >
+                                            <div className="flex items-center gap-3 p-3">
+                                                <div className="w-10 h-10 rounded-lg bg-ink-800 flex items-center justify-center text-ember-500">
+                                                    <Package size={18} />
+                                                </div>
+                                                <div className="flex-1 min-w-0">
+                                                    <p className="font-bold text-steel-200 truncate">{prop.name}</p>
+                                                    <p className="text-xs text-steel-500 truncate">{prop.description || 'No description'}</p>
+                                                </div>
+                                                <div className="flex items-center gap-1">
+                                                    <button
+                                                        onClick={() => setExpandedId(expandedId === prop.id ? null : prop.id)}
+                                                        className="p-2 text-steel-500 hover:text-steel-200 transition-colors"
+                                                        title="Reference images"
+                                                    >
+                                                        {expandedId === prop.id ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleStartEdit(prop)}
+                                                        className="p-2 text-steel-500 hover:text-ember-500 transition-colors"
+                                                        title="Edit"
+                                                    >
+                                                        <Edit2 size={16} />
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleDelete(prop.id)}
+                                                        className="p-2 text-steel-500 hover:text-red-500 transition-colors"
+                                                        title="Delete"
+                                                    >
+                                                        <Trash2 size={16} />
+                                                    </button>
+                                                </div>
+                                            </div>
+                                            {expandedId === prop.id && (
+                                                <div className="px-3 pb-3 pt-0">
+                                                    <ReferenceImages
+                                                        project={project}
+                                                        images={prop.referenceImages || []}
+                                                        onChange={(referenceImages) => dispatch({ type: 'UPDATE_PROP', id: prop.id, updates: { referenceImages } })}
+                                                        alt="Prop reference"
+                                                        emptyHint="Upload a photo or sketch so the object looks the same in every panel."
+                                                    />
+                                                </div>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </>
+                    ) : report.length === 0 ? (
+                        <p className="py-8 text-center text-xs text-steel-600">Add props in the registry to see where each one appears.</p>
+                    ) : (
+                        report.map(({ prop, appearances, unlinkedMentions }) => (
+                            <div key={prop.id} className="bg-ink-900 border border-ink-700 rounded-xl p-3 space-y-2">
+                                <div className="flex items-baseline justify-between gap-3">
+                                    <p className="font-bold text-steel-200 truncate">{prop.name}</p>
+                                    <span className="text-[10px] font-mono text-steel-500 flex-shrink-0">
+                                        {appearances.length} panel{appearances.length !== 1 ? 's' : ''}
+                                    </span>
+                                </div>
+                                {appearances.length > 0 ? (
+                                    <div className="grid grid-cols-4 gap-2">
+                                        {appearances.map(appearance => (
+                                            <AppearanceCard key={appearance.panelId} appearance={appearance} onOpen={() => handleOpenPanel(appearance)} />
+                                        ))}
+                                    </div>
+                                ) : (
+                                    <p className="text-xs text-steel-600">Not linked to any panel yet.</p>
+                                )}
+                                {unlinkedMentions.length > 0 && (
+                                    <div className="space-y-1 pt-1 border-t border-ink-800">
+                                        <p className="flex items-center gap-1 text-[10px] font-mono text-amber-500 uppercase">
+                                            <AlertTriangle size={12} />
+                                            Named in the prompt but not linked
+                                        </p>
+                                        {unlinkedMentions.map(appearance => (
+                                            <div key={appearance.panelId} className="flex items-center gap-2 text-xs">
+                                                <button onClick={() => handleOpenPanel(appearance)} className="font-mono text-steel-400 hover:text-ember-500 flex-shrink-0">
+                                                    {panelLabel(appearance)}
+                                                </button>
+                                                <span className="flex-1 min-w-0 truncate text-steel-600">{appearance.prompt}</span>
+                                                <button
+                                                    onClick={() => handleLinkPanel(prop, appearance)}
+                                                    className="p-1 text-steel-500 hover:text-ember-500 transition-colors"
+                                                    title="Link this panel"
+                                                >
+                                                    <Link2 size={12} />
+                                                </button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        ))
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="p-4 border-t border-ink-800">
+                    <p className="text-[10px] text-steel-600 font-mono text-center">
+                        {props.length} prop{props.length !== 1 ? 's' : ''} • Linked props are included in image generation prompts
+                    </p>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+function panelLabel(appearance: PropAppearance): string {
+    return `${appearance.issueTitle} · p${appearance.pageNumber} · #${appearance.panelNumber}`;
+}
+
+function AppearanceCard({ appearance, onOpen }: { appearance: PropAppearance; onOpen: () => void }) {
+    const src = useIndexedDBImage(appearance.imageUrl, 'thumb');
+    return (
+        <button onClick={onOpen} className="text-left group" title={appearance.prompt}>
+            <div className="aspect-square rounded bg-ink-950 border border-ink-700 group-hover:border-ember-500 overflow-hidden transition-colors">
+                {src
+                    ? <img src={src} alt={panelLabel(appearance)} className="w-full h-full object-cover" />
+                    : <div className="w-full h-full flex items-center justify-center text-[10px] font-mono text-steel-700">No image</div>}
+            </div>
+            <p className="mt-1 text-[10px] font-mono text-steel-500 truncate">{panelLabel(appearance)}</p>
+        </button>
+    );
+}
+
+export default PropBank;
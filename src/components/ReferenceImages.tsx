@@ -0,0 +1,62 @@
+import React, { useRef } from 'react';
+import { Upload } from 'lucide-react';
+import { Project } from '../types';
+import { getProviderAdapter } from '../services/imageProviders';
+import { MAX_REFERENCE_IMAGES, saveReferenceImage } from '../services/characterReferences';
+import { ReferenceThumbnail } from './ReferenceThumbnail';
+
+interface ReferenceImagesProps {
+    project: Project;
+    images: string[];
+    onChange: (referenceImages: string[]) => void;
+    alt: string;
+    emptyHint: string;
+}
+
+/**
+ * Upload and remove the reference images of a location or prop.
+ */
+export function ReferenceImages({ project, images, onChange, alt, emptyHint }: ReferenceImagesProps) {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const { label, capabilities } = getProviderAdapter(project.imageProvider);
+
+    const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            onChange([...images, await saveReferenceImage(file)]);
+        } catch (error) {
+            alert(`Couldn't save the reference image: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
+    return (
+        <div className="bg-ink-950 rounded-lg p-3 text-xs space-y-2">
+            <div className="flex items-center justify-between">
+                <p className="font-mono text-[10px] text-steel-600 uppercase">Reference Images</p>
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={images.length >= MAX_REFERENCE_IMAGES}
+                    className="p-1.5 text-steel-500 hover:text-ember-500 disabled:opacity-30 transition-colors"
+                    title="Upload reference image"
+                >
+                    <Upload size={14} />
+                </button>
+                <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleUpload} />
+            </div>
+            {images.length > 0 ? (
+                <div className="grid grid-cols-4 gap-2">
+                    {images.map(url => (
+                        <ReferenceThumbnail key={url} url={url} alt={alt} onRemove={() => onChange(images.filter(r => r !== url))} />
+                    ))}
+                </div>
+            ) : (
+                <p className="text-steel-600">{emptyHint}</p>
+            )}
+            {images.length > 0 && capabilities.referenceImages === 0 && (
+                <p className="text-steel-600">{label} can't take reference images; switch to Gemini, FAL or OpenAI to use them.</p>
+            )}
+        </div>
+    );
+}
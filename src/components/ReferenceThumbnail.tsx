@@ -0,0 +1,27 @@
+import { X } from 'lucide-react';
+import { useIndexedDBImage } from '../hooks/useIndexedDBImage';
+
+interface ReferenceThumbnailProps {
+    url: string;
+    alt: string;
+    onRemove: () => void;
+}
+
+/**
+ * Square thumbnail of a stored reference image, with a remove button on hover.
+ */
+export function ReferenceThumbnail({ url, alt, onRemove }: ReferenceThumbnailProps) {
+    const src = useIndexedDBImage(url, 'thumb');
+    return (
+        <div className="relative group aspect-square rounded bg-ink-900 border border-ink-700 overflow-hidden">
+            {src && <img src={src} alt={alt} className="w-full h-full object-cover" />}
+            <button
+                onClick={onRemove}
+                className="absolute top-1 right-1 p-1 rounded-full bg-ink-950/80 text-steel-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Remove reference"
+            >
+                <X size={12} />
+            </button>
+        </div>
+    );
+}
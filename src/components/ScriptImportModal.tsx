@@ -1,15 +1,19 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { parseScript, ParseResult, VisualMarker } from '../services/scriptParser';
 import { parseScreenplay } from '../services/screenplayParser';
 import { parseStagePlay } from '../services/stagePlayParser';
 import { parseTVScript } from '../services/tvSeriesParser';
-import { Project } from '../types';
+import { parseFountain, looksLikeFountain } from '../services/fountainParser';
+import { parseFDX, isFinalDraftXml } from '../services/fdxParser';
+import { ParseResult as SharedParseResult, ParsedPage as SharedParsedPage } from '../services/parserTypes';
+import { MatchResolutions, findImportAmbiguities, findNewCharacters } from '../services/characterDetection';
+import { AspectRatio, Character, Project } from '../types';
 import { ScriptParsingProgress } from './GenerationSpinner';
 
 interface Props {
     project: Project;
     onClose: () => void;
-    onImport: (result: ParseResult, scriptText: string) => void;
+    onImport: (result: ParseResult, scriptText: string, resolutions: MatchResolutions) => void;
 }
 
 const MARKER_COLORS: Record<VisualMarker, string> = {
@@ -25,10 +29,54 @@ const MARKER_COLORS: Record<VisualMarker, string> = {
     'full-width': 'text-pink-500',
 };
 
+/**
+ * Adapts shared parser output (screenplay, stage play, TV, Fountain) to the import format.
+ * Non-comic formats default to wide panels.
+ */
+function toLegacyResult(shared: SharedParseResult, getPageNotes: (page: SharedParsedPage) => string | undefined): ParseResult {
+    return {
+        success: shared.errors.length === 0 || shared.pages.length > 0,
+        pages: shared.pages.map(page => ({
+            pageNumber: page.pageNumber,
+            panels: page.panels.map(panel => ({
+                panelNumber: panel.panelNumber,
+                description: panel.description,
+                bubbles: panel.dialogue.map(d => ({
+                    type: d.type === 'spoken' ? 'dialogue' as const : 
+                          d.type === 'voiceover' ? 'caption' as const :
+                          d.type as 'dialogue' | 'caption' | 'thought' | 'sfx' | 'screen-text' | 'phone',
+                    text: d.text,
+                    character: d.character,
+                    modifier: d.parenthetical
+                })),
+                characters: panel.characters,
+                artistNotes: panel.artistNotes ? [panel.artistNotes] : [],
+                visualMarker: (panel.visualMarker || 'standard') as VisualMarker,
+                aspectRatio: AspectRatio.WIDE
+            })),
+            pageNotes: getPageNotes(page),
+            location: page.location,
+            sceneType: page.sceneType
+        })),
+        characters: shared.characters.map(c => ({
+            name: c.name,
+            lineCount: c.panelCount,
+            description: c.description
+        })),
+        errors: shared.errors.map(e => e.message),
+        warnings: []
+    };
+}
+
+const getScenePageNotes = (page: SharedParsedPage) =>
+    page.location ? `${page.sceneType || ''} ${page.location} - ${page.timeOfDay || ''}`.trim() : undefined;
+
 export function ScriptImportModal({ project, onClose, onImport }: Props) {
     const [script, setScript] = useState('');
+    const [fileName, setFileName] = useState('');
     const [result, setResult] = useState<ParseResult | null>(null);
     const [editableCharacters, setEditableCharacters] = useState<ParseResult['characters']>([]);
+    const [resolutions, setResolutions] = useState<MatchResolutions>({});
     const [isParsing, setIsParsing] = useState(false);
     const [parseStage, setParseStage] = useState<'reading' | 'parsing' | 'extracting-characters' | 'building-pages' | 'done'>('reading');
 
@@ -42,113 +90,52 @@ export function ScriptImportModal({ project, onClose, onImport }: Props) {
 
         let parsed: ParseResult;
         
-        // Select the appropriate parser based on project type
-        switch (project.projectType) {
-            case 'screenplay':
-                // parseScreenplay returns a different format, we need to adapt it
-                const screenplayResult = parseScreenplay(script);
-                parsed = {
-                    success: screenplayResult.errors.length === 0 || screenplayResult.pages.length > 0,
-                    pages: screenplayResult.pages.map(page => ({
-                        pageNumber: page.pageNumber,
-                        panels: page.panels.map(panel => ({
-                            panelNumber: panel.panelNumber,
-                            description: panel.description,
-                            bubbles: panel.dialogue.map(d => ({
-                                type: d.type === 'spoken' ? 'dialogue' as const : 
-                                      d.type === 'voiceover' ? 'caption' as const :
-                                      d.type as 'dialogue' | 'caption' | 'thought' | 'sfx' | 'screen-text' | 'phone',
-                                text: d.text,
-                                character: d.character,
-                                modifier: d.parenthetical
-                            })),
-                            artistNotes: panel.artistNotes ? [panel.artistNotes] : [],
-                            visualMarker: (panel.visualMarker || 'standard') as VisualMarker,
-                            aspectRatio: 'wide' as any // Screenplays default to 16:9/wide
-                        })),
-                        pageNotes: page.location ? `${page.sceneType || ''} ${page.location} - ${page.timeOfDay || ''}`.trim() : undefined
-                    })),
-                    characters: screenplayResult.characters.map(c => ({
-                        name: c.name,
-                        lineCount: c.panelCount,
-                        description: c.description
-                    })),
-                    errors: screenplayResult.errors.map(e => e.message),
-                    warnings: []
-                };
-                break;
-                
-            case 'stage-play':
-                const stageResult = parseStagePlay(script);
-                parsed = {
-                    success: stageResult.errors.length === 0 || stageResult.pages.length > 0,
-                    pages: stageResult.pages.map(page => ({
-                        pageNumber: page.pageNumber,
-                        panels: page.panels.map(panel => ({
-                            panelNumber: panel.panelNumber,
-                            description: panel.description,
-                            bubbles: panel.dialogue.map(d => ({
-                                type: d.type === 'spoken' ? 'dialogue' as const : 
-                                      d.type === 'voiceover' ? 'caption' as const :
-                                      d.type as 'dialogue' | 'caption' | 'thought' | 'sfx' | 'screen-text' | 'phone',
-                                text: d.text,
-                                character: d.character,
-                                modifier: d.parenthetical
-                            })),
-                            artistNotes: panel.artistNotes ? [panel.artistNotes] : [],
-                            visualMarker: (panel.visualMarker || 'standard') as VisualMarker,
-                            aspectRatio: 'wide' as any // Stage plays use wide aspect for blocking
-                        })),
-                        pageNotes: page.actNumber ? `Act ${page.actNumber}` : undefined
-                    })),
-                    characters: stageResult.characters.map(c => ({
-                        name: c.name,
-                        lineCount: c.panelCount,
-                        description: c.description
-                    })),
-                    errors: stageResult.errors.map(e => e.message),
-                    warnings: []
-                };
-                break;
-                
-            case 'tv-series':
-                const tvResult = parseTVScript(script);
-                parsed = {
-                    success: tvResult.errors.length === 0 || tvResult.pages.length > 0,
-                    pages: tvResult.pages.map(page => ({
-                        pageNumber: page.pageNumber,
-                        panels: page.panels.map(panel => ({
-                            panelNumber: panel.panelNumber,
-                            description: panel.description,
-                            bubbles: panel.dialogue.map(d => ({
-                                type: d.type === 'spoken' ? 'dialogue' as const : 
-                                      d.type === 'voiceover' ? 'caption' as const :
-                                      d.type as 'dialogue' | 'caption' | 'thought' | 'sfx' | 'screen-text' | 'phone',
-                                text: d.text,
-                                character: d.character,
-                                modifier: d.parenthetical
-                            })),
-                            artistNotes: panel.artistNotes ? [panel.artistNotes] : [],
-                            visualMarker: (panel.visualMarker || 'standard') as VisualMarker,
-                            aspectRatio: 'wide' as any // TV defaults to 16:9/wide
-                        })),
-                        pageNotes: page.location ? `${page.sceneType || ''} ${page.location} - ${page.timeOfDay || ''}`.trim() : undefined
-                    })),
-                    characters: tvResult.characters.map(c => ({
-                        name: c.name,
-                        lineCount: c.panelCount,
-                        description: c.description
-                    })),
-                    errors: tvResult.errors.map(e => e.message),
-                    warnings: []
+        // Final Draft and Fountain files are parsed by spec regardless of project type
+        const isFountain = fileName.toLowerCase().endsWith('.fountain')
+            || ((project.projectType === 'screenplay' || project.projectType === 'tv-series') && looksLikeFountain(script));
+
+        const isFdx = fileName.toLowerCase().endsWith('.fdx') || isFinalDraftXml(script);
+
+        if (isFdx) {
+            const fdxResult = parseFDX(script);
+            parsed = toLegacyResult(fdxResult, page => [page.actNumber, getScenePageNotes(page)].filter(Boolean).join(' / ') || undefined);
+            const { seriesTitle, episodeTitle, episodeNumber, writer } = fdxResult.metadata;
+            if (seriesTitle || episodeTitle) {
+                const issueNumber = episodeNumber ? parseInt(episodeNumber, 10) : NaN;
+                parsed.issue = {
+                    title: seriesTitle || episodeTitle!,
+                    subtitle: seriesTitle ? episodeTitle : undefined,
+                    issueNumber: Number.isNaN(issueNumber) ? undefined : issueNumber,
+                    writer
                 };
-                break;
-                
-            case 'comic':
-            default:
-                // Use the existing comic parser
-                parsed = parseScript(script);
-                break;
+            }
+        } else if (isFountain) {
+            const fountainResult = parseFountain(script);
+            parsed = toLegacyResult(fountainResult, getScenePageNotes);
+            if (fountainResult.titlePage.title) {
+                parsed.issue = { title: fountainResult.titlePage.title, writer: fountainResult.titlePage.author || fountainResult.titlePage.authors };
+            }
+        } else {
+            // Select the appropriate parser based on project type
+            switch (project.projectType) {
+                case 'screenplay':
+                    parsed = toLegacyResult(parseScreenplay(script), getScenePageNotes);
+                    break;
+                    
+                case 'stage-play':
+                    parsed = toLegacyResult(parseStagePlay(script), page => page.actNumber ? `Act ${page.actNumber}` : undefined);
+                    break;
+                    
+                case 'tv-series':
+                    parsed = toLegacyResult(parseTVScript(script), getScenePageNotes);
+                    break;
+                    
+                case 'comic':
+                default:
+                    // Use the existing comic parser
+                    parsed = parseScript(script);
+                    break;
+            }
         }
         
         await new Promise(r => setTimeout(r, 200));
@@ -160,16 +147,27 @@ export function ScriptImportModal({ project, onClose, onImport }: Props) {
 
         setResult(parsed);
         setEditableCharacters(parsed.characters);
+        setResolutions({});
         setIsParsing(false);
     };
 
+    // Names that could be more than one character, from the bank or this import
+    const ambiguities = useMemo(() => {
+        if (!result?.success) return [];
+        const roster: Character[] = [
+            ...project.characters,
+            ...findNewCharacters(editableCharacters, project.characters).map(c => ({ id: `new:${c.name}`, name: c.name, description: '' })),
+        ];
+        return findImportAmbiguities(result.pages.flatMap(page => page.panels), roster);
+    }, [result, editableCharacters, project.characters]);
+
     const handleImport = () => {
         if (result?.success) {
             const filteredResult = {
                 ...result,
                 characters: editableCharacters
             };
-            onImport(filteredResult, script);
+            onImport(filteredResult, script, resolutions);
             onClose();
         }
     };
@@ -181,6 +179,7 @@ export function ScriptImportModal({ project, onClose, onImport }: Props) {
     const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (file) {
+            setFileName(file.name);
             const reader = new FileReader();
             reader.onload = (ev) => {
                 setScript(ev.target?.result as string || '');
@@ -236,7 +235,7 @@ export function ScriptImportModal({ project, onClose, onImport }: Props) {
                 <div className="p-6 border-b border-ink-700 flex items-center justify-between">
                     <div>
                         <h2 className="font-display text-3xl tracking-widest text-ember-500 uppercase">Script Import</h2>
-                        <p className="text-[10px] font-mono text-steel-500 mt-1 uppercase tracking-widest">Paste script or upload .txt file</p>
+                        <p className="text-[10px] font-mono text-steel-500 mt-1 uppercase tracking-widest">Paste script or upload .txt / .fountain / .fdx file</p>
                     </div>
                     <button onClick={onClose} className="w-10 h-10 flex items-center justify-center rounded-full bg-ink-800 hover:bg-red-500 text-steel-400 hover:text-white transition-all text-xl font-bold">×</button>
                 </div>
@@ -246,7 +245,7 @@ export function ScriptImportModal({ project, onClose, onImport }: Props) {
                         <div className="mb-4">
                             <input
                                 type="file"
-                                accept=".txt,.md"
+                                accept=".txt,.md,.fountain,.fdx"
                                 onChange={handleFile}
                                 className="text-[10px] text-steel-400 file:mr-3 file:py-2 file:px-4 file:border file:border-ink-700 file:bg-ink-800 file:text-ember-500 file:font-bold file:text-[9px] file:uppercase file:cursor-pointer file:rounded-lg hover:file:bg-ink-700"
                             />
@@ -308,6 +307,28 @@ export function ScriptImportModal({ project, onClose, onImport }: Props) {
                                             </div>
                                         </div>
 
+                                        {ambiguities.length > 0 && (
+                                            <div className="p-4 border rounded-lg bg-ink-800/50 border-ink-700 space-y-2">
+                                                <p className="font-bold text-xs text-steel-200 uppercase tracking-widest">Review Character Matches</p>
+                                                <p className="text-[10px] text-steel-500">These names could be more than one character. Pick who each one is, or leave it unlinked.</p>
+                                                {ambiguities.map(match => (
+                                                    <label key={match.name} className="flex items-center gap-2 text-xs">
+                                                        <span className="font-mono font-bold text-ember-500 truncate w-24 flex-shrink-0">{match.name}</span>
+                                                        <select
+                                                            value={resolutions[match.name] ?? ''}
+                                                            onChange={(e) => setResolutions(prev => ({ ...prev, [match.name]: e.target.value || null }))}
+                                                            className="flex-1 min-w-0 px-2 py-1 rounded border bg-ink-950 border-ink-700 text-steel-300 text-xs font-mono outline-none focus:border-ember-500"
+                                                        >
+                                                            <option value="">Leave unlinked</option>
+                                                            {match.candidates.map(candidate => (
+                                                                <option key={candidate.id} value={candidate.name}>{candidate.name}</option>
+                                                            ))}
+                                                        </select>
+                                                    </label>
+                                                ))}
+                                            </div>
+                                        )}
+
                                         <button
                                             onClick={handleImport}
                                             className="w-full py-4 bg-green-600 hover:bg-green-500 text-white font-bold text-sm uppercase tracking-widest rounded-lg transition-all mt-4"
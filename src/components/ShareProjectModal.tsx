@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { Trash2, Users } from 'lucide-react';
+import { Project } from '../types';
+import { ROLE_DESCRIPTIONS, ROLE_LABELS } from '../services/permissions';
+import {
+    ProjectMembership,
+    SHARED_ROLES,
+    SharedRole,
+    inviteMember,
+    loadProjectMembers,
+    removeMember,
+    updateMemberRole
+} from '../services/projectSharing';
+
+interface ShareProjectModalProps {
+    project: Project;
+    ownerId: string;
+    ownerEmail: string;
+    onClose: () => void;
+}
+
+/**
+ * Lets a project's owner invite people by email with a role, change roles and
+ * remove members. Invitees see the invite in their Project Hub once signed in.
+ */
+const ShareProjectModal: React.FC<ShareProjectModalProps> = ({ project, ownerId, ownerEmail, onClose }) => {
+    const [members, setMembers] = useState<ProjectMembership[]>([]);
+    const [email, setEmail] = useState('');
+    const [role, setRole] = useState<SharedRole>('editor');
+    const [status, setStatus] = useState<'loading' | 'idle' | 'saving'>('loading');
+    const [error, setError] = useState<string | null>(null);
+
+    const showMembers = (result: { members: ProjectMembership[]; error?: string }) => {
+        setMembers(result.members);
+        setError(result.error || null);
+        setStatus('idle');
+    };
+
+    const refresh = async () => showMembers(await loadProjectMembers(ownerId, project.id));
+
+    useEffect(() => {
+        loadProjectMembers(ownerId, project.id).then(showMembers);
+    }, [ownerId, project.id]);
+
+    const run = async (task: () => Promise<{ success: boolean; error?: string }>) => {
+        setStatus('saving');
+        const result = await task();
+        if (!result.success) {
+            setError(result.error || 'Something went wrong');
+            setStatus('idle');
+            return false;
+        }
+        await refresh();
+        return true;
+    };
+
+    const handleInvite = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (await run(() => inviteMember(ownerId, project.id, email, role, ownerEmail))) setEmail('');
+    };
+
+    return (
+        <div className="fixed inset-0 bg-ink-950/95 backdrop-blur-xl flex items-center justify-center z-[600] p-8" onClick={(e: React.MouseEvent) => e.stopPropagation()}>
+            <div className="w-full max-w-lg max-h-full flex flex-col bg-ink-900 border-2 border-ink-700 rounded-2xl shadow-2xl overflow-hidden">
+
+                {/* Header */}
+                <div className="p-6 border-b border-ink-700 flex items-center justify-between">
+                    <div>
+                        <h2 className="font-display text-3xl tracking-widest text-ember-500 uppercase flex items-center gap-3"><Users size={24} />Share</h2>
+                        <p className="text-[10px] font-mono text-steel-500 mt-1 uppercase tracking-widest truncate">{project.title}</p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="w-10 h-10 flex items-center justify-center rounded-full bg-ink-800 hover:bg-red-500 text-steel-400 hover:text-white transition-all text-xl font-bold"
+                    >
+                        ×
+                    </button>
+                </div>
+
+                {/* Content */}
+                <div className="p-6 space-y-6 overflow-y-auto">
+                    <form onSubmit={handleInvite} className="space-y-2">
+                        <label className="text-[9px] font-mono text-steel-500 uppercase block">Invite by email</label>
+                        <div className="flex gap-2">
+                            <input
+                                type="email"
+                                value={email}
+                                onChange={e => setEmail(e.target.value)}
+                                placeholder="name@example.com"
+                                className="flex-1 bg-ink-950 border border-ink-700 rounded-lg px-3 py-2 text-xs text-steel-300 font-mono outline-none focus:border-ember-500"
+                            />
+                            <select
+                                value={role}
+                                onChange={e => setRole(e.target.value as SharedRole)}
+                                className="bg-ink-950 border border-ink-700 rounded-lg px-2 py-2 text-xs text-steel-300 font-mono outline-none focus:border-ember-500"
+                            >
+                                {SHARED_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                            </select>
+                            <button
+                                type="submit"
+                                disabled={!email.trim() || status !== 'idle'}
+                                className="bg-ember-500 hover:bg-ember-400 disabled:opacity-50 text-ink-950 font-bold px-4 py-2 rounded-lg uppercase text-[9px] transition-colors"
+                            >
+                                Invite
+                            </button>
+                        </div>
+                        <p className="text-[10px] font-mono text-steel-600">{ROLE_LABELS[role]}: {ROLE_DESCRIPTIONS[role]}</p>
+                    </form>
+
+                    {error && <p className="text-[10px] font-mono text-red-400">{error}</p>}
+
+                    <div className="space-y-2">
+                        <h3 className="text-[9px] font-mono text-steel-500 uppercase">People with access</h3>
+                        <div className="flex items-center justify-between text-xs font-mono">
+                            <span className="text-steel-300 truncate">{ownerEmail}</span>
+                            <span className="text-steel-500 uppercase text-[10px]">{ROLE_LABELS.owner}</span>
+                        </div>
+                        {status === 'loading' ? (
+                            <p className="text-[10px] font-mono text-steel-600">Loading...</p>
+                        ) : members.map(member => (
+                            <div key={member.email} className="flex items-center gap-2 text-xs font-mono">
+                                <span className="flex-1 text-steel-300 truncate">
+                                    {member.email}
+                                    {!member.userId && <span className="ml-2 text-[9px] text-steel-600 uppercase">Invited</span>}
+                                </span>
+                                <select
+                                    value={member.role}
+                                    disabled={status !== 'idle'}
+                                    onChange={e => run(() => updateMemberRole(member, e.target.value as SharedRole))}
+                                    className="bg-ink-950 border border-ink-700 rounded px-2 py-1 text-[10px] text-steel-300 outline-none focus:border-ember-500"
+                                >
+                                    {SHARED_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                                </select>
+                                <button
+                                    onClick={() => { if (confirm(`Remove ${member.email} from this project?`)) run(() => removeMember(member)); }}
+                                    disabled={status !== 'idle'}
+                                    className="p-1 text-steel-600 hover:text-red-500 transition-colors"
+                                    title="Remove"
+                                >
+                                    <Trash2 size={12} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ShareProjectModal;
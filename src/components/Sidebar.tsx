@@ -1,18 +1,18 @@
-import React, { useState, useEffect } from 'react';
-import { AppState, PanelFrameStyle, TextOverlayStyle } from '../types';
+import React, { useState } from 'react';
+import { AppState, ImageProvider, PanelFrameStyle, TextOverlayStyle } from '../types';
 import { Action } from '../state/actions';
 import { ART_STYLES, Icons } from '../constants';
 import EmptyState from './EmptyState';
-import { generateImage as generateGeminiImage } from '../services/geminiService';
-import { generateLeonardoImage } from '../services/leonardoService';
-import { generateGrokImage } from '../services/grokService';
-import { generateFluxImage as generateFalFlux } from '../services/falFluxService';
-import { generateSeaArtImage } from '../services/seaartService';
-import { generateOpenAIImage } from '../services/openaiService';
-import { saveImage } from '../services/imageStorage';
+import ApiKeyInput from './ApiKeyInput';
+import { createSeed, describeMissingApiKey, getProviderAdapter, hasProviderKey } from '../services/imageProviders';
+import { generateProjectImage, getPanelGenerationInputs } from '../hooks/useImageGeneration';
+import { savePanelTake } from '../services/imageStorage';
 import { useAuth } from '../context/AuthContext';
 import { isSupabaseConfigured } from '../services/supabase';
 import { PageThumbnails } from './PageThumbnails';
+import { countIssueOpenThreads, countOpenThreads } from '../services/comments';
+import { updateWardrobeSelection } from '../services/wardrobe';
+import { WardrobePicker } from './WardrobePicker';
 import {
     DndContext,
     closestCenter,
@@ -29,7 +29,7 @@ import {
     verticalListSortingStrategy,
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { GripVertical } from 'lucide-react';
+import { GripVertical, MessageSquare } from 'lucide-react';
 import { Page } from '../types';
 
 interface SortablePageItemProps {
@@ -37,9 +37,10 @@ interface SortablePageItemProps {
     isActive: boolean;
     dispatch: React.Dispatch<Action>;
     panelCount: number;
+    openComments: number;
 }
 
-const SortablePageItem: React.FC<SortablePageItemProps> = ({ page, isActive, dispatch, panelCount }) => {
+const SortablePageItem: React.FC<SortablePageItemProps> = ({ page, isActive, dispatch, panelCount, openComments }) => {
     const {
         attributes,
         listeners,
@@ -73,7 +74,14 @@ const SortablePageItem: React.FC<SortablePageItemProps> = ({ page, isActive, dis
             >
                 <div className="flex justify-between items-center w-full">
                     <span>PAGE {page.number}</span>
-                    <span className="opacity-40 text-[9px]">{panelCount}F</span>
+                    <span className="flex items-center gap-2">
+                        {openComments > 0 && (
+                            <span className={`flex items-center gap-0.5 text-[9px] font-bold ${isActive ? '' : 'text-ember-500'}`} title={`${openComments} open comment${openComments === 1 ? '' : 's'}`}>
+                                <MessageSquare size={9} />{openComments}
+                            </span>
+                        )}
+                        <span className="opacity-40 text-[9px]">{panelCount}F</span>
+                    </span>
                 </div>
                 {panelCount > 0 && (
                     <PageThumbnails panels={page.panels} />
@@ -141,25 +149,7 @@ const Sidebar: React.FC<SidebarProps> = ({ state, dispatch, onOpenProjects, onOp
         "Custom": ["custom"]
     };
 
-    const [sidebarKey, setSidebarKey] = useState('');
-
-    useEffect(() => {
-        if (activeProject?.imageProvider === 'gemini') {
-            setSidebarKey(activeProject?.geminiApiKey || '');
-        } else if (activeProject?.imageProvider === 'leonardo') {
-            setSidebarKey(activeProject?.leonardoApiKey || '');
-        } else if (activeProject?.imageProvider === 'grok') {
-            setSidebarKey(activeProject?.grokApiKey || '');
-        } else if (activeProject?.imageProvider === 'fal') {
-            setSidebarKey(activeProject?.falApiKey || '');
-        } else if (activeProject?.imageProvider === 'seaart') {
-            setSidebarKey(activeProject?.seaartApiKey || '');
-        } else if (activeProject?.imageProvider === 'openai') {
-            setSidebarKey(activeProject?.openaiApiKey || '');
-        } else {
-            setSidebarKey('');
-        }
-    }, [activeProject?.geminiApiKey, activeProject?.leonardoApiKey, activeProject?.grokApiKey, activeProject?.falApiKey, activeProject?.seaartApiKey, activeProject?.openaiApiKey, activeProject?.imageProvider]);
+    const [showOpenComments, setShowOpenComments] = useState(false);
 
     const [showCharForm, setShowCharForm] = useState(false);
     const [charName, setCharName] = useState('');
@@ -174,118 +164,17 @@ const Sidebar: React.FC<SidebarProps> = ({ state, dispatch, onOpenProjects, onOp
         }
     };
 
-    // Generate with FAL
-    const handleFalClick = async () => {
-        if (activeProject?.imageProvider !== 'fal') {
-            dispatch({ type: 'UPDATE_PROJECT', id: activeProject!.id, updates: { imageProvider: 'fal' } });
-            return;
-        }
-
-        if (!activeProject?.falApiKey) {
-            alert("FAL API key is missing. Enter it below and click SET.");
-            return;
-        }
-
-        if (!activePage || activePage.panels.length === 0) {
-            alert("No active page or frames. Add a frame first.");
-            return;
-        }
-
-        const targetPanel = activePage.panels[0];
-        const prompt = targetPanel.prompt?.trim();
-
-        if (!prompt) {
-            alert("No prompt/description in the active frame. Add one first.");
-            return;
-        }
-
-        try {
-            const generatedUrl = await generateFalFlux(
-                prompt,
-                targetPanel.aspectRatio || 'square',
-                activeProject.falApiKey,
-                activeProject.fluxModel || 'fal-ai/flux-pro',
-                undefined,
-                0.7
-            );
-
-            if (!generatedUrl) throw new Error("No image URL returned from FAL");
-
-            const storedRef = await saveImage(targetPanel.id, generatedUrl);
-            dispatch({
-                type: 'UPDATE_PANEL',
-                panelId: targetPanel.id,
-                updates: { imageUrl: storedRef }
-            });
-
-            console.log("FAL image generated and saved:", generatedUrl);
-        } catch (err: unknown) {
-            const errorMessage = err instanceof Error ? err.message : 'Check console for details';
-            console.error("FAL generation failed:", err);
-            alert(`FAL generation failed: ${errorMessage}`);
-        }
-    };
-
-    // Generate with Leonardo
-    const handleLeonardoClick = async () => {
-        if (activeProject?.imageProvider !== 'leonardo') {
-            dispatch({ type: 'UPDATE_PROJECT', id: activeProject!.id, updates: { imageProvider: 'leonardo' } });
-            return;
-        }
-
-        if (!activeProject?.leonardoApiKey) {
-            alert("Leonardo API key is missing. Enter it above and click SET.");
-            return;
-        }
-
-        if (!activePage || activePage.panels.length === 0) {
-            alert("No active page or frames. Add a frame first.");
-            return;
-        }
-
-        const targetPanel = activePage.panels[0];
-        const prompt = targetPanel.prompt?.trim();
-
-        if (!prompt) {
-            alert("No prompt/description in the active frame. Add one first.");
+    // First click selects the provider, second click generates the first frame of the active page
+    const handleProviderClick = async (provider: ImageProvider) => {
+        if (activeProject?.imageProvider !== provider) {
+            dispatch({ type: 'UPDATE_PROJECT', id: activeProject!.id, updates: { imageProvider: provider } });
             return;
         }
 
-        try {
-            const generatedUrl = await generateLeonardoImage(
-                prompt,
-                targetPanel.aspectRatio || 'square',
-                activeProject.leonardoApiKey,
-                undefined,
-                0.7
-            );
+        const { label } = getProviderAdapter(provider);
 
-            if (!generatedUrl) throw new Error("No image URL returned from Leonardo");
-
-            const storedRef = await saveImage(targetPanel.id, generatedUrl);
-            dispatch({
-                type: 'UPDATE_PANEL',
-                panelId: targetPanel.id,
-                updates: { imageUrl: storedRef }
-            });
-
-            console.log("Leonardo image generated and saved:", generatedUrl);
-        } catch (err: unknown) {
-            const errorMessage = err instanceof Error ? err.message : 'Check console for details';
-            console.error("Leonardo generation failed:", err);
-            alert(`Leonardo generation failed: ${errorMessage}`);
-        }
-    };
-
-    // Generate with Gemini
-    const handleGeminiClick = async () => {
-        if (activeProject?.imageProvider !== 'gemini') {
-            dispatch({ type: 'UPDATE_PROJECT', id: activeProject!.id, updates: { imageProvider: 'gemini' } });
-            return;
-        }
-
-        if (!activeProject?.geminiApiKey) {
-            alert("Gemini API key is missing. Enter it below and click SET.");
+        if (!(await hasProviderKey(provider))) {
+            alert(describeMissingApiKey(provider));
             return;
         }
 
@@ -303,181 +192,34 @@ const Sidebar: React.FC<SidebarProps> = ({ state, dispatch, onOpenProjects, onOp
         }
 
         try {
-            const generatedUrl = await generateGeminiImage(
+            const inputs = await getPanelGenerationInputs(activeProject, activeIssue, activePage, targetPanel);
+            const seed = createSeed(provider);
+            const generatedUrl = await generateProjectImage(
+                activeProject,
                 prompt,
-                targetPanel.aspectRatio || 'square',
-                activeProject.geminiApiKey,
-                undefined,
-                0.7
+                targetPanel.aspectRatio,
+                inputs.characters,
+                inputs.initImage,
+                targetPanel.referenceStrength ?? 0.7,
+                seed,
+                { source: 'sidebar', issueId: activeIssue?.id, panelId: targetPanel.id },
+                inputs.wardrobe,
+                inputs.location,
+                inputs.props
             );
 
-            if (!generatedUrl) throw new Error("No image URL returned from Gemini");
+            if (!generatedUrl) throw new Error(`No image URL returned from ${label}`);
 
-            const storedRef = await saveImage(targetPanel.id, generatedUrl);
+            const take = await savePanelTake(generatedUrl, { prompt, provider, seed });
             dispatch({
-                type: 'UPDATE_PANEL',
+                type: 'ADD_PANEL_TAKE',
                 panelId: targetPanel.id,
-                updates: { imageUrl: storedRef }
+                take
             });
-
-            console.log("Gemini image generated and saved:", generatedUrl);
         } catch (err: unknown) {
             const errorMessage = err instanceof Error ? err.message : 'Check console for details';
-            console.error("Gemini generation failed:", err);
-            alert(`Gemini generation failed: ${errorMessage}`);
-        }
-    };
-
-    // Generate with Grok
-    const handleGrokClick = async () => {
-        if (activeProject?.imageProvider !== 'grok') {
-            dispatch({ type: 'UPDATE_PROJECT', id: activeProject!.id, updates: { imageProvider: 'grok' } });
-            return;
-        }
-
-        if (!activeProject?.grokApiKey) {
-            alert("Grok (xAI) API key is missing. Enter it below and click SET.");
-            return;
-        }
-
-        if (!activePage || activePage.panels.length === 0) {
-            alert("No active page or frames. Add a frame first.");
-            return;
-        }
-
-        const targetPanel = activePage.panels[0];
-        const prompt = targetPanel.prompt?.trim();
-
-        if (!prompt) {
-            alert("No prompt/description in the active frame. Add one first.");
-            return;
-        }
-
-        try {
-            const generatedUrl = await generateGrokImage(
-                prompt,
-                targetPanel.aspectRatio || 'square',
-                activeProject.grokApiKey,
-                undefined,
-                0.7
-            );
-
-            if (!generatedUrl) throw new Error("No image URL returned from Grok");
-
-            const storedRef = await saveImage(targetPanel.id, generatedUrl);
-            dispatch({
-                type: 'UPDATE_PANEL',
-                panelId: targetPanel.id,
-                updates: { imageUrl: storedRef }
-            });
-
-            console.log("Grok image generated and saved:", generatedUrl);
-        } catch (err: unknown) {
-            const errorMessage = err instanceof Error ? err.message : 'Check console for details';
-            console.error("Grok generation failed:", err);
-            alert(`Grok generation failed: ${errorMessage}`);
-        }
-    };
-
-    // Generate with SeaArt
-    const handleSeaArtClick = async () => {
-        if (activeProject?.imageProvider !== 'seaart') {
-            dispatch({ type: 'UPDATE_PROJECT', id: activeProject!.id, updates: { imageProvider: 'seaart' } });
-            return;
-        }
-
-        if (!activeProject?.seaartApiKey) {
-            alert("SeaArt API key is missing. Enter it below and click SET.");
-            return;
-        }
-
-        if (!activePage || activePage.panels.length === 0) {
-            alert("No active page or frames. Add a frame first.");
-            return;
-        }
-
-        const targetPanel = activePage.panels[0];
-        const prompt = targetPanel.prompt?.trim();
-
-        if (!prompt) {
-            alert("No prompt/description in the active frame. Add one first.");
-            return;
-        }
-
-        try {
-            const generatedUrl = await generateSeaArtImage(
-                prompt,
-                targetPanel.aspectRatio || 'square',
-                activeProject.seaartApiKey,
-                undefined,
-                0.7
-            );
-
-            if (!generatedUrl) throw new Error("No image URL returned from SeaArt");
-
-            const storedRef = await saveImage(targetPanel.id, generatedUrl);
-            dispatch({
-                type: 'UPDATE_PANEL',
-                panelId: targetPanel.id,
-                updates: { imageUrl: storedRef }
-            });
-
-            console.log("SeaArt image generated and saved:", generatedUrl);
-        } catch (err: unknown) {
-            const errorMessage = err instanceof Error ? err.message : 'Check console for details';
-            console.error("SeaArt generation failed:", err);
-            alert(`SeaArt generation failed: ${errorMessage}`);
-        }
-    };
-
-    // Generate with OpenAI
-    const handleOpenAIClick = async () => {
-        if (activeProject?.imageProvider !== 'openai') {
-            dispatch({ type: 'UPDATE_PROJECT', id: activeProject!.id, updates: { imageProvider: 'openai' } });
-            return;
-        }
-
-        if (!activeProject?.openaiApiKey) {
-            alert("OpenAI API key is missing. Enter it below and click SET.");
-            return;
-        }
-
-        if (!activePage || activePage.panels.length === 0) {
-            alert("No active page or frames. Add a frame first.");
-            return;
-        }
-
-        const targetPanel = activePage.panels[0];
-        const prompt = targetPanel.prompt?.trim();
-
-        if (!prompt) {
-            alert("No prompt/description in the active frame. Add one first.");
-            return;
-        }
-
-        try {
-            const generatedUrl = await generateOpenAIImage(
-                prompt,
-                targetPanel.aspectRatio || 'square',
-                activeProject.openaiApiKey,
-                undefined,
-                0.7
-            );
-
-            if (!generatedUrl) throw new Error("No image URL returned from OpenAI");
-
-            const storedRef = await saveImage(targetPanel.id, generatedUrl);
-            dispatch({
-                type: 'UPDATE_PANEL',
-                panelId: targetPanel.id,
-                updates: { imageUrl: storedRef }
-            });
-
-            console.log("OpenAI image generated and saved:", generatedUrl);
-        } catch (err: unknown) {
-            const errorMessage = err instanceof Error ? err.message : 'Check console for details';
-            console.error("OpenAI generation failed:", err);
-            alert(`OpenAI generation failed: ${errorMessage}`);
+            console.error(`${label} generation failed:`, err);
+            alert(`${label} generation failed: ${errorMessage}`);
         }
     };
 
@@ -539,7 +281,7 @@ const Sidebar: React.FC<SidebarProps> = ({ state, dispatch, onOpenProjects, onOp
                             <p className="text-[9px] font-mono text-steel-500 uppercase tracking-widest">Image Provider</p>
                             <div className="grid grid-cols-2 gap-1.5">
                                 <button
-                                    onClick={handleGeminiClick}
+                                    onClick={() => handleProviderClick('gemini')}
                                     className={`text-[9px] font-mono py-2 rounded-lg transition-all ${
                                         activeProject?.imageProvider === 'gemini'
                                             ? 'bg-blue-600 hover:bg-blue-500 text-white font-bold shadow-lg shadow-blue-600/30'
@@ -549,7 +291,7 @@ const Sidebar: React.FC<SidebarProps> = ({ state, dispatch, onOpenProjects, onOp
                                     GEMINI
                                 </button>
                                 <button
-                                    onClick={handleLeonardoClick}
+                                    onClick={() => handleProviderClick('leonardo')}
                                     className={`text-[9px] font-mono py-2 rounded-lg transition-all ${
                                         activeProject?.imageProvider === 'leonardo'
                                             ? 'bg-orange-600 hover:bg-orange-500 text-white font-bold shadow-lg shadow-orange-600/30'
@@ -559,7 +301,7 @@ const Sidebar: React.FC<SidebarProps> = ({ state, dispatch, onOpenProjects, onOp
                                     LEONARDO
                                 </button>
                                 <button
-                                    onClick={handleGrokClick}
+                                    onClick={() => handleProviderClick('grok')}
                                     className={`text-[9px] font-mono py-2 rounded-lg transition-all ${
                                         activeProject?.imageProvider === 'grok'
                                             ? 'bg-gray-600 hover:bg-gray-500 text-white font-bold shadow-lg shadow-gray-600/30'
@@ -570,7 +312,7 @@ const Sidebar: React.FC<SidebarProps> = ({ state, dispatch, onOpenProjects, onOp
                                     GROK
                                 </button>
                                 <button
-                                    onClick={handleFalClick}
+                                    onClick={() => handleProviderClick('fal')}
                                     className={`text-[9px] font-mono py-2 rounded-lg transition-all ${
                                         activeProject?.imageProvider === 'fal'
                                             ? 'bg-ember-500 hover:bg-ember-400 text-ink-950 font-bold shadow-lg shadow-ember-500/30'
@@ -582,7 +324,7 @@ const Sidebar: React.FC<SidebarProps> = ({ state, dispatch, onOpenProjects, onOp
                             </div>
                             <div className="grid grid-cols-2 gap-1.5 mt-1.5">
                                 <button
-                                    onClick={handleSeaArtClick}
+                                    onClick={() => handleProviderClick('seaart')}
                                     className={`text-[9px] font-mono py-2 rounded-lg transition-all ${
                                         activeProject?.imageProvider === 'seaart'
                                             ? 'bg-pink-600 hover:bg-pink-500 text-white font-bold shadow-lg shadow-pink-600/30'
@@ -593,7 +335,7 @@ const Sidebar: React.FC<SidebarProps> = ({ state, dispatch, onOpenProjects, onOp
                                     SEAART
                                 </button>
                                 <button
-                                    onClick={handleOpenAIClick}
+                                    onClick={() => handleProviderClick('openai')}
                                     className={`text-[9px] font-mono py-2 rounded-lg transition-all ${
                                         activeProject?.imageProvider === 'openai'
                                             ? 'bg-green-600 hover:bg-green-500 text-white font-bold shadow-lg shadow-green-600/30'
@@ -607,106 +349,11 @@ const Sidebar: React.FC<SidebarProps> = ({ state, dispatch, onOpenProjects, onOp
                         </div>
 
                         {/* API Key Input */}
-                        <div className="mt-3 pt-3 border-t border-ink-700 space-y-2">
-                            <label className="text-[9px] font-mono text-steel-500 uppercase flex justify-between items-center">
-                                <span>
-                                    {activeProject?.imageProvider === 'gemini' ? 'Gemini' :
-                                     activeProject?.imageProvider === 'leonardo' ? 'Leonardo' :
-                                     activeProject?.imageProvider === 'grok' ? 'Grok (xAI)' :
-                                     activeProject?.imageProvider === 'fal' ? 'FAL' :
-                                     activeProject?.imageProvider === 'seaart' ? 'SeaArt' :
-                                     activeProject?.imageProvider === 'openai' ? 'OpenAI' : 'API'} Key
-                                </span>
-                                {!sidebarKey && <span className="text-red-500 font-bold animate-pulse text-[8px]">REQUIRED</span>}
-                            </label>
-                            <div className="flex gap-1">
-                                <input
-                                    type="password"
-                                    placeholder="Enter API Key..."
-                                    value={sidebarKey}
-                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSidebarKey(e.target.value)}
-                                    className="flex-1 bg-ink-950 border border-ink-700 rounded-lg px-3 py-2 text-[10px] text-steel-300 focus:border-ember-500 outline-none"
-                                />
-                                <button
-                                    onClick={() => {
-                                        if (sidebarKey.trim()) {
-                                            if (activeProject?.imageProvider === 'gemini') {
-                                                dispatch({ type: 'UPDATE_PROJECT_GEMINI_KEY', projectId: activeProject.id, apiKey: sidebarKey.trim() });
-                                            } else if (activeProject?.imageProvider === 'leonardo') {
-                                                dispatch({ type: 'UPDATE_PROJECT_LEONARDO_KEY', projectId: activeProject.id, apiKey: sidebarKey.trim() });
-                                            } else if (activeProject?.imageProvider === 'grok') {
-                                                dispatch({ type: 'UPDATE_PROJECT_GROK_KEY', projectId: activeProject.id, apiKey: sidebarKey.trim() });
-                                            } else if (activeProject?.imageProvider === 'fal') {
-                                                dispatch({ type: 'UPDATE_PROJECT_FAL_KEY', projectId: activeProject.id, apiKey: sidebarKey.trim() });
-                                            } else if (activeProject?.imageProvider === 'seaart') {
-                                                dispatch({ type: 'UPDATE_PROJECT_SEAART_KEY', projectId: activeProject.id, apiKey: sidebarKey.trim() });
-                                            } else if (activeProject?.imageProvider === 'openai') {
-                                                dispatch({ type: 'UPDATE_PROJECT_OPENAI_KEY', projectId: activeProject.id, apiKey: sidebarKey.trim() });
-                                            }
-                                            alert('API key saved!');
-                                        }
-                                    }}
-                                    className="bg-ember-500 hover:bg-ember-400 text-ink-950 px-4 rounded-lg text-[9px] transition-colors font-bold"
-                                >
-                                    SET
-                                </button>
+                        {activeProject && (
+                            <div className="mt-3 pt-3 border-t border-ink-700">
+                                <ApiKeyInput provider={activeProject.imageProvider} />
                             </div>
-                            {activeProject?.imageProvider === 'gemini' ? (
-                                <a 
-                                    href="https://aistudio.google.com/app/apikey" 
-                                    target="_blank" 
-                                    rel="noopener noreferrer"
-                                    className="text-[8px] text-steel-600 italic hover:underline hover:text-steel-400 cursor-pointer transition-colors"
-                                >
-                                    Get key from ai.google.dev
-                                </a>
-                            ) : activeProject?.imageProvider === 'leonardo' ? (
-                                <a 
-                                    href="https://leonardo.ai/settings" 
-                                    target="_blank" 
-                                    rel="noopener noreferrer"
-                                    className="text-[8px] text-steel-600 italic hover:underline hover:text-steel-400 cursor-pointer transition-colors"
-                                >
-                                    Get key from leonardo.ai
-                                </a>
-                            ) : activeProject?.imageProvider === 'grok' ? (
-                                <a 
-                                    href="https://console.x.ai" 
-                                    target="_blank" 
-                                    rel="noopener noreferrer"
-                                    className="text-[8px] text-steel-600 italic hover:underline hover:text-steel-400 cursor-pointer transition-colors"
-                                >
-                                    Get key from console.x.ai (experimental)
-                                </a>
-                            ) : activeProject?.imageProvider === 'fal' ? (
-                                <a 
-                                    href="https://fal.ai/dashboard/keys" 
-                                    target="_blank" 
-                                    rel="noopener noreferrer"
-                                    className="text-[8px] text-steel-600 italic hover:underline hover:text-steel-400 cursor-pointer transition-colors"
-                                >
-                                    Get key from fal.ai
-                                </a>
-                            ) : activeProject?.imageProvider === 'seaart' ? (
-                                <a 
-                                    href="https://seaart.ai/api" 
-                                    target="_blank" 
-                                    rel="noopener noreferrer"
-                                    className="text-[8px] text-steel-600 italic hover:underline hover:text-steel-400 cursor-pointer transition-colors"
-                                >
-                                    Get key from seaart.ai/api
-                                </a>
-                            ) : activeProject?.imageProvider === 'openai' ? (
-                                <a 
-                                    href="https://platform.openai.com/api-keys" 
-                                    target="_blank" 
-                                    rel="noopener noreferrer"
-                                    className="text-[8px] text-steel-600 italic hover:underline hover:text-steel-400 cursor-pointer transition-colors"
-                                >
-                                    Get key from platform.openai.com
-                                </a>
-                            ) : null}
-                        </div>
+                        )}
                     </div>
                 </div>
 
@@ -770,6 +417,15 @@ const Sidebar: React.FC<SidebarProps> = ({ state, dispatch, onOpenProjects, onOp
                                     </div>
                                     {isActive && (
                                         <div className="px-2 py-2 border-t border-ember-500/10 space-y-1 animate-fade-in">
+                                            {countIssueOpenThreads(iss) > 0 && (
+                                                <button
+                                                    onClick={() => setShowOpenComments(!showOpenComments)}
+                                                    className={`w-full flex items-center justify-between px-2 py-1 rounded text-[9px] font-mono uppercase tracking-widest transition-colors ${showOpenComments ? 'bg-ember-500/20 text-ember-500' : 'text-steel-500 hover:bg-ink-800'}`}
+                                                >
+                                                    <span>{showOpenComments ? 'Showing open comments' : 'Open comments'}</span>
+                                                    <span>{countIssueOpenThreads(iss)}</span>
+                                                </button>
+                                            )}
                                             <DndContext
                                                 sensors={sensors}
                                                 collisionDetection={closestCenter}
@@ -779,15 +435,18 @@ const Sidebar: React.FC<SidebarProps> = ({ state, dispatch, onOpenProjects, onOp
                                                     items={iss.pages.map(p => p.id)}
                                                     strategy={verticalListSortingStrategy}
                                                 >
-                                                    {iss.pages.map(pg => (
-                                                        <SortablePageItem
-                                                            key={pg.id}
-                                                            page={pg}
-                                                            isActive={state.activePageId === pg.id}
-                                                            dispatch={dispatch}
-                                                            panelCount={pg.panels.length}
-                                                        />
-                                                    ))}
+                                                    {iss.pages
+                                                        .filter(pg => !showOpenComments || !countIssueOpenThreads(iss) || countOpenThreads(pg) > 0)
+                                                        .map(pg => (
+                                                            <SortablePageItem
+                                                                key={pg.id}
+                                                                page={pg}
+                                                                isActive={state.activePageId === pg.id}
+                                                                dispatch={dispatch}
+                                                                panelCount={pg.panels.length}
+                                                                openComments={countOpenThreads(pg)}
+                                                            />
+                                                        ))}
                                                 </SortableContext>
                                             </DndContext>
                                             <button
@@ -796,6 +455,28 @@ const Sidebar: React.FC<SidebarProps> = ({ state, dispatch, onOpenProjects, onOp
                                             >
                                                 + Add Page
                                             </button>
+                                            {activeProject.characters.some(c => c.wardrobe?.length) && (
+                                                <div className="pt-2 mt-1 border-t border-ember-500/10 space-y-2">
+                                                    <p className="px-1 text-[9px] font-mono text-steel-600 uppercase tracking-widest">Wardrobe · {typeLabel} default</p>
+                                                    <WardrobePicker
+                                                        characters={activeProject.characters}
+                                                        selection={iss.wardrobe}
+                                                        onChange={(characterId, variantId) => dispatch({ type: 'UPDATE_ISSUE', issueId: iss.id, updates: { wardrobe: updateWardrobeSelection(iss.wardrobe, characterId, variantId) } })}
+                                                    />
+                                                    {activePage && (
+                                                        <>
+                                                            <p className="px-1 text-[9px] font-mono text-steel-600 uppercase tracking-widest">Wardrobe · Page {activePage.number}</p>
+                                                            <WardrobePicker
+                                                                characters={activeProject.characters}
+                                                                selection={activePage.wardrobe}
+                                                                inherited={iss.wardrobe}
+                                                                inheritedLabel={typeLabel}
+                                                                onChange={(characterId, variantId) => dispatch({ type: 'UPDATE_PAGE', pageId: activePage.id, updates: { wardrobe: updateWardrobeSelection(activePage.wardrobe, characterId, variantId) } })}
+                                                            />
+                                                        </>
+                                                    )}
+                                                </div>
+                                            )}
                                         </div>
                                     )}
                                 </div>
@@ -0,0 +1,128 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { HardDrive, Trash2 } from 'lucide-react';
+import { AppState } from '../types';
+import { StoredImageInfo, deleteImage, listStoredImages } from '../services/imageStorage';
+import {
+    ProjectStorageUsage,
+    QUOTA_WARNING_RATIO,
+    StorageEstimate,
+    findOrphanedImages,
+    formatBytes,
+    getProjectUsage,
+    getStorageEstimate
+} from '../services/storageManager';
+
+interface StorageManagerModalProps {
+    state: AppState;
+    historyStates: AppState[];   // Undo/redo states, whose images must survive cleanup
+    onClose: () => void;
+}
+
+const StorageManagerModal: React.FC<StorageManagerModalProps> = ({ state, historyStates, onClose }) => {
+    const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+    const [usage, setUsage] = useState<ProjectStorageUsage[]>([]);
+    const [orphans, setOrphans] = useState<StoredImageInfo[]>([]);
+    const [status, setStatus] = useState<'loading' | 'idle' | 'cleaning'>('loading');
+
+    const refresh = useCallback(async () => {
+        try {
+            const [images, nextEstimate] = await Promise.all([listStoredImages(), getStorageEstimate()]);
+            setEstimate(nextEstimate);
+            setUsage(getProjectUsage(state.projects, images).sort((a, b) => b.imageBytes - a.imageBytes));
+            setOrphans(findOrphanedImages([state, ...historyStates], images));
+        } catch (e) {
+            console.error('Failed to read storage usage', e);
+        } finally {
+            setStatus('idle');
+        }
+    }, [state, historyStates]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const orphanBytes = orphans.reduce((total, image) => total + image.size, 0);
+
+    const handleCleanup = async () => {
+        if (!confirm(`Delete ${orphans.length} unused ${orphans.length === 1 ? 'image' : 'images'} (${formatBytes(orphanBytes)})? No panel, take or undo step uses them. This cannot be undone.`)) return;
+
+        setStatus('cleaning');
+        for (const image of orphans) {
+            await deleteImage(image.id).catch(err => console.error('Failed to delete image', err));
+        }
+        await refresh();
+    };
+
+    const usedRatio = estimate ? estimate.usage / estimate.quota : 0;
+
+    return (
+        <div className="fixed inset-0 bg-ink-950/95 backdrop-blur-xl flex items-center justify-center z-[600] p-8">
+            <div className="w-full max-w-lg max-h-full flex flex-col bg-ink-900 border-2 border-ink-700 rounded-2xl shadow-2xl overflow-hidden">
+
+                {/* Header */}
+                <div className="p-6 border-b border-ink-700 flex items-center justify-between">
+                    <div>
+                        <h2 className="font-display text-3xl tracking-widest text-ember-500 uppercase flex items-center gap-3"><HardDrive size={24} />Storage</h2>
+                        <p className="text-[10px] font-mono text-steel-500 mt-1 uppercase tracking-widest">Images saved in this browser</p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="w-10 h-10 flex items-center justify-center rounded-full bg-ink-800 hover:bg-red-500 text-steel-400 hover:text-white transition-all text-xl font-bold"
+                    >
+                        ×
+                    </button>
+                </div>
+
+                {/* Content */}
+                <div className="p-6 space-y-6 overflow-y-auto">
+                    {estimate ? (
+                        <div>
+                            <div className="flex justify-between text-xs font-mono text-steel-400 mb-2">
+                                <span>{formatBytes(estimate.usage)} used</span>
+                                <span>{formatBytes(estimate.quota)} available</span>
+                            </div>
+                            <div className="h-2 rounded-full bg-ink-800 overflow-hidden">
+                                <div
+                                    className={`h-full ${usedRatio >= QUOTA_WARNING_RATIO ? 'bg-red-500' : 'bg-ember-500'}`}
+                                    style={{ width: `${Math.min(usedRatio * 100, 100)}%` }}
+                                />
+                            </div>
+                        </div>
+                    ) : (
+                        <p className="text-xs text-steel-500">{status === 'loading' ? 'Reading storage...' : 'This browser does not report its storage quota.'}</p>
+                    )}
+
+                    <div className="space-y-2">
+                        <div className="text-[10px] font-mono text-steel-400 uppercase tracking-widest">By project</div>
+                        {usage.map(project => (
+                            <div key={project.projectId} className="flex items-center justify-between gap-4 text-xs text-steel-300 p-3 rounded-lg bg-ink-950 border border-ink-800">
+                                <span className="truncate font-bold">{project.title}</span>
+                                <span className="font-mono text-steel-500 shrink-0">
+                                    {project.imageCount} images · {formatBytes(project.imageBytes + project.dataBytes)}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="p-4 rounded-lg border border-ink-700 flex items-center justify-between gap-4">
+                        <div className="text-xs text-steel-300">
+                            <div className="font-bold">Unused images</div>
+                            <div className="font-mono text-steel-500 mt-1">
+                                {status === 'loading' ? '...' : `${orphans.length} · ${formatBytes(orphanBytes)}`}
+                            </div>
+                        </div>
+                        <button
+                            onClick={handleCleanup}
+                            disabled={status !== 'idle' || orphans.length === 0}
+                            className="flex items-center gap-2 bg-ember-500 hover:bg-ember-400 disabled:opacity-50 text-ink-950 font-bold px-4 py-2 rounded-lg uppercase text-xs transition-colors"
+                        >
+                            <Trash2 size={14} />{status === 'cleaning' ? 'Cleaning...' : 'Clean Up'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default StorageManagerModal;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { GitMerge } from 'lucide-react';
+import { Panel, Project } from '../types';
+import { MergeSide, PanelConflict, resolveMerge } from '../services/projectMerge';
+import { SyncConflict } from '../hooks/useCloudSync';
+import { useIndexedDBImage } from '../hooks/useIndexedDBImage';
+
+interface SyncConflictModalProps {
+    conflict: SyncConflict;
+    remaining: number;
+    onResolve: (projectId: string, project: Project) => void;
+}
+
+function PanelVersion({ panel, label, selected, onSelect }: { panel: Panel | null; label: string; selected: boolean; onSelect: () => void }) {
+    const src = useIndexedDBImage(panel?.imageUrl);
+
+    return (
+        <button
+            onClick={onSelect}
+            className={`flex-1 min-w-0 text-left p-2 rounded-lg border-2 transition-colors ${selected ? 'border-ember-500 bg-ember-500/10' : 'border-ink-700 hover:border-steel-500'}`}
+        >
+            <div className="text-[10px] font-mono text-steel-400 uppercase tracking-widest mb-2">{label}</div>
+            {panel ? (
+                <div className="flex gap-2">
+                    <div className="w-14 h-14 shrink-0 rounded bg-ink-800 overflow-hidden">
+                        {src && <img src={src} alt="" className="w-full h-full object-cover" />}
+                    </div>
+                    <div className="min-w-0 text-[11px] text-steel-300 space-y-1">
+                        <p className="line-clamp-2">{panel.prompt || <span className="italic text-steel-500">No description</span>}</p>
+                        <p className="text-steel-500 font-mono">{panel.textElements.length} text · {panel.takes?.length || (panel.imageUrl ? 1 : 0)} takes</p>
+                    </div>
+                </div>
+            ) : (
+                <p className="text-[11px] italic text-steel-500">Deleted</p>
+            )}
+        </button>
+    );
+}
+
+/**
+ * Shown when a project was edited here and on another device since the last
+ * sync and the same panels changed on both. Everything else is already merged.
+ */
+const SyncConflictModal: React.FC<SyncConflictModalProps> = ({ conflict, remaining, onResolve }) => {
+    const { merge } = conflict;
+    const [choices, setChoices] = useState<Record<string, MergeSide>>({});
+
+    const choose = (panelConflict: PanelConflict, side: MergeSide) =>
+        setChoices(prev => ({ ...prev, [panelConflict.panelId]: side }));
+
+    const resolve = (project: Project) => {
+        setChoices({});
+        onResolve(merge.local.id, project);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-ink-950/95 backdrop-blur-xl flex items-center justify-center z-[700] p-8">
+            <div className="w-full max-w-2xl max-h-full flex flex-col bg-ink-900 border-2 border-ink-700 rounded-2xl shadow-2xl overflow-hidden">
+
+                {/* Header */}
+                <div className="p-6 border-b border-ink-700">
+                    <h2 className="font-display text-3xl tracking-widest text-ember-500 uppercase flex items-center gap-3"><GitMerge size={24} />Sync Conflict</h2>
+                    <p className="text-xs text-steel-400 mt-2">
+                        <span className="text-steel-200 font-bold">{merge.local.title}</span> was changed here and on another device.
+                        Other changes were merged; pick a version for each panel edited on both.
+                    </p>
+                    {remaining > 1 && <p className="text-[10px] font-mono text-steel-500 mt-1 uppercase tracking-widest">{remaining} projects need attention</p>}
+                </div>
+
+                {/* Content */}
+                <div className="p-6 space-y-4 overflow-y-auto">
+                    {merge.conflicts.map((panelConflict) => {
+                        const side = choices[panelConflict.panelId] || 'local';
+                        return (
+                            <div key={panelConflict.panelId}>
+                                <div className="text-[10px] font-mono text-steel-500 uppercase tracking-widest mb-2">
+                                    {panelConflict.issueTitle} · Page {panelConflict.pageNumber}
+                                </div>
+                                <div className="flex gap-3">
+                                    <PanelVersion panel={panelConflict.local} label="This device" selected={side === 'local'} onSelect={() => choose(panelConflict, 'local')} />
+                                    <PanelVersion panel={panelConflict.remote} label="Cloud" selected={side === 'remote'} onSelect={() => choose(panelConflict, 'remote')} />
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {/* Footer */}
+                <div className="p-6 border-t border-ink-700 flex gap-3">
+                    <button
+                        onClick={() => resolve(merge.local)}
+                        className="flex-1 bg-ink-800 hover:bg-ink-700 text-steel-400 hover:text-steel-300 font-bold py-3 rounded-lg uppercase text-xs transition-colors border border-ink-700"
+                        title="Discard the cloud changes"
+                    >
+                        Keep This Device
+                    </button>
+                    <button
+                        onClick={() => resolve(merge.remote)}
+                        className="flex-1 bg-ink-800 hover:bg-ink-700 text-steel-400 hover:text-steel-300 font-bold py-3 rounded-lg uppercase text-xs transition-colors border border-ink-700"
+                        title="Discard the changes made here"
+                    >
+                        Keep Cloud
+                    </button>
+                    <button
+                        onClick={() => resolve(resolveMerge(merge, choices))}
+                        className="flex-1 bg-ember-500 hover:bg-ember-400 text-ink-950 font-bold py-3 rounded-lg uppercase text-xs transition-colors"
+                    >
+                        Merge
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SyncConflictModal;
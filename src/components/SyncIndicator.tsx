@@ -1,11 +1,13 @@
 import React from 'react';
 import { SyncStatus } from '../services/cloudSync';
+import { ImageSyncProgress } from '../hooks/useCloudSync';
 
 interface Props {
   status: SyncStatus;
+  imageProgress?: ImageSyncProgress | null;
 }
 
-export const SyncIndicator: React.FC<Props> = ({ status }) => {
+export const SyncIndicator: React.FC<Props> = ({ status, imageProgress }) => {
   const getIcon = () => {
     switch (status.status) {
       case 'saving':
@@ -20,6 +22,18 @@ export const SyncIndicator: React.FC<Props> = ({ status }) => {
             <path d="M5 13l4 4L19 7" />
           </svg>
         );
+      case 'offline':
+        return (
+          <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M3 3l18 18M8.5 8.6A4 4 0 003 12a4 4 0 004 4h9m3.4-1.1A4 4 0 0016 9a5 5 0 00-6.2-3.6" />
+          </svg>
+        );
+      case 'conflict':
+        return (
+          <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M6 3v12M18 9a3 3 0 100-6 3 3 0 000 6zM6 21a3 3 0 100-6 3 3 0 000 6zM18 9a9 9 0 01-9 9" />
+          </svg>
+        );
       case 'error':
         return (
           <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -42,6 +56,10 @@ export const SyncIndicator: React.FC<Props> = ({ status }) => {
         return 'Saving...';
       case 'saved':
         return 'Saved';
+      case 'offline':
+        return 'Offline';
+      case 'conflict':
+        return 'Needs merge';
       case 'error':
         return 'Sync error';
       default:
@@ -55,6 +73,10 @@ export const SyncIndicator: React.FC<Props> = ({ status }) => {
         return 'text-ember-400';
       case 'saved':
         return 'text-green-400';
+      case 'offline':
+        return 'text-steel-400';
+      case 'conflict':
+        return 'text-amber-400';
       case 'error':
         return 'text-red-400';
       default:
@@ -62,10 +84,23 @@ export const SyncIndicator: React.FC<Props> = ({ status }) => {
     }
   };
 
+  const pendingTitle = status.pending ? `${status.pending} ${status.pending === 1 ? 'change' : 'changes'} waiting to sync` : undefined;
+
   return (
-    <div className={`flex items-center gap-2 text-xs ${getColor()}`} title={status.error}>
+    <div className={`flex items-center gap-2 text-xs ${getColor()}`} title={status.error || pendingTitle}>
       {getIcon()}
       <span>{getLabel()}</span>
+      {!!status.pending && (
+        <span className="px-1.5 rounded-full bg-ink-800 text-steel-300 font-mono text-[10px]">{status.pending}</span>
+      )}
+      {imageProgress && (
+        <span className="flex items-center gap-1.5 text-steel-400" title="Syncing panel images">
+          <span className="w-16 h-1 rounded-full bg-ink-800 overflow-hidden">
+            <span className="block h-full bg-ember-500 transition-all" style={{ width: `${(imageProgress.done / imageProgress.total) * 100}%` }} />
+          </span>
+          <span className="font-mono text-[10px]">{imageProgress.done}/{imageProgress.total}</span>
+        </span>
+      )}
     </div>
   );
 };
@@ -8,9 +8,10 @@ interface TextOverlayProps {
     panelId: string;
     dispatch: React.Dispatch<Action>;
     textOverlayStyle?: TextOverlayStyle;
+    onContentCommit?: (content: string) => void;   // Called with the edited text when the bubble loses focus
 }
 
-const TextOverlay: React.FC<TextOverlayProps> = ({ element, panelId, dispatch, textOverlayStyle = 'opaque' }) => {
+const TextOverlay: React.FC<TextOverlayProps> = ({ element, panelId, dispatch, textOverlayStyle = 'opaque', onContentCommit }) => {
     const overlayRef = useRef<HTMLDivElement>(null);
     const contentRef = useRef<HTMLDivElement>(null);
     const [isDragging, setIsDragging] = useState<'bubble' | 'tail' | null>(null);
@@ -176,7 +177,9 @@ const TextOverlay: React.FC<TextOverlayProps> = ({ element, panelId, dispatch, t
         contentEditable
         suppressContentEditableWarning
         onBlur={(e) => {
-            dispatch({ type: 'UPDATE_TEXT_ELEMENT', panelId, elementId: element.id, updates: { content: e.currentTarget.textContent || '' } });
+            const content = e.currentTarget.textContent || '';
+            dispatch({ type: 'UPDATE_TEXT_ELEMENT', panelId, elementId: element.id, updates: { content } });
+            onContentCommit?.(content);
             setTimeout(() => {
                 if (!document.activeElement?.closest('.text-control-panel')) {
                     setIsFocused(false);
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { BarChart3, Trash2 } from 'lucide-react';
+import { AppState, ImageProvider } from '../types';
+import { Action } from '../state/actions';
+import { PROVIDER_IDS, getProviderAdapter } from '../services/imageProviders';
+import { canEditProject, getProjectRole } from '../services/permissions';
+import {
+    PriceTable,
+    ProviderPrice,
+    UsageSummary,
+    clearUsage,
+    formatCost,
+    getProjectSpend,
+    loadPriceTable,
+    loadProjectSpend,
+    loadUsage,
+    savePriceTable,
+    summarizeUsage
+} from '../services/usageTracking';
+
+interface UsageDashboardModalProps {
+    state: AppState;
+    dispatch: React.Dispatch<Action>;
+    onClose: () => void;
+}
+
+const SummaryRow: React.FC<{ label: string; summary: UsageSummary }> = ({ label, summary }) => (
+    <div className="flex items-center justify-between gap-4 text-xs text-steel-300 p-3 rounded-lg bg-ink-950 border border-ink-800">
+        <span className="truncate font-bold">{label}</span>
+        <span className="font-mono text-steel-500 shrink-0">
+            {summary.generations} runs{summary.failures > 0 && ` · ${summary.failures} failed`} · {(summary.durationMs / 1000).toFixed(0)}s · {formatCost(summary.cost)}
+        </span>
+    </div>
+);
+
+const UsageDashboardModal: React.FC<UsageDashboardModalProps> = ({ state, dispatch, onClose }) => {
+    const [records, setRecords] = useState(loadUsage);
+    const [spendTotals, setSpendTotals] = useState(loadProjectSpend);
+    const [prices, setPrices] = useState<PriceTable>(loadPriceTable);
+    const [projectId, setProjectId] = useState(state.activeProjectId || state.projects[0]?.id || '');
+
+    const project = state.projects.find(p => p.id === projectId);
+    const projectRecords = records.filter(record => record.projectId === projectId);
+    const spend = getProjectSpend(projectId, spendTotals);
+    const canEdit = !!project && canEditProject(getProjectRole(state, project.id));
+
+    const projectTitles = new Map(state.projects.map(p => [p.id, p.title]));
+    const issueTitles = new Map(project?.issues.map(issue => [issue.id, issue.title]));
+
+    const handleBudgetChange = (value: string) => {
+        if (!project) return;
+        const cap = parseFloat(value);
+        dispatch({ type: 'UPDATE_PROJECT', id: project.id, updates: { budgetCap: Number.isFinite(cap) && cap >= 0 ? cap : undefined } });
+    };
+
+    const handlePriceChange = (provider: ImageProvider, field: keyof ProviderPrice, value: string) => {
+        const next = { ...prices, [provider]: { ...prices[provider], [field]: Math.max(parseFloat(value) || 0, 0) } };
+        setPrices(next);
+        savePriceTable(next);
+    };
+
+    const handleClear = () => {
+        if (!project || !confirm(`Clear the usage history for "${project.title}"? Its spend toward the budget cap resets to zero.`)) return;
+        clearUsage(project.id);
+        setRecords(loadUsage());
+        setSpendTotals(loadProjectSpend());
+    };
+
+    return (
+        <div className="fixed inset-0 bg-ink-950/95 backdrop-blur-xl flex items-center justify-center z-[600] p-8">
+            <div className="w-full max-w-2xl max-h-full flex flex-col bg-ink-900 border-2 border-ink-700 rounded-2xl shadow-2xl overflow-hidden">
+
+                {/* Header */}
+                <div className="p-6 border-b border-ink-700 flex items-center justify-between">
+                    <div>
+                        <h2 className="font-display text-3xl tracking-widest text-ember-500 uppercase flex items-center gap-3"><BarChart3 size={24} />Usage</h2>
+                        <p className="text-[10px] font-mono text-steel-500 mt-1 uppercase tracking-widest">Generations and estimated cost on this device</p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="w-10 h-10 flex items-center justify-center rounded-full bg-ink-800 hover:bg-red-500 text-steel-400 hover:text-white transition-all text-xl font-bold"
+                    >
+                        ×
+                    </button>
+                </div>
+
+                {/* Content */}
+                <div className="p-6 space-y-6 overflow-y-auto">
+                    <div className="space-y-2">
+                        <div className="text-[10px] font-mono text-steel-400 uppercase tracking-widest">By project</div>
+                        {records.length === 0 && <p className="text-xs text-steel-500">No generations recorded yet.</p>}
+                        {summarizeUsage(records, record => record.projectId).map(summary => (
+                            <SummaryRow key={summary.key} label={projectTitles.get(summary.key) || 'Deleted project'} summary={summary} />
+                        ))}
+                    </div>
+
+                    {state.projects.length > 0 && (
+                        <div className="space-y-4 p-4 rounded-lg border border-ink-700">
+                            <div className="flex items-center justify-between gap-4">
+                                <select
+                                    value={projectId}
+                                    onChange={e => setProjectId(e.target.value)}
+                                    className="bg-ink-950 border border-ink-700 rounded-lg px-3 py-2 text-xs text-steel-200 font-bold outline-none focus:border-ember-500"
+                                >
+                                    {state.projects.map(p => <option key={p.id} value={p.id}>{p.title}</option>)}
+                                </select>
+                                <div className="text-xs font-mono text-steel-400">
+                                    {formatCost(spend)}{project?.budgetCap !== undefined && ` of ${formatCost(project.budgetCap)}`}
+                                </div>
+                            </div>
+
+                            <label className="flex items-center justify-between gap-4 text-xs text-steel-300">
+                                <span>
+                                    <span className="font-bold">Budget cap (USD)</span>
+                                    <span className="block text-steel-500 mt-1">Batch generation stops once estimated spend reaches it.</span>
+                                </span>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={1}
+                                    placeholder="No cap"
+                                    disabled={!canEdit}
+                                    value={project?.budgetCap ?? ''}
+                                    onChange={e => handleBudgetChange(e.target.value)}
+                                    className="w-28 bg-ink-950 border border-ink-700 rounded-lg px-3 py-2 text-xs font-mono text-steel-200 outline-none focus:border-ember-500 disabled:opacity-50"
+                                />
+                            </label>
+
+                            <div className="space-y-2">
+                                <div className="text-[10px] font-mono text-steel-400 uppercase tracking-widest">By provider</div>
+                                {summarizeUsage(projectRecords, record => `${record.provider} · ${record.model}`).map(summary => (
+                                    <SummaryRow key={summary.key} label={summary.key} summary={summary} />
+                                ))}
+                            </div>
+
+                            <div className="space-y-2">
+                                <div className="text-[10px] font-mono text-steel-400 uppercase tracking-widest">By issue</div>
+                                {summarizeUsage(projectRecords, record => record.issueId || '').map(summary => (
+                                    <SummaryRow key={summary.key} label={issueTitles.get(summary.key) || 'No issue'} summary={summary} />
+                                ))}
+                            </div>
+
+                            <button
+                                onClick={handleClear}
+                                disabled={projectRecords.length === 0}
+                                className="flex items-center gap-2 bg-ink-800 hover:bg-red-500 disabled:opacity-50 text-steel-300 hover:text-white font-bold px-4 py-2 rounded-lg uppercase text-xs transition-colors"
+                            >
+                                <Trash2 size={14} />Clear History
+                            </button>
+                        </div>
+                    )}
+
+                    <div className="space-y-2">
+                        <div className="text-[10px] font-mono text-steel-400 uppercase tracking-widest">Price table (USD)</div>
+                        <p className="text-xs text-steel-500">Used for new generations; past records keep the price they were recorded at.</p>
+                        {PROVIDER_IDS.map(provider => (
+                            <div key={provider} className="flex items-center justify-between gap-4 text-xs text-steel-300">
+                                <span className="font-bold">{getProviderAdapter(provider).label}</span>
+                                <span className="flex items-center gap-2 font-mono text-steel-500">
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        step={0.001}
+                                        value={prices[provider].perImage}
+                                        onChange={e => handlePriceChange(provider, 'perImage', e.target.value)}
+                                        className="w-20 bg-ink-950 border border-ink-700 rounded-lg px-2 py-1 text-steel-200 outline-none focus:border-ember-500"
+                                    />/image +
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        step={0.001}
+                                        value={prices[provider].perMegapixel}
+                                        onChange={e => handlePriceChange(provider, 'perMegapixel', e.target.value)}
+                                        className="w-20 bg-ink-950 border border-ink-700 rounded-lg px-2 py-1 text-steel-200 outline-none focus:border-ember-500"
+                                    />/MP
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default UsageDashboardModal;
@@ -147,19 +147,19 @@ const UserGuide: React.FC<UserGuideProps> = ({ showGutters }) => {
               <ExportCard
                 icon={<FileImage size={20} />}
                 title="CBZ Issue"
-                description="Export entire issue as a CBZ comic archive format, compatible with most comic reader apps"
+                description="Export entire issue as a CBZ comic archive: each page is composed from its panel layout and lettering, with ComicInfo.xml metadata for comic reader apps"
                 showGutters={showGutters}
               />
               <ExportCard
                 icon={<FileImage size={20} />}
                 title="PDF Page"
-                description="Export current page panels as a PDF document"
+                description="Export the current page as a print-ready PDF with trim size, bleed, safe area and optional crop marks"
                 showGutters={showGutters}
               />
               <ExportCard
                 icon={<FileImage size={20} />}
                 title="PDF Issue"
-                description="Export entire issue as a comprehensive PDF"
+                description="Export the entire issue as a print-ready PDF; panels with low print resolution are flagged before export"
                 showGutters={showGutters}
               />
             </div>
@@ -209,7 +209,7 @@ const UserGuide: React.FC<UserGuideProps> = ({ showGutters }) => {
               />
               <TipCard
                 title="Export Regularly"
-                description="Don't rely solely on browser storage. Export your work as CBZ or PDF regularly to avoid data loss."
+                description="Don't rely solely on browser storage. Export project backups from the Archive regularly to avoid data loss."
                 showGutters={showGutters}
               />
               <TipCard
@@ -234,7 +234,10 @@ const UserGuide: React.FC<UserGuideProps> = ({ showGutters }) => {
                 <li><span className="font-mono">IndexedDB</span> - Stores generated images for better performance</li>
               </ul>
               <p className={`mt-4 ${showGutters ? 'text-gray-700' : 'text-steel-400'} text-sm`}>
-                Note: Clearing your browser data will delete all projects and images. Always export important work.
+                When you sign in, projects sync to your account and panel images are uploaded to cloud storage, so they appear on every device. Images missing from a browser are downloaded and cached the first time they're shown.
+              </p>
+              <p className={`mt-4 ${showGutters ? 'text-gray-700' : 'text-steel-400'} text-sm`}>
+                Note: Clearing your browser data will delete all projects and images. Use the download button on a project in the Archive to save a backup (project data and every image in one file), and Import Project to restore it.
               </p>
             </div>
           </section>
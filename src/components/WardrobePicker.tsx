@@ -0,0 +1,41 @@
+import React from 'react';
+import { Character, WardrobeSelection } from '../types';
+import { getWardrobeVariant } from '../services/wardrobe';
+
+interface WardrobePickerProps {
+    characters: Character[];
+    selection?: WardrobeSelection;      // Picks made at this level
+    inherited?: WardrobeSelection;      // What the character wears when nothing is picked here
+    inheritedLabel?: string;
+    onChange: (characterId: string, variantId?: string) => void;
+    light?: boolean;                    // Gutter (white page) styling
+    className?: string;
+}
+
+/**
+ * One outfit dropdown per character that has wardrobe variants.
+ */
+export function WardrobePicker({ characters, selection, inherited = {}, inheritedLabel = 'Default', onChange, light = false, className = '' }: WardrobePickerProps) {
+    const dressable = characters.filter(c => c.wardrobe?.length);
+    if (dressable.length === 0) return null;
+
+    return (
+        <div className={`space-y-1 ${className}`}>
+            {dressable.map(char => (
+                <label key={char.id} className="flex items-center gap-2 text-[10px]">
+                    <span className="font-bold text-ember-500 truncate w-20 flex-shrink-0">{char.name}</span>
+                    <select
+                        value={selection?.[char.id] || ''}
+                        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onChange(char.id, e.target.value || undefined)}
+                        className={`flex-1 min-w-0 px-2 py-1 rounded border text-[10px] font-mono outline-none focus:border-ember-500 ${light ? 'bg-gray-50 border-gray-200 text-gray-700' : 'bg-ink-950 border-ink-700 text-steel-300'}`}
+                    >
+                        <option value="">{inheritedLabel}: {getWardrobeVariant(char, inherited)?.name || 'usual outfit'}</option>
+                        {char.wardrobe!.map(variant => (
+                            <option key={variant.id} value={variant.id}>{variant.name}</option>
+                        ))}
+                    </select>
+                </label>
+            ))}
+        </div>
+    );
+}
@@ -1,21 +1,72 @@
 import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { useAuth } from '../context/AuthContext';
-import { saveProjectToCloud, loadProjectsFromCloud, SyncStatus } from '../services/cloudSync';
-import { AppState, Project } from '../types';
-import { isSupabaseConfigured } from '../services/supabase';
+import {
+  loadProjectsFromCloud,
+  loadSyncRecords,
+  saveSyncRecords,
+  CloudProject,
+  SyncRecord,
+  SyncStatus,
+} from '../services/cloudSync';
+import { ProjectMerge, reconcileProject } from '../services/projectMerge';
+import {
+  OutboxFlushResult,
+  clearOutbox,
+  createOutboxMutation,
+  enqueueMutation,
+  flushOutbox,
+  getNextAttemptAt,
+  idbOutboxStore,
+  isNetworkError,
+} from '../services/syncOutbox';
+import { AppState, Project, ProjectRole } from '../types';
+import { isSupabaseConfigured, supabase } from '../services/supabase';
+import { setImageBackend, syncImagesWithBackend } from '../services/imageStorage';
+import { createSupabaseImageBackend } from '../services/cloudImageStorage';
+import { collectImageIds } from '../services/projectArchive';
+import { stashLegacyApiKeys } from '../services/keyVault';
+import { CURRENT_SCHEMA_VERSION } from '../state/migrations';
 
 const DEBOUNCE_MS = 2000;
 
+export interface ImageSyncProgress {
+  done: number;
+  total: number;
+}
+
+export interface SyncConflict {
+  merge: ProjectMerge;
+  cloud: CloudProject;
+}
+
+/**
+ * Keeps projects in step with the cloud. Only projects that changed since their
+ * last sync are uploaded, through the offline outbox; cloud changes are merged
+ * in through onProjectsSynced and overlapping panel edits are surfaced as conflicts.
+ * Projects others shared with the user come along, and the user's role in each
+ * is reported through onRolesLoaded.
+ */
 export const useCloudSync = (
   state: AppState | null,
-  onProjectsLoaded: (projects: Project[]) => void
+  onProjectsSynced: (projects: Project[]) => void,
+  onRolesLoaded?: (roles: Record<string, ProjectRole>) => void
 ) => {
   const { user } = useAuth();
+  const userId = user?.id;
   const [syncStatus, setSyncStatus] = useState<SyncStatus>({ status: 'idle' });
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [imageProgress, setImageProgress] = useState<ImageSyncProgress | null>(null);
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const lastSavedSnapshotRef = useRef<string>('');
-  const skipNextSaveRef = useRef<boolean>(false);
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const recordsRef = useRef<Record<string, SyncRecord>>({});
+  const conflictsRef = useRef<SyncConflict[]>([]);
+  const loadedRef = useRef<boolean>(false);
   const stateRef = useRef<AppState | null>(state);
+  const syncedImagesRef = useRef<Set<string>>(new Set());
+  // Projects pulled by the last load, which images are looked up in until they reach state
+  const pulledRef = useRef<Project[]>([]);
 
   useEffect(() => {
     stateRef.current = state;
@@ -26,45 +77,245 @@ export const useCloudSync = (
     return JSON.stringify(state.projects);
   }, [state?.projects]);
 
+  // The ref is read mid-sync, before React re-renders with the new state
+  const updateConflicts = useCallback((next: SyncConflict[]) => {
+    conflictsRef.current = next;
+    setConflicts(next);
+  }, []);
+
+  const remember = useCallback((userId: string, project: Project, revision: number, updatedAt: string, ownerId?: string) => {
+    const owner = ownerId ?? recordsRef.current[project.id]?.ownerId;
+    const record: SyncRecord = { revision, updatedAt, base: project };
+    if (owner && owner !== userId) record.ownerId = owner;
+    recordsRef.current = { ...recordsRef.current, [project.id]: record };
+    saveSyncRecords(userId, recordsRef.current);
+  }, []);
+
+  // Saving the project again writes a fresh record, which clears the flag
+  const markStale = useCallback((userId: string, projectId: string) => {
+    const record = recordsRef.current[projectId];
+    if (!record) return;
+    recordsRef.current = { ...recordsRef.current, [projectId]: { ...record, stale: true } };
+    saveSyncRecords(userId, recordsRef.current);
+  }, []);
+
+  const forget = useCallback((userId: string, projectId: string) => {
+    const records = { ...recordsRef.current };
+    delete records[projectId];
+    recordsRef.current = records;
+    saveSyncRecords(userId, records);
+  }, []);
+
+  /**
+   * Reconciles a local project with its cloud copy. Returns the project to put
+   * in local state when the cloud side changed it, or null.
+   */
+  const reconcile = useCallback((userId: string, local: Project, cloud: CloudProject): Project | null => {
+    const record = recordsRef.current[local.id];
+    const remoteChanged = !record || record.revision !== cloud.revision;
+    const result = reconcileProject(local, cloud.project, remoteChanged, record?.base ?? null);
+
+    switch (result.kind) {
+      case 'in-sync':
+        remember(userId, local, cloud.revision, cloud.updatedAt, cloud.ownerId);
+        return null;
+      case 'push':
+        // Uploaded by the next pushChanges
+        return null;
+      case 'pull':
+        remember(userId, cloud.project, cloud.revision, cloud.updatedAt, cloud.ownerId);
+        return cloud.project;
+      case 'merged':
+        // The merged project differs from the new base, so the next save uploads it
+        remember(userId, cloud.project, cloud.revision, cloud.updatedAt, cloud.ownerId);
+        return result.project;
+      case 'conflict':
+        updateConflicts([...conflictsRef.current.filter(c => c.merge.local.id !== local.id), { merge: result.merge, cloud }]);
+        return null;
+    }
+  }, [remember, updateConflicts]);
+
+  const finishSync = useCallback((pulled: Project[], result: OutboxFlushResult) => {
+    if (pulled.length) onProjectsSynced(pulled);
+    const { pending, offline, error } = result;
+    if (error) {
+      setSyncStatus({ status: 'error', error, pending });
+    } else if (offline) {
+      setSyncStatus({ status: 'offline', pending });
+    } else if (conflictsRef.current.length) {
+      setSyncStatus({ status: 'conflict', pending });
+    } else if (pending) {
+      setSyncStatus({ status: 'saving', pending });
+    } else {
+      setSyncStatus({ status: 'saved', lastSaved: new Date() });
+    }
+  }, [onProjectsSynced]);
+
+  // Outbox work runs one step at a time so a flush never races a newer enqueue
+  const runExclusive = useCallback((task: () => Promise<void>) => {
+    queueRef.current = queueRef.current.then(task).catch(err => {
+      console.error('Cloud sync error:', err);
+      setSyncStatus({ status: 'error', error: String(err) });
+    });
+    return queueRef.current;
+  }, []);
+
+  const flush = useCallback(async (userId: string, force = false) => {
+    const pulled: Project[] = [];
+    const result = await flushOutbox(idbOutboxStore, userId, {
+      getBaseRevision: (projectId) => recordsRef.current[projectId]?.revision ?? null,
+      getOwnerId: (projectId) => recordsRef.current[projectId]?.ownerId,
+      onSaved: (project, revision, updatedAt) => remember(userId, project, revision, updatedAt),
+      onConflict: (project, cloud) => {
+        // Merge what's on screen now, which may be newer than the queued snapshot
+        const local = stateRef.current?.projects.find(p => p.id === project.id) || project;
+        const pull = reconcile(userId, local, cloud);
+        if (pull) pulled.push(pull);
+      },
+      onDeleted: (projectId) => forget(userId, projectId),
+    }, { force });
+    finishSync(pulled, result);
+
+    setRetryAt(await getNextAttemptAt(idbOutboxStore, userId));
+  }, [remember, forget, reconcile, finishSync]);
+
+  // Queues every project that changed since its last sync, then flushes the outbox
+  const pushChanges = useCallback(async (userId: string) => {
+    const current = stateRef.current;
+    if (!current) return;
+
+    // Viewers never write; nothing they could change would be accepted
+    const blocked = new Set([
+      ...conflictsRef.current.map(c => c.merge.local.id),
+      ...Object.keys(current.projectRoles || {}).filter(id => current.projectRoles?.[id] === 'viewer'),
+    ]);
+    const changed = current.projects.filter(project => {
+      if (blocked.has(project.id)) return false;
+      const record = recordsRef.current[project.id];
+      return !record || record.stale || JSON.stringify(record.base) !== JSON.stringify(project);
+    });
+
+    // Projects deleted locally since they were last synced. Shared projects stay
+    // with their owner; only this browser's record of them goes
+    const localIds = new Set(current.projects.map(p => p.id));
+    const deleted = Object.keys(recordsRef.current).filter(id => !localIds.has(id) && !recordsRef.current[id].ownerId);
+    Object.keys(recordsRef.current)
+      .filter(id => !localIds.has(id) && recordsRef.current[id].ownerId)
+      .forEach(id => forget(userId, id));
+
+    for (const project of changed) {
+      await enqueueMutation(idbOutboxStore, createOutboxMutation(userId, project.id, 'save', project));
+    }
+    for (const projectId of deleted) {
+      await enqueueMutation(idbOutboxStore, createOutboxMutation(userId, projectId, 'delete'));
+    }
+
+    if (changed.length || deleted.length) setSyncStatus(prev => ({ ...prev, status: 'saving' }));
+    await flush(userId);
+
+    // New images are saved before a project references them, so they are
+    // uploaded to the project's folder once it does
+    const newImages = [...new Set(changed.flatMap(collectImageIds))].filter(id => !syncedImagesRef.current.has(id));
+    if (newImages.length) {
+      newImages.forEach(id => syncedImagesRef.current.add(id));
+      syncImagesWithBackend(newImages).catch(err => console.error('Image sync failed', err));
+    }
+  }, [flush, forget]);
+
+  // Panel images follow their project to Supabase Storage, in its owner's folder
   useEffect(() => {
-    if (!user || !isSupabaseConfigured()) return;
+    if (!userId || !supabase) return;
+
+    const folderOf = (projectId: string) => ({ ownerId: recordsRef.current[projectId]?.ownerId ?? userId, projectId });
+    setImageBackend(createSupabaseImageBackend(supabase, userId, {
+      locate: (id) => {
+        const project = [...(stateRef.current?.projects || []), ...pulledRef.current].find(p => collectImageIds(p).includes(id));
+        return project ? folderOf(project.id) : null;
+      },
+      owned: () => (stateRef.current?.projects || [])
+        .filter(p => !recordsRef.current[p.id]?.ownerId)
+        .map(p => folderOf(p.id)),
+    }));
+    return () => setImageBackend(null);
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId || !isSupabaseConfigured()) return;
 
     let isMounted = true;
+    loadedRef.current = false;
+    recordsRef.current = loadSyncRecords(userId);
 
     const loadFromCloud = async () => {
       setSyncStatus({ status: 'saving' });
-      const { projects, error } = await loadProjectsFromCloud(user.id);
+      const { projects: cloudProjects, error } = await loadProjectsFromCloud(userId);
 
       if (!isMounted) return;
 
       if (error) {
-        setSyncStatus({ status: 'error', error });
+        // Offline at startup: keep the outbox and try again when the network returns
+        const pending = (await idbOutboxStore.getAll(userId).catch(() => [])).length;
+        setSyncStatus(isNetworkError(error) ? { status: 'offline', pending } : { status: 'error', error, pending });
         return;
       }
 
-      if (projects.length > 0) {
-        lastSavedSnapshotRef.current = JSON.stringify(projects);
-        skipNextSaveRef.current = true;
-        onProjectsLoaded(projects);
-        setSyncStatus({ status: 'saved', lastSaved: new Date() });
-        return;
-      }
+      // Reconciling below queues again whatever still needs uploading
+      await clearOutbox(idbOutboxStore, userId);
+      updateConflicts([]);
+      const localProjects = stateRef.current?.projects || [];
+      const pulled: Project[] = [];
+
+      for (const cloud of cloudProjects) {
+        const local = localProjects.find(p => p.id === cloud.project.id);
+        const record = recordsRef.current[cloud.project.id];
 
-      const currentState = stateRef.current;
-      if (currentState?.projects?.length) {
-        for (const project of currentState.projects) {
-          const { success, error: saveError } = await saveProjectToCloud(user.id, project);
-          if (!success) {
-            setSyncStatus({ status: 'error', error: saveError });
-            return;
-          }
+        // Keys left in someone else's project are theirs, not this user's
+        if (cloud.role === 'owner') {
+          stashLegacyApiKeys(cloud.apiKeys, userId).catch(err => console.error('Failed to stash legacy API keys:', err));
         }
-        lastSavedSnapshotRef.current = JSON.stringify(currentState.projects);
-        setSyncStatus({ status: 'saved', lastSaved: new Date() });
-        return;
+
+        if (local) {
+          const pull = reconcile(userId, local, cloud);
+          if (pull) pulled.push(pull);
+        } else if (record && record.revision === cloud.revision) {
+          // Deleted here while offline and untouched elsewhere; pushChanges removes it
+        } else {
+          remember(userId, cloud.project, cloud.revision, cloud.updatedAt, cloud.ownerId);
+          pulled.push(cloud.project);
+        }
+
+        // Rows in an old schema may still hold the owner's plaintext API keys,
+        // and an unchanged project would otherwise never be uploaded again
+        if (cloud.role === 'owner' && cloud.schemaVersion < CURRENT_SCHEMA_VERSION) markStale(userId, cloud.project.id);
       }
 
-      setSyncStatus({ status: 'idle' });
+      // Roles first, so shared projects are never editable beyond them
+      const roles: Record<string, ProjectRole> = {};
+      cloudProjects.filter(c => c.role !== 'owner').forEach(c => { roles[c.project.id] = c.role; });
+      onRolesLoaded?.(roles);
+
+      // Synced before but gone from the cloud: deleted on another device. Upload it
+      // again as a new project rather than lose local work.
+      const cloudIds = new Set(cloudProjects.map(c => c.project.id));
+      localProjects
+        .filter(p => !cloudIds.has(p.id) && recordsRef.current[p.id])
+        .forEach(p => forget(userId, p.id));
+
+      // Upload images only this browser has and fetch the ones it's missing
+      const imageIds = [...new Set([...localProjects, ...pulled].flatMap(collectImageIds))];
+      syncedImagesRef.current = new Set(imageIds);
+      pulledRef.current = pulled;
+      syncImagesWithBackend(imageIds, (done, total) => {
+        if (isMounted) setImageProgress(done < total ? { done, total } : null);
+      }).catch(err => console.error('Image sync failed', err));
+
+      loadedRef.current = true;
+      if (pulled.length) {
+        // The state change schedules the upload, once pulled projects are in state
+        onProjectsSynced(pulled);
+      } else {
+        await runExclusive(() => pushChanges(userId));
+      }
     };
 
     loadFromCloud();
@@ -72,37 +323,44 @@ export const useCloudSync = (
     return () => {
       isMounted = false;
     };
-  }, [user?.id, onProjectsLoaded]);
+  }, [userId, loadAttempt, onProjectsSynced, onRolesLoaded, reconcile, remember, markStale, forget, pushChanges, runExclusive, updateConflicts]);
 
   useEffect(() => {
-    if (!user || !state || !isSupabaseConfigured()) return;
-    if (projectsSnapshot === lastSavedSnapshotRef.current) return;
+    if (!userId || !isSupabaseConfigured()) return;
 
-    if (saveTimeoutRef.current) {
-      clearTimeout(saveTimeoutRef.current);
-    }
+    const handleOnline = () => {
+      if (loadedRef.current) runExclusive(() => flush(userId, true));
+      else setLoadAttempt(n => n + 1);
+    };
+    const handleOffline = () => setSyncStatus(prev => ({ ...prev, status: 'offline' }));
 
-    setSyncStatus({ status: 'saving' });
-    const snapshotToSave = projectsSnapshot;
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [userId, flush, runExclusive]);
 
-    saveTimeoutRef.current = setTimeout(async () => {
-      if (skipNextSaveRef.current) {
-        skipNextSaveRef.current = false;
-        lastSavedSnapshotRef.current = snapshotToSave;
-        setSyncStatus({ status: 'saved', lastSaved: new Date() });
-        return;
-      }
+  // Retry whatever is left in the outbox once its backoff is over
+  useEffect(() => {
+    if (!userId || retryAt === null) return;
 
-      for (const project of state.projects) {
-        const { success, error } = await saveProjectToCloud(user.id, project);
-        if (!success) {
-          setSyncStatus({ status: 'error', error });
-          return;
-        }
-      }
+    const timeout = setTimeout(() => {
+      runExclusive(() => flush(userId));
+    }, Math.max(retryAt - Date.now(), 0));
+    return () => clearTimeout(timeout);
+  }, [userId, retryAt, flush, runExclusive]);
 
-      lastSavedSnapshotRef.current = snapshotToSave;
-      setSyncStatus({ status: 'saved', lastSaved: new Date() });
+  useEffect(() => {
+    if (!userId || !isSupabaseConfigured() || !loadedRef.current) return;
+
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+    }
+
+    saveTimeoutRef.current = setTimeout(() => {
+      runExclusive(() => pushChanges(userId));
     }, DEBOUNCE_MS);
 
     return () => {
@@ -110,24 +368,28 @@ export const useCloudSync = (
         clearTimeout(saveTimeoutRef.current);
       }
     };
-  }, [user?.id, projectsSnapshot, state]);
+  }, [userId, projectsSnapshot, pushChanges, runExclusive]);
 
-  const saveAllProjects = useCallback(async () => {
-    if (!user || !state || !isSupabaseConfigured()) return;
+  /**
+   * Settles a conflict with the user's resolved project. The cloud copy becomes
+   * the new base, so the resolution is uploaded on top of it.
+   */
+  const resolveConflict = useCallback((projectId: string, resolved: Project) => {
+    const conflict = conflictsRef.current.find(c => c.merge.local.id === projectId);
+    if (!userId || !conflict) return;
 
-    setSyncStatus({ status: 'saving' });
+    remember(userId, conflict.cloud.project, conflict.cloud.revision, conflict.cloud.updatedAt);
+    updateConflicts(conflictsRef.current.filter(c => c !== conflict));
+    onProjectsSynced([resolved]);
+  }, [userId, remember, updateConflicts, onProjectsSynced]);
 
-    for (const project of state.projects) {
-      const { success, error } = await saveProjectToCloud(user.id, project);
-      if (!success) {
-        setSyncStatus({ status: 'error', error });
-        return;
-      }
-    }
+  const saveAllProjects = useCallback(async () => {
+    if (!userId || !isSupabaseConfigured()) return;
+    await runExclusive(() => pushChanges(userId));
+  }, [userId, pushChanges, runExclusive]);
 
-    lastSavedSnapshotRef.current = JSON.stringify(state.projects);
-    setSyncStatus({ status: 'saved', lastSaved: new Date() });
-  }, [user?.id, state]);
+  // Loads everything again, e.g. after accepting an invite to someone else's project
+  const reload = useCallback(() => setLoadAttempt(n => n + 1), []);
 
-  return { syncStatus, saveAllProjects };
+  return { syncStatus, imageProgress, conflicts, resolveConflict, saveAllProjects, reload };
 };
@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { Action } from '../state/actions';
+import { AppState, ProjectRole } from '../types';
+import { genId } from '../utils/helpers';
+import { supabase } from '../services/supabase';
+import {
+  CollabPresence,
+  CollabSession,
+  assignActionIds,
+  createCollabSession,
+  peerColor,
+  shareableAction,
+} from '../services/collaboration';
+import { createRealtimeTransport } from '../services/realtimeTransport';
+import { isActionPermitted } from '../services/permissions';
+import { loadProjectRoster } from '../services/projectSharing';
+import { getProjectOwnerId } from '../services/cloudSync';
+
+export type CollabStatus = 'off' | 'connecting' | 'live' | 'error';
+
+const findIssueProject = (state: AppState, issueId: string) =>
+  state.projects.find(p => p.issues.some(i => i.id === issueId));
+
+/**
+ * Live editing of one issue with other people. While a session is running, the
+ * returned dispatch also sends shareable actions to peers, and their actions
+ * arrive as APPLY_REMOTE_ACTION. Undo and redo can't be replayed as actions, so
+ * the resulting project is sent as a snapshot instead.
+ *
+ * Only the owner and members of the issue's project can take part: the issue
+ * must be in one of the user's projects, and peers outside its roster are
+ * ignored. What members send is checked against their role before it applies.
+ */
+export const useCollaboration = (
+  state: AppState,
+  baseDispatch: React.Dispatch<Action>,
+  selectedPanelId: string | null
+) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [clientId] = useState(genId);
+  const [sharedIssueId, setSharedIssueId] = useState<string | null>(null);
+  const [status, setStatus] = useState<CollabStatus>('off');
+  const [error, setError] = useState<string | null>(null);
+  const [peers, setPeers] = useState<CollabPresence[]>([]);
+  const sessionRef = useRef<CollabSession | null>(null);
+  const stateRef = useRef(state);
+  const joiningRef = useRef(false);
+  const snapshotPendingRef = useRef(false);
+
+  useEffect(() => {
+    stateRef.current = state;
+  }, [state]);
+
+  useEffect(() => {
+    if (!sharedIssueId || !supabase) return;
+    const client = supabase;
+
+    const fail = (message: string) => {
+      setStatus('error');
+      setError(message);
+    };
+    if (!userId) {
+      fail('Sign in to use live sessions.');
+      return;
+    }
+    // Members have shared projects synced to them, so an issue that isn't here isn't theirs to join
+    const project = findIssueProject(stateRef.current, sharedIssueId);
+    if (!project) {
+      fail("That issue isn't in any of your projects or the ones shared with you.");
+      return;
+    }
+
+    const projectId = project.id;
+    const ownerId = getProjectOwnerId(userId, projectId);
+    let roles: Record<string, ProjectRole> = {};
+    let closed = false;
+
+    loadProjectRoster(ownerId, projectId).then(roster => {
+      if (closed) return;
+      if (roster.error || !roster.roles[userId]) {
+        fail(roster.error || "You're not a member of this project.");
+        return;
+      }
+      roles = roster.roles;
+      if (joiningRef.current) {
+        joiningRef.current = false;
+        baseDispatch({ type: 'SET_ACTIVE_PROJECT', id: projectId });
+        baseDispatch({ type: 'SET_ACTIVE_ISSUE', id: sharedIssueId });
+      }
+
+      const transport = createRealtimeTransport(client, { ownerId, projectId, issueId: sharedIssueId }, clientId);
+      sessionRef.current = createCollabSession(transport, { clientId, userId }, {
+        onAction: (action, senderRole) => baseDispatch({ type: 'APPLY_REMOTE_ACTION', projectId, senderRole, action }),
+        onSnapshot: (snapshot, senderRole) => {
+          // A snapshot may only replace the project this session is about
+          if (snapshot.id !== projectId) return;
+          baseDispatch({
+            type: 'APPLY_REMOTE_ACTION',
+            projectId,
+            senderRole,
+            action: { type: 'SYNC_PROJECTS', projects: [snapshot] },
+          });
+        },
+        getSnapshot: () => stateRef.current.projects.find(p => p.id === projectId) || null,
+        getSenderRole: (senderId) => roles[senderId] || null,
+        onPresence: setPeers,
+        onStatus: (next) => setStatus(next === 'open' ? 'live' : next === 'error' ? 'error' : 'connecting'),
+      });
+    });
+
+    return () => {
+      closed = true;
+      sessionRef.current?.close();
+      sessionRef.current = null;
+    };
+  }, [sharedIssueId, clientId, userId, baseDispatch]);
+
+  const name = user?.email?.split('@')[0] || 'Guest';
+  const { activeIssueId, activePageId } = state;
+  useEffect(() => {
+    sessionRef.current?.setPresence({
+      name,
+      color: peerColor(clientId),
+      issueId: activeIssueId,
+      pageId: activePageId,
+      panelId: selectedPanelId,
+    });
+  }, [sharedIssueId, status, name, clientId, activeIssueId, activePageId, selectedPanelId]);
+
+  // Undo and redo have been applied by the time state changes; share the result
+  useEffect(() => {
+    if (!snapshotPendingRef.current) return;
+    snapshotPendingRef.current = false;
+    sessionRef.current?.sendSnapshot();
+  }, [state]);
+
+  const dispatch = useCallback((action: Action) => {
+    const session = sessionRef.current;
+    if (!session || !sharedIssueId) {
+      baseDispatch(action);
+      return;
+    }
+    // Peers would drop edits this user's role forbids, so they never leave
+    const current = stateRef.current;
+    if (!isActionPermitted(current, action)) return;
+
+    const stamped = assignActionIds(action);
+    baseDispatch(stamped);
+
+    if (action.type === 'UNDO' || action.type === 'REDO') {
+      snapshotPendingRef.current = true;
+      return;
+    }
+    const project = findIssueProject(current, sharedIssueId);
+    const shared = project && shareableAction(current, stamped, project.id);
+    if (shared) session.broadcast(shared);
+  }, [baseDispatch, sharedIssueId]);
+
+  const start = useCallback((issueId: string) => {
+    joiningRef.current = false;
+    setError(null);
+    setStatus('connecting');
+    setSharedIssueId(issueId);
+  }, []);
+
+  // Joins someone else's session by its code (the issue id); their snapshot brings the project up to date
+  const join = useCallback((code: string) => {
+    joiningRef.current = true;
+    setError(null);
+    setStatus('connecting');
+    setSharedIssueId(code.trim());
+  }, []);
+
+  const stop = useCallback(() => {
+    joiningRef.current = false;
+    setSharedIssueId(null);
+    setError(null);
+    setStatus('off');
+    setPeers([]);
+  }, []);
+
+  return {
+    available: !!supabase,
+    clientId,
+    sharedIssueId,
+    status,
+    error,
+    peers,
+    dispatch,
+    start,
+    join,
+    stop,
+  };
+};
@@ -0,0 +1,234 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { Action } from '../state/actions';
+import { Page, Panel, Project } from '../types';
+import { GENERATION_DELAY_MS } from '../constants';
+import { savePanelTake } from '../services/imageStorage';
+import { createSeed } from '../services/imageProviders';
+import { formatCost, getProjectSpend, isOverBudget, loadProjectSpend } from '../services/usageTracking';
+import {
+  GenerationJob,
+  createGenerationJob,
+  deleteJobs,
+  getAllJobs,
+  getNextDueJob,
+  recordJobFailure,
+  saveJobs,
+} from '../services/generationQueue';
+import { generateProjectImage, getPanelGenerationInputs } from './useImageGeneration';
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+const persist = (changed: GenerationJob[], removedIds: string[] = []) => {
+  const writes: Promise<void>[] = [];
+  if (changed.length) writes.push(saveJobs(changed));
+  if (removedIds.length) writes.push(deleteJobs(removedIds));
+  Promise.all(writes).catch(err => console.error('Failed to persist generation queue', err));
+};
+
+const runJob = async (job: GenerationJob, projects: Project[], dispatch: React.Dispatch<Action>) => {
+  const project = projects.find(p => p.id === job.projectId);
+  const issue = project?.issues.find(i => i.pages.some(pg => pg.id === job.pageId));
+  const page = issue?.pages.find(pg => pg.id === job.pageId);
+  const panel = page?.panels.find(p => p.id === job.panelId);
+
+  if (!project || !issue || !page || !panel) {
+    throw new Error('Panel no longer exists.');
+  }
+
+  // Not a retryable error, so the job fails instead of backing off
+  const spend = loadProjectSpend();
+  if (isOverBudget(project, spend)) {
+    throw new Error(`Budget cap reached: ${formatCost(getProjectSpend(project.id, spend))} of ${formatCost(project.budgetCap ?? 0)} spent.`);
+  }
+
+  const inputs = await getPanelGenerationInputs(project, issue, page, panel);
+  const seed = createSeed(job.provider);
+  const url = await generateProjectImage(
+    { ...project, imageProvider: job.provider },
+    panel.prompt || '',
+    panel.aspectRatio,
+    inputs.characters,
+    inputs.initImage,
+    panel.referenceStrength ?? 0.7,
+    seed,
+    { source: 'batch', issueId: issue.id, panelId: panel.id },
+    inputs.wardrobe,
+    inputs.location,
+    inputs.props
+  );
+
+  if (!url) {
+    throw new Error('No image returned from provider.');
+  }
+
+  const take = await savePanelTake(url, { prompt: panel.prompt || '', provider: job.provider, seed });
+  dispatch({ type: 'ADD_PANEL_TAKE', panelId: panel.id, take });
+};
+
+/**
+ * Persistent batch generation queue.
+ * Jobs live in IndexedDB and are resumed on reload; rate limits and server
+ * errors are retried with exponential backoff until maxAttempts is reached.
+ */
+export const useGenerationQueue = (projects: Project[], dispatch: React.Dispatch<Action>) => {
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [batchTotal, setBatchTotal] = useState(0);
+  const jobsRef = useRef<GenerationJob[]>([]);
+  const projectsRef = useRef<Project[]>(projects);
+  const processingRef = useRef(false);
+  const wakeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    projectsRef.current = projects;
+  }, [projects]);
+
+  const commitJobs = useCallback((next: GenerationJob[]) => {
+    jobsRef.current = next;
+    setJobs(next);
+    if (!next.some(job => job.status !== 'failed')) {
+      setBatchTotal(0);
+    }
+  }, []);
+
+  const processQueue = useCallback(async () => {
+    if (processingRef.current) return;
+    processingRef.current = true;
+    setIsProcessing(true);
+
+    if (wakeTimerRef.current) {
+      clearTimeout(wakeTimerRef.current);
+      wakeTimerRef.current = null;
+    }
+
+    try {
+      let next = getNextDueJob(jobsRef.current);
+      while (next) {
+        const running: GenerationJob = { ...next, status: 'running' };
+        commitJobs(jobsRef.current.map(job => (job.id === running.id ? running : job)));
+        persist([running]);
+
+        try {
+          await runJob(running, projectsRef.current, dispatch);
+          commitJobs(jobsRef.current.filter(job => job.id !== running.id));
+          persist([], [running.id]);
+        } catch (err) {
+          console.error('Queued generation failed:', err);
+          // The job may have been dismissed while it was running
+          if (jobsRef.current.some(job => job.id === running.id)) {
+            const failed = recordJobFailure(running, errorMessage(err));
+            commitJobs(jobsRef.current.map(job => (job.id === failed.id ? failed : job)));
+            persist([failed]);
+          }
+        }
+
+        await new Promise(r => setTimeout(r, GENERATION_DELAY_MS));
+        next = getNextDueJob(jobsRef.current);
+      }
+    } finally {
+      processingRef.current = false;
+      setIsProcessing(false);
+    }
+
+    // Wake up again when the earliest backed-off job is due
+    const waiting = jobsRef.current.filter(job => job.status === 'pending');
+    if (waiting.length > 0) {
+      const wakeAt = Math.min(...waiting.map(job => job.nextAttemptAt));
+      wakeTimerRef.current = setTimeout(() => {
+        wakeTimerRef.current = null;
+        processQueue();
+      }, Math.max(wakeAt - Date.now(), 0));
+    }
+  }, [commitJobs, dispatch]);
+
+  // Resume whatever was queued before the last reload
+  useEffect(() => {
+    let isMounted = true;
+
+    getAllJobs()
+      .then(stored => {
+        if (!isMounted) return;
+        const resumed = stored.map(job => (job.status === 'running' ? { ...job, status: 'pending' as const } : job));
+        persist(resumed.filter((job, i) => job !== stored[i]));
+        setBatchTotal(resumed.filter(job => job.status !== 'failed').length);
+        commitJobs(resumed);
+        processQueue();
+      })
+      .catch(err => console.error('Failed to load generation queue', err));
+
+    return () => {
+      isMounted = false;
+      if (wakeTimerRef.current) {
+        clearTimeout(wakeTimerRef.current);
+      }
+    };
+  }, [commitJobs, processQueue]);
+
+  const enqueuePanels = useCallback((project: Project, page: Page, panels: Panel[]) => {
+    const queuedPanelIds = new Set(
+      jobsRef.current.filter(job => job.status !== 'failed').map(job => job.panelId)
+    );
+    const retriedPanelIds = new Set(panels.map(panel => panel.id));
+    const staleFailures = jobsRef.current.filter(job => job.status === 'failed' && retriedPanelIds.has(job.panelId));
+
+    const newJobs = panels
+      .filter(panel => !queuedPanelIds.has(panel.id))
+      .map(panel => createGenerationJob(project.id, page.id, panel.id, project.imageProvider));
+
+    if (newJobs.length === 0) return 0;
+
+    const staleIds = new Set(staleFailures.map(job => job.id));
+    commitJobs([...jobsRef.current.filter(job => !staleIds.has(job.id)), ...newJobs]);
+    persist(newJobs, [...staleIds]);
+    setBatchTotal(total => total + newJobs.length);
+    processQueue();
+    return newJobs.length;
+  }, [commitJobs, processQueue]);
+
+  const retryJob = useCallback((jobId: string) => {
+    const job = jobsRef.current.find(j => j.id === jobId);
+    if (!job || job.status !== 'failed') return;
+
+    const retried: GenerationJob = { ...job, status: 'pending', attempts: 0, nextAttemptAt: Date.now(), lastError: undefined };
+    commitJobs(jobsRef.current.map(j => (j.id === jobId ? retried : j)));
+    persist([retried]);
+    setBatchTotal(total => total + 1);
+    processQueue();
+  }, [commitJobs, processQueue]);
+
+  const dismissJob = useCallback((jobId: string) => {
+    commitJobs(jobsRef.current.filter(job => job.id !== jobId));
+    persist([], [jobId]);
+  }, [commitJobs]);
+
+  const clearFailed = useCallback(() => {
+    const failedIds = jobsRef.current.filter(job => job.status === 'failed').map(job => job.id);
+    commitJobs(jobsRef.current.filter(job => job.status !== 'failed'));
+    persist([], failedIds);
+  }, [commitJobs]);
+
+  // Drops everything still waiting; the job currently running is allowed to finish
+  const cancelPending = useCallback(() => {
+    const pendingIds = jobsRef.current.filter(job => job.status === 'pending').map(job => job.id);
+    commitJobs(jobsRef.current.filter(job => job.status !== 'pending'));
+    persist([], pendingIds);
+  }, [commitJobs]);
+
+  const activeCount = jobs.filter(job => job.status !== 'failed').length;
+  const failedJobs = jobs.filter(job => job.status === 'failed');
+  const currentPanel = batchTotal > 0 ? Math.min(batchTotal - activeCount + 1, batchTotal) : 0;
+
+  return {
+    jobs,
+    failedJobs,
+    activeCount,
+    isProcessing,
+    currentPanel,
+    totalPanels: batchTotal,
+    enqueuePanels,
+    retryJob,
+    dismissJob,
+    clearFailed,
+    cancelPending,
+  };
+};
@@ -0,0 +1,89 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { generateCharacterSheet, getPanelGenerationInputs } from './useImageGeneration';
+import { IMAGE_PROVIDERS } from '../services/imageProviders';
+import { TURNAROUND_PROMPT } from '../services/characterReferences';
+import { createVault, resetVault, setApiKey, setVaultScope } from '../services/keyVault';
+import { AspectRatio, Character, Issue, Project } from '../types';
+
+// IndexedDB isn't available here; stored images just get their idb:// URL
+vi.mock('../services/imageStorage', async (importOriginal) => ({
+    ...await importOriginal<typeof import('../services/imageStorage')>(),
+    saveImage: async (id: string) => `idb://${id}`,
+    getImage: async (id: string) => `data:image/png;base64,${id}`,
+}));
+
+const project: Project = {
+    id: 'p1',
+    title: 'Night Shift',
+    style: 'classic-noir',
+    issueType: 'issue',
+    imageProvider: 'fal',
+    characters: [],
+    issues: [],
+};
+
+const maggie: Character = { id: 'maggie', name: 'Maggie', description: 'Diner owner' };
+
+beforeEach(() => {
+    localStorage.clear();
+    setVaultScope('test-user');
+    resetVault();
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('generateCharacterSheet', () => {
+    test("draws a turnaround with the project's provider and stores it as a reference", async () => {
+        await createVault('correct horse');
+        await setApiKey('fal', 'fal-key');
+        const generate = vi.spyOn(IMAGE_PROVIDERS.fal, 'generate').mockResolvedValue('data:image/png;base64,AAAA');
+
+        const url = await generateCharacterSheet(project, maggie);
+
+        expect(url).toMatch(/^idb:\/\//);
+        const [request] = generate.mock.calls[0];
+        expect(request.project).toBe(project);
+        expect(request.prompt).toContain(TURNAROUND_PROMPT);
+        expect(request.prompt).toContain('Maggie (Diner owner)');
+    });
+});
+
+describe('getPanelGenerationInputs', () => {
+    test("collects the panel's characters, reference image, outfits, location and props", async () => {
+        const issue: Issue = {
+            id: 'i1',
+            title: 'Issue #1',
+            wardrobe: { maggie: 'apron' },
+            pages: [{
+                id: 'pg1',
+                number: 1,
+                panels: [
+                    { id: 'a', prompt: 'Diner', aspectRatio: AspectRatio.WIDE, characterIds: [], imageUrl: 'idb://take-a', textElements: [] },
+                    { id: 'b', prompt: 'Counter', aspectRatio: AspectRatio.WIDE, characterIds: ['maggie'], referencePanelId: 'a', locationId: 'diner', propIds: ['mug'], wardrobe: { maggie: 'coat' }, textElements: [] },
+                ],
+            }],
+        };
+        const full: Project = {
+            ...project,
+            characters: [maggie, { id: 'joe', name: 'Joe', description: '' }],
+            locations: [{ id: 'diner', name: "JOE'S DINER", description: '' }],
+            props: [{ id: 'mug', name: 'Mug', description: '' }, { id: 'gun', name: 'Revolver', description: '' }],
+            issues: [issue],
+        };
+        const [page] = issue.pages;
+
+        const inputs = await getPanelGenerationInputs(full, issue, page, page.panels[1]);
+
+        expect(inputs.characters).toEqual([maggie]);
+        expect(inputs.initImage).toBe('data:image/png;base64,take-a');
+        expect(inputs.wardrobe).toEqual({ maggie: 'coat' });
+        expect(inputs.location?.id).toBe('diner');
+        expect(inputs.props.map(prop => prop.id)).toEqual(['mug']);
+
+        const unlinked = await getPanelGenerationInputs(full, issue, page, page.panels[0]);
+        expect(unlinked.initImage).toBeUndefined();
+        expect(unlinked.wardrobe).toEqual({ maggie: 'apron' });
+    });
+});
@@ -1,22 +1,26 @@
-import { Project, AspectRatio, Character } from '../types';
-import { ART_STYLES, ASPECT_CONFIGS } from '../constants';
-import { generateImage as generateGeminiImage } from '../services/geminiService';
-import { generateLeonardoImage } from '../services/leonardoService';
-import { generateGrokImage } from '../services/grokService';
-import { generateFluxImage as generateFalFlux } from '../services/falFluxService';
-import { generateSeaArtImage } from '../services/seaartService';
-import { generateOpenAIImage } from '../services/openaiService';
+import { Project, AspectRatio, Character, Issue, Page, Panel, Prop, SceneLocation, WardrobeSelection, WardrobeVariant } from '../types';
+import { ART_STYLES } from '../constants';
+import { generateWithProvider, getProviderAdapter } from '../services/imageProviders';
+import { UsageContext } from '../services/usageTracking';
+import { TURNAROUND_PROMPT, loadReferenceImages, saveReferenceImage } from '../services/characterReferences';
+import { getImage } from '../services/imageStorage';
+import { getWardrobeVariant, resolveWardrobe } from '../services/wardrobe';
+import { getPanelProps } from '../services/props';
 
 /**
  * Helper to build a full appearance description for image generation
+ * @param variant - Wardrobe variant whose clothing and accessories replace the usual ones
  */
-function buildCharacterPrompt(char: Character): string {
+export function buildCharacterPrompt(char: Character, variant?: WardrobeVariant): string {
   const parts: string[] = [char.name];
   
-  if (char.appearance) {
-    const appearance = char.appearance;
+  if (char.appearance || variant) {
+    const appearance = variant
+      ? { ...char.appearance, clothing: variant.clothing, accessories: variant.accessories }
+      : char.appearance!;
     const desc: string[] = [];
     
+    if (!char.appearance && char.description) desc.push(char.description);
     if (appearance.age) desc.push(appearance.age);
     if (appearance.gender) desc.push(appearance.gender);
     if (appearance.ethnicity) desc.push(appearance.ethnicity);
@@ -47,107 +51,166 @@ function buildCharacterPrompt(char: Character): string {
   return parts.join(' ');
 }
 
+/**
+ * Helper to describe a location's set and lighting for image generation
+ */
+export function buildLocationPrompt(location: SceneLocation): string {
+  const desc = [location.description, location.lighting && `${location.lighting} lighting`]
+    .filter(Boolean)
+    .join(', ');
+  return desc ? `${location.name} (${desc})` : location.name;
+}
+
+/**
+ * Helper to describe a prop for image generation
+ */
+export function buildPropPrompt(prop: Prop): string {
+  return prop.description ? `${prop.name} (${prop.description})` : prop.name;
+}
+
+export interface PanelGenerationInputs {
+  characters: Character[];
+  initImage?: string;
+  wardrobe: WardrobeSelection;
+  location?: SceneLocation;
+  props: Prop[];
+}
+
+/**
+ * Helper to gather what a panel feeds into generateProjectImage besides its prompt
+ * @param page - The page holding the panel, where its reference panel is looked up
+ * @returns Linked characters, the reference panel's stored image, outfits, location and props
+ */
+export async function getPanelGenerationInputs(project: Project, issue: Issue | undefined, page: Page, panel: Panel): Promise<PanelGenerationInputs> {
+  let initImage: string | undefined;
+  const refPanel = panel.referencePanelId ? page.panels.find(p => p.id === panel.referencePanelId) : undefined;
+  if (refPanel?.imageUrl?.startsWith('idb://')) {
+    initImage = await getImage(refPanel.imageUrl.slice(6)) || undefined;
+  }
+
+  return {
+    characters: project.characters.filter(c => panel.characterIds.includes(c.id)),
+    initImage,
+    wardrobe: resolveWardrobe(issue, page, panel),
+    location: project.locations?.find(l => l.id === panel.locationId),
+    props: getPanelProps(project.props, panel),
+  };
+}
+
+/**
+ * Generate an image using the project's configured provider
+ * @param project - Project whose style and provider settings are used
+ * @param prompt - The base prompt text
+ * @param aspectRatio - The aspect ratio for the image
+ * @param characters - Array of characters to include in the prompt
+ * @param initImage - Optional reference image for consistency
+ * @param referenceStrength - Strength of the reference image (0-1)
+ * @param seed - Optional seed, ignored by providers that don't accept one
+ * @param usage - Where the call came from, for usage tracking
+ * @param wardrobe - Outfit each character wears, see resolveWardrobe
+ * @param location - The panel's location, described so recurring sets stay consistent
+ * @param props - Recurring objects shown in the panel
+ * @returns The generated image URL or undefined
+ */
+export async function generateProjectImage(
+  project: Project,
+  prompt: string,
+  aspectRatio: AspectRatio,
+  characters: Character[] = [],
+  initImage?: string,
+  referenceStrength: number = 0.7,
+  seed?: number,
+  usage?: UsageContext,
+  wardrobe: WardrobeSelection = {},
+  location?: SceneLocation,
+  props: Prop[] = []
+): Promise<string | undefined> {
+  // Build style prompt
+  const styleConfig = ART_STYLES.find(s => s.id === project.style);
+  const stylePrompt = project.style === 'custom' 
+    ? (project.customStylePrompt || '') 
+    : (styleConfig?.prompt || '');
+  
+  // Build character section
+  const charSection = characters.length > 0 
+    ? `Characters: ${characters.map(c => buildCharacterPrompt(c, getWardrobeVariant(c, wardrobe))).join('; ')}.` 
+    : '';
+  
+  // Build setting section
+  const settingSection = location ? `Setting: ${buildLocationPrompt(location)}.` : '';
+  
+  // Build props section
+  const propSection = props.length > 0
+    ? `Props: ${props.map(buildPropPrompt).join('; ')}.`
+    : '';
+  
+  // Add consistency suffix if the provider will actually receive the reference image
+  const capabilities = getProviderAdapter(project.imageProvider).capabilities;
+  const consistencySuffix = initImage && capabilities.img2img
+    ? " Maintain strong visual and character consistency with the reference image. Same lighting, angle, style."
+    : '';
+  
+  // Character, location and prop references, for providers that accept image references
+  const subjects = [...characters, ...(location ? [location] : []), ...props];
+  const referenceImages = await loadReferenceImages(subjects, capabilities.referenceImages);
+  const referenceSuffix = referenceImages.length > 0
+    ? " Match the characters, setting and props to the reference images."
+    : '';
+  
+  // Build full prompt
+  const fullPrompt = `${stylePrompt}. ${charSection} ${settingSection} ${propSection} ${prompt}.${consistencySuffix}${referenceSuffix}`.replace(/\s+/g, ' ').trim();
+  
+  // Every provider goes through the shared registry
+  return generateWithProvider(
+    project,
+    fullPrompt,
+    aspectRatio,
+    initImage,
+    referenceStrength,
+    seed,
+    usage,
+    referenceImages
+  );
+}
+
+/**
+ * Generate a turnaround sheet for a character and store it as a reference image
+ * @returns The idb:// URL to add to the character's reference images
+ */
+export async function generateCharacterSheet(project: Project, character: Character): Promise<string> {
+  const url = await generateProjectImage(
+    project,
+    TURNAROUND_PROMPT,
+    AspectRatio.WIDE,
+    [character],
+    undefined,
+    0.7,
+    undefined,
+    { source: 'character' }
+  );
+  if (!url) throw new Error('No image returned from provider.');
+  return saveReferenceImage(url);
+}
+
 /**
  * Shared hook for image generation across all components
- * Handles all provider-specific logic and prompt building
+ * Builds the prompt and hands off to the provider registry
  */
 export function useImageGeneration(project: Project) {
-  /**
-   * Generate an image using the project's configured provider
-   * @param prompt - The base prompt text
-   * @param aspectRatio - The aspect ratio for the image
-   * @param characters - Array of characters to include in the prompt
-   * @param initImage - Optional reference image for consistency
-   * @param referenceStrength - Strength of the reference image (0-1)
-   * @returns The generated image URL or undefined
-   */
   const generateImage = async (
     prompt: string,
     aspectRatio: AspectRatio,
     characters: Character[] = [],
     initImage?: string,
-    referenceStrength: number = 0.7
+    referenceStrength: number = 0.7,
+    seed?: number,
+    usage?: UsageContext,
+    wardrobe?: WardrobeSelection,
+    location?: SceneLocation,
+    props?: Prop[]
   ): Promise<string | undefined> => {
     try {
-      // Build style prompt
-      const styleConfig = ART_STYLES.find(s => s.id === project.style);
-      const stylePrompt = project.style === 'custom' 
-        ? (project.customStylePrompt || '') 
-        : (styleConfig?.prompt || '');
-      
-      // Build character section
-      const charSection = characters.length > 0 
-        ? `Characters: ${characters.map(c => buildCharacterPrompt(c)).join('; ')}.` 
-        : '';
-      
-      // Get aspect ratio config
-      const config = ASPECT_CONFIGS[aspectRatio];
-      
-      // Add consistency suffix if using reference image
-      const consistencySuffix = initImage 
-        ? " Maintain strong visual and character consistency with the reference image. Same lighting, angle, style."
-        : '';
-      
-      // Build full prompt
-      const fullPrompt = `${stylePrompt}. ${charSection} ${prompt}.${consistencySuffix}`.trim();
-      
-      // Call appropriate service based on provider
-      let url: string | undefined;
-      
-      if (project.imageProvider === 'gemini' && project.geminiApiKey) {
-        url = await generateGeminiImage(
-          fullPrompt, 
-          config.ratio, 
-          project.geminiApiKey, 
-          initImage, 
-          referenceStrength
-        );
-      } else if (project.imageProvider === 'leonardo' && project.leonardoApiKey) {
-        url = await generateLeonardoImage(
-          fullPrompt, 
-          aspectRatio, 
-          project.leonardoApiKey, 
-          initImage, 
-          referenceStrength
-        );
-      } else if (project.imageProvider === 'grok' && project.grokApiKey) {
-        url = await generateGrokImage(
-          fullPrompt, 
-          aspectRatio, 
-          project.grokApiKey, 
-          initImage, 
-          referenceStrength
-        );
-      } else if (project.imageProvider === 'fal' && project.falApiKey) {
-        url = await generateFalFlux(
-          fullPrompt, 
-          aspectRatio, 
-          project.falApiKey, 
-          project.fluxModel || 'fal-ai/flux-pro', 
-          initImage, 
-          referenceStrength
-        );
-      } else if (project.imageProvider === 'seaart' && project.seaartApiKey) {
-        url = await generateSeaArtImage(
-          fullPrompt, 
-          aspectRatio, 
-          project.seaartApiKey, 
-          initImage, 
-          referenceStrength
-        );
-      } else if (project.imageProvider === 'openai' && project.openaiApiKey) {
-        url = await generateOpenAIImage(
-          fullPrompt, 
-          aspectRatio, 
-          project.openaiApiKey, 
-          initImage, 
-          referenceStrength
-        );
-      } else {
-        throw new Error(`No API key configured for provider: ${project.imageProvider}`);
-      }
-      
-      return url;
+      return await generateProjectImage(project, prompt, aspectRatio, characters, initImage, referenceStrength, seed, usage, wardrobe, location, props);
     } catch (error) {
       console.error('Image generation failed:', error);
       throw error;
@@ -1,33 +1,31 @@
 import { useState, useEffect } from 'react';
-import { getImage } from '../services/imageStorage';
+import { ImageVariant, acquireImageUrl, releaseImageUrl } from '../services/imageStorage';
 
 /**
  * A custom hook to resolve images stored in IndexedDB.
- * If the URL starts with 'idb://', it fetches the actual data URL from storage.
+ * If the URL starts with 'idb://', it resolves to an object URL for the stored
+ * image (or its thumbnail), which is released when the component unmounts.
  */
-export function useIndexedDBImage(imageUrl: string | undefined): string | undefined {
-    const [resolvedUrl, setResolvedUrl] = useState<string | undefined>(
-        imageUrl?.startsWith('idb://') ? undefined : imageUrl
-    );
+export function useIndexedDBImage(imageUrl: string | undefined, variant: ImageVariant = 'full'): string | undefined {
+    const [resolved, setResolved] = useState<{ key: string; url: string } | null>(null);
 
     useEffect(() => {
-        if (!imageUrl) {
-            setResolvedUrl(undefined);
-            return;
-        }
-
-        if (!imageUrl.startsWith('idb://')) {
-            setResolvedUrl(imageUrl);
-            return;
-        }
+        if (!imageUrl?.startsWith('idb://')) return;
 
         const panelId = imageUrl.replace('idb://', '');
-        getImage(panelId).then(data => {
-            if (data) setResolvedUrl(data);
+        let active = true;
+        acquireImageUrl(panelId, variant).then(url => {
+            if (active && url) setResolved({ key: imageUrl, url });
         }).catch(err => {
             console.error("Failed to load image from IDB", err);
         });
-    }, [imageUrl]);
 
-    return resolvedUrl;
+        return () => {
+            active = false;
+            releaseImageUrl(panelId, variant);
+        };
+    }, [imageUrl, variant]);
+
+    if (!imageUrl?.startsWith('idb://')) return imageUrl;
+    return resolved?.key === imageUrl ? resolved.url : undefined;
 }
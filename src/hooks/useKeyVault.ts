@@ -0,0 +1,24 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { useAuth } from '../context/AuthContext';
+import {
+  LOCAL_VAULT_SCOPE,
+  VaultSnapshot,
+  getVaultSnapshot,
+  setVaultScope,
+  subscribeToVault,
+} from '../services/keyVault';
+
+/**
+ * The signed-in user's key vault. Signing in or out switches to that user's
+ * vault, which starts locked.
+ */
+export const useKeyVault = (): VaultSnapshot => {
+  const { user } = useAuth();
+  const scope = user?.id || LOCAL_VAULT_SCOPE;
+
+  useEffect(() => {
+    setVaultScope(scope);
+  }, [scope]);
+
+  return useSyncExternalStore(subscribeToVault, getVaultSnapshot);
+};
@@ -4,6 +4,10 @@ import { Provider } from 'react-redux'
 import { store } from './store'
 import './index.css'
 import App from './App.tsx'
+import { migrateLegacyImages } from './services/imageStorage'
+
+// Converts images saved as base64 before Blob storage; runs once per browser
+migrateLegacyImages().catch(err => console.error('Image migration failed', err))
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
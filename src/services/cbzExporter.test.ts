@@ -0,0 +1,99 @@
+import { describe, test, expect } from 'vitest';
+import { buildComicInfoXml, getReadingOrderPages } from './cbzExporter';
+import { getLetteredElements, getPageLayout, PAGE_MARGIN } from './pageRenderer';
+import { AspectRatio, Issue, Panel, Project } from '../types';
+
+const makePanel = (id: string, overrides: Partial<Panel> = {}): Panel => ({
+    id,
+    prompt: '',
+    aspectRatio: AspectRatio.WIDE,
+    characterIds: [],
+    textElements: [],
+    ...overrides
+});
+
+const issue: Issue = {
+    id: 'issue-2',
+    title: 'Rain & <Neon>',
+    pages: [
+        { id: 'pg2', number: 2, panels: [makePanel('c', { characterIds: ['char-2'] })] },
+        { id: 'pg-empty', number: 3, panels: [] },
+        { id: 'pg1', number: 1, panels: [makePanel('a', { characterIds: ['char-1'] })] },
+    ]
+};
+
+const project = {
+    id: 'p1',
+    title: 'Night Shift',
+    style: 'noir',
+    issueType: 'issue',
+    imageProvider: 'gemini',
+    issues: [{ id: 'issue-1', title: 'One', pages: [] }, issue],
+    characters: [
+        { id: 'char-1', name: 'Maggie', description: '' },
+        { id: 'char-2', name: 'Dex', description: '' },
+        { id: 'char-3', name: 'Unused', description: '' },
+    ]
+} as Project;
+
+describe('getPageLayout', () => {
+    test('bounds the page by its panels and shifts frames to the margin', () => {
+        const layout = getPageLayout({
+            id: 'pg',
+            number: 1,
+            panels: [
+                makePanel('a', { x: 100, y: 50, width: 400, height: 300 }),
+                makePanel('b', { x: 520, y: 50 }),
+                makePanel('c', { x: 100, y: 370, width: 780, height: 200 }),
+            ]
+        });
+
+        expect(layout.width).toBe(880 - 100 + PAGE_MARGIN * 2);
+        expect(layout.height).toBe(570 - 50 + PAGE_MARGIN * 2);
+        expect(layout.frames.map(f => [f.x, f.y, f.width, f.height])).toEqual([
+            [PAGE_MARGIN, PAGE_MARGIN, 400, 300],
+            [PAGE_MARGIN + 420, PAGE_MARGIN, 360, 420],
+            [PAGE_MARGIN, PAGE_MARGIN + 320, 780, 200],
+        ]);
+    });
+
+    test('returns an empty layout for a page without panels', () => {
+        expect(getPageLayout({ id: 'pg', number: 1, panels: [] })).toEqual({ width: 0, height: 0, frames: [] });
+    });
+});
+
+describe('getLetteredElements', () => {
+    test('skips script dialogue lines and empty bubbles', () => {
+        const base = { width: 30, height: 10, fontSize: 16, color: '#000' };
+        const panel = makePanel('a', {
+            textElements: [
+                { id: 't1', type: 'dialogue', content: 'Hello', x: 10, y: 10, ...base },
+                { id: 't2', type: 'dialogue', content: 'MAGGIE: Script line', x: -1, y: -1, ...base },
+                { id: 't3', type: 'caption', content: '   ', x: 5, y: 5, ...base },
+            ]
+        });
+        expect(getLetteredElements(panel).map(el => el.id)).toEqual(['t1']);
+    });
+});
+
+describe('CBZ metadata', () => {
+    test('orders pages by number and drops empty pages', () => {
+        expect(getReadingOrderPages(issue).map(page => page.id)).toEqual(['pg1', 'pg2']);
+    });
+
+    test('builds ComicInfo.xml from project, issue, characters and pages', () => {
+        const xml = buildComicInfoXml(project, issue, [{ width: 1988, height: 3056 }, { width: 1988, height: 2800 }]);
+
+        expect(xml).toContain('<Title>Rain &amp; &lt;Neon&gt;</Title>');
+        expect(xml).toContain('<Series>Night Shift</Series>');
+        expect(xml).toContain('<Number>2</Number>');
+        expect(xml).toContain('<Count>2</Count>');
+        expect(xml).toContain('<PageCount>2</PageCount>');
+        expect(xml).toContain('<Characters>Maggie, Dex</Characters>');
+        expect(xml).toContain('<Page Image="0" Type="FrontCover" ImageWidth="1988" ImageHeight="3056" />');
+        expect(xml).toContain('<Page Image="1" ImageWidth="1988" ImageHeight="2800" />');
+
+        const doc = new DOMParser().parseFromString(xml, 'application/xml');
+        expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+    });
+});
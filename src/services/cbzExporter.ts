@@ -0,0 +1,87 @@
+import JSZip from 'jszip';
+import { Issue, Page, Project } from '../types';
+import { canvasToBlob, renderPageToCanvas } from './pageRenderer';
+
+// Standard digital comic page width; height follows each page's layout
+export const CBZ_PAGE_WIDTH = 1988;
+
+export interface ComicInfoPage {
+    width: number;
+    height: number;
+}
+
+const escapeXml = (value: string) =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+
+/**
+ * Pages in reading order. Empty pages are left out so the archive has no blank spreads.
+ */
+export function getReadingOrderPages(issue: Issue): Page[] {
+    return [...issue.pages]
+        .filter(page => page.panels.length > 0)
+        .sort((a, b) => a.number - b.number);
+}
+
+// Issues are numbered by their position in the project
+export function getIssueNumber(project: Project, issue: Issue): number {
+    const index = project.issues.findIndex(i => i.id === issue.id);
+    return index >= 0 ? index + 1 : 1;
+}
+
+/**
+ * Builds ComicInfo.xml (the ComicRack metadata schema most readers understand).
+ */
+export function buildComicInfoXml(project: Project, issue: Issue, pages: ComicInfoPage[]): string {
+    const characterIds = new Set(issue.pages.flatMap(page => page.panels.flatMap(panel => panel.characterIds)));
+    const characters = project.characters.filter(c => characterIds.has(c.id)).map(c => c.name);
+
+    const fields: [string, string | number | undefined][] = [
+        ['Title', issue.title],
+        ['Series', project.title],
+        ['Number', getIssueNumber(project, issue)],
+        ['Count', project.issues.length],
+        ['PageCount', pages.length],
+        ['Characters', characters.length ? characters.join(', ') : undefined],
+        ['Notes', 'Created with Ink Tracker'],
+    ];
+
+    const lines = [
+        '<?xml version="1.0" encoding="utf-8"?>',
+        '<ComicInfo xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+        ...fields
+            .filter(([, value]) => value !== undefined && value !== '')
+            .map(([tag, value]) => `  <${tag}>${escapeXml(String(value))}</${tag}>`),
+        '  <Pages>',
+        ...pages.map((page, i) =>
+            `    <Page Image="${i}"${i === 0 ? ' Type="FrontCover"' : ''} ImageWidth="${page.width}" ImageHeight="${page.height}" />`
+        ),
+        '  </Pages>',
+        '</ComicInfo>',
+    ];
+
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Renders every page of an issue and packages them as a CBZ archive.
+ */
+export async function exportIssueToCbz(project: Project, issue: Issue, onProgress?: (current: number, total: number) => void): Promise<Blob> {
+    const zip = new JSZip();
+    const pages = getReadingOrderPages(issue);
+    const rendered: ComicInfoPage[] = [];
+
+    for (let i = 0; i < pages.length; i++) {
+        onProgress?.(i + 1, pages.length);
+        const canvas = await renderPageToCanvas(pages[i], { width: CBZ_PAGE_WIDTH, textOverlayStyle: project.textOverlayStyle });
+        zip.file(`${String(i + 1).padStart(3, '0')}.jpg`, await canvasToBlob(canvas));
+        rendered.push({ width: canvas.width, height: canvas.height });
+    }
+
+    zip.file('ComicInfo.xml', buildComicInfoXml(project, issue, rendered));
+    return zip.generateAsync({ type: 'blob', mimeType: 'application/vnd.comicbook+zip' });
+}
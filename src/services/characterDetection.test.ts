@@ -0,0 +1,101 @@
+import { describe, test, expect } from 'vitest';
+import {
+    detectCharacters,
+    detectEditedCharacters,
+    findImportAmbiguities,
+    findMentions,
+    findNewCharacters,
+    getBubbleSpeaker,
+    matchCharacterName,
+    normalizeCharacterName
+} from './characterDetection';
+import { ParsedPanel } from './scriptParser';
+import { AspectRatio, Character, Panel } from '../types';
+
+const maggie: Character = { id: 'maggie', name: 'Maggie Chen', aliases: ['Mags'], description: '' };
+const doyle: Character = { id: 'doyle', name: 'Maggie Doyle', description: '' };
+const hank: Character = { id: 'hank', name: 'Hank', description: '' };
+const bank = [maggie, doyle, hank];
+
+const panel = (prompt: string, dialogue: string[] = [], characterIds: string[] = []): Panel => ({
+    id: 'a',
+    prompt,
+    characterIds,
+    aspectRatio: AspectRatio.WIDE,
+    textElements: dialogue.map((content, i) => ({ id: `t${i}`, type: 'dialogue', content, x: -1, y: -1, width: 100, height: 10, fontSize: 14, color: '#000' })),
+});
+
+describe('normalizeCharacterName', () => {
+    test('drops extensions and Fountain markers', () => {
+        expect(normalizeCharacterName("  hank (CONT'D) ")).toBe('HANK');
+        expect(normalizeCharacterName('@McClane ^')).toBe('MCCLANE');
+    });
+});
+
+describe('matchCharacterName', () => {
+    test('matches full names and aliases exactly', () => {
+        expect(matchCharacterName('MAGGIE CHEN (V.O.)', bank)).toEqual([maggie]);
+        expect(matchCharacterName('mags', bank)).toEqual([maggie]);
+    });
+
+    test('falls back to a word of a multi-word name, which may be ambiguous', () => {
+        expect(matchCharacterName('DOYLE', bank)).toEqual([doyle]);
+        expect(matchCharacterName('MAGGIE', bank)).toEqual([maggie, doyle]);
+        expect(matchCharacterName('LOU', bank)).toEqual([]);
+    });
+});
+
+describe('getBubbleSpeaker', () => {
+    test('reads the name before the colon', () => {
+        expect(getBubbleSpeaker('HANK (O.S.): Order up!')).toBe('HANK');
+        expect(getBubbleSpeaker('Order up!')).toBeUndefined();
+    });
+});
+
+describe('findMentions', () => {
+    test('finds capitalized names, preferring the longest', () => {
+        expect(findMentions("Maggie Chen slides Hank's plate across. hank is a verb here.", bank)).toEqual(['MAGGIE CHEN', 'HANK']);
+    });
+});
+
+describe('detectCharacters', () => {
+    test('links names, speakers and mentions and reports ambiguous names', () => {
+        const result = detectCharacters({ speakers: ['HANK'], description: 'Maggie wipes the counter.' }, bank);
+
+        expect(result.characterIds).toEqual(['hank']);
+        expect(result.ambiguous).toEqual([{ name: 'MAGGIE', candidates: [maggie, doyle] }]);
+    });
+
+    test('drops an ambiguity another name in the panel settles', () => {
+        const result = detectCharacters({ names: ['MAGGIE CHEN'], description: 'Maggie wipes the counter.' }, bank);
+        expect(result).toEqual({ characterIds: ['maggie'], ambiguous: [] });
+    });
+
+    test('applies review choices by name, or leaves the name unlinked', () => {
+        const sources = { speakers: ['MAGGIE'] };
+        expect(detectCharacters(sources, bank, { MAGGIE: 'Maggie Doyle' }).characterIds).toEqual(['doyle']);
+        expect(detectCharacters(sources, bank, { MAGGIE: null })).toEqual({ characterIds: [], ambiguous: [] });
+    });
+});
+
+describe('detectEditedCharacters', () => {
+    test('only returns names the edit added', () => {
+        const before = panel('Hank flips a burger.', [], []);
+        const after = panel('Hank flips a burger. Maggie Doyle walks in.', ['MAGS: Two coffees.']);
+
+        expect(detectEditedCharacters(before, after, bank)).toEqual({ characterIds: ['maggie', 'doyle'], ambiguous: [] });
+    });
+});
+
+describe('script import', () => {
+    test('creates only names that match nobody and collects ambiguities once', () => {
+        const parsed = [{ name: 'MAGGIE', lineCount: 3 }, { name: 'LOU', lineCount: 1 }];
+        const parsedPanel = (character: string): ParsedPanel => ({
+            panelNumber: 1, description: '', bubbles: [{ type: 'dialogue', text: 'Hi', character }], artistNotes: [], visualMarker: 'standard', aspectRatio: AspectRatio.WIDE,
+        });
+
+        expect(findNewCharacters(parsed, bank).map(c => c.name)).toEqual(['LOU']);
+        expect(findImportAmbiguities([parsedPanel('MAGGIE'), parsedPanel('MAGGIE'), parsedPanel('HANK')], bank))
+            .toEqual([{ name: 'MAGGIE', candidates: [maggie, doyle] }]);
+    });
+});
@@ -0,0 +1,184 @@
+import { Character, Panel } from '../types';
+import { ParsedCharacter, ParsedPanel } from './scriptParser';
+
+/**
+ * Character Detection
+ *
+ * Links panels to Character Bank entries from the names a script gives a panel,
+ * the speakers of its bubbles ("MAGGIE: Coffee?") and the names mentioned in its
+ * description. Names match a character's full name or one of its aliases, or a
+ * single word of a multi-word name ("CHEN" for Maggie Chen). A name that fits
+ * more than one character is returned as ambiguous for the user to review.
+ */
+
+export interface DetectionSources {
+    names?: string[];           // Names the parser attributed to the panel
+    speakers?: string[];        // Bubble speakers
+    description?: string;       // Prose searched for mentions
+}
+
+export interface AmbiguousMatch {
+    name: string;               // Normalized, e.g. "MAGGIE"
+    candidates: Character[];
+}
+
+export interface DetectionResult {
+    characterIds: string[];
+    ambiguous: AmbiguousMatch[];
+}
+
+// Ambiguous name → the chosen character's name, or null to leave it unlinked
+export type MatchResolutions = Record<string, string | null>;
+
+const NAME_TOKEN = /^[A-Z][A-Z'-]{2,}$/;
+
+/**
+ * Upper-cases a name and drops script markup: extensions like (V.O.) or
+ * (CONT'D), Fountain's @ and ^ markers and extra whitespace.
+ */
+export function normalizeCharacterName(name: string): string {
+    return name
+        .replace(/\([^)]*\)/g, ' ')
+        .replace(/^[\s@]+|[\s^]+$/g, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .toUpperCase();
+}
+
+function fullNames(character: Character): string[] {
+    return [character.name, ...(character.aliases || [])].map(normalizeCharacterName).filter(Boolean);
+}
+
+function nameTokens(character: Character): string[] {
+    return fullNames(character)
+        .filter(name => name.includes(' '))
+        .flatMap(name => name.split(' '))
+        .filter(token => NAME_TOKEN.test(token));
+}
+
+/**
+ * Characters a name could refer to: those it names exactly (by name or alias),
+ * otherwise those with a matching word in a multi-word name.
+ */
+export function matchCharacterName(name: string, characters: Character[]): Character[] {
+    const key = normalizeCharacterName(name);
+    if (!key) return [];
+    const exact = characters.filter(c => fullNames(c).includes(key));
+    if (exact.length > 0 || !NAME_TOKEN.test(key)) return exact;
+    return characters.filter(c => nameTokens(c).includes(key));
+}
+
+/**
+ * The speaker of a bubble written as "NAME: text", if any.
+ */
+export function getBubbleSpeaker(content: string): string | undefined {
+    const match = content.match(/^\s*([A-Z][\w .'-]{0,40}?)\s*(\([^)]*\))?\s*:/);
+    return match?.[1];
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Character names mentioned in prose, as keys for matchCharacterName. Names
+ * must be capitalized, and longer names win so "Maggie Chen" isn't also read
+ * as "Maggie".
+ */
+export function findMentions(text: string, characters: Character[]): string[] {
+    const keys = [...new Set(characters.flatMap(c => [...fullNames(c), ...nameTokens(c)]))]
+        .sort((a, b) => b.length - a.length);
+    const found: string[] = [];
+    let remaining = text;
+    keys.forEach(key => {
+        const pattern = new RegExp(`(?<![\\w'])${escapeRegExp(key)}(?!\\w)`, 'gi');
+        remaining = remaining.replace(pattern, match => {
+            if (match[0] !== match[0].toUpperCase()) return match;
+            found.push(key);
+            return ' '.repeat(match.length);
+        });
+    });
+    return [...new Set(found)];
+}
+
+/**
+ * Resolves every name in the sources. An ambiguous name is dropped when one of
+ * its candidates is already linked by another name in the same panel.
+ */
+export function detectCharacters(sources: DetectionSources, characters: Character[], resolutions: MatchResolutions = {}): DetectionResult {
+    const names = [
+        ...(sources.names || []),
+        ...(sources.speakers || []),
+        ...findMentions(sources.description || '', characters),
+    ];
+    const ids = new Set<string>();
+    const ambiguous = new Map<string, Character[]>();
+
+    names.forEach(name => {
+        const key = normalizeCharacterName(name);
+        if (key in resolutions) {
+            const chosen = resolutions[key];
+            const character = chosen === null ? undefined : characters.find(c => normalizeCharacterName(c.name) === normalizeCharacterName(chosen));
+            if (character) ids.add(character.id);
+            return;
+        }
+        const candidates = matchCharacterName(key, characters);
+        if (candidates.length === 1) ids.add(candidates[0].id);
+        else if (candidates.length > 1) ambiguous.set(key, candidates);
+    });
+
+    return {
+        characterIds: [...ids],
+        ambiguous: [...ambiguous.entries()]
+            .filter(([, candidates]) => !candidates.some(c => ids.has(c.id)))
+            .map(([name, candidates]) => ({ name, candidates })),
+    };
+}
+
+export function getPanelSources(panel: Panel): DetectionSources {
+    return {
+        speakers: panel.textElements.map(el => getBubbleSpeaker(el.content)).filter((name): name is string => !!name),
+        description: panel.prompt || '',
+    };
+}
+
+/**
+ * What an edit to a panel's prompt or bubbles newly names: characters to link
+ * and ambiguous names to review. Names that were already there before the edit
+ * are left alone, so unlinking a character by hand sticks.
+ */
+export function detectEditedCharacters(before: Panel, after: Panel, characters: Character[]): DetectionResult {
+    const previous = detectCharacters(getPanelSources(before), characters);
+    const current = detectCharacters(getPanelSources(after), characters);
+    const previousAmbiguous = new Set(previous.ambiguous.map(match => match.name));
+    return {
+        characterIds: current.characterIds.filter(id => !previous.characterIds.includes(id) && !after.characterIds.includes(id)),
+        ambiguous: current.ambiguous.filter(match =>
+            !previousAmbiguous.has(match.name) && !match.candidates.some(c => after.characterIds.includes(c.id))
+        ),
+    };
+}
+
+/**
+ * Parsed characters that match nobody in the bank, which import creates.
+ */
+export function findNewCharacters<T extends Pick<ParsedCharacter, 'name'>>(parsed: T[], existing: Character[]): T[] {
+    return parsed.filter(c => matchCharacterName(c.name, existing).length === 0);
+}
+
+export function getImportedPanelSources(panel: ParsedPanel): DetectionSources {
+    return {
+        names: panel.characters,
+        speakers: panel.bubbles.map(bubble => bubble.character).filter((name): name is string => !!name),
+        description: panel.description,
+    };
+}
+
+/**
+ * Every ambiguous name across an import, for the review step.
+ */
+export function findImportAmbiguities(panels: ParsedPanel[], roster: Character[]): AmbiguousMatch[] {
+    const ambiguous = new Map<string, AmbiguousMatch>();
+    panels.forEach(panel => detectCharacters(getImportedPanelSources(panel), roster).ambiguous.forEach(match => {
+        if (!ambiguous.has(match.name)) ambiguous.set(match.name, match);
+    }));
+    return [...ambiguous.values()];
+}
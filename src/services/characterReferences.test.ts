@@ -0,0 +1,22 @@
+import { describe, test, expect } from 'vitest';
+import { pickReferenceImageIds } from './characterReferences';
+import { Character } from '../types';
+
+const character = (id: string, referenceImages?: string[]): Character => ({ id, name: id, description: '', referenceImages });
+
+describe('pickReferenceImageIds', () => {
+    test("takes each character's first sheet before anyone's second", () => {
+        const characters = [
+            character('maggie', ['idb://m1', 'idb://m2', 'idb://m3']),
+            character('hank', ['idb://h1']),
+            character('extra'),
+        ];
+
+        expect(pickReferenceImageIds(characters, 3)).toEqual(['m1', 'h1', 'm2']);
+        expect(pickReferenceImageIds(characters, 10)).toEqual(['m1', 'h1', 'm2', 'm3']);
+    });
+
+    test('sends nothing to providers without reference support', () => {
+        expect(pickReferenceImageIds([character('maggie', ['idb://m1'])], 0)).toEqual([]);
+    });
+});
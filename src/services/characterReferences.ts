@@ -0,0 +1,55 @@
+import { genId } from '../utils/helpers';
+import { getImage, saveImage } from './imageStorage';
+
+/**
+ * Character Reference Sheets
+ *
+ * Each character can keep a few reference images (uploads or generated
+ * turnaround sheets) in image storage, and so can each location and prop.
+ * Panels send the ones for their characters, location and props to providers
+ * that accept image references, so faces, costumes, sets and objects stay the
+ * same across an issue.
+ */
+
+// Anything that carries reference images: characters, locations and props
+export interface ReferenceSubject {
+    referenceImages?: string[];
+}
+
+export const MAX_REFERENCE_IMAGES = 4;
+
+export const TURNAROUND_PROMPT =
+    'Character turnaround reference sheet: the same character shown front, three-quarter, side and back, full body, neutral pose, plain white background, no text';
+
+const IDB_PREFIX = 'idb://';
+
+/**
+ * Reference image ids to send for a panel, taking each subject's first image
+ * before anyone's second so every subject gets a slot when space is short.
+ */
+export function pickReferenceImageIds(subjects: ReferenceSubject[], limit: number): string[] {
+    const queues = subjects.map(s => (s.referenceImages || []).filter(url => url.startsWith(IDB_PREFIX)));
+    const picked: string[] = [];
+    for (let round = 0; picked.length < limit && queues.some(queue => queue.length > round); round++) {
+        queues.forEach(queue => {
+            if (picked.length < limit && queue[round]) picked.push(queue[round].slice(IDB_PREFIX.length));
+        });
+    }
+    return picked;
+}
+
+/**
+ * Loads the picked reference images as data URLs, skipping any that are missing.
+ */
+export async function loadReferenceImages(subjects: ReferenceSubject[], limit: number): Promise<string[]> {
+    const images = await Promise.all(pickReferenceImageIds(subjects, limit).map(id => getImage(id)));
+    return images.filter((image): image is string => !!image);
+}
+
+/**
+ * Stores a reference image and returns the idb:// URL to keep on the character, location or prop.
+ * Removed references are left for the storage manager's cleanup, so undo still works.
+ */
+export function saveReferenceImage(image: string | Blob): Promise<string> {
+    return saveImage(genId(), image);
+}
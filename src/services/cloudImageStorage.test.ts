@@ -0,0 +1,77 @@
+import { describe, test, expect, vi } from 'vitest';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { IMAGE_BUCKET, ImageFolder, createSupabaseImageBackend } from './cloudImageStorage';
+
+const createFakeStorage = (names: string[], missing: string[] = []) => {
+    const bucket = {
+        list: vi.fn(async (_folder: string, { limit, offset }: { limit: number; offset: number }) => ({
+            data: names.slice(offset, offset + limit).map(name => ({ name })),
+            error: null
+        })),
+        download: vi.fn(async (path: string) => (missing.includes(path)
+            ? { data: null, error: { message: 'Object not found' } }
+            : { data: new Blob(['png'], { type: 'image/png' }), error: null })),
+        upload: vi.fn(async () => ({ error: null })),
+        remove: vi.fn(async () => ({ error: null })),
+    };
+    const from = vi.fn(() => bucket);
+    return { client: { storage: { from } } as unknown as SupabaseClient, bucket, from };
+};
+
+const own: ImageFolder = { ownerId: 'u1', projectId: 'p1' };
+const shared: ImageFolder = { ownerId: 'u2', projectId: 'p2' };
+
+// Images named shared-* belong to someone else's project, new-* to no project yet
+const folders = {
+    locate: (id: string) => (id.startsWith('new') ? null : id.startsWith('shared') ? shared : own),
+    owned: () => [own],
+};
+
+describe('createSupabaseImageBackend', () => {
+    test('lists the requested images in their project folders across pages', async () => {
+        const names = Array.from({ length: 1500 }, (_, i) => `img-${i}`);
+        const { client, bucket, from } = createFakeStorage(names);
+
+        const ids = await createSupabaseImageBackend(client, 'u1', folders).list(['img-0', 'img-1499', 'img-2000', 'new-1']);
+
+        expect(ids).toEqual(new Set(['img-0', 'img-1499']));
+        expect(from).toHaveBeenCalledWith(IMAGE_BUCKET);
+        expect(bucket.list).toHaveBeenCalledTimes(2);
+        expect(bucket.list).toHaveBeenLastCalledWith('u1/p1', { limit: 1000, offset: 1000 });
+    });
+
+    test("reads and writes a shared project's images in its owner's folder", async () => {
+        const { client, bucket } = createFakeStorage([]);
+        const backend = createSupabaseImageBackend(client, 'u1', folders);
+        const blob = new Blob(['png'], { type: 'image/png' });
+
+        expect((await backend.download('shared-a'))?.type).toBe('image/png');
+        expect(bucket.download).toHaveBeenCalledWith('u2/p2/shared-a');
+
+        await backend.upload('shared-a', blob);
+        expect(bucket.upload).toHaveBeenCalledWith('u2/p2/shared-a', blob, { contentType: 'image/png', upsert: true });
+
+        await backend.upload('new-a', blob);
+        expect(bucket.upload).toHaveBeenCalledTimes(1);
+    });
+
+    test('falls back to the legacy user folder and treats missing objects as misses', async () => {
+        const { client, bucket } = createFakeStorage([], ['u1/p1/abc', 'u1/p1/gone', 'u1/gone']);
+        const backend = createSupabaseImageBackend(client, 'u1', folders);
+
+        expect((await backend.download('abc'))?.type).toBe('image/png');
+        expect(bucket.download).toHaveBeenLastCalledWith('u1/abc');
+        expect(await backend.download('gone')).toBeNull();
+    });
+
+    test("deletes only from the user's own folders", async () => {
+        const { client, bucket } = createFakeStorage([]);
+        const backend = createSupabaseImageBackend(client, 'u1', folders);
+
+        await backend.remove('abc');
+        expect(bucket.remove).toHaveBeenCalledWith(['u1/p1/abc', 'u1/abc']);
+
+        await backend.remove('shared-a');
+        expect(bucket.remove).toHaveBeenLastCalledWith(['u1/p1/shared-a', 'u1/shared-a']);
+    });
+});
@@ -0,0 +1,90 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ImageBackend } from './imageStorage';
+
+/**
+ * Panel images in a private Supabase Storage bucket, in the folder of the
+ * project that uses them, under its owner:
+ * `panel-images/<owner id>/<project id>/<image id>`. Everyone a project is
+ * shared with can read that folder, and editors and letterers can add to it;
+ * the bucket and its policies are created in supabase/migrations. Images
+ * uploaded before projects had folders sit in `panel-images/<user id>/<image id>`
+ * and are still read from there.
+ */
+export const IMAGE_BUCKET = 'panel-images';
+
+const LIST_PAGE_SIZE = 1000;
+
+export interface ImageFolder {
+  ownerId: string;
+  projectId: string;
+}
+
+export interface ImageFolders {
+  locate: (id: string) => ImageFolder | null;    // The project that references an image, if any does yet
+  owned: () => ImageFolder[];                     // The user's own projects, searched when deleting
+}
+
+const folderPath = ({ ownerId, projectId }: ImageFolder) => `${ownerId}/${projectId}`;
+
+export const createSupabaseImageBackend = (client: SupabaseClient, userId: string, folders: ImageFolders): ImageBackend => {
+  const bucket = () => client.storage.from(IMAGE_BUCKET);
+  const legacyPath = (id: string) => `${userId}/${id}`;
+  // Where each image was last seen, so it can still be deleted once no project references it
+  const seen = new Map<string, ImageFolder>();
+
+  const locate = (id: string) => {
+    const folder = folders.locate(id);
+    if (folder) seen.set(id, folder);
+    return folder || seen.get(id) || null;
+  };
+
+  return {
+    async upload(id, blob) {
+      // Not in a project yet; syncImagesWithBackend uploads it once it is
+      const folder = locate(id);
+      if (!folder) return;
+      const { error } = await bucket().upload(`${folderPath(folder)}/${id}`, blob, { contentType: blob.type, upsert: true });
+      if (error) throw error;
+    },
+
+    async download(id) {
+      const folder = locate(id);
+      const paths = folder ? [`${folderPath(folder)}/${id}`] : [];
+      if (!folder || folder.ownerId === userId) paths.push(legacyPath(id));
+
+      for (const path of paths) {
+        const { data, error } = await bucket().download(path);
+        if (!error && data) return data;
+      }
+      return null;
+    },
+
+    async remove(id) {
+      const candidates = [locate(id), ...folders.owned()].filter((folder): folder is ImageFolder => !!folder && folder.ownerId === userId);
+      const paths = [...new Set([...candidates.map(folder => `${folderPath(folder)}/${id}`), legacyPath(id)])];
+      const { error } = await bucket().remove(paths);
+      if (error) throw error;
+    },
+
+    async list(ids) {
+      const byFolder = new Map<string, Set<string>>();
+      ids.forEach(id => {
+        const folder = locate(id);
+        if (!folder) return;
+        const path = folderPath(folder);
+        byFolder.set(path, (byFolder.get(path) || new Set()).add(id));
+      });
+
+      const found = new Set<string>();
+      for (const [path, wanted] of byFolder) {
+        for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+          const { data, error } = await bucket().list(path, { limit: LIST_PAGE_SIZE, offset });
+          if (error) throw error;
+          data.forEach(file => { if (wanted.has(file.name)) found.add(file.name); });
+          if (data.length < LIST_PAGE_SIZE) break;
+        }
+      }
+      return found;
+    },
+  };
+};
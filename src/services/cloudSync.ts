@@ -1,69 +1,226 @@
+import { SupabaseClient } from '@supabase/supabase-js';
 import { supabase } from './supabase';
-import { Project } from '../types';
+import { Project, ProjectRole } from '../types';
+import { unwrapProject, wrapProject } from '../state/migrations';
+import { loadMemberships } from './projectSharing';
+import { ApiKeys } from './keyVault';
 
 export interface SyncStatus {
-  status: 'idle' | 'saving' | 'saved' | 'error';
+  status: 'idle' | 'saving' | 'saved' | 'offline' | 'conflict' | 'error';
   lastSaved?: Date;
   error?: string;
+  pending?: number;  // Changes waiting in the offline outbox
 }
 
+/**
+ * Rows in the `projects` table carry a `revision` (integer, default 0) that is
+ * bumped on every write and an `updated_at` timestamp. A write only succeeds if
+ * the row is still at the revision this browser last synced, so edits made on
+ * another device are never overwritten blindly. The schema is in
+ * supabase/migrations.
+ */
+export interface CloudProject {
+  project: Project;
+  revision: number;
+  updatedAt: string;
+  ownerId: string;     // Rows are keyed by their owner, who may have shared them
+  role: ProjectRole;   // This user's role in the project
+  schemaVersion: number;  // The version the row was written with
+  apiKeys: ApiKeys;    // Plaintext keys an old row still carried
+}
+
+// Per-project state as of the last successful sync from this browser
+export interface SyncRecord {
+  revision: number;
+  updatedAt: string;
+  base: Project;
+  ownerId?: string;    // Set when someone else owns the row
+  stale?: boolean;     // The row is in an old schema and must be uploaded again
+}
+
+export interface CloudSaveResult {
+  success: boolean;
+  revision?: number;
+  updatedAt?: string;
+  conflict?: CloudProject;  // The newer cloud copy, when someone else saved first
+  error?: string;
+}
+
+const SYNC_RECORDS_KEY = 'ink_tracker_sync';
+
+// Supabase returns plain error objects, which would stringify as [object Object]
+const errorMessage = (err: unknown): string =>
+  (err as { message?: string })?.message || String(err);
+
+const PROJECT_COLUMNS = 'user_id, project_data, revision, updated_at';
+
+interface ProjectRow {
+  user_id: string;
+  project_data: unknown;
+  revision: number | null;
+  updated_at: string | null;
+}
+
+const toCloudProject = (row: ProjectRow, role: ProjectRole = 'owner'): CloudProject => {
+  const { project, schemaVersion, apiKeys } = unwrapProject(row.project_data);
+  return {
+    project,
+    revision: row.revision ?? 0,
+    updatedAt: row.updated_at ?? '',
+    ownerId: row.user_id,
+    role,
+    schemaVersion,
+    apiKeys,
+  };
+};
+
+export const loadSyncRecords = (userId: string): Record<string, SyncRecord> => {
+  try {
+    const saved = localStorage.getItem(`${SYNC_RECORDS_KEY}_${userId}`);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveSyncRecords = (userId: string, records: Record<string, SyncRecord>) => {
+  localStorage.setItem(`${SYNC_RECORDS_KEY}_${userId}`, JSON.stringify(records));
+};
+
+// Projects shared with the user are owned by whoever shared them
+export const getProjectOwnerId = (userId: string, projectId: string): string =>
+  loadSyncRecords(userId)[projectId]?.ownerId ?? userId;
+
+/**
+ * Loads one project row. userId is the row's owner; role is the loading
+ * user's role in it.
+ */
+export const loadProjectFromCloud = async (
+  userId: string,
+  projectId: string,
+  client: SupabaseClient | null = supabase,
+  role: ProjectRole = 'owner'
+): Promise<CloudProject | null> => {
+  if (!client) return null;
+
+  const { data, error } = await client
+    .from('projects')
+    .select(PROJECT_COLUMNS)
+    .eq('user_id', userId)
+    .eq('project_id', projectId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toCloudProject(data, role) : null;
+};
+
+/**
+ * Saves a project on top of baseRevision (null for a project the cloud has
+ * never seen) into the row owned by userId. Returns the cloud copy as a
+ * conflict if it has moved on.
+ */
 export const saveProjectToCloud = async (
   userId: string,
-  project: Project
-): Promise<{ success: boolean; error?: string }> => {
-  if (!supabase) return { success: false, error: 'Supabase not configured' };
+  project: Project,
+  baseRevision: number | null,
+  client: SupabaseClient | null = supabase
+): Promise<CloudSaveResult> => {
+  if (!client) return { success: false, error: 'Supabase not configured' };
+
+  const revision = (baseRevision ?? 0) + 1;
+  const updatedAt = new Date().toISOString();
+  const row = {
+    project_data: wrapProject(project),
+    revision,
+    updated_at: updatedAt,
+  };
 
   try {
-    const { error } = await supabase
+    if (baseRevision === null) {
+      const { error } = await client
+        .from('projects')
+        .insert({ user_id: userId, project_id: project.id, ...row });
+
+      // Unique violation: another device created it first
+      if (error?.code === '23505') {
+        const conflict = await loadProjectFromCloud(userId, project.id, client);
+        return conflict ? { success: false, conflict } : { success: false, error: error.message };
+      }
+      if (error) throw error;
+      return { success: true, revision, updatedAt };
+    }
+
+    const { data, error } = await client
       .from('projects')
-      .upsert(
-        {
-          user_id: userId,
-          project_id: project.id,
-          project_data: project,
-        },
-        {
-          onConflict: 'user_id,project_id',
-        }
-      );
+      .update(row)
+      .eq('user_id', userId)
+      .eq('project_id', project.id)
+      .eq('revision', baseRevision)
+      .select('revision');
 
     if (error) throw error;
-    return { success: true };
+    if (data?.length) return { success: true, revision, updatedAt };
+
+    // Nothing matched: the row moved to a newer revision, or was deleted elsewhere
+    const conflict = await loadProjectFromCloud(userId, project.id, client);
+    if (conflict) return { success: false, conflict };
+    return saveProjectToCloud(userId, project, null, client);
   } catch (err) {
     console.error('Cloud save error:', err);
-    return { success: false, error: String(err) };
+    return { success: false, error: errorMessage(err) };
   }
 };
 
+/**
+ * Loads the user's own projects and the ones shared with them.
+ */
 export const loadProjectsFromCloud = async (
-  userId: string
-): Promise<{ projects: Project[]; error?: string }> => {
-  if (!supabase) return { projects: [], error: 'Supabase not configured' };
+  userId: string,
+  client: SupabaseClient | null = supabase
+): Promise<{ projects: CloudProject[]; error?: string }> => {
+  if (!client) return { projects: [], error: 'Supabase not configured' };
 
   try {
-    const { data, error } = await supabase
+    const { data, error } = await client
       .from('projects')
-      .select('project_data')
+      .select(PROJECT_COLUMNS)
       .eq('user_id', userId);
 
     if (error) throw error;
 
-    const projects = (data || []).map((row) => row.project_data as Project);
+    const projects = (data || []).map(row => toCloudProject(row));
+
+    const memberships = await loadMemberships(userId, client);
+    if (memberships.length) {
+      const { data: shared, error: sharedError } = await client
+        .from('projects')
+        .select(`project_id, ${PROJECT_COLUMNS}`)
+        .in('project_id', memberships.map(m => m.projectId));
+
+      if (sharedError) throw sharedError;
+      for (const row of shared || []) {
+        const membership = memberships.find(m => m.projectId === row.project_id && m.ownerId === row.user_id);
+        if (membership) projects.push(toCloudProject(row, membership.role));
+      }
+    }
+
     return { projects };
   } catch (err) {
     console.error('Cloud load error:', err);
-    return { projects: [], error: String(err) };
+    return { projects: [], error: errorMessage(err) };
   }
 };
 
+// Only owners delete; userId is the owner of the row
 export const deleteProjectFromCloud = async (
   userId: string,
-  projectId: string
+  projectId: string,
+  client: SupabaseClient | null = supabase
 ): Promise<{ success: boolean; error?: string }> => {
-  if (!supabase) return { success: false, error: 'Supabase not configured' };
+  if (!client) return { success: false, error: 'Supabase not configured' };
 
   try {
-    const { error } = await supabase
+    const { error } = await client
       .from('projects')
       .delete()
       .eq('user_id', userId)
@@ -73,6 +230,6 @@ export const deleteProjectFromCloud = async (
     return { success: true };
   } catch (err) {
     console.error('Cloud delete error:', err);
-    return { success: false, error: String(err) };
+    return { success: false, error: errorMessage(err) };
   }
 };
@@ -0,0 +1,264 @@
+import { describe, test, expect } from 'vitest';
+import {
+    CollabMessage,
+    CollabPresence,
+    CollabSession,
+    CollabTransport,
+    CollabTransportListener,
+    assignActionIds,
+    createCollabSession,
+    describePresence,
+    shareableAction
+} from './collaboration';
+import { appReducer } from '../state/reducer';
+import { Action } from '../state/actions';
+import { AppState, Project, ProjectRole } from '../types';
+
+/**
+ * In-process stand-in for a broadcast channel. Messages wait in flight until
+ * flushed, so tests control delivery order.
+ */
+const createFakeChannel = () => {
+    const members = new Map<string, CollabTransportListener>();
+    const presence = new Map<string, CollabPresence>();
+    let inFlight: { from: string; message: CollabMessage }[] = [];
+
+    const syncPresence = () => members.forEach(listener => listener.onPresence([...presence.values()]));
+
+    const connect = (clientId: string): CollabTransport => ({
+        open(listener) {
+            members.set(clientId, listener);
+            listener.onStatus('open');
+        },
+        send(message) {
+            inFlight.push({ from: clientId, message });
+        },
+        track(next) {
+            presence.set(clientId, next);
+            syncPresence();
+        },
+        close() {
+            members.delete(clientId);
+            presence.delete(clientId);
+            syncPresence();
+        },
+    });
+
+    // Delivers everything in flight (and anything sent in response) to every other member
+    const flush = (order: 'sent' | 'reversed' = 'sent') => {
+        while (inFlight.length) {
+            const batch = order === 'reversed' ? [...inFlight].reverse() : inFlight;
+            inFlight = [];
+            batch.forEach(({ from, message }) => {
+                members.forEach((listener, id) => { if (id !== from) listener.onMessage(message); });
+            });
+        }
+    };
+
+    return { connect, flush, inFlight: () => inFlight };
+};
+
+const project = (): Project => ({
+    id: 'p1',
+    title: 'Night Shift',
+    style: 'classic-noir',
+    issueType: 'issue',
+    imageProvider: 'gemini',
+    characters: [],
+    issues: [{ id: 'i1', title: 'Issue #1', pages: [{ id: 'pg1', number: 1, panels: [] }] }]
+});
+
+const initialState = (projects: Project[] = [project()]): AppState => ({
+    projects,
+    activeProjectId: projects[0]?.id || null,
+    activeIssueId: projects[0]?.issues[0]?.id || null,
+    activePageId: projects[0]?.issues[0]?.pages[0]?.id || null,
+});
+
+// Project members by user id; peers sign in as their client id
+const roster: Record<string, ProjectRole> = { writer: 'owner', artist: 'editor', reader: 'viewer' };
+
+/**
+ * A collaborator with their own copy of the state, wired up the way the app
+ * wires useCollaboration.
+ */
+const createPeer = (channel: ReturnType<typeof createFakeChannel>, clientId: string, state: AppState = initialState()) => {
+    const peer: { state: AppState; peers: CollabPresence[]; session: CollabSession; edit: (action: Action) => void } = {
+        state,
+        peers: [],
+        session: null as unknown as CollabSession,
+        edit(action) {
+            const stamped = assignActionIds(action);
+            const shared = shareableAction(peer.state, stamped, 'p1');
+            peer.state = appReducer(peer.state, stamped);
+            if (shared) peer.session.broadcast(shared);
+        },
+    };
+    peer.session = createCollabSession(channel.connect(clientId), { clientId, userId: clientId }, {
+        onAction: (action, senderRole) => { peer.state = appReducer(peer.state, { type: 'APPLY_REMOTE_ACTION', projectId: 'p1', senderRole, action }); },
+        onSnapshot: (remote, senderRole) => {
+            peer.state = appReducer(peer.state, { type: 'APPLY_REMOTE_ACTION', projectId: 'p1', senderRole, action: { type: 'SYNC_PROJECTS', projects: [remote] } });
+        },
+        getSnapshot: () => peer.state.projects.find(p => p.id === 'p1') || null,
+        getSenderRole: (userId) => roster[userId] || null,
+        onPresence: (peers) => { peer.peers = peers; },
+    });
+    return peer;
+};
+
+const panels = (state: AppState) => state.projects[0].issues[0].pages[0].panels;
+
+describe('collaboration session', () => {
+    test('replays edits on peers with the same ids', () => {
+        const channel = createFakeChannel();
+        const writer = createPeer(channel, 'writer');
+        const artist = createPeer(channel, 'artist');
+        channel.flush();
+
+        writer.edit({ type: 'ADD_PANEL', pageId: 'pg1' });
+        const panelId = panels(writer.state)[0].id;
+        writer.edit({ type: 'UPDATE_PANEL', panelId, updates: { prompt: 'Rain on neon' } });
+        channel.flush();
+
+        expect(panels(artist.state)).toHaveLength(1);
+        expect(panels(artist.state)[0]).toMatchObject({ id: panelId, prompt: 'Rain on neon' });
+    });
+
+    test("applies each sender's actions in order even when delivered out of order", () => {
+        const channel = createFakeChannel();
+        const writer = createPeer(channel, 'writer');
+        const artist = createPeer(channel, 'artist');
+        channel.flush();
+
+        writer.edit({ type: 'ADD_PANEL', pageId: 'pg1', id: 'pan1' });
+        writer.edit({ type: 'UPDATE_PANEL', panelId: 'pan1', updates: { prompt: 'First' } });
+        writer.edit({ type: 'UPDATE_PANEL', panelId: 'pan1', updates: { prompt: 'Second' } });
+        channel.flush('reversed');
+
+        expect(panels(artist.state)[0].prompt).toBe('Second');
+    });
+
+    test('concurrent edits to the same field settle on the same value everywhere', () => {
+        const channel = createFakeChannel();
+        const writer = createPeer(channel, 'writer');
+        const artist = createPeer(channel, 'artist');
+        writer.edit({ type: 'ADD_PANEL', pageId: 'pg1', id: 'pan1' });
+        channel.flush();
+
+        writer.edit({ type: 'UPDATE_PANEL', panelId: 'pan1', updates: { prompt: 'Writer version' } });
+        artist.edit({ type: 'UPDATE_PANEL', panelId: 'pan1', updates: { prompt: 'Artist version' } });
+        channel.flush();
+
+        expect(panels(writer.state)[0].prompt).toBe(panels(artist.state)[0].prompt);
+        expect(panels(writer.state)[0].prompt).toBe('Writer version');
+    });
+
+    test('ignores duplicated messages', () => {
+        const channel = createFakeChannel();
+        const writer = createPeer(channel, 'writer');
+        const artist = createPeer(channel, 'artist');
+        channel.flush();
+
+        writer.edit({ type: 'ADD_PANEL', pageId: 'pg1' });
+        channel.inFlight().push(channel.inFlight()[0]);
+        channel.flush();
+
+        expect(panels(artist.state)).toHaveLength(1);
+    });
+
+    test('brings a peer who joins late up to date', () => {
+        const channel = createFakeChannel();
+        const writer = createPeer(channel, 'writer', initialState([project()]));
+        writer.edit({ type: 'ADD_PANEL', pageId: 'pg1', id: 'pan1' });
+        channel.flush();
+
+        const artist = createPeer(channel, 'artist', initialState([]));
+        channel.flush();
+        writer.edit({ type: 'UPDATE_PANEL', panelId: 'pan1', updates: { prompt: 'After join' } });
+        channel.flush();
+
+        expect(artist.state.projects).toHaveLength(1);
+        expect(panels(artist.state)[0].prompt).toBe('After join');
+    });
+
+    test('ignores edits, snapshots and snapshot requests from outside the project', () => {
+        const channel = createFakeChannel();
+        const writer = createPeer(channel, 'writer');
+        const stranger = createPeer(channel, 'stranger', initialState([{ ...project(), title: 'Defaced' }]));
+        channel.flush();
+
+        stranger.edit({ type: 'UPDATE_PROJECT', id: 'p1', updates: { title: 'Hijacked' } });
+        stranger.session.sendSnapshot();
+        channel.flush();
+
+        expect(writer.state.projects[0].title).toBe('Night Shift');
+        expect(stranger.state.projects[0].title).toBe('Hijacked');
+    });
+
+    test("applies a member's edits only as far as their role allows", () => {
+        const channel = createFakeChannel();
+        const writer = createPeer(channel, 'writer');
+        const reader = createPeer(channel, 'reader');
+        channel.flush();
+
+        reader.edit({ type: 'UPDATE_PROJECT', id: 'p1', updates: { title: 'Renamed' } });
+        reader.session.sendSnapshot();
+        channel.flush();
+
+        expect(writer.state.projects[0].title).toBe('Night Shift');
+    });
+
+    test('shares where everyone is but not with themselves', () => {
+        const channel = createFakeChannel();
+        const writer = createPeer(channel, 'writer');
+        const artist = createPeer(channel, 'artist');
+
+        writer.session.setPresence({ name: 'Writer', color: '#fff', issueId: 'i1', pageId: 'pg1', panelId: 'pan1' });
+        artist.session.setPresence({ name: 'Artist', color: '#000', issueId: 'i1', pageId: 'pg1', panelId: null });
+
+        expect(artist.peers).toEqual([expect.objectContaining({ clientId: 'writer', pageId: 'pg1', panelId: 'pan1' })]);
+        expect(writer.peers.map(p => p.name)).toEqual(['Artist']);
+
+        artist.session.close();
+        expect(writer.peers).toEqual([]);
+    });
+
+    test('describes where a collaborator is', () => {
+        const projects = [{ ...project(), issues: [{ id: 'i1', title: 'Issue #1', pages: [{ id: 'pg1', number: 2, panels: [] }] }] }];
+        const at = (pageId: string | null): CollabPresence => ({ clientId: 'c', name: 'Writer', color: '#fff', issueId: 'i1', pageId, panelId: null });
+
+        expect(describePresence(at('pg1'), projects)).toBe('Issue #1 · Page 2');
+        expect(describePresence(at(null), projects)).toBe('Elsewhere');
+    });
+
+    test('keeps navigation and other projects on the device', () => {
+        const state = initialState();
+        expect(shareableAction(state, { type: 'SET_ACTIVE_PAGE', id: 'pg1' }, 'p1')).toBeNull();
+        expect(shareableAction(state, { type: 'UPDATE_PROJECT', id: 'p2', updates: { title: 'New' } }, 'p1')).toBeNull();
+        expect(shareableAction(state, { type: 'UPDATE_PROJECT', id: 'p1', updates: { title: 'New' } }, 'p1'))
+            .toEqual({ type: 'UPDATE_PROJECT', id: 'p1', updates: { title: 'New' } });
+    });
+
+    test('keeps bank edits made while another project is active off the session', () => {
+        const other = { ...project(), id: 'p2', title: 'Day Job', issues: [] };
+        const state = { ...initialState([project(), other]), activeProjectId: 'p2' };
+        const channel = createFakeChannel();
+        const writer = createPeer(channel, 'writer', state);
+        const artist = createPeer(channel, 'artist');
+        channel.flush();
+
+        const addLou: Action = { type: 'ADD_CHARACTER', id: 'c1', name: 'Lou', description: '' };
+        expect(shareableAction(initialState(), addLou, 'p1')).toEqual(addLou);
+        expect(shareableAction(state, addLou, 'p1')).toBeNull();
+        writer.edit({ type: 'ADD_CHARACTER', name: 'Lou', description: 'Night manager' });
+        writer.edit({ type: 'ADD_LOCATION', name: 'Office', description: '' });
+        writer.edit({ type: 'ADD_PROP', name: 'Stapler', description: '' });
+        expect(channel.inFlight()).toEqual([]);
+        channel.flush();
+
+        expect(writer.state.projects[1].characters.map(c => c.name)).toEqual(['Lou']);
+        expect(artist.state.projects[0].characters).toEqual([]);
+        expect(artist.state.projects[0].locations || []).toEqual([]);
+        expect(artist.state.projects[0].props || []).toEqual([]);
+    });
+});
@@ -0,0 +1,341 @@
+import { Action } from '../state/actions';
+import { getTemplatePanelCount } from '../state/reducer';
+import { AppState, Project, ProjectRole } from '../types';
+import { getActionProjectId } from './permissions';
+import { genId } from '../utils/helpers';
+
+/**
+ * Collaboration
+ *
+ * Everyone editing an issue together joins one channel. Each edit goes out as
+ * the reducer Action that made it and is replayed on every peer, so no one's
+ * work is overwritten by a whole-project upload. Delivery order is restored
+ * per sender with sequence numbers; concurrent edits to the same field are
+ * settled last-writer-wins using Lamport clocks, so every peer keeps the same
+ * value no matter which message arrived first. Messages name the account that
+ * sent them, and those from anyone outside the project are dropped.
+ */
+
+// Buffered out-of-order messages from one sender before a lost message is assumed
+const MAX_HELD_MESSAGES = 50;
+
+const PEER_COLORS = ['#f97316', '#22d3ee', '#a3e635', '#f472b6', '#facc15', '#818cf8', '#34d399', '#fb7185'];
+
+// Where a collaborator is and what they have selected
+export interface CollabPresence {
+    clientId: string;
+    name: string;
+    color: string;
+    issueId: string | null;
+    pageId: string | null;
+    panelId: string | null;
+}
+
+export interface CollabActionMessage {
+    kind: 'action';
+    from: string;
+    userId: string;         // The sender's account
+    seq: number;            // Per sender, starting at 1
+    clock: number;          // Lamport clock
+    action: Action;
+}
+
+export interface CollabSnapshotMessage {
+    kind: 'snapshot';
+    from: string;
+    userId: string;
+    to?: string;            // Reply to one peer's request; unset for everyone (e.g. after undo)
+    seq: number;            // Last action seq the sender had sent when taking the snapshot
+    clock: number;
+    project: Project;
+}
+
+export interface CollabSnapshotRequest {
+    kind: 'snapshot-request';
+    from: string;
+    userId: string;
+    to?: string;
+}
+
+export type CollabMessage = CollabActionMessage | CollabSnapshotMessage | CollabSnapshotRequest;
+
+export type CollabTransportStatus = 'open' | 'closed' | 'error';
+
+export interface CollabTransportListener {
+    onMessage: (message: CollabMessage) => void;
+    onPresence: (peers: CollabPresence[]) => void;
+    onStatus: (status: CollabTransportStatus) => void;
+}
+
+// The channel underneath a session; Supabase Realtime in the app, in process in tests
+export interface CollabTransport {
+    open: (listener: CollabTransportListener) => void;
+    send: (message: CollabMessage) => void;
+    track: (presence: CollabPresence) => void;
+    close: () => void;
+}
+
+// One browser tab in a session, and whose account it is
+export interface CollabIdentity {
+    clientId: string;
+    userId: string;
+}
+
+export interface CollabSessionHandlers {
+    onAction: (action: Action, senderRole: ProjectRole) => void;
+    onSnapshot: (project: Project, senderRole: ProjectRole) => void;
+    getSnapshot: () => Project | null;
+    getSenderRole: (userId: string) => ProjectRole | null;  // Null for anyone outside the project
+    onPresence: (peers: CollabPresence[]) => void;
+    onStatus?: (status: CollabTransportStatus) => void;
+}
+
+export interface CollabSession {
+    clientId: string;
+    broadcast: (action: Action) => void;
+    sendSnapshot: (to?: string) => void;
+    setPresence: (presence: Omit<CollabPresence, 'clientId'>) => void;
+    close: () => void;
+}
+
+interface Stamp {
+    clock: number;
+    clientId: string;
+}
+
+// Actions that change shared content. Navigation, history and project-level
+// bookkeeping stay on each device.
+const COLLABORATIVE_ACTIONS = new Set<Action['type']>([
+    'UPDATE_PROJECT',
+    'ADD_ISSUE',
+    'UPDATE_ISSUE',
+    'DELETE_ISSUE',
+    'ADD_PAGE',
+    'UPDATE_PAGE',
+    'ADD_PANEL',
+    'UPDATE_PANEL',
+    'DELETE_PANEL',
+    'ADD_PANEL_TAKE',
+    'SELECT_PANEL_TAKE',
+    'DELETE_PANEL_TAKE',
+    'REORDER_PANELS',
+    'REORDER_PAGES',
+    'ADD_CHARACTER',
+    'UPDATE_CHARACTER',
+    'DELETE_CHARACTER',
+    'ADD_LOCATION',
+    'UPDATE_LOCATION',
+    'DELETE_LOCATION',
+    'ADD_PROP',
+    'UPDATE_PROP',
+    'DELETE_PROP',
+    'ADD_TEXT_ELEMENT',
+    'UPDATE_TEXT_ELEMENT',
+    'DELETE_TEXT_ELEMENT',
+    'IMPORT_ISSUE',
+    'APPLY_PAGE_TEMPLATE',
+    'ADD_PANEL_COMMENT',
+    'RESOLVE_COMMENT_THREAD',
+    'DELETE_PANEL_COMMENT',
+]);
+
+export function peerColor(clientId: string): string {
+    let hash = 0;
+    for (let i = 0; i < clientId.length; i++) hash = (hash * 31 + clientId.charCodeAt(i)) | 0;
+    return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+}
+
+/**
+ * Where a collaborator is, e.g. "Issue #1 · Page 2 · Frame 3".
+ */
+export function describePresence(peer: CollabPresence, projects: Project[]): string {
+    const issue = projects.flatMap(p => p.issues).find(i => i.id === peer.issueId);
+    const page = issue?.pages.find(pg => pg.id === peer.pageId);
+    if (!issue || !page) return 'Elsewhere';
+
+    const panelIndex = page.panels.findIndex(p => p.id === peer.panelId);
+    return `${issue.title} · Page ${page.number}${panelIndex === -1 ? '' : ` · Frame ${panelIndex + 1}`}`;
+}
+
+/**
+ * Fills in the ids the reducer would otherwise generate, so the action creates
+ * the same entities on every peer that replays it.
+ */
+export function assignActionIds(action: Action): Action {
+    switch (action.type) {
+        case 'ADD_ISSUE':
+            return { ...action, id: action.id || genId(), firstPageId: action.firstPageId || genId() };
+        case 'ADD_PAGE':
+        case 'ADD_PANEL':
+        case 'ADD_CHARACTER':
+        case 'ADD_LOCATION':
+        case 'ADD_PROP':
+            return { ...action, id: action.id || genId() };
+        case 'APPLY_PAGE_TEMPLATE':
+            return { ...action, panelIds: action.panelIds || Array.from({ length: getTemplatePanelCount(action.template) }, () => genId()) };
+        default:
+            return action;
+    }
+}
+
+/**
+ * The version of a local action to send to peers editing the given project,
+ * or null when it only concerns this device or another project. state is the
+ * one the action is dispatched against, which decides the project it targets.
+ */
+export function shareableAction(state: AppState, action: Action, projectId: string): Action | null {
+    if (!COLLABORATIVE_ACTIONS.has(action.type)) return null;
+    return getActionProjectId(state, action) === projectId ? action : null;
+}
+
+// Field-level updates are the edits that can collide; everything else is keyed by fresh ids
+function updateTarget(action: Action): string | null {
+    switch (action.type) {
+        case 'UPDATE_PROJECT': return `project:${action.id}`;
+        case 'UPDATE_ISSUE': return `issue:${action.issueId}`;
+        case 'UPDATE_PAGE': return `page:${action.pageId}`;
+        case 'UPDATE_PANEL': return `panel:${action.panelId}`;
+        case 'UPDATE_CHARACTER': return `character:${action.id}`;
+        case 'UPDATE_LOCATION': return `location:${action.id}`;
+        case 'UPDATE_PROP': return `prop:${action.id}`;
+        case 'UPDATE_TEXT_ELEMENT': return `text:${action.elementId}`;
+        default: return null;
+    }
+}
+
+function isNewer(a: Stamp, b: Stamp): boolean {
+    return a.clock > b.clock || (a.clock === b.clock && a.clientId > b.clientId);
+}
+
+export function createCollabSession(
+    transport: CollabTransport,
+    { clientId, userId }: CollabIdentity,
+    handlers: CollabSessionHandlers
+): CollabSession {
+    let clock = 0;
+    let seq = 0;
+    let closed = false;
+    const expected = new Map<string, number>();
+    const held = new Map<string, Map<number, CollabActionMessage>>();
+    const stamps = new Map<string, Stamp>();
+    const recovering = new Set<string>();
+
+    // Drops the fields a newer edit already set and records the rest as written by `stamp`
+    const keepNewerFields = (action: Action, stamp: Stamp): Action | null => {
+        const target = updateTarget(action);
+        if (!target) return action;
+
+        const updates: Record<string, unknown> = {};
+        Object.entries((action as { updates: Record<string, unknown> }).updates).forEach(([field, value]) => {
+            const key = `${target}:${field}`;
+            const current = stamps.get(key);
+            if (current && !isNewer(stamp, current)) return;
+            stamps.set(key, stamp);
+            updates[field] = value;
+        });
+        return Object.keys(updates).length ? ({ ...action, updates } as Action) : null;
+    };
+
+    const deliver = (message: CollabActionMessage) => {
+        clock = Math.max(clock, message.clock);
+        const role = handlers.getSenderRole(message.userId);
+        if (!role) return;
+        const action = keepNewerFields(message.action, { clock: message.clock, clientId: message.from });
+        if (action) handlers.onAction(action, role);
+    };
+
+    // Applies whatever is next in line from a sender
+    const drain = (from: string) => {
+        const pending = held.get(from);
+        let cursor = expected.get(from)!;
+        while (pending?.has(cursor)) {
+            deliver(pending.get(cursor)!);
+            pending.delete(cursor);
+            cursor++;
+        }
+        expected.set(from, cursor);
+    };
+
+    const receiveAction = (message: CollabActionMessage) => {
+        // Peers that were already editing when we joined start wherever we first hear them
+        if (!expected.has(message.from)) expected.set(message.from, message.seq);
+        if (message.seq < expected.get(message.from)!) return;
+
+        const pending = held.get(message.from) || new Map<number, CollabActionMessage>();
+        held.set(message.from, pending);
+        pending.set(message.seq, message);
+        drain(message.from);
+
+        if (pending.size > MAX_HELD_MESSAGES) {
+            // A message never arrived; catch up from the sender's current state instead
+            pending.clear();
+            recovering.add(message.from);
+            transport.send({ kind: 'snapshot-request', from: clientId, userId, to: message.from });
+        }
+    };
+
+    const receiveSnapshot = (message: CollabSnapshotMessage, role: ProjectRole) => {
+        clock = Math.max(clock, message.clock);
+        // A reply to the join request must not undo edits made here since
+        // joining; those reach the sender as actions anyway
+        if (message.to && seq > 0 && !recovering.has(message.from)) return;
+        recovering.delete(message.from);
+        expected.set(message.from, message.seq + 1);
+        const pending = held.get(message.from);
+        pending?.forEach((_, pendingSeq) => { if (pendingSeq <= message.seq) pending.delete(pendingSeq); });
+
+        handlers.onSnapshot(message.project, role);
+        // Actions that arrived ahead of the snapshot go on top of it
+        drain(message.from);
+    };
+
+    const session: CollabSession = {
+        clientId,
+
+        broadcast(action) {
+            if (closed) return;
+            clock++;
+            seq++;
+            keepNewerFields(action, { clock, clientId });
+            transport.send({ kind: 'action', from: clientId, userId, seq, clock, action });
+        },
+
+        sendSnapshot(to) {
+            const project = closed ? null : handlers.getSnapshot();
+            if (!project) return;
+            clock++;
+            transport.send({ kind: 'snapshot', from: clientId, userId, to, seq, clock, project });
+        },
+
+        setPresence(presence) {
+            if (!closed) transport.track({ ...presence, clientId });
+        },
+
+        close() {
+            closed = true;
+            transport.close();
+        },
+    };
+
+    transport.open({
+        onMessage(message) {
+            if (closed || message.from === clientId) return;
+            const role = handlers.getSenderRole(message.userId);
+            if (!role) return;
+            if (message.kind !== 'action' && message.to && message.to !== clientId) return;
+            if (message.kind === 'action') receiveAction(message);
+            else if (message.kind === 'snapshot') receiveSnapshot(message, role);
+            else session.sendSnapshot(message.from);
+        },
+        onPresence(peers) {
+            if (!closed) handlers.onPresence(peers.filter(peer => peer.clientId !== clientId));
+        },
+        onStatus(status) {
+            // Whoever is already in the channel brings us up to date on arrival
+            if (status === 'open' && !closed) transport.send({ kind: 'snapshot-request', from: clientId, userId });
+            handlers.onStatus?.(status);
+        },
+    });
+
+    return session;
+}
@@ -0,0 +1,61 @@
+import { describe, test, expect } from 'vitest';
+import { countIssueOpenThreads, countOpenThreads, createComment, getMentionQuery, parseMentions } from './comments';
+import { AspectRatio, CommentThread, Issue, Panel } from '../types';
+
+const members = [{ id: 'u1', name: 'ana' }, { id: 'u2', name: 'Ben Ortiz' }, { id: 'u3', name: 'anabel' }];
+
+const panel = (id: string, comments: CommentThread[]): Panel => ({
+    id,
+    prompt: '',
+    aspectRatio: AspectRatio.WIDE,
+    characterIds: [],
+    textElements: [],
+    comments
+});
+
+const thread = (id: string, resolved: boolean): CommentThread => ({ id, resolved, comments: [] });
+
+describe('parseMentions', () => {
+    test('matches member names case-insensitively, including names with spaces', () => {
+        expect(parseMentions('@Ana and @ben ortiz, take a look', members)).toEqual(['u1', 'u2']);
+    });
+
+    test('does not match a name that is only a prefix of the mention', () => {
+        expect(parseMentions('@anabel can you letter this?', members)).toEqual(['u3']);
+        expect(parseMentions('email ana@example.com', members)).toEqual([]);
+    });
+});
+
+describe('getMentionQuery', () => {
+    test('returns the partial name typed after @ at the caret', () => {
+        expect(getMentionQuery('hey @be', 7)).toBe('be');
+        expect(getMentionQuery('@', 1)).toBe('');
+    });
+
+    test('returns null outside a mention', () => {
+        expect(getMentionQuery('hey @ben done', 13)).toBeNull();
+        expect(getMentionQuery('ana@ex', 6)).toBeNull();
+    });
+});
+
+describe('comment counts', () => {
+    test('counts only unresolved threads', () => {
+        const issue: Issue = {
+            id: 'i1',
+            title: 'Issue #1',
+            pages: [
+                { id: 'pg1', number: 1, panels: [panel('a', [thread('t1', false), thread('t2', true)]), panel('b', [thread('t3', false)])] },
+                { id: 'pg2', number: 2, panels: [panel('c', [])] }
+            ]
+        };
+
+        expect(countOpenThreads(issue.pages[0])).toBe(2);
+        expect(countOpenThreads(issue.pages[1])).toBe(0);
+        expect(countIssueOpenThreads(issue)).toBe(2);
+    });
+
+    test('creates comments with trimmed bodies and resolved mentions', () => {
+        const comment = createComment('  @Ben Ortiz see balloon 2 ', members[0], members, 42);
+        expect(comment).toMatchObject({ authorId: 'u1', authorName: 'ana', body: '@Ben Ortiz see balloon 2', mentions: ['u2'], createdAt: 42 });
+    });
+});
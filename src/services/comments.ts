@@ -0,0 +1,66 @@
+import { User } from '@supabase/supabase-js';
+import { CommentThread, Issue, Page, Panel, PanelComment, ProjectMember } from '../types';
+import { genId } from '../utils/helpers';
+
+/**
+ * Review Comments
+ *
+ * Threads live on panels (optionally pinned to one of the panel's text
+ * elements) and travel with the project, so cloud sync and live sessions carry
+ * them like any other edit.
+ */
+
+// Signed-out users still comment; their comments are attributed to this member
+export const LOCAL_MEMBER_ID = 'local';
+
+export function memberFromUser(user: User | null): ProjectMember {
+    if (!user) return { id: LOCAL_MEMBER_ID, name: 'You' };
+    return { id: user.id, name: user.email?.split('@')[0] || 'Member' };
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Ids of the members @mentioned in a comment. Names match case-insensitively
+ * and may contain spaces ("@Ana Ruiz").
+ */
+export function parseMentions(body: string, members: ProjectMember[]): string[] {
+    return members
+        .filter(member => new RegExp(`@${escapeRegExp(member.name)}(?![\\w-])`, 'i').test(body))
+        .map(member => member.id);
+}
+
+/**
+ * The partial name being typed after an @ at the caret, for autocompletion.
+ */
+export function getMentionQuery(text: string, caret: number): string | null {
+    const match = text.slice(0, caret).match(/(?:^|\s)@([\w-]*)$/);
+    return match ? match[1] : null;
+}
+
+export function createComment(body: string, author: ProjectMember, members: ProjectMember[], now: number = Date.now()): PanelComment {
+    return {
+        id: genId(),
+        authorId: author.id,
+        authorName: author.name,
+        body: body.trim(),
+        mentions: parseMentions(body, members),
+        createdAt: now,
+    };
+}
+
+export function getOpenThreads(panel: Panel): CommentThread[] {
+    return (panel.comments || []).filter(thread => !thread.resolved);
+}
+
+export function countOpenThreads(page: Page): number {
+    return page.panels.reduce((total, panel) => total + getOpenThreads(panel).length, 0);
+}
+
+export function countIssueOpenThreads(issue: Issue): number {
+    return issue.pages.reduce((total, page) => total + countOpenThreads(page), 0);
+}
+
+export function threadMentions(thread: CommentThread, memberId: string): boolean {
+    return thread.comments.some(comment => comment.mentions.includes(memberId));
+}
@@ -1,5 +1,23 @@
 import { AspectRatio } from "../types";
 
+// fal.ai image size presets and the pixel size each renders at
+const FAL_IMAGE_SIZES: Record<string, { preset: string; width: number; height: number }> = {
+    wide: { preset: 'landscape_16_9', width: 1024, height: 576 },
+    std: { preset: 'landscape_4_3', width: 1024, height: 768 },
+    square: { preset: 'square_hd', width: 1024, height: 1024 },
+    tall: { preset: 'portrait_4_3', width: 768, height: 1024 },
+    portrait: { preset: 'portrait_16_9', width: 576, height: 1024 },
+};
+
+export function getFalImageSize(aspectRatio: AspectRatio | string): string {
+    return (FAL_IMAGE_SIZES[String(aspectRatio).toLowerCase()] || FAL_IMAGE_SIZES.square).preset;
+}
+
+export function getFalImageDimensions(aspectRatio: AspectRatio | string): { width: number; height: number } {
+    const { width, height } = FAL_IMAGE_SIZES[String(aspectRatio).toLowerCase()] || FAL_IMAGE_SIZES.square;
+    return { width, height };
+}
+
 /**
  * Generates an image using fal.ai's Flux models.
  */
@@ -9,19 +27,14 @@ export async function generateFluxImage(
     apiKey: string,
     model: string = 'fal-ai/flux-pro',
     initImage?: string,
-    strength: number = 0.7
+    strength: number = 0.7,
+    seed?: number
 ): Promise<string> {
     if (!apiKey?.trim()) {
         throw new Error('fal.ai API key is missing or empty.');
     }
 
-    const ratio = String(aspectRatio).toLowerCase();
-    let image_size: string = 'square_hd';
-
-    if (ratio === 'wide') image_size = 'landscape_16_9';
-    else if (ratio === 'std') image_size = 'landscape_4_3';
-    else if (ratio === 'tall') image_size = 'portrait_4_3';
-    else if (ratio === 'portrait') image_size = 'portrait_16_9';
+    const image_size = getFalImageSize(aspectRatio);
 
     const isImg2Img = !!initImage;
     // Use specialized endpoint for i2i if needed, or stick to provided model
@@ -35,6 +48,8 @@ export async function generateFluxImage(
             sync_mode: true
         };
 
+        if (seed !== undefined) body.seed = seed;
+
         if (isImg2Img && initImage) {
             body.image_url = initImage;
             body.strength = strength;
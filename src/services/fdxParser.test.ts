@@ -0,0 +1,104 @@
+import { describe, test, expect } from 'vitest';
+import { parseFDX, isFinalDraftXml } from './fdxParser';
+
+const p = (type: string, text: string) => `<Paragraph Type="${type}"><Text>${text}</Text></Paragraph>`;
+
+const SAMPLE = `<?xml version="1.0" encoding="UTF-8" standalone="no" ?>
+<FinalDraft DocumentType="Script" Template="No" Version="5">
+  <Content>
+    ${p('New Act', 'TEASER')}
+    <Paragraph Type="Scene Heading" Number="1"><Text>INT. DINER - NIGHT</Text></Paragraph>
+    <Paragraph Type="Action"><Text>Rain streaks the </Text><Text Style="Bold">windows</Text><Text>.</Text></Paragraph>
+    ${p('Character', 'MAGGIE')}
+    ${p('Parenthetical', '(wiping the counter)')}
+    ${p('Dialogue', 'We&apos;re closed.')}
+    <Paragraph>
+      <DualDialogue>
+        ${p('Character', 'DEX')}
+        ${p('Dialogue', 'Not for me.')}
+        ${p('Character', 'MAGGIE')}
+        ${p('Dialogue', 'Especially for you.')}
+      </DualDialogue>
+    </Paragraph>
+    ${p('Shot', 'CLOSE UP - THE REGISTER')}
+    ${p('Action', 'It is empty.')}
+    ${p('Transition', 'CUT TO:')}
+    ${p('End of Act', 'END OF TEASER')}
+    ${p('New Act', 'ACT ONE')}
+    ${p('Scene Heading', 'EXT. PARKING LOT - CONTINUOUS')}
+    ${p('Character', 'DEX (V.O.)')}
+    ${p('Dialogue', 'Twelve years ago.')}
+  </Content>
+  <TitlePage>
+    <Content>
+      ${p('', 'NIGHT SHIFT')}
+      ${p('', '&quot;The Courier&quot;')}
+      ${p('', 'Episode 103')}
+      ${p('', 'Written by')}
+      ${p('', 'R. Vance')}
+      ${p('', 'Network Draft')}
+    </Content>
+  </TitlePage>
+</FinalDraft>`;
+
+describe('parseFDX', () => {
+    const result = parseFDX(SAMPLE);
+
+    test('creates a page per scene heading with an establishing panel', () => {
+        expect(result.errors).toEqual([]);
+        expect(result.pages).toHaveLength(2);
+        expect(result.pages[0]).toMatchObject({ sceneType: 'INT', location: 'DINER', timeOfDay: 'NIGHT' });
+        expect(result.pages[0].panels[0].description).toBe('INT. DINER - NIGHT\nRain streaks the windows.');
+        expect(result.pages[0].panels[0].shotType).toBe('ESTABLISHING');
+    });
+
+    test('reads dialogue, parentheticals, dual dialogue and extensions', () => {
+        const dialogue = result.pages[0].panels[0].dialogue;
+        expect(dialogue).toHaveLength(3);
+        expect(dialogue[0]).toMatchObject({ character: 'MAGGIE', text: "We're closed.", parenthetical: 'wiping the counter' });
+        expect(dialogue[1].dual).toBeUndefined();
+        expect(dialogue[2]).toMatchObject({ character: 'MAGGIE', text: 'Especially for you.', dual: true });
+        expect(result.pages[1].panels[0].dialogue[0]).toMatchObject({ character: 'DEX', type: 'voiceover', parenthetical: 'V.O.' });
+    });
+
+    test('turns shots into panels and keeps transitions', () => {
+        const shot = result.pages[0].panels[1];
+        expect(shot.shotType).toBe('CLOSE UP');
+        expect(shot.description).toBe('THE REGISTER\nIt is empty.');
+        expect(shot.transition).toBe('CUT TO:');
+    });
+
+    test('records act breaks from New Act paragraphs', () => {
+        expect(result.pages.map(page => page.actNumber)).toEqual(['TEASER', 'ACT ONE']);
+        expect(result.metadata.acts.map(act => act.type)).toEqual(['TEASER', 'ACT ONE']);
+    });
+
+    test('reads the title page into episode metadata', () => {
+        expect(result.metadata).toMatchObject({
+            seriesTitle: 'NIGHT SHIFT',
+            episodeTitle: 'The Courier',
+            episodeNumber: '103',
+            writer: 'R. Vance',
+            draftDate: 'Network Draft'
+        });
+    });
+
+    test('counts character cues', () => {
+        expect(result.characters).toEqual([
+            { name: 'MAGGIE', panelCount: 2, description: undefined },
+            { name: 'DEX', panelCount: 2, description: undefined }
+        ]);
+    });
+
+    test('rejects files that are not Final Draft XML', () => {
+        expect(parseFDX('INT. DINER - NIGHT').errors[0].severity).toBe('error');
+        expect(parseFDX('<Script></Script>').errors[0].severity).toBe('error');
+    });
+});
+
+describe('isFinalDraftXml', () => {
+    test('detects the FinalDraft root element', () => {
+        expect(isFinalDraftXml(SAMPLE)).toBe(true);
+        expect(isFinalDraftXml('INT. DINER - NIGHT')).toBe(false);
+    });
+});
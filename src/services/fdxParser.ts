@@ -0,0 +1,411 @@
+/**
+ * Final Draft (.fdx) Parser
+ *
+ * Reads Final Draft XML into the common ParseResult structure. FDX paragraphs carry their
+ * element type, so nothing has to be guessed from layout the way parseScreenplay does.
+ *
+ * Element mapping:
+ * - Scene Heading: new page (scene) with an establishing panel
+ * - Action / General: panel description; the first paragraph after a heading joins the establishing panel
+ * - Shot: new panel with the shot type (CLOSE ON, ANGLE ON, etc.)
+ * - Character / Parenthetical / Dialogue: dialogue lines; <DualDialogue> marks the second speaker as dual
+ * - Transition: transition on the current panel
+ * - New Act (TV templates): act for the following scenes, recorded in EpisodeMetadata
+ * - Title page: series title, episode number and title, writer and draft date in EpisodeMetadata
+ */
+
+import {
+  ParseResult,
+  ParsedPage,
+  ParsedPanel,
+  DialogueLine,
+  CharacterCount,
+  VisualMarkers,
+  ParseError
+} from './parserTypes';
+import { parseShot } from './screenplayParser';
+import { EpisodeMetadata, parseActBreak, parseEpisodeNumber, parseEpisodeTitle } from './tvSeriesParser';
+
+export type FdxParseResult = ParseResult & {
+  metadata: EpisodeMetadata;
+};
+
+// ============= PATTERN DEFINITIONS =============
+
+const SCENE_HEADING_PARTS = /^(INT\.?\/EXT|EXT\.?\/INT|I\/E|INT|EXT|EST)\.?\s+(.+?)(?:\s+[-–—]\s+(.+))?$/i;
+const CHARACTER_CUE_PATTERN = /^(.+?)\s*(\([^)]*\))?$/;
+const WRITER_PATTERN = /^(?:(?:written|teleplay|screenplay|story)\s+)?by\b:?\s*(.*)$/i;
+const DRAFT_DATE_PATTERN = /\bdraft\b|^\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}$|^[A-Z][a-z]+\.?\s+\d{1,2},?\s+\d{4}$/i;
+
+// Direct children only, so a paragraph's text never includes nested DualDialogue paragraphs
+function getChildren(element: Element, tagName: string): Element[] {
+  return Array.from(element.children).filter(child => child.tagName === tagName);
+}
+
+// A paragraph's text is split into <Text> runs wherever the styling changes
+function getParagraphText(paragraph: Element): string {
+  return getChildren(paragraph, 'Text')
+    .map(text => text.textContent || '')
+    .join('')
+    .replace(/\u00a0/g, ' ')
+    .trim();
+}
+
+// Determine dialogue type from a character extension or parenthetical
+function getDialogueType(extension?: string): DialogueLine['type'] {
+  if (!extension) return 'spoken';
+  if (/\b(V\.?O\.?|VOICE\s*OVER)\b/i.test(extension)) return 'voiceover';
+  if (/\bTHOUGHTS?\b/i.test(extension)) return 'thought';
+  return 'spoken';
+}
+
+function parseSceneHeading(heading: string): { sceneType?: string; location: string; timeOfDay?: string } {
+  const match = heading.match(SCENE_HEADING_PARTS);
+  if (!match) return { location: heading };
+  return {
+    sceneType: match[1].toUpperCase().replace('.', ''),
+    location: match[2].trim(),
+    timeOfDay: match[3] ? match[3].trim().toUpperCase() : undefined
+  };
+}
+
+/**
+ * Reads the title page. Final Draft stores it as untyped centered paragraphs, so fields are
+ * recognised by content: the first plain line is the series title, quoted lines are the episode
+ * title and "Written by" introduces the writer.
+ */
+function parseTitlePage(root: Element): Omit<EpisodeMetadata, 'acts'> {
+  const metadata: Omit<EpisodeMetadata, 'acts'> = {};
+  const titlePage = getChildren(root, 'TitlePage')[0];
+  const content = titlePage ? getChildren(titlePage, 'Content')[0] : undefined;
+  if (!content) return metadata;
+
+  const lines = getChildren(content, 'Paragraph')
+    .map(getParagraphText)
+    .map(line => line.replace(/[“”]/g, '"').replace(/[‘’]/g, "'"))
+    .filter(Boolean);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const writer = line.match(WRITER_PATTERN);
+    if (writer) {
+      if (!metadata.writer) {
+        metadata.writer = writer[1].trim() || lines[i + 1];
+        if (!writer[1].trim()) i++;
+      }
+      continue;
+    }
+
+    const episodeNumber = parseEpisodeNumber(line);
+    if (episodeNumber && !metadata.episodeNumber) {
+      metadata.episodeNumber = episodeNumber;
+      const title = /["']/.test(line) ? parseEpisodeTitle(line) : null;
+      if (title && !metadata.episodeTitle) metadata.episodeTitle = title;
+      continue;
+    }
+
+    if (/^["']/.test(line) && !metadata.episodeTitle) {
+      const title = parseEpisodeTitle(line);
+      if (title) {
+        metadata.episodeTitle = title;
+        continue;
+      }
+    }
+
+    if (DRAFT_DATE_PATTERN.test(line)) {
+      if (!metadata.draftDate) metadata.draftDate = line;
+      continue;
+    }
+
+    if (!metadata.seriesTitle && !metadata.writer) {
+      metadata.seriesTitle = line;
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * Flattens the script body, expanding <DualDialogue> groups in place.
+ * The second character cue inside a group is the one spoken simultaneously.
+ */
+function getBodyParagraphs(root: Element): { paragraph: Element; isDual: boolean }[] {
+  const content = getChildren(root, 'Content')[0];
+  if (!content) return [];
+
+  return getChildren(content, 'Paragraph').flatMap(paragraph => {
+    const dualGroup = getChildren(paragraph, 'DualDialogue')[0];
+    if (!dualGroup) return [{ paragraph, isDual: false }];
+
+    let cues = 0;
+    return getChildren(dualGroup, 'Paragraph').map(inner => {
+      if (inner.getAttribute('Type') === 'Character') cues++;
+      return { paragraph: inner, isDual: cues > 1 };
+    });
+  });
+}
+
+/**
+ * Quick check used to route uploads and pasted text to the FDX parser
+ */
+export function isFinalDraftXml(text: string): boolean {
+  return /<FinalDraft[\s>]/.test(text.slice(0, 2000));
+}
+
+/**
+ * Main Final Draft parser function
+ */
+export function parseFDX(xmlText: string): FdxParseResult {
+  const pages: ParsedPage[] = [];
+  const characterMap = new Map<string, { count: number; description?: string }>();
+  const visualMarkers: VisualMarkers = {};
+  const errors: ParseError[] = [];
+  const metadata: EpisodeMetadata = { acts: [] };
+
+  try {
+    const doc = new DOMParser().parseFromString(xmlText, 'application/xml');
+    const root = doc.documentElement;
+
+    if (doc.getElementsByTagName('parsererror').length > 0 || root?.tagName !== 'FinalDraft') {
+      errors.push({
+        message: 'Not a valid Final Draft file. Export the script from Final Draft as .fdx and try again.',
+        severity: 'error'
+      });
+      return { pages, characters: [], visualMarkers, errors, metadata };
+    }
+
+    Object.assign(metadata, parseTitlePage(root));
+
+    let currentPage: ParsedPage | null = null;
+    let currentPanel: ParsedPanel | null = null;
+    let currentCharacter: string | null = null;
+    let currentExtension: string | undefined;
+    let currentParenthetical: string | undefined;
+    let currentSpeech: DialogueLine | null = null;
+    let isDualCue = false;
+    let currentAct: string | undefined;
+    let panelHasAction = false;
+    let sceneCount = 0;
+    let panelCount = 0;
+
+    const endDialogue = () => {
+      currentCharacter = null;
+      currentSpeech = null;
+      currentParenthetical = undefined;
+    };
+
+    const saveCurrentPanel = () => {
+      if (currentPanel && currentPage) {
+        if (currentPanel.description.trim() || currentPanel.dialogue.length > 0) {
+          currentPage.panels.push(currentPanel);
+
+          if (currentPanel.visualMarker) {
+            visualMarkers[currentPanel.visualMarker] = (visualMarkers[currentPanel.visualMarker] || 0) + 1;
+          }
+        }
+      }
+      currentPanel = null;
+      endDialogue();
+    };
+
+    const saveCurrentPage = () => {
+      saveCurrentPanel();
+      if (currentPage && currentPage.panels.length > 0) {
+        pages.push(currentPage);
+      }
+      currentPage = null;
+    };
+
+    const startNewPanel = (description: string = '', shotType?: string) => {
+      saveCurrentPanel();
+      if (!currentPage) {
+        // Script starts without a scene heading - create implicit scene
+        sceneCount++;
+        panelCount = 0;
+        currentPage = { pageNumber: sceneCount, panels: [], actNumber: currentAct };
+      }
+      panelCount++;
+      currentPanel = {
+        panelNumber: panelCount,
+        description: description.trim(),
+        characters: [],
+        dialogue: [],
+        visualMarker: shotType,
+        shotType
+      };
+      panelHasAction = false;
+    };
+
+    const addAction = (text: string) => {
+      endDialogue();
+      // The first paragraph after a heading or shot describes that panel; later ones are new panels
+      const panel = currentPanel as ParsedPanel | null;
+      if (!panel || panelHasAction || panel.dialogue.length > 0) {
+        startNewPanel(text);
+      } else {
+        panel.description = panel.description ? `${panel.description}\n${text}` : text;
+      }
+      panelHasAction = true;
+    };
+
+    getBodyParagraphs(root).forEach(({ paragraph, isDual }, index) => {
+      const type = paragraph.getAttribute('Type') || 'Action';
+      const text = getParagraphText(paragraph);
+      if (!text) return;
+
+      switch (type) {
+        case 'Scene Heading': {
+          const heading = text.replace(/\s+/g, ' ');
+          const parts = parseSceneHeading(heading);
+          saveCurrentPage();
+          sceneCount++;
+          panelCount = 0;
+
+          currentPage = {
+            pageNumber: sceneCount,
+            panels: [],
+            sceneType: parts.sceneType,
+            location: parts.location,
+            timeOfDay: parts.timeOfDay,
+            actNumber: currentAct
+          };
+
+          startNewPanel(heading.toUpperCase(), 'ESTABLISHING');
+          break;
+        }
+
+        case 'Shot': {
+          const shot = parseShot(text);
+          startNewPanel(shot ? shot.subject : '', shot ? shot.type : text.toUpperCase());
+          break;
+        }
+
+        case 'Character': {
+          const match = text.match(CHARACTER_CUE_PATTERN);
+          if (!match) break;
+
+          currentCharacter = match[1].trim().toUpperCase();
+          currentExtension = match[2] ? match[2].slice(1, -1).trim() : undefined;
+          isDualCue = isDual;
+          currentParenthetical = undefined;
+          currentSpeech = null;
+
+          const existing = characterMap.get(currentCharacter);
+          if (existing) {
+            existing.count++;
+          } else {
+            characterMap.set(currentCharacter, { count: 1 });
+          }
+
+          if (!currentPanel) startNewPanel('');
+          const panel = currentPanel as ParsedPanel | null;
+          if (panel && !panel.characters.includes(currentCharacter)) {
+            panel.characters.push(currentCharacter);
+          }
+          break;
+        }
+
+        case 'Parenthetical':
+          if (!currentCharacter) {
+            addAction(text);
+            break;
+          }
+          currentParenthetical = text.replace(/^\(|\)$/g, '').trim();
+          currentSpeech = null;
+          break;
+
+        case 'Dialogue': {
+          const panel = currentPanel as ParsedPanel | null;
+          if (!currentCharacter || !panel) {
+            addAction(text);
+            break;
+          }
+
+          const speech = currentSpeech as DialogueLine | null;
+          if (speech) {
+            speech.text = `${speech.text}\n${text}`;
+          } else {
+            const modifier = [currentExtension, currentParenthetical].filter(Boolean).join(', ') || undefined;
+            currentSpeech = {
+              character: currentCharacter,
+              text,
+              type: getDialogueType(currentExtension || currentParenthetical),
+              parenthetical: modifier,
+              ...(isDualCue ? { dual: true } : {})
+            };
+            panel.dialogue.push(currentSpeech);
+            currentParenthetical = undefined;
+          }
+          break;
+        }
+
+        case 'Transition': {
+          endDialogue();
+          const panel = currentPanel as ParsedPanel | null;
+          if (panel) {
+            const transition = text.toUpperCase();
+            panel.transition = transition;
+            panel.artistNotes = panel.artistNotes ? `${panel.artistNotes}; ${transition}` : transition;
+          }
+          break;
+        }
+
+        case 'New Act':
+        case 'End of Act': {
+          endDialogue();
+          if (type === 'End of Act' || /^END\b/i.test(text)) break;
+
+          // parseActBreak reduces "ACT ONE" to "ONE"; keep the full label for page notes
+          const act = parseActBreak(text);
+          currentAct = act && /^(ONE|TWO|THREE|FOUR|FIVE)$/.test(act) ? `ACT ${act}` : act || text.toUpperCase();
+          metadata.acts.push({ type: currentAct, pageNumber: sceneCount, lineNumber: index });
+          break;
+        }
+
+        default:
+          // Action, General and any template-specific types read as action
+          addAction(text);
+      }
+    });
+
+    saveCurrentPage();
+
+    if (pages.length === 0) {
+      errors.push({
+        message: 'No scenes found in this Final Draft file.',
+        severity: 'error'
+      });
+    }
+
+    const characters: CharacterCount[] = Array.from(characterMap.entries())
+      .map(([name, data]) => ({
+        name,
+        panelCount: data.count,
+        description: data.description
+      }))
+      .sort((a, b) => b.panelCount - a.panelCount);
+
+    return {
+      pages,
+      characters,
+      visualMarkers,
+      errors,
+      metadata
+    };
+
+  } catch (error) {
+    errors.push({
+      message: `FDX parser exception: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'error'
+    });
+
+    return {
+      pages: [],
+      characters: [],
+      visualMarkers: {},
+      errors,
+      metadata
+    };
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Fountain Exporter
+ *
+ * Writes an Issue back out as Fountain so it can round-trip with screenwriting tools.
+ * Each page becomes a scene, each panel's prompt becomes action, and text elements
+ * ("NAME: line") become dialogue blocks. Output re-imports through parseFountain.
+ */
+
+import { Issue, Panel, TextElement } from '../types';
+
+const SCENE_HEADING_PATTERN = /^(INT\.?\/EXT|EXT\.?\/INT|I\/E|INT|EXT|EST)[.\s]/i;
+const SPEAKER_PATTERN = /^([^:\n]{1,40}):\s*([\s\S]*)$/;
+
+// Character extensions used for non-spoken text elements
+const TYPE_EXTENSIONS: Partial<Record<TextElement['type'], string>> = {
+  caption: 'V.O.',
+  thought: 'THOUGHT',
+  phone: 'ON PHONE',
+};
+
+// Action that would otherwise be read as another element gets forced with "!"
+function formatAction(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const isCaps = /[A-Z]/.test(line) && line === line.toUpperCase();
+      return isCaps || SCENE_HEADING_PATTERN.test(line) || /^[!@#~=.>[]/.test(line) ? `!${line}` : line;
+    })
+    .join('\n');
+}
+
+function formatDialogue(element: TextElement): string | null {
+  const match = element.content.match(SPEAKER_PATTERN);
+  const speaker = match?.[1].trim();
+  const text = match?.[2].trim();
+
+  // Text without a speaker (e.g. narration captions) reads as action
+  if (!speaker || !text) {
+    return element.content.trim() ? formatAction(element.content) : null;
+  }
+
+  const name = speaker.toUpperCase() === speaker ? speaker : `@${speaker}`;
+  const extension = TYPE_EXTENSIONS[element.type];
+  // Blank lines would end the dialogue block
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+
+  return [`${name}${extension ? ` (${extension})` : ''}`, ...lines].join('\n');
+}
+
+function formatPanel(panel: Panel, description: string): string[] {
+  const blocks: string[] = [];
+
+  if (description.trim()) blocks.push(formatAction(description));
+  if (panel.notes?.trim()) blocks.push(`[[${panel.notes.trim()}]]`);
+
+  panel.textElements.forEach(element => {
+    const dialogue = formatDialogue(element);
+    if (dialogue) blocks.push(dialogue);
+  });
+
+  return blocks;
+}
+
+/**
+ * Export an issue as a Fountain document
+ */
+export function exportIssueToFountain(issue: Issue): string {
+  const blocks: string[] = [`Title: ${issue.title}`];
+
+  issue.pages.forEach(page => {
+    const [firstPanel, ...otherPanels] = page.panels;
+    const [firstLine = '', ...restOfPrompt] = (firstPanel?.prompt || '').split('\n');
+
+    // Imported screenplays keep the slug line as the first line of the establishing panel
+    if (SCENE_HEADING_PATTERN.test(firstLine.trim())) {
+      blocks.push(firstLine.trim().toUpperCase());
+      if (firstPanel) blocks.push(...formatPanel(firstPanel, restOfPrompt.join('\n')));
+    } else {
+      blocks.push(`.PAGE ${page.number}`);
+      if (firstPanel) blocks.push(...formatPanel(firstPanel, firstPanel.prompt || ''));
+    }
+
+    otherPanels.forEach(panel => blocks.push(...formatPanel(panel, panel.prompt || '')));
+  });
+
+  return `${blocks.join('\n\n')}\n`;
+}
@@ -0,0 +1,172 @@
+import { describe, test, expect } from 'vitest';
+import { parseFountain, looksLikeFountain } from './fountainParser';
+import { exportIssueToFountain } from './fountainExporter';
+import { AspectRatio, Issue } from '../types';
+
+const SAMPLE = `Title: Night Shift
+Author: R. Vance
+Draft date: 2024-03-01
+
+# Act One
+
+= The courier arrives too late.
+
+INT. DINER - NIGHT #1#
+
+Rain streaks the windows. [[Neon sign flickers]]
+
+MAGGIE
+(wiping the counter)
+We're closed.
+
+DEX
+Not for me.
+
+MAGGIE ^
+Especially for you.
+
+/* Cut this beat?
+DEX
+Fine. */
+
+CUT TO:
+
+.FLASHBACK
+
+!LOUD MUSIC plays from the jukebox.
+
+@McCLANE (V.O.)
+Twelve years ago.
+
+>THE END<
+`;
+
+describe('parseFountain', () => {
+    const result = parseFountain(SAMPLE);
+
+    test('reads the title page', () => {
+        expect(result.titlePage.title).toBe('Night Shift');
+        expect(result.titlePage.author).toBe('R. Vance');
+        expect(result.titlePage['draft date']).toBe('2024-03-01');
+    });
+
+    test('creates a page per scene heading, including forced headings', () => {
+        expect(result.pages).toHaveLength(2);
+        expect(result.pages[0].sceneType).toBe('INT');
+        expect(result.pages[0].location).toBe('DINER');
+        expect(result.pages[0].timeOfDay).toBe('NIGHT');
+        expect(result.pages[1].location).toBe('FLASHBACK');
+    });
+
+    test('tracks sections as acts and keeps synopses and notes as artist notes', () => {
+        expect(result.pages[0].actNumber).toBe('Act One');
+        const establishing = result.pages[0].panels[0];
+        expect(establishing.description).toBe('INT. DINER - NIGHT\nRain streaks the windows.');
+        expect(establishing.artistNotes).toContain('Synopsis: The courier arrives too late.');
+        expect(establishing.artistNotes).toContain('Neon sign flickers');
+    });
+
+    test('parses dialogue, parentheticals and dual dialogue', () => {
+        const dialogue = result.pages[0].panels[0].dialogue;
+        expect(dialogue).toHaveLength(3);
+        expect(dialogue[0]).toMatchObject({ character: 'MAGGIE', text: "We're closed.", parenthetical: 'wiping the counter' });
+        expect(dialogue[1]).toMatchObject({ character: 'DEX', text: 'Not for me.' });
+        expect(dialogue[2]).toMatchObject({ character: 'MAGGIE', text: 'Especially for you.', dual: true });
+    });
+
+    test('ignores the boneyard and records transitions', () => {
+        const allText = JSON.stringify(result.pages);
+        expect(allText).not.toContain('Cut this beat');
+        expect(result.pages[0].panels[0].transition).toBe('CUT TO:');
+    });
+
+    test('handles forced action, forced characters and voice-over', () => {
+        const flashback = result.pages[1].panels;
+        expect(flashback[0].description).toBe('FLASHBACK\nLOUD MUSIC plays from the jukebox.');
+        expect(flashback[0].dialogue[0]).toMatchObject({ character: 'MCCLANE', type: 'voiceover', parenthetical: 'V.O.' });
+        expect(flashback[1].description).toBe('THE END');
+    });
+
+    test('counts character cues', () => {
+        expect(result.characters.find(c => c.name === 'MAGGIE')?.panelCount).toBe(2);
+        expect(result.characters.find(c => c.name === 'DEX')?.panelCount).toBe(1);
+    });
+
+    test('reports an error when there is nothing to import', () => {
+        expect(parseFountain('').errors[0].severity).toBe('error');
+    });
+});
+
+describe('looksLikeFountain', () => {
+    test('detects title pages and forced elements', () => {
+        expect(looksLikeFountain(SAMPLE)).toBe(true);
+        expect(looksLikeFountain('.OPENING\n\nSomething happens.')).toBe(true);
+    });
+
+    test('leaves plain screenplays to the heuristic parser', () => {
+        expect(looksLikeFountain('INT. OFFICE - DAY\n\nJOHN\nHello.')).toBe(false);
+    });
+});
+
+describe('exportIssueToFountain', () => {
+    const issue: Issue = {
+        id: 'i1',
+        title: 'Night Shift',
+        pages: [{
+            id: 'pg1',
+            number: 1,
+            panels: [
+                {
+                    id: 'a',
+                    prompt: 'INT. DINER - NIGHT\nRain streaks the windows.',
+                    aspectRatio: AspectRatio.WIDE,
+                    characterIds: [],
+                    notes: 'Neon sign flickers',
+                    textElements: [
+                        { id: 't1', type: 'dialogue', content: "MAGGIE: We're closed.", x: 0, y: 0, width: 30, height: 10, fontSize: 16, color: '#000000' },
+                        { id: 't2', type: 'caption', content: 'DEX: Twelve years ago.', x: 0, y: 0, width: 30, height: 10, fontSize: 16, color: '#000000' },
+                    ]
+                },
+                {
+                    id: 'b',
+                    prompt: 'Dex slides into a booth.',
+                    aspectRatio: AspectRatio.WIDE,
+                    characterIds: [],
+                    textElements: []
+                }
+            ]
+        }, {
+            id: 'pg2',
+            number: 2,
+            panels: [{
+                id: 'c',
+                prompt: 'A CROWDED STREET',
+                aspectRatio: AspectRatio.WIDE,
+                characterIds: [],
+                textElements: []
+            }]
+        }]
+    };
+
+    const fountain = exportIssueToFountain(issue);
+
+    test('writes title page, scene headings, action, notes and dialogue', () => {
+        expect(fountain).toContain('Title: Night Shift');
+        expect(fountain).toContain('INT. DINER - NIGHT\n\nRain streaks the windows.');
+        expect(fountain).toContain('[[Neon sign flickers]]');
+        expect(fountain).toContain("MAGGIE\nWe're closed.");
+        expect(fountain).toContain('DEX (V.O.)\nTwelve years ago.');
+        expect(fountain).toContain('.PAGE 2\n\n!A CROWDED STREET');
+    });
+
+    test('round-trips through parseFountain', () => {
+        const reparsed = parseFountain(fountain);
+        expect(reparsed.titlePage.title).toBe('Night Shift');
+        expect(reparsed.pages).toHaveLength(2);
+        expect(reparsed.pages[0].panels[0].description).toBe('INT. DINER - NIGHT\nRain streaks the windows.');
+        expect(reparsed.pages[0].panels[0].dialogue.map(d => d.character)).toEqual(['MAGGIE', 'DEX']);
+        expect(reparsed.pages[0].panels[0].dialogue[1].type).toBe('voiceover');
+        expect(reparsed.pages[0].panels[1].description).toBe('Dex slides into a booth.');
+        expect(reparsed.pages[1].panels[0].description).toBe('PAGE 2\nA CROWDED STREET');
+    });
+});
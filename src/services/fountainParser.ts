@@ -0,0 +1,415 @@
+/**
+ * Fountain Parser
+ *
+ * Parses Fountain screenplay markup (https://fountain.io) into the common ParseResult structure.
+ * Unlike parseScreenplay, which guesses from plain-text layout, this follows the Fountain spec.
+ *
+ * Format recognition:
+ * - Title page: "Key: value" lines before the first blank line
+ * - Scene headings: INT / EXT / EST / INT/EXT / I/E, or forced with a leading "."
+ * - Characters: ALL CAPS line directly followed by dialogue, or forced with "@"
+ * - Dual dialogue: "^" after the second character's name
+ * - Parentheticals: (beat), (V.O.), etc. inside a dialogue block
+ * - Transitions: ALL CAPS lines ending in "TO:", or forced with ">"
+ * - Action: everything else, or forced with "!"; centered text (>THE END<) is action
+ * - Boneyard (/* ... *\/) is ignored; notes ([[ ... ]]) become artist notes
+ * - Sections (# Act One) set the act; synopses (= ...) become artist notes
+ */
+
+import {
+  ParseResult,
+  ParsedPage,
+  ParsedPanel,
+  DialogueLine,
+  CharacterCount,
+  VisualMarkers,
+  ParseError
+} from './parserTypes';
+
+export type FountainParseResult = ParseResult & {
+  titlePage: Record<string, string>;
+};
+
+// ============= PATTERN DEFINITIONS =============
+
+const SCENE_HEADING_PATTERN = /^(INT\.?\/EXT|EXT\.?\/INT|I\/E|INT|EXT|EST)[.\s]/i;
+const SCENE_HEADING_PARTS = /^(INT\.?\/EXT|EXT\.?\/INT|I\/E|INT|EXT|EST)\.?\s+(.+?)(?:\s+[-–—]\s+(.+))?$/i;
+const SCENE_NUMBER_PATTERN = /\s*#([\w.-]+)#\s*$/;
+const TITLE_KEY_PATTERN = /^([A-Za-z][A-Za-z ]*):\s*(.*)$/;
+const CHARACTER_CUE_PATTERN = /^(.+?)\s*(\([^)]*\))?\s*(\^)?$/;
+const NOTE_PATTERN = /\[\[([\s\S]*?)\]\]/g;
+
+// Strips *italic*, **bold**, ***bold italic*** and _underline_ markers, keeping escaped characters
+function stripEmphasis(text: string): string {
+  return text
+    .replace(/(?<!\\)\*{1,3}(?=\S)(.+?)(?<=\S)(?<!\\)\*{1,3}/g, '$1')
+    .replace(/(?<!\\)_(?=\S)(.+?)(?<=\S)(?<!\\)_/g, '$1')
+    .replace(/\\([*_])/g, '$1');
+}
+
+function isAllCaps(line: string): boolean {
+  return /[A-Z]/.test(line) && line === line.toUpperCase();
+}
+
+// Determine dialogue type from a character extension or parenthetical
+function getDialogueType(extension?: string): DialogueLine['type'] {
+  if (!extension) return 'spoken';
+  if (/\b(V\.?O\.?|VOICE\s*OVER)\b/i.test(extension)) return 'voiceover';
+  if (/\bTHOUGHTS?\b/i.test(extension)) return 'thought';
+  return 'spoken';
+}
+
+// Parse scene heading text into its parts; forced headings may not follow INT./EXT. form
+function parseSceneHeading(heading: string): { sceneType?: string; location: string; timeOfDay?: string } {
+  const match = heading.match(SCENE_HEADING_PARTS);
+  if (!match) return { location: heading };
+  return {
+    sceneType: match[1].toUpperCase().replace('.', ''),
+    location: match[2].trim(),
+    timeOfDay: match[3] ? match[3].trim().toUpperCase() : undefined
+  };
+}
+
+/**
+ * Reads the title page block, returning its fields and the line where the script body starts.
+ */
+function parseTitlePage(lines: string[]): { titlePage: Record<string, string>; bodyStart: number } {
+  const titlePage: Record<string, string> = {};
+  if (!lines.length || !TITLE_KEY_PATTERN.test(lines[0]) || SCENE_HEADING_PATTERN.test(lines[0])) {
+    return { titlePage, bodyStart: 0 };
+  }
+
+  let currentKey: string | null = null;
+  let i = 0;
+  for (; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim()) break;
+
+    const keyMatch = line.match(TITLE_KEY_PATTERN);
+    if (keyMatch && !/^(\s{3,}|\t)/.test(line)) {
+      currentKey = keyMatch[1].trim().toLowerCase();
+      titlePage[currentKey] = keyMatch[2].trim();
+    } else if (currentKey) {
+      // Indented continuation line
+      titlePage[currentKey] = [titlePage[currentKey], line.trim()].filter(Boolean).join('\n');
+    }
+  }
+
+  return { titlePage, bodyStart: i };
+}
+
+/**
+ * Main Fountain parser function
+ */
+export function parseFountain(scriptText: string): FountainParseResult {
+  const pages: ParsedPage[] = [];
+  const characterMap = new Map<string, { count: number; description?: string }>();
+  const visualMarkers: VisualMarkers = {};
+  const errors: ParseError[] = [];
+
+  try {
+    const normalized = scriptText
+      .replace(/\r\n/g, '\n')
+      .replace(/\r/g, '\n')
+      // Boneyard is never part of the script
+      .replace(/\/\*[\s\S]*?\*\//g, '')
+      // Notes may span lines; fold them onto one line so they stay attached to their element
+      .replace(NOTE_PATTERN, (_, note: string) => `[[${note.replace(/\s*\n\s*/g, ' ')}]]`);
+
+    const lines = normalized.split('\n');
+    const { titlePage, bodyStart } = parseTitlePage(lines);
+
+    let currentPage: ParsedPage | null = null;
+    let currentPanel: ParsedPanel | null = null;
+    let currentCharacter: string | null = null;
+    let currentExtension: string | undefined;
+    let currentParenthetical: string | undefined;
+    let currentSpeech: DialogueLine | null = null;
+    let isDualCue = false;
+    let currentAct: string | undefined;
+    let pendingNotes: string[] = [];
+    let panelHasAction = false;
+    let sceneCount = 0;
+    let panelCount = 0;
+
+    const addNote = (note: string) => {
+      if (currentPanel) {
+        currentPanel.artistNotes = currentPanel.artistNotes ? `${currentPanel.artistNotes}; ${note}` : note;
+      } else {
+        pendingNotes.push(note);
+      }
+    };
+
+    // Pull [[notes]] out of a line, attaching them to the current panel
+    const extractNotes = (line: string): string => {
+      const notes: string[] = [];
+      const text = line.replace(NOTE_PATTERN, (_, note: string) => {
+        if (note.trim()) notes.push(note.trim());
+        return '';
+      });
+      notes.forEach(addNote);
+      return text;
+    };
+
+    const saveCurrentPanel = () => {
+      if (currentPanel && currentPage) {
+        if (currentPanel.description.trim() || currentPanel.dialogue.length > 0) {
+          currentPage.panels.push(currentPanel);
+
+          if (currentPanel.visualMarker) {
+            visualMarkers[currentPanel.visualMarker] = (visualMarkers[currentPanel.visualMarker] || 0) + 1;
+          }
+        }
+      }
+      currentPanel = null;
+      currentCharacter = null;
+      currentSpeech = null;
+    };
+
+    const saveCurrentPage = () => {
+      saveCurrentPanel();
+      if (currentPage && currentPage.panels.length > 0) {
+        pages.push(currentPage);
+      }
+      currentPage = null;
+    };
+
+    const ensurePage = () => {
+      if (!currentPage) {
+        // Script starts without a scene heading - create implicit scene
+        sceneCount++;
+        panelCount = 0;
+        currentPage = { pageNumber: sceneCount, panels: [], actNumber: currentAct };
+      }
+    };
+
+    const startNewPanel = (description: string = '', shotType?: string) => {
+      saveCurrentPanel();
+      ensurePage();
+      panelCount++;
+      currentPanel = {
+        panelNumber: panelCount,
+        description: description.trim(),
+        characters: [],
+        dialogue: [],
+        visualMarker: shotType,
+        shotType
+      };
+      panelHasAction = false;
+      if (pendingNotes.length) {
+        currentPanel.artistNotes = pendingNotes.join('; ');
+        pendingNotes = [];
+      }
+    };
+
+    const addAction = (text: string) => {
+      // The first paragraph after a heading describes the establishing shot; later ones are new panels
+      if (!currentPanel || panelHasAction || currentPanel.dialogue.length > 0) {
+        startNewPanel(text);
+      } else {
+        currentPanel.description = currentPanel.description ? `${currentPanel.description}\n${text}` : text;
+      }
+      panelHasAction = true;
+    };
+
+    for (let i = bodyStart; i < lines.length; i++) {
+      const rawLine = lines[i];
+      const prevBlank = i === bodyStart || !lines[i - 1].trim();
+      const nextLine = i + 1 < lines.length ? lines[i + 1].trim() : '';
+
+      // Notes standing on their own line belong to whatever panel is current
+      const line = extractNotes(rawLine).trim();
+
+      if (!line) {
+        if (!rawLine.trim()) {
+          currentCharacter = null;
+          currentSpeech = null;
+          currentParenthetical = undefined;
+        }
+        continue;
+      }
+
+      // Page breaks
+      if (/^={3,}$/.test(line)) continue;
+
+      // Inside a dialogue block everything is a parenthetical or dialogue
+      if (currentCharacter) {
+        if (/^\(.*\)$/.test(line)) {
+          currentParenthetical = line.slice(1, -1).trim();
+          currentSpeech = null;
+          continue;
+        }
+
+        const text = stripEmphasis(line.replace(/^~\s*/, ''));
+        if (currentSpeech) {
+          currentSpeech.text = `${currentSpeech.text}\n${text}`;
+        } else {
+          const modifier = [currentExtension, currentParenthetical].filter(Boolean).join(', ') || undefined;
+          currentSpeech = {
+            character: currentCharacter,
+            text,
+            type: getDialogueType(currentExtension || currentParenthetical),
+            parenthetical: modifier,
+            ...(isDualCue ? { dual: true } : {})
+          };
+          currentPanel!.dialogue.push(currentSpeech);
+          currentParenthetical = undefined;
+        }
+        continue;
+      }
+
+      // Sections: top-level sections mark acts
+      const section = line.match(/^(#+)\s*(.*)$/);
+      if (section) {
+        if (section[1].length === 1) currentAct = section[2].trim();
+        continue;
+      }
+
+      // Synopses
+      const synopsis = line.match(/^=(?!=)\s*(.*)$/);
+      if (synopsis) {
+        if (synopsis[1].trim()) addNote(`Synopsis: ${synopsis[1].trim()}`);
+        continue;
+      }
+
+      // Scene headings
+      const forcedHeading = line.match(/^\.(?![.])(.+)$/);
+      if (forcedHeading || (prevBlank && SCENE_HEADING_PATTERN.test(line))) {
+        const heading = stripEmphasis((forcedHeading ? forcedHeading[1] : line).replace(SCENE_NUMBER_PATTERN, '').trim());
+        const parts = parseSceneHeading(heading);
+        saveCurrentPage();
+        sceneCount++;
+        panelCount = 0;
+
+        currentPage = {
+          pageNumber: sceneCount,
+          panels: [],
+          sceneType: parts.sceneType,
+          location: parts.location,
+          timeOfDay: parts.timeOfDay,
+          actNumber: currentAct
+        };
+
+        startNewPanel(heading.toUpperCase(), 'ESTABLISHING');
+        continue;
+      }
+
+      // Centered text is action
+      const centered = line.match(/^>\s*(.*?)\s*<$/);
+      if (centered) {
+        addAction(stripEmphasis(centered[1]));
+        continue;
+      }
+
+      // Transitions
+      const forcedTransition = line.match(/^>\s*(.+)$/);
+      if (forcedTransition || (prevBlank && !nextLine && isAllCaps(line) && /TO:$/.test(line))) {
+        const transition = (forcedTransition ? forcedTransition[1] : line).trim().toUpperCase();
+        if (currentPanel !== null) {
+          (currentPanel as ParsedPanel).transition = transition;
+          addNote(transition);
+        }
+        continue;
+      }
+
+      // Forced action
+      if (line.startsWith('!')) {
+        addAction(stripEmphasis(line.slice(1).trim()));
+        continue;
+      }
+
+      // Character cues: must be followed directly by dialogue
+      const forcedCharacter = line.startsWith('@');
+      const cueText = forcedCharacter ? line.slice(1).trim() : line;
+      const cueName = cueText.replace(/\s*\^$/, '').replace(/\s*\([^)]*\)\s*$/, '');
+      if (prevBlank && nextLine && (forcedCharacter || isAllCaps(cueName))) {
+        const match = cueText.match(CHARACTER_CUE_PATTERN);
+        if (match) {
+          currentCharacter = match[1].trim().toUpperCase();
+          currentExtension = match[2] ? match[2].slice(1, -1).trim() : undefined;
+          isDualCue = !!match[3];
+          currentParenthetical = undefined;
+          currentSpeech = null;
+
+          const existing = characterMap.get(currentCharacter);
+          if (existing) {
+            existing.count++;
+          } else {
+            characterMap.set(currentCharacter, { count: 1 });
+          }
+
+          if (!currentPanel) startNewPanel('');
+          const panel = currentPanel as ParsedPanel | null;
+          if (panel && !panel.characters.includes(currentCharacter)) {
+            panel.characters.push(currentCharacter);
+          }
+          continue;
+        }
+      }
+
+      // Action, possibly spanning several lines in one paragraph
+      const text = stripEmphasis(line);
+      const panel = currentPanel as ParsedPanel | null;
+      if (!prevBlank && panel && panelHasAction && panel.dialogue.length === 0) {
+        panel.description = `${panel.description}\n${text}`;
+      } else {
+        addAction(text);
+      }
+    }
+
+    // Notes at the very end with nowhere else to go
+    if (pendingNotes.length && currentPanel) {
+      addNote(pendingNotes.join('; '));
+    }
+
+    saveCurrentPage();
+
+    if (pages.length === 0) {
+      errors.push({
+        message: 'No scenes detected. Fountain scenes start with INT. or EXT., or a forced heading like ".OPENING"',
+        severity: 'error'
+      });
+    }
+
+    const characters: CharacterCount[] = Array.from(characterMap.entries())
+      .map(([name, data]) => ({
+        name,
+        panelCount: data.count,
+        description: data.description
+      }))
+      .sort((a, b) => b.panelCount - a.panelCount);
+
+    return {
+      pages,
+      characters,
+      visualMarkers,
+      errors,
+      titlePage
+    };
+
+  } catch (error) {
+    errors.push({
+      message: `Fountain parser exception: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'error'
+    });
+
+    return {
+      pages: [],
+      characters: [],
+      visualMarkers: {},
+      errors,
+      titlePage: {}
+    };
+  }
+}
+
+/**
+ * Quick check used to route pasted text: a title page or a forced element is a strong Fountain signal.
+ */
+export function looksLikeFountain(scriptText: string): boolean {
+  const firstLine = scriptText.trimStart().split('\n')[0] || '';
+  return /^(Title|Credit|Author|Authors|Source|Draft date|Contact):/i.test(firstLine)
+    || /^\.[A-Z]/m.test(scriptText)
+    || /\[\[[\s\S]*?\]\]/.test(scriptText)
+    || /^[A-Z][A-Z0-9 .'-]*\s*(\([^)]*\))?\s*\^\s*$/m.test(scriptText);
+}
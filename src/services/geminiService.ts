@@ -1,5 +1,13 @@
 import { GoogleGenAI } from "@google/genai";
 
+// Inline image part from a data URL or bare base64 string
+const toImagePart = (image: string) => ({
+    inlineData: {
+        data: image.split(',')[1] || image,
+        mimeType: 'image/png'
+    }
+});
+
 /**
  * Generates an image using Google Gemini's image generation model.
  * @param prompt - The text prompt for image generation
@@ -7,13 +15,15 @@ import { GoogleGenAI } from "@google/genai";
  * @param apiKey - The Gemini API key (BYOK - Bring Your Own Key)
  * @param initImage - Optional base64 image for img2img editing
  * @param strength - Strength of transformation for img2img (0-1)
+ * @param referenceImages - Optional character reference sheets sent alongside the prompt
  */
 export const generateImage = async (
     prompt: string,
     aspectRatio: string,
     apiKey: string,
     initImage?: string,
-    strength: number = 0.7
+    strength: number = 0.7,
+    referenceImages: string[] = []
 ): Promise<string | undefined> => {
     if (!apiKey?.trim()) {
         throw new Error('Gemini API key is missing or empty. Please enter your API key in the sidebar.');
@@ -21,7 +31,7 @@ export const generateImage = async (
 
     if (initImage) {
         // If an initial image is provided, we use the editImage logic which acts as img2img
-        return editImage(initImage, prompt, apiKey, strength);
+        return editImage(initImage, prompt, apiKey, strength, referenceImages);
     }
 
     const ai = new GoogleGenAI({ apiKey: apiKey.trim() });
@@ -29,7 +39,7 @@ export const generateImage = async (
         const response = await ai.models.generateContent({
             model: 'gemini-2.0-flash-exp-image-generation',
             contents: {
-                parts: [{ text: prompt }]
+                parts: [...referenceImages.map(toImagePart), { text: prompt }]
             },
             config: {
                 responseModalities: ['Text', 'Image'],
@@ -58,7 +68,8 @@ export const editImage = async (
     base64Data: string,
     editPrompt: string,
     apiKey: string,
-    strength: number = 0.7
+    strength: number = 0.7,
+    referenceImages: string[] = []
 ): Promise<string | undefined> => {
     if (!apiKey?.trim()) {
         throw new Error('Gemini API key is missing or empty.');
@@ -89,6 +100,7 @@ export const editImage = async (
                             mimeType: 'image/png'
                         }
                     },
+                    ...referenceImages.map(toImagePart),
                     { text: finalPrompt }
                 ]
             },
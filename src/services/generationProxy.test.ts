@@ -0,0 +1,57 @@
+import { describe, test, expect } from 'vitest';
+import { GENERATION_PROXY_URL, ProxyGenerationRequest, ProxyGenerationResult, generateViaProxy, getServerKeyProviders } from './generationProxy';
+import { AspectRatio } from '../types';
+
+const request: ProxyGenerationRequest = { provider: 'leonardo', prompt: 'Rain on the diner window', aspectRatio: AspectRatio.WIDE, seed: 7 };
+
+// Answers each call with the next response and records what was asked
+const fakeFetch = (responses: { status?: number; body: unknown }[]) => {
+    const calls: { url: string; init?: RequestInit }[] = [];
+    const fetchImpl = (async (url: string, init?: RequestInit) => {
+        calls.push({ url, init });
+        const next = responses.shift()!;
+        return new Response(JSON.stringify(next.body), { status: next.status ?? 200 });
+    }) as typeof fetch;
+    return { fetchImpl, calls };
+};
+
+const result = (body: ProxyGenerationResult, status = 200) => ({ status, body });
+
+describe('generateViaProxy', () => {
+    test('sends the adapter request and returns a finished image', async () => {
+        const { fetchImpl, calls } = fakeFetch([result({ status: 'succeeded', imageUrl: 'https://img/1.png' })]);
+
+        await expect(generateViaProxy(request, { fetchImpl })).resolves.toBe('https://img/1.png');
+        expect(calls[0].url).toBe(GENERATION_PROXY_URL);
+        expect(JSON.parse(calls[0].init!.body as string)).toEqual(request);
+    });
+
+    test('polls the status endpoint until a pending job finishes', async () => {
+        const { fetchImpl, calls } = fakeFetch([
+            result({ status: 'pending', jobId: 'job-1' }, 202),
+            result({ status: 'pending', jobId: 'job-1' }),
+            result({ status: 'succeeded', jobId: 'job-1', imageUrl: 'https://img/2.png' }),
+        ]);
+
+        await expect(generateViaProxy(request, { fetchImpl, pollIntervalMs: 0 })).resolves.toBe('https://img/2.png');
+        expect(calls.slice(1).map(call => call.url)).toEqual([
+            `${GENERATION_PROXY_URL}?provider=leonardo&jobId=job-1`,
+            `${GENERATION_PROXY_URL}?provider=leonardo&jobId=job-1`,
+        ]);
+    });
+
+    test('surfaces provider errors and gives up on jobs that never finish', async () => {
+        const failing = fakeFetch([result({ status: 'failed', error: 'Leonardo API error 401: bad key' }, 401)]);
+        await expect(generateViaProxy(request, { fetchImpl: failing.fetchImpl })).rejects.toThrow('bad key');
+
+        const stuck = fakeFetch([result({ status: 'pending', jobId: 'job-2' }, 202)]);
+        await expect(generateViaProxy(request, { fetchImpl: stuck.fetchImpl, timeoutMs: 0 })).rejects.toThrow('timed out');
+    });
+});
+
+describe('getServerKeyProviders', () => {
+    test('treats a missing proxy as no server keys', async () => {
+        const fetchImpl = (async () => new Response('<!doctype html>', { status: 200 })) as unknown as typeof fetch;
+        await expect(getServerKeyProviders(fetchImpl)).resolves.toEqual([]);
+    });
+});
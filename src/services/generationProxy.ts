@@ -0,0 +1,118 @@
+import { AspectRatio, ImageProvider } from '../types';
+import { supabase } from './supabase';
+
+/**
+ * Generation Proxy
+ *
+ * Client for api/generate-image, which calls the image providers from the
+ * server with keys held in its environment. Teams use it to keep keys off
+ * client machines: a provider the deployment has a key for works without a
+ * key in the user's own vault.
+ */
+
+export const GENERATION_PROXY_URL = '/api/generate-image';
+
+// Same fields the provider adapters receive, minus the key
+export interface ProxyGenerationRequest {
+    provider: ImageProvider;
+    prompt: string;
+    aspectRatio: AspectRatio;
+    initImage?: string;
+    referenceImages?: string[];
+    strength?: number;
+    seed?: number;
+    model?: string;    // FAL Flux model
+}
+
+export interface ProxyGenerationResult {
+    status: 'pending' | 'succeeded' | 'failed';
+    jobId?: string;     // Set while an async provider is still rendering
+    imageUrl?: string;
+    error?: string;
+}
+
+export interface ProxyOptions {
+    fetchImpl?: typeof fetch;
+    pollIntervalMs?: number;
+    timeoutMs?: number;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 3000;
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// The proxy only spends server keys for signed-in users when accounts exist
+async function authHeaders(): Promise<Record<string, string>> {
+    if (!supabase) return {};
+    const { data } = await supabase.auth.getSession();
+    const token = data.session?.access_token;
+    return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+async function readResult(response: Response): Promise<ProxyGenerationResult> {
+    const result: ProxyGenerationResult | null = await response.json().catch(() => null);
+    if (!response.ok || !result || result.status === 'failed') {
+        throw new Error(result?.error || `Generation proxy error ${response.status}`);
+    }
+    return result;
+}
+
+let serverProviders: Promise<ImageProvider[]> | null = null;
+
+/**
+ * Providers the deployment holds keys for. Empty when there is no proxy (local
+ * dev) or the user may not use it; those answers aren't cached.
+ */
+export function getServerKeyProviders(fetchImpl: typeof fetch = fetch): Promise<ImageProvider[]> {
+    if (!serverProviders) {
+        serverProviders = authHeaders()
+            .then(headers => fetchImpl(GENERATION_PROXY_URL, { headers }))
+            .then(async response => {
+                const data = response.ok ? await response.json() : null;
+                if (!Array.isArray(data?.providers)) throw new Error('No generation proxy');
+                return data.providers as ImageProvider[];
+            })
+            .catch(() => {
+                serverProviders = null;
+                return [];
+            });
+    }
+    return serverProviders;
+}
+
+export async function hasServerKey(provider: ImageProvider): Promise<boolean> {
+    return (await getServerKeyProviders()).includes(provider);
+}
+
+/**
+ * Generates through the proxy and returns the image URL (or data URL). Jobs the
+ * server couldn't finish within one request are polled until done or timed out.
+ */
+export async function generateViaProxy(request: ProxyGenerationRequest, options: ProxyOptions = {}): Promise<string> {
+    const {
+        fetchImpl = fetch,
+        pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+        timeoutMs = DEFAULT_TIMEOUT_MS,
+    } = options;
+    const headers = await authHeaders();
+    const deadline = Date.now() + timeoutMs;
+
+    let result = await readResult(await fetchImpl(GENERATION_PROXY_URL, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+    }));
+
+    while (result.status === 'pending') {
+        if (!result.jobId) throw new Error('Generation proxy returned a pending job without an id');
+        if (Date.now() >= deadline) throw new Error('Generation timed out. The provider may still finish it; try again later.');
+
+        await sleep(pollIntervalMs);
+        const query = new URLSearchParams({ provider: request.provider, jobId: result.jobId });
+        result = await readResult(await fetchImpl(`${GENERATION_PROXY_URL}?${query}`, { headers }));
+    }
+
+    if (!result.imageUrl) throw new Error('No image returned from the generation proxy');
+    return result.imageUrl;
+}
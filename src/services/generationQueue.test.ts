@@ -0,0 +1,77 @@
+import {
+    createGenerationJob,
+    getBackoffDelay,
+    getErrorStatusCode,
+    getNextDueJob,
+    isRetryableError,
+    recordJobFailure,
+} from './generationQueue';
+
+describe('getErrorStatusCode', () => {
+    test('reads the status from provider error messages', () => {
+        expect(getErrorStatusCode('Leonardo API error 429: Too many requests')).toBe(429);
+        expect(getErrorStatusCode('SeaArt status check failed 503: upstream')).toBe(503);
+        expect(getErrorStatusCode('fal.ai error 401: Unauthorized')).toBe(401);
+    });
+
+    test('returns null when no status is present', () => {
+        expect(getErrorStatusCode('No image URL returned from Grok API.')).toBeNull();
+    });
+});
+
+describe('isRetryableError', () => {
+    test('retries rate limits and server errors', () => {
+        expect(isRetryableError('OpenAI API error 429: Rate limit reached')).toBe(true);
+        expect(isRetryableError('Grok API error 502: Bad gateway')).toBe(true);
+        expect(isRetryableError('got status: 429 RESOURCE_EXHAUSTED')).toBe(true);
+    });
+
+    test('does not retry client errors', () => {
+        expect(isRetryableError('OpenAI API error 400: Invalid prompt')).toBe(false);
+        expect(isRetryableError('Gemini API key is missing or empty.')).toBe(false);
+    });
+});
+
+describe('getBackoffDelay', () => {
+    test('doubles with each attempt and caps at one minute', () => {
+        expect(getBackoffDelay(1)).toBe(2000);
+        expect(getBackoffDelay(2)).toBe(4000);
+        expect(getBackoffDelay(3)).toBe(8000);
+        expect(getBackoffDelay(10)).toBe(60000);
+    });
+});
+
+describe('recordJobFailure', () => {
+    const job = createGenerationJob('project', 'page', 'panel', 'leonardo', 1000);
+
+    test('reschedules retryable failures with backoff', () => {
+        const failed = recordJobFailure(job, 'Leonardo API error 429: slow down', 5000);
+        expect(failed.status).toBe('pending');
+        expect(failed.attempts).toBe(1);
+        expect(failed.nextAttemptAt).toBe(7000);
+        expect(failed.lastError).toBe('Leonardo API error 429: slow down');
+    });
+
+    test('fails immediately on non-retryable errors', () => {
+        const failed = recordJobFailure(job, 'Leonardo API error 401: bad key', 5000);
+        expect(failed.status).toBe('failed');
+        expect(failed.attempts).toBe(1);
+    });
+
+    test('fails once max attempts are used up', () => {
+        const lastTry = { ...job, attempts: job.maxAttempts - 1 };
+        expect(recordJobFailure(lastTry, 'Leonardo API error 500: oops', 5000).status).toBe('failed');
+    });
+});
+
+describe('getNextDueJob', () => {
+    test('picks the oldest pending job that is due', () => {
+        const older = createGenerationJob('project', 'page', 'a', 'gemini', 100);
+        const newer = createGenerationJob('project', 'page', 'b', 'gemini', 200);
+        const backedOff = { ...createGenerationJob('project', 'page', 'c', 'gemini', 50), nextAttemptAt: 9000 };
+        const failed = { ...createGenerationJob('project', 'page', 'd', 'gemini', 10), status: 'failed' as const };
+
+        expect(getNextDueJob([newer, backedOff, failed, older], 1000)?.panelId).toBe('a');
+        expect(getNextDueJob([backedOff, failed], 1000)).toBeUndefined();
+    });
+});
@@ -0,0 +1,168 @@
+import { ImageProvider } from '../types';
+import { genId } from '../utils/helpers';
+
+/**
+ * Generation Queue
+ *
+ * Batch generation jobs are persisted in IndexedDB so a closed tab or reload
+ * doesn't lose the batch. Jobs only reference the panel; the prompt and
+ * characters are read from the project when the job actually runs.
+ */
+
+const DB_NAME = 'ink_tracker_generation_queue';
+const STORE_NAME = 'jobs';
+const DB_VERSION = 1;
+
+export const MAX_GENERATION_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60000;
+
+export type GenerationJobStatus = 'pending' | 'running' | 'failed';
+
+export interface GenerationJob {
+    id: string;
+    projectId: string;
+    pageId: string;
+    panelId: string;
+    provider: ImageProvider;
+    status: GenerationJobStatus;
+    attempts: number;
+    maxAttempts: number;
+    nextAttemptAt: number;  // Epoch ms; pending jobs wait until this time
+    lastError?: string;     // Provider error text from the most recent attempt
+    createdAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDB(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result);
+
+        request.onupgradeneeded = (event) => {
+            const db = (event.target as IDBOpenDBRequest).result;
+            if (!db.objectStoreNames.contains(STORE_NAME)) {
+                db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            }
+        };
+    });
+
+    return dbPromise;
+}
+
+export function createGenerationJob(
+    projectId: string,
+    pageId: string,
+    panelId: string,
+    provider: ImageProvider,
+    now: number = Date.now()
+): GenerationJob {
+    return {
+        id: genId(),
+        projectId,
+        pageId,
+        panelId,
+        provider,
+        status: 'pending',
+        attempts: 0,
+        maxAttempts: MAX_GENERATION_ATTEMPTS,
+        nextAttemptAt: now,
+        createdAt: now,
+    };
+}
+
+/**
+ * Pulls the HTTP status out of provider error messages such as
+ * "Leonardo API error 429: ..." or "SeaArt status check failed 503: ...".
+ */
+export function getErrorStatusCode(message: string): number | null {
+    const match = message.match(/\b(?:error|failed)\s+(\d{3})\b/i) || message.match(/\b(429|5\d\d)\b/);
+    return match ? Number(match[1]) : null;
+}
+
+/**
+ * Only rate limits and server errors are worth retrying; bad keys and
+ * rejected prompts will fail the same way every time.
+ */
+export function isRetryableError(message: string): boolean {
+    const status = getErrorStatusCode(message);
+    if (status !== null) return status === 429 || status >= 500;
+    return /RESOURCE_EXHAUSTED|rate limit|too many requests/i.test(message);
+}
+
+/**
+ * Exponential backoff: 2s, 4s, 8s... capped at one minute.
+ * @param attempts - Number of attempts already made
+ */
+export function getBackoffDelay(attempts: number): number {
+    return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+}
+
+/**
+ * Returns the job with any failed attempt recorded: rescheduled with backoff
+ * when the error is retryable and attempts remain, otherwise marked failed.
+ */
+export function recordJobFailure(job: GenerationJob, message: string, now: number = Date.now()): GenerationJob {
+    const attempts = job.attempts + 1;
+    const canRetry = attempts < job.maxAttempts && isRetryableError(message);
+
+    return {
+        ...job,
+        attempts,
+        lastError: message,
+        status: canRetry ? 'pending' : 'failed',
+        nextAttemptAt: canRetry ? now + getBackoffDelay(attempts) : job.nextAttemptAt,
+    };
+}
+
+/**
+ * The next pending job that is due, oldest first.
+ */
+export function getNextDueJob(jobs: GenerationJob[], now: number = Date.now()): GenerationJob | undefined {
+    return jobs
+        .filter(job => job.status === 'pending' && job.nextAttemptAt <= now)
+        .sort((a, b) => a.createdAt - b.createdAt)[0];
+}
+
+export async function getAllJobs(): Promise<GenerationJob[]> {
+    const db = await getDB();
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const store = tx.objectStore(STORE_NAME);
+
+    return new Promise((resolve, reject) => {
+        const request = store.getAll();
+        request.onsuccess = () => resolve(request.result || []);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export async function saveJobs(jobs: GenerationJob[]): Promise<void> {
+    const db = await getDB();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+
+    jobs.forEach(job => store.put(job));
+
+    await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+}
+
+export async function deleteJobs(jobIds: string[]): Promise<void> {
+    const db = await getDB();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+
+    jobIds.forEach(id => store.delete(id));
+
+    await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+}
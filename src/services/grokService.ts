@@ -6,7 +6,7 @@ import { AspectRatio } from "../types";
  */
 
 // Map aspect ratios to dimensions for Grok
-function getImageDimensions(aspectRatio: AspectRatio | string): { width: number; height: number } {
+export function getImageDimensions(aspectRatio: AspectRatio | string): { width: number; height: number } {
     const ratio = String(aspectRatio).toLowerCase();
     switch (ratio) {
         case 'wide':
@@ -0,0 +1,108 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IMAGE_PROVIDERS, PROVIDER_IDS, createSeed, generateWithProvider, getProviderAdapter, resolveAspectRatio } from './imageProviders';
+import { GENERATION_PROXY_URL } from './generationProxy';
+import { createVault, resetVault, setApiKey, setVaultScope } from './keyVault';
+import { AspectRatio, Project } from '../types';
+
+const project = (updates: Partial<Project> = {}): Project => ({
+    id: 'p1',
+    title: 'Night Shift',
+    style: 'classic-noir',
+    issueType: 'issue',
+    imageProvider: 'openai',
+    characters: [],
+    issues: [],
+    ...updates
+});
+
+beforeEach(() => {
+    localStorage.clear();
+    setVaultScope('test-user');
+    resetVault();
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+});
+
+const saveVaultKey = async (provider: Project['imageProvider'], key: string) => {
+    await createVault('correct horse');
+    await setApiKey(provider, key);
+};
+
+// A proxy holding keys for the given providers, answering every POST with imageUrl
+const stubProxy = (providers: string[], imageUrl = 'https://cdn.example/proxy.png') => {
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => new Response(
+        JSON.stringify(init?.method === 'POST' ? { status: 'succeeded', imageUrl } : { providers }),
+        { status: 200 }
+    ));
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+};
+
+describe('getProviderAdapter', () => {
+    test('looks up every registered provider by id', () => {
+        PROVIDER_IDS.forEach(id => expect(getProviderAdapter(id)).toBe(IMAGE_PROVIDERS[id]));
+    });
+
+    test('throws on an unknown provider', () => {
+        expect(() => getProviderAdapter('midjourney' as Project['imageProvider'])).toThrow('Unknown image provider: midjourney');
+    });
+});
+
+describe('capabilities', () => {
+    test('fall back to square when a ratio is not supported', () => {
+        expect(resolveAspectRatio(IMAGE_PROVIDERS.openai, AspectRatio.STD)).toBe(AspectRatio.SQUARE);
+        expect(resolveAspectRatio(IMAGE_PROVIDERS.fal, AspectRatio.STD)).toBe(AspectRatio.STD);
+    });
+
+    test('only give seeds to providers that take one', () => {
+        expect(createSeed('openai')).toBeUndefined();
+        expect(createSeed('fal')).toEqual(expect.any(Number));
+    });
+
+    test('drop init images, seeds and extra references a provider cannot use', async () => {
+        await saveVaultKey('openai', 'vault-key');
+        const generate = vi.spyOn(IMAGE_PROVIDERS.openai, 'generate').mockResolvedValue('data:image/png;base64,AAAA');
+        const references = ['a', 'b', 'c', 'd', 'e'].map(id => `data:image/png;base64,${id}`);
+
+        await generateWithProvider(project(), 'Rain', AspectRatio.STD, 'data:image/png;base64,init', 0.5, 42, undefined, references);
+
+        expect(generate).toHaveBeenCalledWith(expect.objectContaining({
+            aspectRatio: AspectRatio.SQUARE,
+            initImage: undefined,
+            seed: undefined,
+            referenceImages: references.slice(0, 4),
+        }));
+    });
+});
+
+describe('generateWithProvider', () => {
+    test('sends the key from the key vault, never one left on the project', async () => {
+        await saveVaultKey('openai', 'vault-key');
+        const generate = vi.spyOn(IMAGE_PROVIDERS.openai, 'generate').mockResolvedValue('data:image/png;base64,AAAA');
+        const legacy = { ...project(), openaiApiKey: 'project-key' } as Project;
+
+        await expect(generateWithProvider(legacy, 'Rain on the diner window', AspectRatio.WIDE)).resolves.toBe('data:image/png;base64,AAAA');
+        expect(generate).toHaveBeenCalledWith(expect.objectContaining({ apiKey: 'vault-key' }));
+    });
+
+    test('fails without a key of its own or a proxy', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response('Not found', { status: 404 })));
+
+        await expect(generateWithProvider(project(), 'Rain', AspectRatio.WIDE)).rejects.toThrow('No API key configured for OpenAI');
+    });
+
+    test('falls back to the proxy when only the server holds a key', async () => {
+        const fetchMock = stubProxy(['openai']);
+        const generate = vi.spyOn(IMAGE_PROVIDERS.openai, 'generate');
+
+        await expect(generateWithProvider(project(), 'Rain', AspectRatio.WIDE)).resolves.toBe('https://cdn.example/proxy.png');
+        expect(generate).not.toHaveBeenCalled();
+        const [url, init] = fetchMock.mock.calls.at(-1)!;
+        expect(url).toBe(GENERATION_PROXY_URL);
+        expect(JSON.parse(init!.body as string)).toMatchObject({ provider: 'openai', prompt: 'Rain', aspectRatio: AspectRatio.WIDE });
+        expect(JSON.parse(init!.body as string)).not.toHaveProperty('apiKey');
+    });
+});
@@ -0,0 +1,280 @@
+import { AspectRatio, ImageProvider, Project } from '../types';
+import { ASPECT_CONFIGS } from '../constants';
+import { generateImage as generateGeminiImage } from './geminiService';
+import { generateLeonardoImage, getImageDimensions as getLeonardoDimensions } from './leonardoService';
+import { generateGrokImage, getImageDimensions as getGrokDimensions } from './grokService';
+import { generateFluxImage as generateFalFlux, getFalImageDimensions } from './falFluxService';
+import { generateSeaArtImage, getImageDimensions as getSeaArtDimensions } from './seaartService';
+import { generateOpenAIImage, getImageSize as getOpenAIImageSize } from './openaiService';
+import { getApiKey, getVaultStatus } from './keyVault';
+import { generateViaProxy, hasServerKey } from './generationProxy';
+import { UsageContext, recordUsage } from './usageTracking';
+
+/**
+ * Image Provider Registry
+ *
+ * Every image generation in the app goes through one of these adapters, so
+ * adding a provider means adding one entry here instead of another branch in
+ * each component that generates images.
+ */
+
+export interface ImageProviderCapabilities {
+    img2img: boolean;              // Accepts an init/reference image
+    aspectRatios: AspectRatio[];   // Ratios the provider can render natively
+    maxResolution: { width: number; height: number };
+    needsPolling: boolean;         // Generation is an async job that must be polled
+    seed: boolean;                 // Accepts a fixed seed, so takes can be reproduced
+    referenceImages: number;       // Character or location reference images it can take; 0 for none
+}
+
+export interface ProviderGenerationRequest {
+    prompt: string;
+    aspectRatio: AspectRatio;
+    apiKey: string;
+    project: Project;
+    initImage?: string;
+    referenceImages?: string[];    // Character and location references, as data URLs
+    strength: number;
+    seed?: number;
+}
+
+export interface ImageProviderAdapter {
+    id: ImageProvider;
+    label: string;
+    apiKeyUrl: string;
+    apiKeyHint: string;
+    capabilities: ImageProviderCapabilities;
+    model: (project: Project, img2img: boolean) => string;              // Model a request runs on, for usage records
+    imageSize: (aspectRatio: AspectRatio) => { width: number; height: number };
+    generate: (request: ProviderGenerationRequest) => Promise<string | undefined>;
+}
+
+const ALL_ASPECT_RATIOS: AspectRatio[] = [
+    AspectRatio.WIDE,
+    AspectRatio.STD,
+    AspectRatio.SQUARE,
+    AspectRatio.TALL,
+    AspectRatio.PORTRAIT,
+];
+
+export const IMAGE_PROVIDERS: Record<ImageProvider, ImageProviderAdapter> = {
+    gemini: {
+        id: 'gemini',
+        label: 'Gemini',
+        apiKeyUrl: 'https://aistudio.google.com/app/apikey',
+        apiKeyHint: 'Get key from ai.google.dev',
+        capabilities: {
+            img2img: true,
+            aspectRatios: ALL_ASPECT_RATIOS,
+            maxResolution: { width: 1024, height: 1024 },
+            needsPolling: false,
+            seed: false,
+            referenceImages: 3,
+        },
+        model: () => 'gemini-2.0-flash-exp-image-generation',
+        imageSize: () => ({ width: 1024, height: 1024 }),
+        generate: ({ prompt, aspectRatio, apiKey, initImage, referenceImages, strength }) =>
+            generateGeminiImage(prompt, ASPECT_CONFIGS[aspectRatio].ratio, apiKey, initImage, strength, referenceImages),
+    },
+    leonardo: {
+        id: 'leonardo',
+        label: 'Leonardo',
+        apiKeyUrl: 'https://leonardo.ai/settings',
+        apiKeyHint: 'Get key from leonardo.ai',
+        capabilities: {
+            img2img: false,
+            aspectRatios: ALL_ASPECT_RATIOS,
+            maxResolution: { width: 1472, height: 1472 },
+            needsPolling: true,
+            seed: true,
+            referenceImages: 0,
+        },
+        model: () => 'leonardo-phoenix',
+        imageSize: getLeonardoDimensions,
+        generate: ({ prompt, aspectRatio, apiKey, initImage, strength, seed }) =>
+            generateLeonardoImage(prompt, aspectRatio, apiKey, initImage, strength, seed),
+    },
+    grok: {
+        id: 'grok',
+        label: 'Grok (xAI)',
+        apiKeyUrl: 'https://console.x.ai',
+        apiKeyHint: 'Get key from console.x.ai (experimental)',
+        capabilities: {
+            img2img: false,
+            aspectRatios: ALL_ASPECT_RATIOS,
+            maxResolution: { width: 1344, height: 1344 },
+            needsPolling: false,
+            seed: false,
+            referenceImages: 0,
+        },
+        model: () => 'grok-2-image',
+        imageSize: getGrokDimensions,
+        generate: ({ prompt, aspectRatio, apiKey, initImage, strength }) =>
+            generateGrokImage(prompt, aspectRatio, apiKey, initImage, strength),
+    },
+    fal: {
+        id: 'fal',
+        label: 'FAL',
+        apiKeyUrl: 'https://fal.ai/dashboard/keys',
+        apiKeyHint: 'Get key from fal.ai',
+        capabilities: {
+            img2img: true,
+            aspectRatios: ALL_ASPECT_RATIOS,
+            maxResolution: { width: 1024, height: 1024 },
+            needsPolling: false,
+            seed: true,
+            referenceImages: 1,
+        },
+        model: (project, img2img) => (img2img ? 'fal-ai/flux/dev/image-to-image' : project.fluxModel || 'fal-ai/flux-pro'),
+        imageSize: getFalImageDimensions,
+        // Flux takes a single image, so a character sheet stands in when no panel is linked
+        generate: ({ prompt, aspectRatio, apiKey, project, initImage, referenceImages, strength, seed }) =>
+            generateFalFlux(prompt, aspectRatio, apiKey, project.fluxModel || 'fal-ai/flux-pro', initImage || referenceImages?.[0], strength, seed),
+    },
+    seaart: {
+        id: 'seaart',
+        label: 'SeaArt',
+        apiKeyUrl: 'https://seaart.ai/api',
+        apiKeyHint: 'Get key from seaart.ai/api',
+        capabilities: {
+            img2img: true,
+            aspectRatios: ALL_ASPECT_RATIOS,
+            maxResolution: { width: 1344, height: 1344 },
+            needsPolling: true,
+            seed: true,
+            referenceImages: 0,
+        },
+        model: () => 'seaart',
+        imageSize: getSeaArtDimensions,
+        generate: ({ prompt, aspectRatio, apiKey, initImage, strength, seed }) =>
+            generateSeaArtImage(prompt, aspectRatio, apiKey, initImage, strength, seed),
+    },
+    openai: {
+        id: 'openai',
+        label: 'OpenAI',
+        apiKeyUrl: 'https://platform.openai.com/api-keys',
+        apiKeyHint: 'Get key from platform.openai.com',
+        capabilities: {
+            img2img: false,
+            aspectRatios: [AspectRatio.WIDE, AspectRatio.SQUARE, AspectRatio.TALL, AspectRatio.PORTRAIT],
+            maxResolution: { width: 1536, height: 1536 },
+            needsPolling: false,
+            seed: false,
+            referenceImages: 4,
+        },
+        model: () => 'gpt-image-1',
+        imageSize: (aspectRatio) => {
+            const [width, height] = getOpenAIImageSize(aspectRatio).split('x').map(Number);
+            return { width, height };
+        },
+        generate: ({ prompt, aspectRatio, apiKey, initImage, referenceImages, strength }) =>
+            generateOpenAIImage(prompt, aspectRatio, apiKey, initImage, strength, referenceImages),
+    },
+};
+
+export const PROVIDER_IDS = Object.keys(IMAGE_PROVIDERS) as ImageProvider[];
+
+export function getProviderAdapter(provider: ImageProvider): ImageProviderAdapter {
+    const adapter = IMAGE_PROVIDERS[provider];
+    if (!adapter) {
+        throw new Error(`Unknown image provider: ${provider}`);
+    }
+    return adapter;
+}
+
+/**
+ * Returns this user's API key for the provider from the key vault.
+ */
+export function getProviderApiKey(provider: ImageProvider): string {
+    return getApiKey(provider);
+}
+
+/**
+ * Whether generation can run: with this user's key, or through the server
+ * proxy when the deployment holds a key for the provider.
+ */
+export async function hasProviderKey(provider: ImageProvider): Promise<boolean> {
+    return !!getProviderApiKey(provider).trim() || hasServerKey(provider);
+}
+
+/**
+ * Why a provider has no key to generate with, for error messages.
+ */
+export function describeMissingApiKey(provider: ImageProvider): string {
+    const { label } = getProviderAdapter(provider);
+    return getVaultStatus() === 'locked'
+        ? `Your key vault is locked. Unlock it in the sidebar to use your ${label} API key.`
+        : `No API key configured for ${label}. Please add your API key in the sidebar.`;
+}
+
+/**
+ * Falls back to square when the provider can't render the requested ratio.
+ */
+export function resolveAspectRatio(adapter: ImageProviderAdapter, aspectRatio: AspectRatio): AspectRatio {
+    return adapter.capabilities.aspectRatios.includes(aspectRatio) ? aspectRatio : AspectRatio.SQUARE;
+}
+
+/**
+ * Random seed for providers that accept one; undefined otherwise.
+ */
+export function createSeed(provider: ImageProvider): number | undefined {
+    return getProviderAdapter(provider).capabilities.seed ? Math.floor(Math.random() * 2147483647) : undefined;
+}
+
+/**
+ * Generate an image with the project's configured provider.
+ * The prompt is sent as-is; prompt building lives in useImageGeneration.
+ * Without a key of the user's own, the server's key is used through the proxy.
+ * Every call that reaches a provider is recorded for usage tracking.
+ * Reference images beyond what the provider takes are dropped.
+ */
+export async function generateWithProvider(
+    project: Project,
+    prompt: string,
+    aspectRatio: AspectRatio,
+    initImage?: string,
+    strength: number = 0.7,
+    seed?: number,
+    usage: UsageContext = { source: 'panel' },
+    referenceImages: string[] = []
+): Promise<string | undefined> {
+    const adapter = getProviderAdapter(project.imageProvider);
+    const apiKey = getProviderApiKey(project.imageProvider);
+    const references = referenceImages.slice(0, adapter.capabilities.referenceImages);
+    const request = {
+        prompt,
+        aspectRatio: resolveAspectRatio(adapter, aspectRatio),
+        initImage: adapter.capabilities.img2img ? initImage : undefined,
+        referenceImages: references.length > 0 ? references : undefined,
+        strength,
+        seed: adapter.capabilities.seed ? seed : undefined,
+    };
+
+    const useProxy = !apiKey.trim() && await hasServerKey(adapter.id);
+    if (!apiKey.trim() && !useProxy) {
+        throw new Error(describeMissingApiKey(project.imageProvider));
+    }
+
+    const startedAt = Date.now();
+    const track = (success: boolean, error?: string) => recordUsage({
+        ...usage,
+        projectId: project.id,
+        provider: adapter.id,
+        model: adapter.model(project, !!(request.initImage || request.referenceImages)),
+        ...adapter.imageSize(request.aspectRatio),
+        durationMs: Date.now() - startedAt,
+        success,
+        error,
+    });
+
+    try {
+        const url = useProxy
+            ? await generateViaProxy({ ...request, provider: adapter.id, model: project.fluxModel })
+            : await adapter.generate({ ...request, apiKey, project });
+        track(!!url, url ? undefined : 'No image returned');
+        return url;
+    } catch (error) {
+        track(false, error instanceof Error ? error.message : String(error));
+        throw error;
+    }
+}
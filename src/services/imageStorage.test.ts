@@ -0,0 +1,17 @@
+import { describe, test, expect } from 'vitest';
+import { dataUrlToBlob } from './imageStorage';
+
+describe('dataUrlToBlob', () => {
+    test('decodes base64 data URLs into typed Blobs', () => {
+        const blob = dataUrlToBlob('data:image/png;base64,iVBORw0KGgo=');
+        expect(blob.type).toBe('image/png');
+        expect(blob.size).toBe(8);
+    });
+
+    test('decodes percent-encoded data URLs and rejects anything else', () => {
+        const blob = dataUrlToBlob('data:image/svg+xml,%3Csvg%2F%3E');
+        expect(blob.type).toBe('image/svg+xml');
+        expect(blob.size).toBe('<svg/>'.length);
+        expect(() => dataUrlToBlob('https://example.com/panel.png')).toThrow();
+    });
+});
@@ -1,9 +1,58 @@
+import { PanelTake } from '../types';
+import { genId } from '../utils/helpers';
 
 const DB_NAME = 'ink_tracker_images';
 const STORE_NAME = 'images';
 const DB_VERSION = 1;
 
+// Longest edge of the thumbnail generated next to each image
+export const THUMBNAIL_MAX_SIZE = 256;
+
+const MIGRATION_FLAG_KEY = 'ink_tracker_images_blob_migrated';
+
+/**
+ * Optional remote copy of the image store (e.g. Supabase Storage) so panels
+ * render on every device. IndexedDB stays the primary store and a local cache
+ * for anything fetched from the backend.
+ */
+export interface ImageBackend {
+    upload: (id: string, blob: Blob) => Promise<void>;
+    download: (id: string) => Promise<Blob | null>;
+    remove: (id: string) => Promise<void>;
+    list: (ids: string[]) => Promise<Set<string>>;     // Which of the given images it holds
+}
+
+// 'thumb' falls back to the full image when no thumbnail was made (small images)
+export type ImageVariant = 'full' | 'thumb';
+
+/**
+ * Images are stored as Blobs. Records written before that keep the image as a
+ * data URL in `data` until migrateLegacyImages converts them; `data` also holds
+ * remote image URLs the browser wasn't allowed to download.
+ */
+interface StoredImageRecord {
+    id: string;
+    blob?: Blob;
+    thumb?: Blob;
+    data?: string;
+    createdAt?: number;
+}
+
+interface ObjectUrlEntry {
+    count: number;
+    url: Promise<string | null>;
+}
+
 let dbPromise: Promise<IDBDatabase> | null = null;
+let backend: ImageBackend | null = null;
+const downloads = new Map<string, Promise<Blob | null>>();
+// Image ids are written once, so an object URL stays valid until its last user releases it
+const objectUrls = new Map<string, ObjectUrlEntry>();
+
+export function setImageBackend(next: ImageBackend | null): void {
+    backend = next;
+    downloads.clear();
+}
 
 function getDB(): Promise<IDBDatabase> {
     if (dbPromise) return dbPromise;
@@ -25,32 +74,238 @@ function getDB(): Promise<IDBDatabase> {
     return dbPromise;
 }
 
-export async function saveImage(panelId: string, dataUrl: string): Promise<string> {
+export function dataUrlToBlob(dataUrl: string): Blob {
+    const comma = dataUrl.indexOf(',');
+    if (!dataUrl.startsWith('data:') || comma === -1) throw new Error('Not a data URL');
+
+    const meta = dataUrl.slice(5, comma).split(';');
+    const payload = dataUrl.slice(comma + 1);
+    const mime = meta[0] || 'text/plain';
+    if (!meta.includes('base64')) return new Blob([decodeURIComponent(payload)], { type: mime });
+
+    const binary = atob(payload);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type: mime });
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+/**
+ * Downscales an image to THUMBNAIL_MAX_SIZE on its longest edge. Returns null
+ * when the image is already that small or the browser can't decode it.
+ */
+async function createThumbnail(blob: Blob): Promise<Blob | null> {
+    if (typeof createImageBitmap === 'undefined' || typeof document === 'undefined') return null;
+
+    try {
+        const bitmap = await createImageBitmap(blob);
+        const scale = THUMBNAIL_MAX_SIZE / Math.max(bitmap.width, bitmap.height);
+        if (scale >= 1) {
+            bitmap.close();
+            return null;
+        }
+
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+        canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            bitmap.close();
+            return null;
+        }
+        ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+        bitmap.close();
+
+        return await new Promise(resolve => canvas.toBlob(resolve, 'image/webp', 0.85));
+    } catch (err) {
+        console.warn('Thumbnail generation failed', err);
+        return null;
+    }
+}
+
+/**
+ * Turns what a generator or import hands over into what gets stored: a Blob
+ * for data URLs and downloadable remote URLs, the URL itself otherwise.
+ */
+async function toImageBlob(image: string | Blob): Promise<Blob | string> {
+    if (typeof image !== 'string') return image;
+    if (image.startsWith('data:')) return dataUrlToBlob(image);
+
+    try {
+        const response = await fetch(image);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return await response.blob();
+    } catch (err) {
+        console.warn('Could not download image, keeping its URL', err);
+        return image;
+    }
+}
+
+// Thumbnails are made before the transaction opens since it would close while awaiting them
+async function buildRecord(id: string, image: string | Blob, createdAt: number = Date.now()): Promise<StoredImageRecord> {
+    const content = await toImageBlob(image);
+    if (typeof content === 'string') return { id, data: content, createdAt };
+
+    const thumb = await createThumbnail(content);
+    return { id, blob: content, ...(thumb ? { thumb } : {}), createdAt };
+}
+
+async function putRecord(record: StoredImageRecord): Promise<void> {
     const db = await getDB();
     const tx = db.transaction(STORE_NAME, 'readwrite');
     const store = tx.objectStore(STORE_NAME);
 
     await new Promise<void>((resolve, reject) => {
-        const request = store.put({ id: panelId, data: dataUrl });
+        const request = store.put(record);
         request.onsuccess = () => resolve();
         request.onerror = () => reject(request.error);
     });
+}
 
-    return `idb://${panelId}`;
+async function getRecord(id: string): Promise<StoredImageRecord | null> {
+    const db = await getDB();
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const store = tx.objectStore(STORE_NAME);
+
+    return new Promise((resolve, reject) => {
+        const request = store.get(id);
+        request.onsuccess = () => resolve(request.result || null);
+        request.onerror = () => reject(request.error);
+    });
 }
 
-export async function getImage(panelId: string): Promise<string | null> {
+async function hasLocalImage(id: string): Promise<boolean> {
     const db = await getDB();
     const tx = db.transaction(STORE_NAME, 'readonly');
     const store = tx.objectStore(STORE_NAME);
 
     return new Promise((resolve, reject) => {
-        const request = store.get(panelId);
-        request.onsuccess = () => resolve(request.result?.data || null);
+        const request = store.count(id);
+        request.onsuccess = () => resolve(request.result > 0);
         request.onerror = () => reject(request.error);
     });
 }
 
+// The image as a Blob, if the record holds one (legacy data URLs are decoded)
+function recordBlob(record: StoredImageRecord, variant: ImageVariant = 'full'): Blob | null {
+    if (variant === 'thumb' && record.thumb) return record.thumb;
+    if (record.blob) return record.blob;
+    return record.data?.startsWith('data:') ? dataUrlToBlob(record.data) : null;
+}
+
+export async function saveImage(panelId: string, image: string | Blob): Promise<string> {
+    const record = await buildRecord(panelId, image);
+    await putRecord(record);
+
+    // Uploading happens in the background; syncImagesWithBackend catches up on failures
+    // and on images the backend couldn't place yet
+    if (record.blob) {
+        backend?.upload(panelId, record.blob).catch(err => console.error('Image upload failed', err));
+    }
+
+    return `idb://${panelId}`;
+}
+
+/**
+ * Stores a new take under its own id so earlier takes of the panel survive.
+ */
+export async function savePanelTake(
+    image: string | Blob,
+    details: Pick<PanelTake, 'prompt' | 'provider' | 'seed'>
+): Promise<PanelTake> {
+    const id = genId();
+    const imageUrl = await saveImage(id, image);
+    return { id, imageUrl, createdAt: Date.now(), ...details };
+}
+
+// Fetches an image from the backend once, however many panels ask for it
+function downloadImage(id: string): Promise<StoredImageRecord | null> {
+    if (!backend) return Promise.resolve(null);
+
+    let download = downloads.get(id);
+    if (!download) {
+        download = backend.download(id).then(async blob => {
+            if (blob) await putRecord(await buildRecord(id, blob));
+            return blob;
+        }).finally(() => downloads.delete(id));
+        downloads.set(id, download);
+    }
+    return download.then(() => getRecord(id));
+}
+
+/**
+ * Reads an image record from IndexedDB, falling back to the cloud copy (and
+ * caching it locally) when this browser doesn't have it.
+ */
+async function loadRecord(id: string): Promise<StoredImageRecord | null> {
+    const local = await getRecord(id);
+    if (local) return local;
+    return downloadImage(id).catch(err => {
+        console.error('Image download failed', err);
+        return null;
+    });
+}
+
+/**
+ * The image as a data URL (or remote URL), for generators that take a
+ * reference image. Use acquireImageUrl to display images.
+ */
+export async function getImage(panelId: string): Promise<string | null> {
+    const record = await loadRecord(panelId);
+    if (!record) return null;
+    return record.blob ? blobToDataUrl(record.blob) : record.data || null;
+}
+
+export async function getImageBlob(panelId: string, variant: ImageVariant = 'full'): Promise<Blob | null> {
+    const record = await loadRecord(panelId);
+    return record ? recordBlob(record, variant) : null;
+}
+
+/**
+ * Returns a URL to display an image with. Object URLs are shared between
+ * callers and revoked once every caller has released them, so each acquire
+ * must be paired with releaseImageUrl.
+ */
+export function acquireImageUrl(panelId: string, variant: ImageVariant = 'full'): Promise<string | null> {
+    const key = `${panelId}:${variant}`;
+    let entry = objectUrls.get(key);
+    if (!entry) {
+        entry = {
+            count: 0,
+            url: loadRecord(panelId).then(record => {
+                if (!record) return null;
+                const blob = recordBlob(record, variant);
+                return blob ? URL.createObjectURL(blob) : record.data || null;
+            }),
+        };
+        objectUrls.set(key, entry);
+        // Failed lookups aren't cached so a later acquire can retry
+        entry.url.then(url => { if (!url && objectUrls.get(key) === entry) objectUrls.delete(key); },
+            () => { if (objectUrls.get(key) === entry) objectUrls.delete(key); });
+    }
+    entry.count++;
+    return entry.url;
+}
+
+export function releaseImageUrl(panelId: string, variant: ImageVariant = 'full'): void {
+    const key = `${panelId}:${variant}`;
+    const entry = objectUrls.get(key);
+    if (!entry || --entry.count > 0) return;
+
+    objectUrls.delete(key);
+    entry.url.then(url => {
+        if (url?.startsWith('blob:')) URL.revokeObjectURL(url);
+    }, () => {});
+}
+
 export async function deleteImage(panelId: string): Promise<void> {
     const db = await getDB();
     const tx = db.transaction(STORE_NAME, 'readwrite');
@@ -61,4 +316,103 @@ export async function deleteImage(panelId: string): Promise<void> {
         request.onsuccess = () => resolve();
         request.onerror = () => reject(request.error);
     });
+
+    backend?.remove(panelId).catch(err => console.error('Cloud image delete failed', err));
+}
+
+export interface StoredImageInfo {
+    id: string;
+    size: number;           // Bytes of the image and its thumbnail
+    createdAt?: number;     // Missing for images saved before it was recorded
+}
+
+/**
+ * Lists every image in IndexedDB without keeping the image data in memory.
+ */
+export async function listStoredImages(): Promise<StoredImageInfo[]> {
+    const db = await getDB();
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const store = tx.objectStore(STORE_NAME);
+
+    return new Promise((resolve, reject) => {
+        const images: StoredImageInfo[] = [];
+        const request = store.openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) {
+                resolve(images);
+                return;
+            }
+            const { id, blob, thumb, data, createdAt } = cursor.value as StoredImageRecord;
+            images.push({ id, size: (blob?.size || 0) + (thumb?.size || 0) + (data?.length || 0), createdAt });
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * One-time conversion of records saved as base64 data URLs into Blobs with
+ * thumbnails. Records are converted one at a time so a large store never has
+ * to fit in memory; until then legacy records are still read as before.
+ */
+export async function migrateLegacyImages(): Promise<number> {
+    if (localStorage.getItem(MIGRATION_FLAG_KEY)) return 0;
+
+    const db = await getDB();
+    const ids = await new Promise<string[]>((resolve, reject) => {
+        const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAllKeys();
+        request.onsuccess = () => resolve(request.result as string[]);
+        request.onerror = () => reject(request.error);
+    });
+
+    let migrated = 0;
+    for (const id of ids) {
+        const record = await getRecord(id);
+        if (!record || record.blob || !record.data?.startsWith('data:')) continue;
+        try {
+            await putRecord(await buildRecord(id, record.data, record.createdAt));
+            migrated++;
+        } catch (err) {
+            console.error(`Failed to migrate image ${id}`, err);
+        }
+    }
+
+    localStorage.setItem(MIGRATION_FLAG_KEY, new Date().toISOString());
+    return migrated;
+}
+
+/**
+ * Brings the local store and the backend in line for the given images: uploads
+ * what only this browser has and caches what only the cloud has. Individual
+ * failures are logged and skipped so one bad image doesn't stall the rest.
+ */
+export async function syncImagesWithBackend(
+    imageIds: string[],
+    onProgress?: (done: number, total: number) => void
+): Promise<void> {
+    if (!backend) return;
+    const current = backend;
+    const remote = await current.list(imageIds);
+
+    const tasks: (() => Promise<unknown>)[] = [];
+    for (const id of imageIds) {
+        const hasLocal = await hasLocalImage(id);
+        if (hasLocal && !remote.has(id)) {
+            tasks.push(async () => {
+                const record = await getRecord(id);
+                const blob = record && recordBlob(record);
+                if (blob) await current.upload(id, blob);
+            });
+        } else if (!hasLocal && remote.has(id)) {
+            tasks.push(() => downloadImage(id));
+        }
+    }
+
+    onProgress?.(0, tasks.length);
+    for (let i = 0; i < tasks.length; i++) {
+        if (backend !== current) return;
+        await tasks[i]().catch(err => console.error('Image sync failed', err));
+        onProgress?.(i + 1, tasks.length);
+    }
 }
@@ -0,0 +1,91 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import {
+    createVault,
+    decryptApiKeys,
+    encryptApiKeys,
+    extractLegacyApiKeys,
+    getApiKey,
+    getVaultSnapshot,
+    getVaultStatus,
+    lockVault,
+    setApiKey,
+    setVaultScope,
+    stashLegacyApiKeys,
+    unlockVault
+} from './keyVault';
+import { Project } from '../types';
+
+describe('encryption', () => {
+    test('round-trips keys without storing them in plain text', async () => {
+        const vault = await encryptApiKeys({ gemini: 'gem-secret' }, 'correct horse');
+
+        expect(JSON.stringify(vault)).not.toContain('gem-secret');
+        expect(await decryptApiKeys(vault, 'correct horse')).toEqual({ gemini: 'gem-secret' });
+    });
+
+    test('rejects the wrong passphrase', async () => {
+        const vault = await encryptApiKeys({ gemini: 'gem-secret' }, 'correct horse');
+        await expect(decryptApiKeys(vault, 'battery staple')).rejects.toThrow('Wrong passphrase');
+    });
+});
+
+describe('extractLegacyApiKeys', () => {
+    test('moves non-empty keys off the project', () => {
+        const legacy = { id: 'p1', title: 'Old', falApiKey: ' fal-key ', openaiApiKey: '' } as unknown as Project;
+        const { project, keys } = extractLegacyApiKeys(legacy);
+
+        expect(keys).toEqual({ fal: 'fal-key' });
+        expect(project).toEqual({ id: 'p1', title: 'Old' });
+        expect((legacy as unknown as Record<string, unknown>).falApiKey).toBe(' fal-key ');
+    });
+});
+
+describe('vault session', () => {
+    beforeEach(() => {
+        localStorage.clear();
+        setVaultScope('test-user');
+        lockVault();
+    });
+
+    test('adopts pending legacy keys when created and locks them away', async () => {
+        await stashLegacyApiKeys({ fal: 'fal-key' }, 'test-user');
+        expect(getApiKey('fal')).toBe('');
+        expect(getVaultSnapshot()).toMatchObject({ keys: {}, pendingProviders: ['fal'] });
+
+        await createVault('correct horse');
+        await setApiKey('gemini', 'gem-secret');
+        lockVault();
+
+        expect(getVaultStatus()).toBe('locked');
+        expect(getApiKey('fal')).toBe('');
+        expect(Object.keys(localStorage).map(key => localStorage.getItem(key)).join()).not.toContain('gem-secret');
+
+        await unlockVault('correct horse');
+        expect(getApiKey('fal')).toBe('fal-key');
+        expect(getApiKey('gemini')).toBe('gem-secret');
+        expect(getVaultSnapshot().pendingProviders).toEqual([]);
+    });
+
+    test("keeps pending keys for their own user and adds them to an unlocked vault at once", async () => {
+        await stashLegacyApiKeys({ fal: 'fal-key' }, 'someone-else');
+        await createVault('correct horse');
+        expect(getApiKey('fal')).toBe('');
+        expect(getVaultSnapshot().pendingProviders).toEqual([]);
+
+        await stashLegacyApiKeys({ openai: 'openai-key' }, 'test-user');
+        expect(getApiKey('openai')).toBe('openai-key');
+        expect(Object.keys(localStorage).map(key => localStorage.getItem(key)).join()).not.toContain('openai-key');
+
+        setVaultScope('someone-else');
+        expect(getVaultSnapshot().pendingProviders).toEqual(['fal']);
+    });
+
+    test('keeps each user in their own vault', async () => {
+        await createVault('correct horse');
+        await setApiKey('gemini', 'gem-secret');
+
+        setVaultScope('someone-else');
+        expect(getVaultStatus()).toBe('empty');
+        expect(getApiKey('gemini')).toBe('');
+    });
+});
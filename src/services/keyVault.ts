@@ -0,0 +1,291 @@
+import { ImageProvider, Project } from '../types';
+
+/**
+ * API Key Vault
+ *
+ * Provider API keys belong to a person, not to a project, so they live here
+ * instead of on Project objects and never travel with project data (exports,
+ * cloud rows, live sessions). Each user (or the signed-out "local" user) gets
+ * one vault in localStorage, encrypted with AES-GCM under a key derived from
+ * their passphrase with PBKDF2. Decrypted keys only exist in memory while the
+ * vault is unlocked.
+ *
+ * Keys found on projects saved before the vault existed are moved to a
+ * pending list for the user whose projects held them, and merged into that
+ * user's vault the next time it is created or unlocked (right away when it is
+ * already unlocked). Pending keys can't be used for generation, so the user
+ * is asked to create or unlock their vault; until then they stay in plain text
+ * in localStorage, as they were on the projects.
+ */
+
+export type ApiKeys = Partial<Record<ImageProvider, string>>;
+
+export type VaultStatus = 'empty' | 'locked' | 'unlocked';
+
+export interface EncryptedVault {
+    version: 1;
+    salt: string;   // Base64
+    iv: string;     // Base64
+    data: string;   // Base64 AES-GCM ciphertext of the JSON-encoded keys
+}
+
+export interface VaultSnapshot {
+    scope: string;
+    status: VaultStatus;
+    keys: ApiKeys;
+    pendingProviders: ImageProvider[];      // Legacy keys waiting for this user's vault
+}
+
+export const LOCAL_VAULT_SCOPE = 'local';
+
+// Where each provider's key was stored on projects before the vault
+export const LEGACY_API_KEY_FIELDS: Record<ImageProvider, string> = {
+    gemini: 'geminiApiKey',
+    leonardo: 'leonardoApiKey',
+    grok: 'grokApiKey',
+    fal: 'falApiKey',
+    seaart: 'seaartApiKey',
+    openai: 'openaiApiKey',
+};
+
+const VAULT_STORAGE_KEY = 'ink_tracker_key_vault';
+const PENDING_STORAGE_KEY = 'ink_tracker_pending_api_keys';
+const PBKDF2_ITERATIONS = 310000;
+
+interface UnlockedVault {
+    key: CryptoKey;
+    salt: Uint8Array<ArrayBuffer>;
+    keys: ApiKeys;
+}
+
+let scope = LOCAL_VAULT_SCOPE;
+let session: UnlockedVault | null = null;
+let snapshot: VaultSnapshot | null = null;
+const listeners = new Set<() => void>();
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> =>
+    Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const randomBytes = (length: number): Uint8Array<ArrayBuffer> =>
+    crypto.getRandomValues(new Uint8Array(length));
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+}
+
+async function seal(keys: ApiKeys, key: CryptoKey, salt: Uint8Array<ArrayBuffer>): Promise<EncryptedVault> {
+    const iv = randomBytes(12);
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(keys)));
+    return { version: 1, salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+async function open(vault: EncryptedVault, key: CryptoKey): Promise<ApiKeys> {
+    try {
+        const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(vault.iv) }, key, fromBase64(vault.data));
+        return JSON.parse(new TextDecoder().decode(data));
+    } catch {
+        throw new Error('Wrong passphrase');
+    }
+}
+
+/**
+ * Encrypts keys with a passphrase. A fresh salt and IV are used every time.
+ */
+export async function encryptApiKeys(keys: ApiKeys, passphrase: string): Promise<EncryptedVault> {
+    const salt = randomBytes(16);
+    return seal(keys, await deriveKey(passphrase, salt), salt);
+}
+
+/**
+ * Throws "Wrong passphrase" when the passphrase doesn't match.
+ */
+export async function decryptApiKeys(vault: EncryptedVault, passphrase: string): Promise<ApiKeys> {
+    return open(vault, await deriveKey(passphrase, fromBase64(vault.salt)));
+}
+
+/**
+ * Splits the API keys off a project saved before the vault existed.
+ */
+export function extractLegacyApiKeys(project: Project): { project: Project; keys: ApiKeys } {
+    const stripped = { ...project } as Project & Record<string, unknown>;
+    const keys: ApiKeys = {};
+
+    (Object.keys(LEGACY_API_KEY_FIELDS) as ImageProvider[]).forEach(provider => {
+        const field = LEGACY_API_KEY_FIELDS[provider];
+        const value = stripped[field];
+        if (typeof value === 'string' && value.trim()) keys[provider] = value.trim();
+        delete stripped[field];
+    });
+
+    return { project: stripped, keys };
+}
+
+// --- Storage ---
+
+const vaultStorageKey = (vaultScope: string) => `${VAULT_STORAGE_KEY}_${vaultScope}`;
+
+function readJson<T>(key: string): T | null {
+    try {
+        const saved = localStorage.getItem(key);
+        return saved ? JSON.parse(saved) : null;
+    } catch {
+        return null;
+    }
+}
+
+const readVault = () => readJson<EncryptedVault>(vaultStorageKey(scope));
+
+const pendingStorageKey = (vaultScope: string) => `${PENDING_STORAGE_KEY}_${vaultScope}`;
+
+const readPendingKeys = (vaultScope: string = scope) => readJson<ApiKeys>(pendingStorageKey(vaultScope)) || {};
+
+/**
+ * Keeps keys taken off legacy projects for the given user (the vault scope)
+ * until their vault is created or unlocked, or adds them to it now if it's
+ * unlocked. Keys already pending are not replaced.
+ */
+export async function stashLegacyApiKeys(keys: ApiKeys, vaultScope: string): Promise<void> {
+    if (Object.keys(keys).length === 0) return;
+    try {
+        localStorage.setItem(pendingStorageKey(vaultScope), JSON.stringify({ ...keys, ...readPendingKeys(vaultScope) }));
+    } catch (e) {
+        console.error('Failed to stash legacy API keys:', e);
+    }
+    const current = session;
+    if (current && vaultScope === scope) {
+        const unlocked = { ...current, keys: { ...current.keys } };
+        await adoptPendingKeys(unlocked);
+        // Locked or switched users meanwhile: the keys wait for the next unlock
+        if (session === current) session = unlocked;
+    }
+    notify();
+}
+
+function notify() {
+    snapshot = null;
+    listeners.forEach(listener => listener());
+}
+
+async function persist(unlocked: UnlockedVault) {
+    localStorage.setItem(vaultStorageKey(scope), JSON.stringify(await seal(unlocked.keys, unlocked.key, unlocked.salt)));
+}
+
+// Pending legacy keys fill in providers the vault has no key for
+async function adoptPendingKeys(unlocked: UnlockedVault) {
+    const pending = readPendingKeys();
+    const missing = (Object.keys(pending) as ImageProvider[]).filter(provider => !unlocked.keys[provider]);
+    if (missing.length > 0) {
+        missing.forEach(provider => { unlocked.keys[provider] = pending[provider]; });
+        await persist(unlocked);
+    }
+    localStorage.removeItem(pendingStorageKey(scope));
+}
+
+// --- Session ---
+
+export function subscribeToVault(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+}
+
+export function getVaultStatus(): VaultStatus {
+    if (session) return 'unlocked';
+    return readVault() ? 'locked' : 'empty';
+}
+
+/**
+ * Cached until the vault changes, for useSyncExternalStore.
+ */
+export function getVaultSnapshot(): VaultSnapshot {
+    if (!snapshot) {
+        snapshot = {
+            scope,
+            status: getVaultStatus(),
+            keys: session ? { ...session.keys } : {},
+            pendingProviders: Object.keys(readPendingKeys()) as ImageProvider[],
+        };
+    }
+    return snapshot;
+}
+
+/**
+ * Switches to another user's vault. The current one is locked first.
+ */
+export function setVaultScope(nextScope: string): void {
+    if (nextScope === scope) return;
+    scope = nextScope;
+    session = null;
+    notify();
+}
+
+export async function createVault(passphrase: string): Promise<void> {
+    if (!passphrase) throw new Error('Choose a passphrase');
+    if (readVault()) throw new Error('A key vault already exists');
+
+    const salt = randomBytes(16);
+    const unlocked: UnlockedVault = { key: await deriveKey(passphrase, salt), salt, keys: {} };
+    await persist(unlocked);
+    await adoptPendingKeys(unlocked);
+    session = unlocked;
+    notify();
+}
+
+export async function unlockVault(passphrase: string): Promise<void> {
+    const vault = readVault();
+    if (!vault) throw new Error('No key vault to unlock');
+
+    const salt = fromBase64(vault.salt);
+    const key = await deriveKey(passphrase, salt);
+    const unlocked: UnlockedVault = { key, salt, keys: await open(vault, key) };
+    await adoptPendingKeys(unlocked);
+    session = unlocked;
+    notify();
+}
+
+export function lockVault(): void {
+    if (!session) return;
+    session = null;
+    notify();
+}
+
+/**
+ * Deletes the vault and every key in it, for when the passphrase is forgotten.
+ */
+export function resetVault(): void {
+    localStorage.removeItem(vaultStorageKey(scope));
+    session = null;
+    notify();
+}
+
+/**
+ * Saves a key, or removes it when the value is empty. The vault must be unlocked.
+ */
+export async function setApiKey(provider: ImageProvider, value: string): Promise<void> {
+    if (!session) throw new Error('Unlock the key vault first');
+
+    const keys = { ...session.keys };
+    if (value.trim()) keys[provider] = value.trim();
+    else delete keys[provider];
+
+    const unlocked = { ...session, keys };
+    await persist(unlocked);
+    session = unlocked;
+    notify();
+}
+
+/**
+ * The key for a provider from the unlocked vault. Empty when there is none or
+ * the vault is locked.
+ */
+export function getApiKey(provider: ImageProvider): string {
+    return getVaultSnapshot().keys[provider] || '';
+}
@@ -4,7 +4,7 @@ import { AspectRatio } from "../types";
 const PHOENIX_MODEL_ID = "de7d3faf-762f-48e0-b3b7-9d0ac3a3fcf3";
 
 // Map aspect ratios to Leonardo dimensions
-function getImageDimensions(aspectRatio: AspectRatio | string): { width: number; height: number } {
+export function getImageDimensions(aspectRatio: AspectRatio | string): { width: number; height: number } {
     const ratio = String(aspectRatio).toLowerCase();
     switch (ratio) {
         case 'wide':
@@ -42,7 +42,8 @@ export async function generateLeonardoImage(
     aspectRatio: AspectRatio | string,
     apiKey: string,
     initImage?: string,
-    strength: number = 0.7
+    strength: number = 0.7,
+    seed?: number
 ): Promise<string> {
     if (!apiKey?.trim()) {
         throw new Error('Leonardo API key is missing or empty.');
@@ -63,6 +64,8 @@ export async function generateLeonardoImage(
             public: false,
         };
 
+        if (seed !== undefined) body.seed = seed;
+
         const createRes = await fetch('https://cloud.leonardo.ai/api/rest/v1/generations', {
             method: 'POST',
             headers: {
@@ -0,0 +1,25 @@
+import { describe, test, expect } from 'vitest';
+import { resolveImportedLocations } from './locations';
+import { SceneLocation } from '../types';
+
+describe('resolveImportedLocations', () => {
+    const existing: SceneLocation[] = [{ id: 'diner', name: "Joe's Diner", description: 'Red vinyl booths' }];
+
+    test('reuses bank locations by name and creates each new name once', () => {
+        let counter = 0;
+        const { created, locationIds } = resolveImportedLocations([
+            { location: "JOE'S DINER", sceneType: 'INT' },
+            { location: 'ALLEY', sceneType: 'EXT' },
+            {},
+            { location: 'alley ', sceneType: 'EXT' },
+        ], existing, () => `loc-${++counter}`);
+
+        expect(created).toEqual([{ id: 'loc-1', name: 'ALLEY', description: 'Exterior' }]);
+        expect(locationIds).toEqual(['diner', 'loc-1', undefined, 'loc-1']);
+    });
+
+    test('leaves the description empty for unknown scene types', () => {
+        const { created } = resolveImportedLocations([{ location: 'ROOFTOP' }], [], () => 'roof');
+        expect(created).toEqual([{ id: 'roof', name: 'ROOFTOP', description: '' }]);
+    });
+});
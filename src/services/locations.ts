@@ -0,0 +1,56 @@
+import { SceneLocation } from '../types';
+import { genId } from '../utils/helpers';
+
+/**
+ * Locations
+ *
+ * Recurring sets live in the project's location bank. Script import fills it
+ * from scene headings (INT. JOE'S DINER - NIGHT) and links each panel to its
+ * scene's location, whose description is then added to generation prompts.
+ */
+
+export interface SceneHeading {
+    location?: string;
+    sceneType?: string;    // INT, EXT, INT/EXT
+}
+
+const SCENE_TYPE_DESCRIPTIONS: Record<string, string> = {
+    'INT': 'Interior',
+    'EXT': 'Exterior',
+    'INT/EXT': 'Interior and exterior',
+    'I/E': 'Interior and exterior',
+};
+
+export function findLocationByName(locations: SceneLocation[], name: string): SceneLocation | undefined {
+    const key = name.trim().toUpperCase();
+    return locations.find(loc => loc.name.trim().toUpperCase() === key);
+}
+
+/**
+ * Matches each imported page's scene heading to a location, reusing the bank's
+ * entries by name and creating one per new name.
+ * @returns The new locations and, per heading, the linked location id
+ */
+export function resolveImportedLocations(
+    headings: SceneHeading[],
+    existing: SceneLocation[],
+    newId: () => string = genId
+): { created: SceneLocation[]; locationIds: (string | undefined)[] } {
+    const created: SceneLocation[] = [];
+    const locationIds = headings.map(heading => {
+        const name = heading.location?.trim();
+        if (!name) return undefined;
+
+        const known = findLocationByName([...existing, ...created], name);
+        if (known) return known.id;
+
+        const location: SceneLocation = {
+            id: newId(),
+            name,
+            description: SCENE_TYPE_DESCRIPTIONS[heading.sceneType?.toUpperCase() || ''] || '',
+        };
+        created.push(location);
+        return location.id;
+    });
+    return { created, locationIds };
+}
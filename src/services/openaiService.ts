@@ -1,4 +1,5 @@
 import { AspectRatio } from "../types";
+import { dataUrlToBlob } from "./imageStorage";
 
 /**
  * Generates an image using OpenAI's GPT Image API.
@@ -6,7 +7,7 @@ import { AspectRatio } from "../types";
  */
 
 // Map aspect ratios to OpenAI supported sizes
-function getImageSize(aspectRatio: AspectRatio | string): string {
+export function getImageSize(aspectRatio: AspectRatio | string): string {
     const ratio = String(aspectRatio).toLowerCase();
     switch (ratio) {
         case 'wide':
@@ -21,6 +22,18 @@ function getImageSize(aspectRatio: AspectRatio | string): string {
     }
 }
 
+// The edits endpoint takes reference images as multipart file uploads
+function buildEditForm(prompt: string, size: string, referenceImages: string[]): FormData {
+    const form = new FormData();
+    form.append('model', 'gpt-image-1');
+    form.append('prompt', prompt.trim());
+    form.append('n', '1');
+    form.append('size', size);
+    form.append('quality', 'medium');
+    referenceImages.forEach((image, i) => form.append('image[]', dataUrlToBlob(image), `reference-${i}.png`));
+    return form;
+}
+
 interface OpenAIImageResponse {
     data?: Array<{
         b64_json?: string;
@@ -39,13 +52,15 @@ interface OpenAIImageResponse {
  * @param apiKey - The OpenAI API key (BYOK)
  * @param initImage - Optional base64 image for reference (reserved for future img2img)
  * @param strength - Strength parameter (reserved for future img2img support)
+ * @param referenceImages - Optional character reference sheets; sent through the edits endpoint
  */
 export async function generateOpenAIImage(
     prompt: string,
     aspectRatio: AspectRatio | string,
     apiKey: string,
     initImage?: string,
-    strength?: number
+    strength?: number,
+    referenceImages: string[] = []
 ): Promise<string> {
     if (!apiKey?.trim()) {
         throw new Error('OpenAI API key is missing or empty. Please enter your API key in the sidebar.');
@@ -54,21 +69,29 @@ export async function generateOpenAIImage(
     const size = getImageSize(aspectRatio);
 
     try {
-        const response = await fetch('https://api.openai.com/v1/images/generations', {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${apiKey.trim()}`,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                model: 'gpt-image-1',
-                prompt: prompt.trim(),
-                n: 1,
-                size: size,
-                quality: 'medium',
-                moderation: 'low',
-            }),
-        });
+        const response = referenceImages.length > 0
+            ? await fetch('https://api.openai.com/v1/images/edits', {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${apiKey.trim()}`,
+                },
+                body: buildEditForm(prompt, size, referenceImages),
+            })
+            : await fetch('https://api.openai.com/v1/images/generations', {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${apiKey.trim()}`,
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    model: 'gpt-image-1',
+                    prompt: prompt.trim(),
+                    n: 1,
+                    size: size,
+                    quality: 'medium',
+                    moderation: 'low',
+                }),
+            });
 
         if (!response.ok) {
             const rawText = await response.text();
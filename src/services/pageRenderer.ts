@@ -0,0 +1,279 @@
+import { Page, Panel, TextElement, TextOverlayStyle } from '../types';
+import { acquireImageUrl, releaseImageUrl } from './imageStorage';
+
+// Matches the defaults PanelCard uses for panels that were never resized
+export const DEFAULT_PANEL_WIDTH = 360;
+export const DEFAULT_PANEL_HEIGHT = 420;
+
+// Canvas units of white space kept around the outermost panels
+export const PAGE_MARGIN = 20;
+
+const BUBBLE_FONT = "'Comic Sans MS', 'Chalkboard', sans-serif";
+const BUBBLE_PADDING_X = 12;
+const BUBBLE_PADDING_Y = 8;
+const LINE_HEIGHT = 1.2;
+
+export interface PanelFrame {
+    panel: Panel;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface PageLayout {
+    width: number;
+    height: number;
+    frames: PanelFrame[];
+}
+
+export interface RenderPageOptions {
+    width: number;                      // Output width in pixels; height follows the page layout
+    margin?: number;                    // Canvas units around the panels (defaults to PAGE_MARGIN)
+    textOverlayStyle?: TextOverlayStyle;
+    background?: string;
+}
+
+interface BubbleStyle {
+    fill: string;
+    stroke: string;
+    lineWidth: number;
+    dashed?: boolean;
+    radius: number;
+}
+
+/**
+ * Lays a page out from its panels' canvas positions. The page is the bounding
+ * box of every panel plus a margin; frames are shifted so the page starts at 0,0.
+ */
+export function getPageLayout(page: Page, margin: number = PAGE_MARGIN): PageLayout {
+    if (page.panels.length === 0) {
+        return { width: 0, height: 0, frames: [] };
+    }
+
+    const rects = page.panels.map(panel => ({
+        panel,
+        x: panel.x || 0,
+        y: panel.y || 0,
+        width: panel.width || DEFAULT_PANEL_WIDTH,
+        height: panel.height || DEFAULT_PANEL_HEIGHT,
+    }));
+
+    const minX = Math.min(...rects.map(r => r.x));
+    const minY = Math.min(...rects.map(r => r.y));
+    const maxX = Math.max(...rects.map(r => r.x + r.width));
+    const maxY = Math.max(...rects.map(r => r.y + r.height));
+
+    return {
+        width: maxX - minX + margin * 2,
+        height: maxY - minY + margin * 2,
+        frames: rects.map(r => ({ ...r, x: r.x - minX + margin, y: r.y - minY + margin })),
+    };
+}
+
+// Script dialogue lines (x/y of -1) live under the panel and are never lettered
+export function getLetteredElements(panel: Panel): TextElement[] {
+    return panel.textElements.filter(el => !(el.x === -1 && el.y === -1) && el.content.trim());
+}
+
+function getBubbleStyle(type: TextElement['type'], overlayStyle: TextOverlayStyle, scale: number): BubbleStyle {
+    const baseFill: Record<TextElement['type'], string> = {
+        dialogue: '#ffffff',
+        thought: '#ffffff',
+        caption: '#fffacd',
+        phone: '#e0e0e0',
+    };
+    const radius = { dialogue: 12, thought: 0, caption: 4, phone: 8 }[type] * scale;
+    const dashed = type === 'phone';
+
+    if (overlayStyle === 'semi-transparent') {
+        const alpha: Record<TextElement['type'], string> = {
+            dialogue: 'rgba(255, 255, 255, 0.7)',
+            thought: 'rgba(255, 255, 255, 0.7)',
+            caption: 'rgba(255, 250, 205, 0.7)',
+            phone: 'rgba(224, 224, 224, 0.7)',
+        };
+        return { fill: alpha[type], stroke: '#6b7280', lineWidth: scale, dashed, radius };
+    }
+
+    return {
+        fill: overlayStyle === 'border-only' ? 'transparent' : baseFill[type],
+        stroke: 'black',
+        lineWidth: 2 * scale,
+        dashed,
+        radius,
+    };
+}
+
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+    const lines: string[] = [];
+    text.split('\n').forEach(paragraph => {
+        let line = '';
+        paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+            const candidate = line ? `${line} ${word}` : word;
+            if (line && ctx.measureText(candidate).width > maxWidth) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        });
+        lines.push(line);
+    });
+    return lines;
+}
+
+function drawTextElement(ctx: CanvasRenderingContext2D, element: TextElement, frame: PanelFrame, scale: number, overlayStyle: TextOverlayStyle) {
+    const fontSize = element.fontSize * scale;
+    const padX = BUBBLE_PADDING_X * scale;
+    const padY = BUBBLE_PADDING_Y * scale;
+    ctx.font = `${element.type === 'caption' ? 'italic ' : ''}${fontSize}px ${BUBBLE_FONT}`;
+
+    // Bubbles grow with their text up to 85% of the panel, as on the canvas
+    const left = frame.x + (element.x / 100) * frame.width;
+    const top = frame.y + (element.y / 100) * frame.height;
+    const lines = wrapText(ctx, element.content.trim(), frame.width * 0.85 - padX * 2);
+    const textWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
+    const width = Math.max(textWidth + padX * 2, 40 * scale);
+    const height = lines.length * fontSize * LINE_HEIGHT + padY * 2;
+    const style = getBubbleStyle(element.type, overlayStyle, scale);
+
+    ctx.save();
+    ctx.fillStyle = style.fill;
+    ctx.strokeStyle = style.stroke;
+    ctx.lineWidth = style.lineWidth;
+    ctx.setLineDash(style.dashed ? [4 * scale, 3 * scale] : []);
+
+    // Tail is drawn first so the bubble covers its base
+    const tailStyle = element.tailStyle ?? (element.type === 'thought' ? 'cloud' : 'pointy');
+    if (tailStyle !== 'none' && element.type !== 'caption') {
+        const baseX = left + width / 2;
+        const baseY = top + height;
+        const tipX = frame.x + ((element.tailX ?? element.x + 15) / 100) * frame.width;
+        const tipY = frame.y + ((element.tailY ?? element.y + 25) / 100) * frame.height;
+
+        if (tailStyle === 'pointy') {
+            const halfBase = Math.min(width / 6, 16 * scale);
+            ctx.beginPath();
+            ctx.moveTo(baseX - halfBase, baseY - style.lineWidth);
+            ctx.lineTo(tipX, tipY);
+            ctx.lineTo(baseX + halfBase, baseY - style.lineWidth);
+            ctx.closePath();
+            ctx.fill();
+            ctx.stroke();
+        } else {
+            [0.25, 0.5, 0.75].forEach((t, i) => {
+                ctx.beginPath();
+                ctx.arc(baseX + (tipX - baseX) * t, baseY + (tipY - baseY) * t, (6 - i * 1.5) * scale, 0, Math.PI * 2);
+                ctx.fill();
+                ctx.stroke();
+            });
+        }
+    }
+
+    const centerX = left + width / 2;
+    const centerY = top + height / 2;
+    ctx.translate(centerX, centerY);
+    ctx.rotate(((element.rotation || 0) * Math.PI) / 180);
+
+    ctx.beginPath();
+    if (element.type === 'thought') {
+        ctx.ellipse(0, 0, width / 2, height / 2, 0, 0, Math.PI * 2);
+    } else {
+        ctx.roundRect(-width / 2, -height / 2, width, height, style.radius);
+    }
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.fillStyle = element.color;
+    ctx.textBaseline = 'top';
+    lines.forEach((line, i) => {
+        ctx.fillText(line, -width / 2 + padX, -height / 2 + padY + i * fontSize * LINE_HEIGHT);
+    });
+    ctx.restore();
+}
+
+export async function loadPanelImage(imageUrl: string): Promise<HTMLImageElement | null> {
+    const storedId = imageUrl.startsWith('idb://') ? imageUrl.slice(6) : null;
+    const src = storedId ? await acquireImageUrl(storedId) : imageUrl;
+    if (!src) {
+        if (storedId) releaseImageUrl(storedId);
+        return null;
+    }
+
+    return new Promise(resolve => {
+        const img = new Image();
+        // Remote images must allow CORS or the canvas can't be exported
+        if (!src.startsWith('data:') && !src.startsWith('blob:')) img.crossOrigin = 'anonymous';
+        const done = (result: HTMLImageElement | null) => {
+            // The decoded image stays drawable after its object URL is revoked
+            if (storedId) releaseImageUrl(storedId);
+            resolve(result);
+        };
+        img.onload = () => done(img);
+        img.onerror = () => done(null);
+        img.src = src;
+    });
+}
+
+/**
+ * Composes a page into a single image: each panel's hero image is cropped to
+ * its frame (like object-cover on the canvas) and its lettering drawn on top.
+ */
+export async function renderPageToCanvas(page: Page, options: RenderPageOptions): Promise<HTMLCanvasElement> {
+    const layout = getPageLayout(page, options.margin ?? PAGE_MARGIN);
+    const scale = layout.width > 0 ? options.width / layout.width : 1;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(layout.width * scale);
+    canvas.height = Math.round(layout.height * scale);
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas rendering is not supported in this browser.');
+
+    ctx.fillStyle = options.background || '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    for (const layoutFrame of layout.frames) {
+        const frame: PanelFrame = {
+            ...layoutFrame,
+            x: layoutFrame.x * scale,
+            y: layoutFrame.y * scale,
+            width: layoutFrame.width * scale,
+            height: layoutFrame.height * scale,
+        };
+
+        const img = frame.panel.imageUrl ? await loadPanelImage(frame.panel.imageUrl) : null;
+        if (img) {
+            const coverScale = Math.max(frame.width / img.width, frame.height / img.height);
+            const drawWidth = img.width * coverScale;
+            const drawHeight = img.height * coverScale;
+            ctx.save();
+            ctx.beginPath();
+            ctx.rect(frame.x, frame.y, frame.width, frame.height);
+            ctx.clip();
+            ctx.drawImage(img, frame.x + (frame.width - drawWidth) / 2, frame.y + (frame.height - drawHeight) / 2, drawWidth, drawHeight);
+            ctx.restore();
+        }
+
+        ctx.strokeStyle = 'black';
+        ctx.lineWidth = 2 * scale;
+        ctx.strokeRect(frame.x, frame.y, frame.width, frame.height);
+
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(frame.x, frame.y, frame.width, frame.height);
+        ctx.clip();
+        getLetteredElements(frame.panel).forEach(element => {
+            drawTextElement(ctx, element, frame, scale, options.textOverlayStyle || 'opaque');
+        });
+        ctx.restore();
+    }
+
+    return canvas;
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type: string = 'image/jpeg', quality: number = 0.92): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode page image.'))), type, quality);
+    });
+}
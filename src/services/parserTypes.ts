@@ -40,6 +40,7 @@ export interface DialogueLine {
     text: string;
     type: 'spoken' | 'voiceover' | 'caption' | 'thought';
     parenthetical?: string; // (V.O.), (O.S.), (CONT'D), stage directions, etc.
+    dual?: boolean;         // Spoken at the same time as the previous line (dual dialogue)
 }
 
 export interface CharacterCount {
@@ -0,0 +1,77 @@
+import { describe, test, expect } from 'vitest';
+import { canDispatch, getActionProjectId, getProjectRole, isActionPermitted } from './permissions';
+import { Action } from '../state/actions';
+import { AppState, AspectRatio, Project, ProjectRole } from '../types';
+
+const project = (id: string, panelId: string): Project => ({
+    id,
+    title: id,
+    style: 'classic-noir',
+    issueType: 'issue',
+    imageProvider: 'gemini',
+    characters: [],
+    issues: [{ id: `${id}-i1`, title: 'Issue #1', pages: [{ id: `${id}-pg1`, number: 1, panels: [
+        { id: panelId, prompt: '', aspectRatio: AspectRatio.WIDE, characterIds: [], textElements: [] }
+    ] }] }]
+});
+
+const state: AppState = {
+    projects: [project('mine', 'pan-mine'), project('shared', 'pan-shared')],
+    activeProjectId: 'mine',
+    activeIssueId: 'mine-i1',
+    activePageId: 'mine-pg1',
+    projectRoles: { shared: 'letterer' }
+};
+
+const updateText: Action = { type: 'UPDATE_TEXT_ELEMENT', panelId: 'pan-shared', elementId: 't1', updates: { content: 'Hey!' } };
+const updatePanel: Action = { type: 'UPDATE_PANEL', panelId: 'pan-shared', updates: { prompt: 'Rain' } };
+
+describe('canDispatch', () => {
+    test('letterers may only change text elements and comment', () => {
+        expect(canDispatch('letterer', updateText)).toBe(true);
+        expect(canDispatch('letterer', { type: 'DELETE_TEXT_ELEMENT', panelId: 'p', elementId: 't' })).toBe(true);
+        expect(canDispatch('letterer', { type: 'RESOLVE_COMMENT_THREAD', panelId: 'p', threadId: 't', resolved: true })).toBe(true);
+        expect(canDispatch('letterer', updatePanel)).toBe(false);
+        expect(canDispatch('letterer', { type: 'ADD_PAGE', issueId: 'i' })).toBe(false);
+    });
+
+    test('viewers may only navigate', () => {
+        expect(canDispatch('viewer', updateText)).toBe(false);
+        expect(canDispatch('viewer', { type: 'SET_ACTIVE_PAGE', id: 'pg' })).toBe(true);
+    });
+
+    test('only owners delete the project', () => {
+        const remove: Action = { type: 'DELETE_PROJECT', id: 'shared' };
+        expect(canDispatch('editor', updatePanel)).toBe(true);
+        expect(canDispatch('editor', remove)).toBe(false);
+        expect(canDispatch('owner', remove)).toBe(true);
+    });
+});
+
+describe('getActionProjectId', () => {
+    test('finds the project from the ids an action carries', () => {
+        expect(getActionProjectId(state, updatePanel)).toBe('shared');
+        expect(getActionProjectId(state, { type: 'ADD_PANEL', pageId: 'shared-pg1' })).toBe('shared');
+        expect(getActionProjectId(state, { type: 'ADD_PAGE', issueId: 'shared-i1' })).toBe('shared');
+        expect(getActionProjectId(state, { type: 'ADD_ISSUE', projectId: 'shared' })).toBe('shared');
+        expect(getActionProjectId(state, { type: 'ADD_CHARACTER', name: 'Vera', description: '' })).toBe('mine');
+    });
+});
+
+describe('isActionPermitted', () => {
+    test("checks the role in the action's project, treating unshared projects as owned", () => {
+        expect(getProjectRole(state, 'mine')).toBe('owner');
+        expect(isActionPermitted(state, updatePanel)).toBe(false);
+        expect(isActionPermitted(state, updateText)).toBe(true);
+        expect(isActionPermitted(state, { type: 'UPDATE_PANEL', panelId: 'pan-mine', updates: { prompt: 'Rain' } })).toBe(true);
+    });
+
+    test("checks a collaborator's action against the sender's role, not this user's", () => {
+        const remote = (senderRole: ProjectRole, action: Action): Action => ({ type: 'APPLY_REMOTE_ACTION', projectId: 'shared', senderRole, action });
+
+        expect(isActionPermitted(state, remote('editor', updatePanel))).toBe(true);
+        expect(isActionPermitted(state, remote('viewer', updateText))).toBe(false);
+        expect(isActionPermitted(state, remote('owner', { type: 'UPDATE_PANEL', panelId: 'pan-mine', updates: { prompt: 'Rain' } }))).toBe(false);
+        expect(isActionPermitted(state, remote('owner', remote('owner', updatePanel)))).toBe(false);
+    });
+});
@@ -0,0 +1,138 @@
+import { AppState, ProjectRole } from '../types';
+import { Action } from '../state/actions';
+
+/**
+ * Project Permissions
+ *
+ * Decides which reducer actions a user may dispatch in a project given their
+ * role in it. Pure, so the same checks run in the reducer, before a live
+ * session broadcasts an edit, and in tests.
+ */
+
+export const ROLE_LABELS: Record<ProjectRole, string> = {
+    owner: 'Owner',
+    editor: 'Editor',
+    letterer: 'Letterer',
+    viewer: 'Viewer',
+};
+
+export const ROLE_DESCRIPTIONS: Record<ProjectRole, string> = {
+    owner: 'Full access, manages sharing',
+    editor: 'Can change everything except sharing',
+    letterer: 'Can only edit bubbles and captions',
+    viewer: 'Can read the issue in Present mode',
+};
+
+// Navigation, loading and history only touch this device
+const UNRESTRICTED_ACTIONS = new Set<Action['type']>([
+    'HYDRATE',
+    'SET_ACTIVE_PROJECT',
+    'SET_ACTIVE_ISSUE',
+    'SET_ACTIVE_PAGE',
+    'ADD_PROJECT',
+    'IMPORT_PROJECT',
+    'SYNC_PROJECTS',
+    'SET_PROJECT_ROLES',
+    'UNDO',
+    'REDO',
+]);
+
+const TEXT_ELEMENT_ACTIONS = new Set<Action['type']>([
+    'ADD_TEXT_ELEMENT',
+    'UPDATE_TEXT_ELEMENT',
+    'DELETE_TEXT_ELEMENT',
+]);
+
+// Review comments are how letterers get notes, so they can take part
+const COMMENT_ACTIONS = new Set<Action['type']>([
+    'ADD_PANEL_COMMENT',
+    'RESOLVE_COMMENT_THREAD',
+    'DELETE_PANEL_COMMENT',
+]);
+
+/**
+ * Whether a role allows an action, regardless of which project it targets.
+ */
+export function canDispatch(role: ProjectRole, action: Action): boolean {
+    if (UNRESTRICTED_ACTIONS.has(action.type)) return true;
+
+    switch (role) {
+        case 'owner':
+            return true;
+        case 'editor':
+            return action.type !== 'DELETE_PROJECT';
+        case 'letterer':
+            return TEXT_ELEMENT_ACTIONS.has(action.type) || COMMENT_ACTIONS.has(action.type);
+        case 'viewer':
+            return false;
+    }
+}
+
+/**
+ * Projects that weren't shared with this user are their own.
+ */
+export function getProjectRole(state: AppState, projectId: string | null): ProjectRole {
+    return (projectId && state.projectRoles?.[projectId]) || 'owner';
+}
+
+export function canEditProject(role: ProjectRole): boolean {
+    return role === 'owner' || role === 'editor';
+}
+
+/**
+ * The project an action changes, found from the ids it carries. Character,
+ * location and prop actions apply to the active project, as the reducer does.
+ */
+export function getActionProjectId(state: AppState, action: Action): string | null {
+    switch (action.type) {
+        case 'UPDATE_PROJECT':
+        case 'DELETE_PROJECT':
+            return action.id;
+        case 'ADD_CHARACTER':
+        case 'UPDATE_CHARACTER':
+        case 'DELETE_CHARACTER':
+        case 'ADD_LOCATION':
+        case 'UPDATE_LOCATION':
+        case 'DELETE_LOCATION':
+        case 'ADD_PROP':
+        case 'UPDATE_PROP':
+        case 'DELETE_PROP':
+            return state.activeProjectId;
+    }
+    if ('projectId' in action) return action.projectId;
+
+    const issueId = 'issueId' in action ? action.issueId : null;
+    const pageId = 'pageId' in action ? action.pageId : null;
+    const panelId = 'panelId' in action ? action.panelId : null;
+    const project = state.projects.find(proj => proj.issues.some(issue =>
+        issue.id === issueId || issue.pages.some(page =>
+            page.id === pageId || page.panels.some(panel => panel.id === panelId))));
+    return project?.id ?? state.activeProjectId;
+}
+
+/**
+ * Whether a collaborator's action may be applied: it must stay inside the
+ * shared project and be allowed by the sender's role there. Snapshots replace
+ * the whole project, so only owners and editors may send one.
+ */
+export function isRemoteActionPermitted(state: AppState, projectId: string, senderRole: ProjectRole, action: Action): boolean {
+    if (action.type === 'SYNC_PROJECTS') {
+        return canEditProject(senderRole) && action.projects.every(project => project.id === projectId);
+    }
+    // Navigation, history and whole-project actions never come from peers
+    if (UNRESTRICTED_ACTIONS.has(action.type) || action.type === 'DELETE_PROJECT' || action.type === 'APPLY_REMOTE_ACTION') return false;
+    const scoped = { ...state, activeProjectId: projectId };
+    return getActionProjectId(scoped, action) === projectId && canDispatch(senderRole, action);
+}
+
+/**
+ * Whether this user may dispatch an action, given their role in the project it
+ * targets. A collaborator's action depends on their role instead.
+ */
+export function isActionPermitted(state: AppState, action: Action): boolean {
+    if (UNRESTRICTED_ACTIONS.has(action.type)) return true;
+    if (action.type === 'APPLY_REMOTE_ACTION') {
+        return isRemoteActionPermitted(state, action.projectId, action.senderRole, action.action);
+    }
+    return canDispatch(getProjectRole(state, getActionProjectId(state, action)), action);
+}
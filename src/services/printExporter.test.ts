@@ -0,0 +1,97 @@
+import { describe, test, expect } from 'vitest';
+import { DEFAULT_PRINT_SETTINGS, fitLayoutToArea, findUnsafeLettering, getArtArea, getCropMarks, getEffectiveDpi, getPrintGeometry } from './printExporter';
+import { AspectRatio, Page, TextElement } from '../types';
+
+describe('getPrintGeometry', () => {
+    test('adds bleed around the US comic trim without crop marks', () => {
+        const geometry = getPrintGeometry({ ...DEFAULT_PRINT_SETTINGS, cropMarks: false, bleed: 0.125, safeMargin: 0.25 });
+
+        expect(geometry.pageWidth).toBeCloseTo(6.875);
+        expect(geometry.pageHeight).toBeCloseTo(10.5);
+        expect(geometry.trim).toEqual({ x: 0.125, y: 0.125, width: 6.625, height: 10.25 });
+        expect(geometry.bleed).toEqual({ x: 0, y: 0, width: 6.875, height: 10.5 });
+        expect(geometry.safe).toEqual({ x: 0.375, y: 0.375, width: 6.125, height: 9.75 });
+    });
+
+    test('reserves a slug for crop marks and supports manga B6', () => {
+        const geometry = getPrintGeometry({ ...DEFAULT_PRINT_SETTINGS, pageSize: 'manga-b6', cropMarks: true, bleed: 0.125 });
+
+        expect(geometry.trim.width).toBeCloseTo(128 / 25.4);
+        expect(geometry.trim.height).toBeCloseTo(182 / 25.4);
+        expect(geometry.bleed.x).toBeGreaterThan(0);
+        expect(geometry.trim.x).toBeCloseTo(geometry.bleed.x + 0.125);
+        expect(geometry.pageWidth).toBeCloseTo(geometry.trim.width + geometry.trim.x * 2);
+    });
+});
+
+describe('fitLayoutToArea', () => {
+    test('scales canvas coordinates into the area and centers them', () => {
+        const placement = fitLayoutToArea(800, 1000, { x: 1, y: 1, width: 4, height: 8 });
+
+        expect(placement.scale).toBeCloseTo(0.005);
+        expect(placement.width).toBeCloseTo(4);
+        expect(placement.height).toBeCloseTo(5);
+        expect(placement.x).toBeCloseTo(1);
+        expect(placement.y).toBeCloseTo(2.5);
+    });
+});
+
+describe('getArtArea', () => {
+    test('runs full-bleed art out to the bleed line on the limiting axis', () => {
+        const settings = { ...DEFAULT_PRINT_SETTINGS, fullBleed: true };
+        const geometry = getPrintGeometry(settings);
+        const placement = fitLayoutToArea(1000, 2000, getArtArea(geometry, settings));
+
+        expect(placement.y).toBeCloseTo(geometry.bleed.y);
+        expect(placement.y + placement.height).toBeCloseTo(geometry.bleed.y + geometry.bleed.height);
+        expect(placement.y).toBeLessThan(geometry.trim.y);
+    });
+
+    test('keeps pages inside the safe area without full bleed', () => {
+        const settings = { ...DEFAULT_PRINT_SETTINGS, fullBleed: false };
+        expect(getArtArea(getPrintGeometry(settings), settings)).toEqual(getPrintGeometry(settings).safe);
+    });
+});
+
+describe('findUnsafeLettering', () => {
+    const bubble = (id: string, x: number, y: number): TextElement => ({ id, type: 'dialogue', content: 'Coffee?', x, y, width: 30, height: 15, fontSize: 16, color: '#000' });
+    const pages: Page[] = [{
+        id: 'pg1',
+        number: 3,
+        panels: [{
+            id: 'a', prompt: '', characterIds: [], aspectRatio: AspectRatio.PORTRAIT, x: 0, y: 0, width: 600, height: 900,
+            textElements: [bubble('edge', 0, 0), bubble('middle', 35, 40), { ...bubble('script', -1, -1), width: 100 }],
+        }],
+    }];
+
+    test('flags bubbles full-bleed art pushes past the safe area', () => {
+        expect(findUnsafeLettering(pages, { ...DEFAULT_PRINT_SETTINGS, fullBleed: true }))
+            .toEqual([{ pageNumber: 3, panelIndex: 0, elementId: 'edge' }]);
+    });
+
+    test('has nothing to flag when pages sit in the safe area', () => {
+        expect(findUnsafeLettering(pages, { ...DEFAULT_PRINT_SETTINGS, fullBleed: false })).toEqual([]);
+    });
+});
+
+describe('getCropMarks', () => {
+    test('draws two marks per trim corner, outside the bleed', () => {
+        const settings = { ...DEFAULT_PRINT_SETTINGS, cropMarks: true };
+        const geometry = getPrintGeometry(settings);
+        const marks = getCropMarks(geometry, settings.bleed);
+
+        expect(marks).toHaveLength(8);
+        const [x1, y1, x2, y2] = marks[0];
+        expect(y1).toBe(geometry.trim.y);
+        expect(y2).toBe(geometry.trim.y);
+        expect(Math.max(x1, x2)).toBeLessThan(geometry.bleed.x);
+        expect(Math.min(x1, x2)).toBeGreaterThanOrEqual(0);
+    });
+});
+
+describe('getEffectiveDpi', () => {
+    test('uses the limiting axis of a cover-cropped image', () => {
+        expect(getEffectiveDpi(1024, 1024, 4, 2)).toBe(256);
+        expect(getEffectiveDpi(3000, 1500, 5, 2.5)).toBe(600);
+    });
+});
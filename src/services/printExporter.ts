@@ -0,0 +1,231 @@
+import { jsPDF } from 'jspdf';
+import { Page, PrintPageSize, PrintSettings, Project } from '../types';
+import { getLetteredElements, getPageLayout, loadPanelImage, renderPageToCanvas } from './pageRenderer';
+
+export const PRINT_PAGE_SIZES: Record<PrintPageSize, { label: string; width: number; height: number }> = {
+    'us-comic': { label: 'US Comic (6.625 × 10.25 in)', width: 6.625, height: 10.25 },
+    'manga-b6': { label: 'Manga B6 (128 × 182 mm)', width: 128 / 25.4, height: 182 / 25.4 },
+    'a4': { label: 'A4 (210 × 297 mm)', width: 210 / 25.4, height: 297 / 25.4 },
+    'us-letter': { label: 'US Letter (8.5 × 11 in)', width: 8.5, height: 11 },
+};
+
+export const DEFAULT_PRINT_SETTINGS: PrintSettings = {
+    pageSize: 'us-comic',
+    bleed: 0.125,
+    safeMargin: 0.375,
+    fullBleed: true,
+    cropMarks: true,
+    minDpi: 300,
+};
+
+// Resolution pages are rasterised at before being placed in the PDF
+export const PRINT_RENDER_DPI = 300;
+
+// Crop marks sit in a slug outside the bleed, separated from it by a small gap
+const CROP_MARK_GAP = 0.0625;
+const CROP_MARK_LENGTH = 0.25;
+const SLUG = CROP_MARK_GAP + CROP_MARK_LENGTH + 0.0625;
+
+export interface PrintRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface PrintGeometry {
+    pageWidth: number;
+    pageHeight: number;
+    trim: PrintRect;
+    bleed: PrintRect;
+    safe: PrintRect;
+}
+
+export interface LowDpiPanel {
+    pageNumber: number;
+    panelIndex: number;
+    panelId: string;
+    dpi: number;
+}
+
+export interface UnsafeLettering {
+    pageNumber: number;
+    panelIndex: number;
+    elementId: string;
+}
+
+/**
+ * Works out the PDF page box (trim + bleed, plus a slug when crop marks are on)
+ * and the trim, bleed and safe areas inside it, in inches.
+ */
+export function getPrintGeometry(settings: PrintSettings): PrintGeometry {
+    const size = PRINT_PAGE_SIZES[settings.pageSize];
+    const slug = settings.cropMarks ? SLUG : 0;
+    const offset = slug + settings.bleed;
+
+    return {
+        pageWidth: size.width + offset * 2,
+        pageHeight: size.height + offset * 2,
+        trim: { x: offset, y: offset, width: size.width, height: size.height },
+        bleed: { x: slug, y: slug, width: size.width + settings.bleed * 2, height: size.height + settings.bleed * 2 },
+        safe: {
+            x: offset + settings.safeMargin,
+            y: offset + settings.safeMargin,
+            width: size.width - settings.safeMargin * 2,
+            height: size.height - settings.safeMargin * 2,
+        },
+    };
+}
+
+/**
+ * Scales a page layout (canvas units) to fit inside an area, centered.
+ */
+export function fitLayoutToArea(layoutWidth: number, layoutHeight: number, area: PrintRect): PrintRect & { scale: number } {
+    const scale = Math.min(area.width / layoutWidth, area.height / layoutHeight);
+    const width = layoutWidth * scale;
+    const height = layoutHeight * scale;
+    return {
+        x: area.x + (area.width - width) / 2,
+        y: area.y + (area.height - height) / 2,
+        width,
+        height,
+        scale,
+    };
+}
+
+/**
+ * Where a page's art goes: out to the bleed line for full bleed, so panels at
+ * the page edge run off it once trimmed, otherwise inside the safe area.
+ */
+export function getArtArea(geometry: PrintGeometry, settings: PrintSettings): PrintRect {
+    return settings.fullBleed ? geometry.bleed : geometry.safe;
+}
+
+/**
+ * Crop mark segments as [x1, y1, x2, y2], two per trim corner.
+ */
+export function getCropMarks(geometry: PrintGeometry, bleed: number): [number, number, number, number][] {
+    const { trim } = geometry;
+    const start = bleed + CROP_MARK_GAP;
+    const end = start + CROP_MARK_LENGTH;
+    const marks: [number, number, number, number][] = [];
+
+    [trim.x, trim.x + trim.width].forEach((x, xi) => {
+        [trim.y, trim.y + trim.height].forEach((y, yi) => {
+            const dx = xi === 0 ? -1 : 1;
+            const dy = yi === 0 ? -1 : 1;
+            marks.push([x + dx * start, y, x + dx * end, y]);
+            marks.push([x, y + dy * start, x, y + dy * end]);
+        });
+    });
+
+    return marks;
+}
+
+/**
+ * Resolution a panel image prints at when cropped to fill its frame (object-cover).
+ */
+export function getEffectiveDpi(imageWidth: number, imageHeight: number, frameWidthIn: number, frameHeightIn: number): number {
+    return Math.min(imageWidth / frameWidthIn, imageHeight / frameHeightIn);
+}
+
+// Pages without panels are not printed
+const getPrintablePages = (pages: Page[]) => pages.filter(page => page.panels.length > 0);
+
+/**
+ * Finds panel images that would print below settings.minDpi at the chosen trim size.
+ */
+export async function findLowDpiPanels(pages: Page[], settings: PrintSettings): Promise<LowDpiPanel[]> {
+    const geometry = getPrintGeometry(settings);
+    const lowDpi: LowDpiPanel[] = [];
+
+    for (const page of getPrintablePages(pages)) {
+        const layout = getPageLayout(page, 0);
+        const placement = fitLayoutToArea(layout.width, layout.height, getArtArea(geometry, settings));
+
+        for (let i = 0; i < layout.frames.length; i++) {
+            const frame = layout.frames[i];
+            if (!frame.panel.imageUrl) continue;
+
+            const img = await loadPanelImage(frame.panel.imageUrl);
+            if (!img) continue;
+
+            const dpi = getEffectiveDpi(img.naturalWidth, img.naturalHeight, frame.width * placement.scale, frame.height * placement.scale);
+            if (dpi < settings.minDpi) {
+                lowDpi.push({ pageNumber: page.number, panelIndex: i, panelId: frame.panel.id, dpi: Math.round(dpi) });
+            }
+        }
+    }
+
+    return lowDpi;
+}
+
+/**
+ * Finds lettering that full-bleed art pushes outside the safe area, where
+ * trimming may cut it. Bubbles are measured by their box on the canvas.
+ */
+export function findUnsafeLettering(pages: Page[], settings: PrintSettings): UnsafeLettering[] {
+    if (!settings.fullBleed) return [];
+
+    const geometry = getPrintGeometry(settings);
+    const { safe } = geometry;
+    const unsafe: UnsafeLettering[] = [];
+
+    for (const page of getPrintablePages(pages)) {
+        const layout = getPageLayout(page, 0);
+        const placement = fitLayoutToArea(layout.width, layout.height, getArtArea(geometry, settings));
+
+        layout.frames.forEach((frame, panelIndex) => {
+            const frameX = placement.x + frame.x * placement.scale;
+            const frameY = placement.y + frame.y * placement.scale;
+            const frameWidth = frame.width * placement.scale;
+            const frameHeight = frame.height * placement.scale;
+
+            getLetteredElements(frame.panel).forEach(element => {
+                const left = frameX + (element.x / 100) * frameWidth;
+                const top = frameY + (element.y / 100) * frameHeight;
+                const right = left + (element.width / 100) * frameWidth;
+                const bottom = top + (element.height / 100) * frameHeight;
+                if (left < safe.x || top < safe.y || right > safe.x + safe.width || bottom > safe.y + safe.height) {
+                    unsafe.push({ pageNumber: page.number, panelIndex, elementId: element.id });
+                }
+            });
+        });
+    }
+
+    return unsafe;
+}
+
+/**
+ * Builds a print PDF: one PDF page per comic page, sized to trim + bleed, with
+ * panels placed by their canvas coordinates in the art area (see getArtArea).
+ */
+export async function exportPrintPdf(project: Project, pages: Page[], settings: PrintSettings): Promise<jsPDF> {
+    const geometry = getPrintGeometry(settings);
+    const orientation = geometry.pageWidth > geometry.pageHeight ? 'landscape' : 'portrait';
+    const format = [geometry.pageWidth, geometry.pageHeight];
+    const pdf = new jsPDF({ orientation, unit: 'in', format });
+
+    const printable = getPrintablePages(pages);
+    for (let i = 0; i < printable.length; i++) {
+        if (i > 0) pdf.addPage(format, orientation);
+
+        const page = printable[i];
+        const layout = getPageLayout(page, 0);
+        const placement = fitLayoutToArea(layout.width, layout.height, getArtArea(geometry, settings));
+        const canvas = await renderPageToCanvas(page, {
+            width: Math.round(placement.width * PRINT_RENDER_DPI),
+            margin: 0,
+            textOverlayStyle: project.textOverlayStyle,
+        });
+        pdf.addImage(canvas.toDataURL('image/jpeg', 0.92), 'JPEG', placement.x, placement.y, placement.width, placement.height);
+
+        if (settings.cropMarks) {
+            pdf.setDrawColor(0);
+            pdf.setLineWidth(0.25 / 72);
+            getCropMarks(geometry, settings.bleed).forEach(([x1, y1, x2, y2]) => pdf.line(x1, y1, x2, y2));
+        }
+    }
+
+    return pdf;
+}
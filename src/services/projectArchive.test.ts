@@ -0,0 +1,117 @@
+import { describe, test, expect } from 'vitest';
+import {
+    PROJECT_ARCHIVE_FORMAT,
+    collectImageIds,
+    remapProjectIds,
+    validateManifest
+} from './projectArchive';
+import { AspectRatio, Project } from '../types';
+import { CURRENT_SCHEMA_VERSION } from '../state/migrations';
+
+const project: Project = {
+    id: 'p1',
+    title: 'Night Shift',
+    style: 'classic-noir',
+    issueType: 'issue',
+    imageProvider: 'gemini',
+    characters: [{ id: 'c1', name: 'Maggie', description: '', referenceImages: ['idb://sheet-1'] }],
+    locations: [{ id: 'l1', name: "JOE'S DINER", description: 'Interior', referenceImages: ['idb://set-1'] }],
+    props: [{ id: 'gun', name: 'Revolver', description: '', referenceImages: ['idb://prop-1'] }],
+    issues: [{
+        id: 'i1',
+        title: 'Issue #1',
+        wardrobe: { c1: 'winter-coat', missing: 'armor' },
+        pages: [{
+            id: 'pg1',
+            number: 1,
+            panels: [
+                {
+                    id: 'a',
+                    prompt: 'Diner',
+                    aspectRatio: AspectRatio.WIDE,
+                    characterIds: ['c1', 'missing'],
+                    locationId: 'l1',
+                    propIds: ['gun', 'missing'],
+                    imageUrl: 'idb://take-2',
+                    activeTakeId: 'take-2',
+                    takes: [
+                        { id: 'take-1', imageUrl: 'idb://take-1', prompt: 'Diner', createdAt: 1 },
+                        { id: 'take-2', imageUrl: 'idb://take-2', prompt: 'Diner', createdAt: 2 }
+                    ],
+                    textElements: [{ id: 't1', type: 'dialogue', content: 'Hi', x: 10, y: 10, width: 30, height: 10, fontSize: 16, color: '#000' }],
+                    comments: [
+                        { id: 'th1', elementId: 't1', resolved: false, comments: [{ id: 'cm1', authorId: 'u1', authorName: 'Ana', body: 'Tighten this', mentions: [], createdAt: 1 }] },
+                        { id: 'th2', resolved: true, comments: [] }
+                    ]
+                },
+                {
+                    id: 'b',
+                    prompt: 'Counter',
+                    aspectRatio: AspectRatio.WIDE,
+                    characterIds: [],
+                    imageUrl: 'https://example.com/remote.png',
+                    referencePanelId: 'a',
+                    textElements: []
+                }
+            ]
+        }]
+    }]
+};
+
+describe('project archive', () => {
+    test('collects every idb image once, including takes and reference sheets', () => {
+        expect(collectImageIds(project).sort()).toEqual(['prop-1', 'set-1', 'sheet-1', 'take-1', 'take-2']);
+    });
+
+    test('remaps every id and keeps references consistent', () => {
+        let counter = 0;
+        const { project: restored, imageIds } = remapProjectIds(project, () => `new-${++counter}`);
+        const [panelA, panelB] = restored.issues[0].pages[0].panels;
+
+        expect(restored.id).not.toBe(project.id);
+        expect(restored.issues[0].id).not.toBe('i1');
+        expect(restored.issues[0].pages[0].id).not.toBe('pg1');
+        expect(panelA.id).not.toBe('a');
+        expect(panelA.textElements[0].id).not.toBe('t1');
+
+        // Character links follow the new character id; dangling ones are dropped
+        expect(panelA.characterIds).toEqual([restored.characters[0].id]);
+        expect(restored.issues[0].wardrobe).toEqual({ [restored.characters[0].id]: 'winter-coat' });
+        expect(panelB.referencePanelId).toBe(panelA.id);
+        expect(panelA.locationId).toBe(restored.locations?.[0].id);
+        expect(panelA.locationId).not.toBe('l1');
+        expect(panelA.propIds).toEqual([restored.props?.[0].id]);
+
+        // Hero, takes and images all point at the new ids
+        expect(imageIds.get('take-1')).toBeDefined();
+        expect(panelA.imageUrl).toBe(`idb://${imageIds.get('take-2')}`);
+        expect(panelA.takes?.map(t => t.imageUrl)).toEqual([`idb://${imageIds.get('take-1')}`, `idb://${imageIds.get('take-2')}`]);
+        expect(panelA.activeTakeId).toBe(panelA.takes?.[1].id);
+        expect(panelB.imageUrl).toBe('https://example.com/remote.png');
+        expect(restored.characters[0].referenceImages).toEqual([`idb://${imageIds.get('sheet-1')}`]);
+        expect(restored.locations?.[0].referenceImages).toEqual([`idb://${imageIds.get('set-1')}`]);
+        expect(restored.props?.[0].referenceImages).toEqual([`idb://${imageIds.get('prop-1')}`]);
+    });
+
+    test('keeps comment threads attached to their remapped text elements', () => {
+        let counter = 0;
+        const { project: restored } = remapProjectIds(project, () => `new-${++counter}`);
+        const [panelA] = restored.issues[0].pages[0].panels;
+        const [elementThread, panelThread] = panelA.comments!;
+
+        expect(elementThread.elementId).toBe(panelA.textElements[0].id);
+        expect(elementThread.id).not.toBe('th1');
+        expect(elementThread.comments[0].id).not.toBe('cm1');
+        expect(elementThread.comments[0].body).toBe('Tighten this');
+        expect(panelThread.elementId).toBeUndefined();
+        expect(panelThread.resolved).toBe(true);
+    });
+
+    test('validates the manifest format and schema version', () => {
+        const manifest = { format: PROJECT_ARCHIVE_FORMAT, schemaVersion: CURRENT_SCHEMA_VERSION, project, images: {} };
+        expect(validateManifest(manifest)).toBeNull();
+        expect(validateManifest({ ...manifest, format: 'other' })).toMatch(/not an Ink Tracker/);
+        expect(validateManifest({ ...manifest, schemaVersion: CURRENT_SCHEMA_VERSION + 1 })).toMatch(/newer version/);
+        expect(validateManifest({ ...manifest, project: { title: 'x' } })).toMatch(/does not contain/);
+    });
+});
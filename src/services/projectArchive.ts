@@ -0,0 +1,184 @@
+import JSZip from 'jszip';
+import { Project, WardrobeSelection } from '../types';
+import { genId } from '../utils/helpers';
+import { getImageBlob, saveImage } from './imageStorage';
+import { CURRENT_SCHEMA_VERSION, migrateProject } from '../state/migrations';
+
+export const PROJECT_ARCHIVE_FORMAT = 'ink-tracker-project';
+export const PROJECT_ARCHIVE_EXTENSION = '.inkproject.zip';
+
+const MANIFEST_FILE = 'project.json';
+
+export interface ProjectArchiveManifest {
+    format: typeof PROJECT_ARCHIVE_FORMAT;
+    schemaVersion: number;            // Data schema version, see state/migrations
+    exportedAt: string;
+    project: Project;
+    images: Record<string, string>;   // idb image id -> file path inside the archive
+}
+
+const IDB_PREFIX = 'idb://';
+
+const toImageId = (url?: string) => (url?.startsWith(IDB_PREFIX) ? url.slice(IDB_PREFIX.length) : null);
+
+const EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+};
+
+/**
+ * Every IndexedDB image a project references: panel heroes, all of their takes
+ * and character, location and prop reference images.
+ */
+export function collectImageIds(project: Project): string[] {
+    const ids = new Set<string>();
+    [...project.characters, ...(project.locations || []), ...(project.props || [])].forEach(subject => subject.referenceImages?.forEach(url => {
+        const id = toImageId(url);
+        if (id) ids.add(id);
+    }));
+    project.issues.forEach(issue => issue.pages.forEach(page => page.panels.forEach(panel => {
+        const heroId = toImageId(panel.imageUrl);
+        if (heroId) ids.add(heroId);
+        panel.takes?.forEach(take => {
+            const takeId = toImageId(take.imageUrl);
+            if (takeId) ids.add(takeId);
+        });
+    })));
+    return [...ids];
+}
+
+/**
+ * Gives a restored project fresh IDs throughout (project, issues, pages, panels,
+ * takes, text elements, characters, locations, props and images) and rewrites every reference to
+ * them, so importing the same archive twice never collides with existing data.
+ */
+export function remapProjectIds(project: Project, newId: () => string = genId): { project: Project; imageIds: Map<string, string> } {
+    const imageIds = new Map<string, string>();
+    const mapImage = (url?: string) => {
+        const id = toImageId(url);
+        if (!id) return url;
+        if (!imageIds.has(id)) imageIds.set(id, newId());
+        return `${IDB_PREFIX}${imageIds.get(id)}`;
+    };
+
+    const characterIds = new Map(project.characters.map(c => [c.id, newId()]));
+    const locationIds = new Map((project.locations || []).map(loc => [loc.id, newId()]));
+    const propIds = new Map((project.props || []).map(prop => [prop.id, newId()]));
+    const panelIds = new Map(project.issues.flatMap(issue => issue.pages.flatMap(page => page.panels.map(panel => [panel.id, newId()] as const))));
+    const mapWardrobe = (wardrobe?: WardrobeSelection) => wardrobe && Object.fromEntries(
+        Object.entries(wardrobe).filter(([id]) => characterIds.has(id)).map(([id, variantId]) => [characterIds.get(id)!, variantId])
+    );
+
+    const remapped: Project = {
+        ...project,
+        id: newId(),
+        characters: project.characters.map(c => ({ ...c, id: characterIds.get(c.id)!, referenceImages: c.referenceImages?.map(url => mapImage(url)!) })),
+        locations: project.locations?.map(loc => ({ ...loc, id: locationIds.get(loc.id)!, referenceImages: loc.referenceImages?.map(url => mapImage(url)!) })),
+        props: project.props?.map(prop => ({ ...prop, id: propIds.get(prop.id)!, referenceImages: prop.referenceImages?.map(url => mapImage(url)!) })),
+        issues: project.issues.map(issue => ({
+            ...issue,
+            id: newId(),
+            wardrobe: mapWardrobe(issue.wardrobe),
+            pages: issue.pages.map(page => ({
+                ...page,
+                id: newId(),
+                wardrobe: mapWardrobe(page.wardrobe),
+                panels: page.panels.map(panel => {
+                    const takeIds = new Map((panel.takes || []).map(take => [take.id, newId()]));
+                    const elementIds = new Map(panel.textElements.map(el => [el.id, newId()]));
+                    return {
+                        ...panel,
+                        id: panelIds.get(panel.id)!,
+                        imageUrl: mapImage(panel.imageUrl),
+                        takes: panel.takes?.map(take => ({ ...take, id: takeIds.get(take.id)!, imageUrl: mapImage(take.imageUrl)! })),
+                        activeTakeId: panel.activeTakeId ? takeIds.get(panel.activeTakeId) : undefined,
+                        characterIds: panel.characterIds.filter(id => characterIds.has(id)).map(id => characterIds.get(id)!),
+                        referencePanelId: panel.referencePanelId ? panelIds.get(panel.referencePanelId) : undefined,
+                        wardrobe: mapWardrobe(panel.wardrobe),
+                        locationId: panel.locationId ? locationIds.get(panel.locationId) : undefined,
+                        propIds: panel.propIds?.filter(id => propIds.has(id)).map(id => propIds.get(id)!),
+                        textElements: panel.textElements.map(el => ({ ...el, id: elementIds.get(el.id)! })),
+                        comments: panel.comments?.map(thread => ({
+                            ...thread,
+                            id: newId(),
+                            elementId: thread.elementId ? elementIds.get(thread.elementId) : undefined,
+                            comments: thread.comments.map(comment => ({ ...comment, id: newId() })),
+                        })),
+                    };
+                }),
+            })),
+        })),
+    };
+
+    return { project: remapped, imageIds };
+}
+
+/**
+ * Validates a parsed project.json, returning a reason when it can't be restored.
+ */
+export function validateManifest(manifest: unknown): string | null {
+    const m = manifest as Partial<ProjectArchiveManifest> | null;
+    if (!m || m.format !== PROJECT_ARCHIVE_FORMAT) return 'This file is not an Ink Tracker project backup.';
+    if (typeof m.schemaVersion !== 'number') return 'The backup has no schema version.';
+    if (m.schemaVersion > CURRENT_SCHEMA_VERSION) return 'This backup was made by a newer version of Ink Tracker. Update the app and try again.';
+    if (!m.project || !Array.isArray(m.project.issues) || !Array.isArray(m.project.characters)) return 'The backup does not contain a project.';
+    return null;
+}
+
+/**
+ * Zips a project's JSON together with every image it references.
+ */
+export async function exportProjectArchive(project: Project): Promise<Blob> {
+    const zip = new JSZip();
+    const images: Record<string, string> = {};
+
+    for (const id of collectImageIds(project)) {
+        const blob = await getImageBlob(id);
+        if (!blob) continue;
+
+        const path = `images/${id}.${EXTENSIONS[blob.type] || 'png'}`;
+        zip.file(path, blob);
+        images[id] = path;
+    }
+
+    const manifest: ProjectArchiveManifest = {
+        format: PROJECT_ARCHIVE_FORMAT,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        project,
+        images,
+    };
+    zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+
+    return zip.generateAsync({ type: 'blob' });
+}
+
+/**
+ * Restores a project backup as a new project. Images are written to IndexedDB
+ * under fresh IDs; the returned project is ready to dispatch with IMPORT_PROJECT.
+ */
+export async function importProjectArchive(file: Blob): Promise<Project> {
+    const zip = await JSZip.loadAsync(file);
+    const manifestFile = zip.file(MANIFEST_FILE);
+    if (!manifestFile) throw new Error('This file is not an Ink Tracker project backup.');
+
+    const manifest = JSON.parse(await manifestFile.async('string'));
+    const problem = validateManifest(manifest);
+    if (problem) throw new Error(problem);
+
+    const { project, imageIds } = remapProjectIds(migrateProject(manifest.project, manifest.schemaVersion));
+
+    for (const [oldId, newId] of imageIds) {
+        const path = (manifest as ProjectArchiveManifest).images[oldId];
+        const imageFile = path ? zip.file(path) : null;
+        if (!imageFile) continue;
+
+        const ext = path.split('.').pop() || 'png';
+        const mime = Object.keys(EXTENSIONS).find(key => EXTENSIONS[key] === ext) || 'image/png';
+        await saveImage(newId, new Blob([await imageFile.async('arraybuffer')], { type: mime }));
+    }
+
+    return project;
+}
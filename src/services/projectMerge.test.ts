@@ -0,0 +1,144 @@
+import { describe, test, expect } from 'vitest';
+import { mergeProjects, reconcileProject, resolveMerge } from './projectMerge';
+import { AspectRatio, Panel, Project } from '../types';
+
+const panel = (id: string, prompt: string): Panel => ({
+    id,
+    prompt,
+    aspectRatio: AspectRatio.WIDE,
+    characterIds: [],
+    textElements: []
+});
+
+const project = (panels: Panel[], updates: Partial<Project> = {}): Project => ({
+    id: 'p1',
+    title: 'Night Shift',
+    style: 'classic-noir',
+    issueType: 'issue',
+    imageProvider: 'gemini',
+    characters: [],
+    issues: [{ id: 'i1', title: 'Issue #1', pages: [{ id: 'pg1', number: 1, panels }] }],
+    ...updates
+});
+
+const prompts = (p: Project) => p.issues[0].pages[0].panels.map(pan => pan.prompt);
+
+describe('mergeProjects', () => {
+    const base = project([panel('a', 'Diner'), panel('b', 'Counter'), panel('c', 'Street')]);
+
+    test('takes each side\'s changes when they touch different panels and fields', () => {
+        const local = project([panel('a', 'Diner at night'), panel('b', 'Counter'), panel('c', 'Street')]);
+        const remote = project([panel('a', 'Diner'), panel('b', 'Counter'), panel('c', 'Street'), panel('d', 'Alley')], { title: 'Night Shift Vol. 1' });
+
+        const { merged, conflicts } = mergeProjects(base, local, remote);
+
+        expect(conflicts).toEqual([]);
+        expect(merged.title).toBe('Night Shift Vol. 1');
+        expect(prompts(merged)).toEqual(['Diner at night', 'Counter', 'Street', 'Alley']);
+    });
+
+    test('applies deletions of unchanged panels from either side', () => {
+        const local = project([panel('a', 'Diner'), panel('b', 'Counter')]);
+        const remote = project([panel('b', 'Counter'), panel('c', 'Street')]);
+
+        const { merged, conflicts } = mergeProjects(base, local, remote);
+
+        expect(conflicts).toEqual([]);
+        expect(prompts(merged)).toEqual(['Counter']);
+    });
+
+    test('reports panels edited on both sides and edit-versus-delete', () => {
+        const local = project([panel('a', 'Diner, wide'), panel('b', 'Counter')]);
+        const remote = project([panel('a', 'Diner, close'), panel('b', 'Counter'), panel('c', 'Street at dawn')]);
+
+        const merge = mergeProjects(base, local, remote);
+
+        expect(merge.conflicts.map(c => c.panelId)).toEqual(['a', 'c']);
+        expect(merge.conflicts[0]).toMatchObject({ issueTitle: 'Issue #1', pageNumber: 1 });
+        expect(merge.conflicts[1].local).toBeNull();
+        // Conflicting panels stay in place until resolved
+        expect(prompts(merge.merged)).toEqual(['Diner, wide', 'Counter', 'Street at dawn']);
+
+        const resolved = resolveMerge(merge, { a: 'remote', c: 'local' });
+        expect(prompts(resolved)).toEqual(['Diner, close', 'Counter']);
+    });
+
+    test('keeps everything from both sides when there is no base', () => {
+        const local = project([panel('a', 'Diner')], { title: 'Local title' });
+        const remote = project([panel('b', 'Counter')], { title: 'Cloud title' });
+
+        const { merged, conflicts } = mergeProjects(null, local, remote);
+
+        expect(conflicts).toEqual([]);
+        expect(merged.title).toBe('Cloud title');
+        expect(prompts(merged)).toEqual(['Diner', 'Counter']);
+    });
+
+    test('keeps locations added on both sides', () => {
+        const diner = { id: 'loc1', name: 'Diner', description: '' };
+        const local = project(base.issues[0].pages[0].panels, { locations: [diner, { id: 'loc2', name: 'Alley', description: '' }] });
+        const remote = project(base.issues[0].pages[0].panels, { locations: [{ ...diner, lighting: 'Neon' }, { id: 'loc3', name: 'Rooftop', description: '' }] });
+
+        const { merged, conflicts } = mergeProjects(project(base.issues[0].pages[0].panels, { locations: [diner] }), local, remote);
+
+        expect(conflicts).toEqual([]);
+        expect(merged.locations?.map(l => l.name)).toEqual(['Diner', 'Alley', 'Rooftop']);
+        expect(merged.locations?.[0].lighting).toBe('Neon');
+    });
+
+    test('keeps props added on both sides', () => {
+        const panels = base.issues[0].pages[0].panels;
+        const local = project(panels, { props: [{ id: 'pr1', name: 'Revolver', description: '' }] });
+        const remote = project(panels, { props: [{ id: 'pr2', name: 'Locket', description: '' }] });
+
+        const { merged, conflicts } = mergeProjects(project(panels), local, remote);
+
+        expect(conflicts).toEqual([]);
+        expect(merged.props?.map(p => p.name)).toEqual(['Revolver', 'Locket']);
+    });
+});
+
+describe('reconcileProject', () => {
+    const base = project([panel('a', 'Diner')]);
+    const edited = project([panel('a', 'Diner at night')]);
+
+    test('pushes local-only changes and pulls remote-only changes', () => {
+        expect(reconcileProject(edited, base, false, base).kind).toBe('push');
+        expect(reconcileProject(base, edited, true, base).kind).toBe('pull');
+        expect(reconcileProject(edited, edited, true, base).kind).toBe('in-sync');
+    });
+
+    test('merges or reports a conflict when both sides changed', () => {
+        const renamed = project([panel('a', 'Diner')], { title: 'Renamed' });
+        const merged = reconcileProject(edited, renamed, true, base);
+        expect(merged.kind).toBe('merged');
+        if (merged.kind === 'merged') {
+            expect(merged.project.title).toBe('Renamed');
+            expect(prompts(merged.project)).toEqual(['Diner at night']);
+        }
+
+        const otherEdit = project([panel('a', 'Diner, close')]);
+        expect(reconcileProject(edited, otherEdit, true, base).kind).toBe('conflict');
+    });
+});
+
+describe('mergeProjects - comments', () => {
+    const thread = (id: string, commentIds: string[], resolved = false) => ({
+        id,
+        resolved,
+        comments: commentIds.map(cid => ({ id: cid, authorId: 'ana', authorName: 'Ana', body: cid, mentions: [], createdAt: 1 }))
+    });
+
+    test('keeps comments added on both sides without a conflict', () => {
+        const base = project([{ ...panel('a', 'Diner'), comments: [thread('t1', ['c1'])] }]);
+        const local = project([{ ...panel('a', 'Diner'), comments: [thread('t1', ['c1', 'c2'])] }]);
+        const remote = project([{ ...panel('a', 'Diner at dawn'), comments: [thread('t1', ['c1']), thread('t2', ['c3'])] }]);
+
+        const { merged, conflicts } = mergeProjects(base, local, remote);
+        const mergedPanel = merged.issues[0].pages[0].panels[0];
+
+        expect(conflicts).toEqual([]);
+        expect(mergedPanel.prompt).toBe('Diner at dawn');
+        expect(mergedPanel.comments?.map(t => t.comments.map(c => c.id))).toEqual([['c1', 'c2'], ['c3']]);
+    });
+});
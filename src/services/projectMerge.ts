@@ -0,0 +1,202 @@
+import { CommentThread, Page, Panel, Project } from '../types';
+
+/**
+ * Three-way merge of a project edited both locally and in the cloud since the
+ * last sync. Anything changed on only one side is taken from that side. Panels
+ * changed on both sides are reported as conflicts for the user to resolve;
+ * other fields changed on both sides keep the local value.
+ *
+ * Without a base (the project was never synced from this browser) nothing can
+ * be told apart as added or deleted, so items from both sides are kept and
+ * differing fields take the cloud value.
+ */
+
+export type MergeSide = 'local' | 'remote';
+
+export interface PanelConflict {
+    panelId: string;
+    issueTitle: string;
+    pageNumber: number;
+    local: Panel | null;    // null when the panel was deleted on that side
+    remote: Panel | null;
+}
+
+export interface ProjectMerge {
+    local: Project;
+    remote: Project;
+    merged: Project;        // Conflicting panels are kept in place, taken from whichever side still has them
+    conflicts: PanelConflict[];
+}
+
+export type SyncReconciliation =
+    | { kind: 'in-sync' }
+    | { kind: 'push' }
+    | { kind: 'pull' }
+    | { kind: 'merged'; project: Project }
+    | { kind: 'conflict'; merge: ProjectMerge };
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const byId = <T extends { id: string }>(items: T[] | undefined) => new Map((items || []).map(item => [item.id, item]));
+
+function mergeFields<T extends object>(base: T | undefined, local: T, remote: T, skip: (keyof T)[]): T {
+    const merged = { ...local };
+    const keys = new Set([...Object.keys(local), ...Object.keys(remote)] as (keyof T)[]);
+    keys.forEach(key => {
+        if (skip.includes(key) || same(local[key], remote[key])) return;
+        const takeRemote = base ? same(local[key], base[key]) : true;
+        if (!takeRemote) return;
+        if (remote[key] === undefined) delete merged[key];
+        else merged[key] = remote[key];
+    });
+    return merged;
+}
+
+/**
+ * Merges a list of items by id. Items changed on both sides go to mergeBoth;
+ * an item deleted on one side but edited on the other is kept and reported.
+ */
+function mergeList<T extends { id: string }>(
+    base: T[] | undefined,
+    local: T[],
+    remote: T[],
+    mergeBoth: (base: T | undefined, local: T, remote: T) => T,
+    onDeleted?: (kept: T, keptSide: MergeSide) => void
+): T[] {
+    const baseMap = byId(base);
+    const localMap = byId(local);
+    const remoteMap = byId(remote);
+
+    // Follow the remote order unless items were reordered locally
+    const localReordered = !base || !same(local.map(i => i.id), base.map(i => i.id));
+    const [primary, secondary] = localReordered ? [local, remote] : [remote, local];
+    const ids = [...new Set([...primary.map(i => i.id), ...secondary.map(i => i.id)])];
+
+    const result: T[] = [];
+    ids.forEach(id => {
+        const b = baseMap.get(id);
+        const l = localMap.get(id);
+        const r = remoteMap.get(id);
+
+        if (l && r) {
+            result.push(same(l, r) ? l : mergeBoth(b, l, r));
+            return;
+        }
+
+        const kept = (l || r)!;
+        if (!b) {
+            result.push(kept);
+        } else if (!same(kept, b)) {
+            result.push(kept);
+            onDeleted?.(kept, l ? 'local' : 'remote');
+        }
+        // Otherwise the other side deleted an unchanged item
+    });
+    return result;
+}
+
+/**
+ * Comment threads from both sides are kept: comments are only ever added or
+ * removed by their author, so there is nothing for the user to choose between.
+ */
+function mergeCommentThreads(base: CommentThread[] | undefined, local: CommentThread[] | undefined, remote: CommentThread[] | undefined) {
+    if (!local && !remote) return undefined;
+    return mergeList(base, local || [], remote || [], (b, l, r) => ({
+        ...mergeFields(b, l, r, ['comments']),
+        comments: mergeList(b?.comments, l.comments, r.comments, (bc, lc, rc) => mergeFields(bc, lc, rc, [])),
+    }));
+}
+
+/**
+ * Merges a list a project may not have yet, like its locations, item by item.
+ */
+function mergeOptionalList<T extends { id: string }>(base: T[] | undefined, local: T[] | undefined, remote: T[] | undefined) {
+    if (!local && !remote) return undefined;
+    return mergeList(base, local || [], remote || [], (b, l, r) => mergeFields(b, l, r, []));
+}
+
+const withComments = (panel: Panel, comments: CommentThread[] | undefined): Panel => {
+    const result = { ...panel, comments };
+    if (!comments) delete result.comments;
+    return result;
+};
+
+export function mergeProjects(base: Project | null, local: Project, remote: Project): ProjectMerge {
+    const conflicts: PanelConflict[] = [];
+
+    const mergePanels = (basePage: Page | undefined, localPage: Page, remotePage: Page, issueTitle: string) => {
+        const report = (panelId: string, l: Panel | null, r: Panel | null) =>
+            conflicts.push({ panelId, issueTitle, pageNumber: localPage.number, local: l, remote: r });
+
+        return mergeList<Panel>(
+            basePage?.panels,
+            localPage.panels,
+            remotePage.panels,
+            (b, l, r) => {
+                const comments = mergeCommentThreads(b?.comments, l.comments, r.comments);
+                const [bp, lp, rp] = [b && withComments(b, undefined), withComments(l, undefined), withComments(r, undefined)];
+                if (bp && same(lp, bp)) return withComments(r, comments);
+                if (bp && same(rp, bp)) return withComments(l, comments);
+                if (same(lp, rp)) return withComments(l, comments);
+                report(l.id, withComments(l, comments), withComments(r, comments));
+                return withComments(l, comments);
+            },
+            (kept, side) => report(kept.id, side === 'local' ? kept : null, side === 'remote' ? kept : null)
+        );
+    };
+
+    const issues = mergeList(base?.issues, local.issues, remote.issues, (b, l, r) => ({
+        ...mergeFields(b, l, r, ['pages']),
+        pages: mergeList(b?.pages, l.pages, r.pages, (bp, lp, rp) => ({
+            ...mergeFields(bp, lp, rp, ['panels']),
+            panels: mergePanels(bp, lp, rp, l.title),
+        })),
+    }));
+
+    const merged: Project = {
+        ...mergeFields(base || undefined, local, remote, ['issues', 'characters', 'locations', 'props']),
+        characters: mergeList(base?.characters, local.characters, remote.characters, (b, l, r) => mergeFields(b, l, r, [])),
+        issues,
+    };
+    const locations = mergeOptionalList(base?.locations, local.locations, remote.locations);
+    if (locations) merged.locations = locations;
+    const props = mergeOptionalList(base?.props, local.props, remote.props);
+    if (props) merged.props = props;
+
+    return { local, remote, merged, conflicts };
+}
+
+/**
+ * Applies the user's choices to a merge. Panels without a choice keep the local side.
+ */
+export function resolveMerge(merge: ProjectMerge, choices: Record<string, MergeSide>): Project {
+    const resolved = new Map(merge.conflicts.map(c => [c.panelId, choices[c.panelId] === 'remote' ? c.remote : c.local]));
+
+    return {
+        ...merge.merged,
+        issues: merge.merged.issues.map(issue => ({
+            ...issue,
+            pages: issue.pages.map(page => ({
+                ...page,
+                panels: page.panels
+                    .map(panel => (resolved.has(panel.id) ? resolved.get(panel.id) : panel))
+                    .filter((panel): panel is Panel => !!panel),
+            })),
+        })),
+    };
+}
+
+/**
+ * Decides what a sync should do with a project that exists both locally and in
+ * the cloud. base is the project as of the last sync from this browser.
+ */
+export function reconcileProject(local: Project, remote: Project, remoteChanged: boolean, base: Project | null): SyncReconciliation {
+    if (same(local, remote)) return { kind: 'in-sync' };
+
+    const localChanged = !base || !same(local, base);
+    if (!remoteChanged) return localChanged ? { kind: 'push' } : { kind: 'in-sync' };
+    if (!localChanged) return { kind: 'pull' };
+
+    const merge = mergeProjects(base, local, remote);
+    return merge.conflicts.length ? { kind: 'conflict', merge } : { kind: 'merged', project: merge.merged };
+}
@@ -0,0 +1,235 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { ProjectRole } from '../types';
+
+/**
+ * The owner's row in `projects` stays the only copy of a shared project. The
+ * `project_members` table (project_id, owner_id, email, user_id, role,
+ * invited_by, created_at; unique on project_id + owner_id + email) lists who
+ * else may open it. An invite is a row with the invitee's email and no
+ * user_id yet; accepting it fills in user_id.
+ *
+ * Row-level security lets invitees read and claim rows addressed to their
+ * email, members read each other's rows and the owner's project row, and
+ * editors and letterers update it. A trigger rejects letterer saves that
+ * change anything but lettering and comments; services/permissions applies
+ * the same limits in the app. The table, policies and trigger are created in
+ * supabase/migrations.
+ */
+export type SharedRole = Exclude<ProjectRole, 'owner'>;
+
+export const SHARED_ROLES: SharedRole[] = ['editor', 'letterer', 'viewer'];
+
+export interface ProjectMembership {
+  projectId: string;
+  ownerId: string;
+  email: string;
+  userId: string | null;   // Null while the invite is pending
+  role: SharedRole;
+  invitedBy?: string;
+}
+
+interface MembershipRow {
+  project_id: string;
+  owner_id: string;
+  email: string;
+  user_id: string | null;
+  role: SharedRole;
+  invited_by?: string | null;
+}
+
+const MEMBER_COLUMNS = 'project_id, owner_id, email, user_id, role, invited_by';
+
+const errorMessage = (err: unknown): string =>
+  (err as { message?: string })?.message || String(err);
+
+const toMembership = (row: MembershipRow): ProjectMembership => ({
+  projectId: row.project_id,
+  ownerId: row.owner_id,
+  email: row.email,
+  userId: row.user_id,
+  role: row.role,
+  invitedBy: row.invited_by || undefined,
+});
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const isValidEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizeEmail(email));
+
+/**
+ * Everyone a project is shared with, including pending invites.
+ */
+export const loadProjectMembers = async (
+  ownerId: string,
+  projectId: string,
+  client: SupabaseClient | null = supabase
+): Promise<{ members: ProjectMembership[]; error?: string }> => {
+  if (!client) return { members: [], error: 'Supabase not configured' };
+
+  try {
+    const { data, error } = await client
+      .from('project_members')
+      .select(MEMBER_COLUMNS)
+      .eq('owner_id', ownerId)
+      .eq('project_id', projectId);
+
+    if (error) throw error;
+    return { members: (data || []).map(toMembership) };
+  } catch (err) {
+    console.error('Load members error:', err);
+    return { members: [], error: errorMessage(err) };
+  }
+};
+
+/**
+ * The role of everyone who can open a project, by user id: the owner and the
+ * members who accepted their invite.
+ */
+export const loadProjectRoster = async (
+  ownerId: string,
+  projectId: string,
+  client: SupabaseClient | null = supabase
+): Promise<{ roles: Record<string, ProjectRole>; error?: string }> => {
+  const { members, error } = await loadProjectMembers(ownerId, projectId, client);
+  if (error) return { roles: {}, error };
+
+  const roles: Record<string, ProjectRole> = { [ownerId]: 'owner' };
+  members.forEach(member => { if (member.userId) roles[member.userId] = member.role; });
+  return { roles };
+};
+
+export const inviteMember = async (
+  ownerId: string,
+  projectId: string,
+  email: string,
+  role: SharedRole,
+  invitedBy: string,
+  client: SupabaseClient | null = supabase
+): Promise<{ success: boolean; error?: string }> => {
+  if (!client) return { success: false, error: 'Supabase not configured' };
+  if (!isValidEmail(email)) return { success: false, error: 'Enter a valid email address' };
+
+  try {
+    const { error } = await client
+      .from('project_members')
+      .insert({ project_id: projectId, owner_id: ownerId, email: normalizeEmail(email), role, invited_by: invitedBy });
+
+    if (error?.code === '23505') return { success: false, error: 'Already invited' };
+    if (error) throw error;
+    return { success: true };
+  } catch (err) {
+    console.error('Invite error:', err);
+    return { success: false, error: errorMessage(err) };
+  }
+};
+
+export const updateMemberRole = async (
+  member: ProjectMembership,
+  role: SharedRole,
+  client: SupabaseClient | null = supabase
+): Promise<{ success: boolean; error?: string }> => {
+  if (!client) return { success: false, error: 'Supabase not configured' };
+
+  try {
+    const { error } = await client
+      .from('project_members')
+      .update({ role })
+      .eq('owner_id', member.ownerId)
+      .eq('project_id', member.projectId)
+      .eq('email', member.email);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (err) {
+    console.error('Role update error:', err);
+    return { success: false, error: errorMessage(err) };
+  }
+};
+
+/**
+ * Removes a member or withdraws an invite. Invitees decline the same way.
+ */
+export const removeMember = async (
+  member: ProjectMembership,
+  client: SupabaseClient | null = supabase
+): Promise<{ success: boolean; error?: string }> => {
+  if (!client) return { success: false, error: 'Supabase not configured' };
+
+  try {
+    const { error } = await client
+      .from('project_members')
+      .delete()
+      .eq('owner_id', member.ownerId)
+      .eq('project_id', member.projectId)
+      .eq('email', member.email);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (err) {
+    console.error('Remove member error:', err);
+    return { success: false, error: errorMessage(err) };
+  }
+};
+
+/**
+ * Projects others have shared with this user, once the invite was accepted.
+ */
+export const loadMemberships = async (
+  userId: string,
+  client: SupabaseClient | null = supabase
+): Promise<ProjectMembership[]> => {
+  if (!client) return [];
+
+  const { data, error } = await client
+    .from('project_members')
+    .select(MEMBER_COLUMNS)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return (data || []).map(toMembership);
+};
+
+export const loadPendingInvites = async (
+  email: string,
+  client: SupabaseClient | null = supabase
+): Promise<{ invites: ProjectMembership[]; error?: string }> => {
+  if (!client) return { invites: [], error: 'Supabase not configured' };
+
+  try {
+    const { data, error } = await client
+      .from('project_members')
+      .select(MEMBER_COLUMNS)
+      .eq('email', normalizeEmail(email))
+      .is('user_id', null);
+
+    if (error) throw error;
+    return { invites: (data || []).map(toMembership) };
+  } catch (err) {
+    console.error('Load invites error:', err);
+    return { invites: [], error: errorMessage(err) };
+  }
+};
+
+export const acceptInvite = async (
+  invite: ProjectMembership,
+  userId: string,
+  client: SupabaseClient | null = supabase
+): Promise<{ success: boolean; error?: string }> => {
+  if (!client) return { success: false, error: 'Supabase not configured' };
+
+  try {
+    const { error } = await client
+      .from('project_members')
+      .update({ user_id: userId })
+      .eq('owner_id', invite.ownerId)
+      .eq('project_id', invite.projectId)
+      .eq('email', invite.email)
+      .is('user_id', null);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (err) {
+    console.error('Accept invite error:', err);
+    return { success: false, error: errorMessage(err) };
+  }
+};
@@ -0,0 +1,49 @@
+import { describe, test, expect } from 'vitest';
+import { buildContinuityReport, getPanelProps, togglePanelProp } from './props';
+import { AspectRatio, Panel, Project } from '../types';
+
+const panel = (id: string, prompt: string, propIds?: string[]): Panel => ({
+    id, prompt, propIds, aspectRatio: AspectRatio.WIDE, characterIds: [], textElements: [],
+});
+
+const project = {
+    id: 'p1',
+    props: [
+        { id: 'gun', name: 'Snub-nose revolver', description: 'Nickel-plated .38, taped grip' },
+        { id: 'letter', name: 'Letter', description: 'Creased envelope, red wax seal' },
+    ],
+    issues: [{
+        id: 'i1',
+        title: 'Issue #1',
+        pages: [
+            { id: 'pg1', number: 1, panels: [panel('a', 'Maggie finds the letter under the register'), panel('b', 'Close on the revolver', ['gun', 'deleted'])] },
+            { id: 'pg2', number: 2, panels: [panel('c', 'Hank reads the letter', ['letter', 'gun'])] },
+        ],
+    }],
+} as Project;
+
+describe('getPanelProps', () => {
+    test('resolves links in registry order and skips deleted props', () => {
+        const [, , c] = project.issues[0].pages.flatMap(page => page.panels);
+        expect(getPanelProps(project.props, c).map(prop => prop.id)).toEqual(['gun', 'letter']);
+        expect(getPanelProps(project.props, project.issues[0].pages[0].panels[1]).map(prop => prop.id)).toEqual(['gun']);
+    });
+});
+
+describe('togglePanelProp', () => {
+    test('links and unlinks a prop', () => {
+        expect(togglePanelProp(panel('a', ''), 'gun')).toEqual(['gun']);
+        expect(togglePanelProp(panel('a', '', ['gun', 'letter']), 'gun')).toEqual(['letter']);
+    });
+});
+
+describe('buildContinuityReport', () => {
+    test('lists every linked panel per prop, and prompts that name it without linking', () => {
+        const [gun, letter] = buildContinuityReport(project);
+
+        expect(gun.appearances.map(a => [a.pageNumber, a.panelNumber])).toEqual([[1, 2], [2, 1]]);
+        expect(gun.unlinkedMentions).toEqual([]);
+        expect(letter.appearances.map(a => a.panelId)).toEqual(['c']);
+        expect(letter.unlinkedMentions.map(a => a.panelId)).toEqual(['a']);
+    });
+});
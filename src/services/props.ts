@@ -0,0 +1,72 @@
+import { Panel, Project, Prop } from '../types';
+
+/**
+ * Props
+ *
+ * Recurring objects (a specific gun, a letter, a car) live in the project's
+ * props registry. Panels link to the props they show; linked props are added
+ * to the generation prompt, and the continuity report lists every panel each
+ * prop appears in so editors can check it hasn't drifted.
+ */
+
+export interface PropAppearance {
+    issueId: string;
+    issueTitle: string;
+    pageId: string;
+    pageNumber: number;
+    panelId: string;
+    panelNumber: number;    // 1-based position on the page
+    prompt: string;
+    imageUrl?: string;
+}
+
+export interface PropContinuity {
+    prop: Prop;
+    appearances: PropAppearance[];
+    unlinkedMentions: PropAppearance[];    // Panels whose prompt names the prop without linking it
+}
+
+/**
+ * The props a panel links to, in registry order, skipping any since deleted.
+ */
+export function getPanelProps(props: Prop[] | undefined, panel: Panel): Prop[] {
+    return (props || []).filter(prop => panel.propIds?.includes(prop.id));
+}
+
+/**
+ * Adds the prop to the panel's links, or removes it if already linked.
+ */
+export function togglePanelProp(panel: Panel, propId: string): string[] {
+    const propIds = panel.propIds || [];
+    return propIds.includes(propId) ? propIds.filter(id => id !== propId) : [...propIds, propId];
+}
+
+function mentions(prompt: string, name: string): boolean {
+    const escaped = name.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return !!escaped && new RegExp(`\\b${escaped}\\b`, 'i').test(prompt);
+}
+
+/**
+ * Every panel each prop appears in, in reading order.
+ */
+export function buildContinuityReport(project: Project): PropContinuity[] {
+    return (project.props || []).map(prop => {
+        const appearances: PropAppearance[] = [];
+        const unlinkedMentions: PropAppearance[] = [];
+        project.issues.forEach(issue => issue.pages.forEach(page => page.panels.forEach((panel, index) => {
+            const appearance: PropAppearance = {
+                issueId: issue.id,
+                issueTitle: issue.title,
+                pageId: page.id,
+                pageNumber: page.number,
+                panelId: panel.id,
+                panelNumber: index + 1,
+                prompt: panel.prompt,
+                imageUrl: panel.imageUrl,
+            };
+            if (panel.propIds?.includes(prop.id)) appearances.push(appearance);
+            else if (mentions(panel.prompt || '', prop.name)) unlinkedMentions.push(appearance);
+        })));
+        return { prop, appearances, unlinkedMentions };
+    });
+}
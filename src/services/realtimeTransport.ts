@@ -0,0 +1,69 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { CollabMessage, CollabPresence, CollabTransport } from './collaboration';
+
+/**
+ * Collaboration over a Supabase Realtime channel per issue: messages use
+ * broadcast (not persisted, not echoed back to the sender) and presence
+ * carries where each collaborator is. Broadcast payloads are size limited, so
+ * very large projects may not fit in one snapshot.
+ *
+ * Channels are private. The topic names the project's owner and id, and the
+ * realtime policies in supabase/migrations only let the owner and members of
+ * that project subscribe and send.
+ */
+const CHANNEL_PREFIX = 'ink-tracker:';
+const MESSAGE_EVENT = 'collab';
+
+export interface CollabChannel {
+  ownerId: string;
+  projectId: string;
+  issueId: string;
+}
+
+export const channelTopic = ({ ownerId, projectId, issueId }: CollabChannel) =>
+  `${CHANNEL_PREFIX}${ownerId}:${projectId}:${issueId}`;
+
+export const createRealtimeTransport = (client: SupabaseClient, target: CollabChannel, clientId: string): CollabTransport => {
+  const channel = client.channel(channelTopic(target), {
+    config: { private: true, broadcast: { self: false }, presence: { key: clientId } },
+  });
+  let presence: CollabPresence | null = null;
+  let subscribed = false;
+
+  return {
+    open(listener) {
+      channel
+        .on('broadcast', { event: MESSAGE_EVENT }, ({ payload }) => listener.onMessage(payload as CollabMessage))
+        .on('presence', { event: 'sync' }, () => {
+          const state = channel.presenceState<CollabPresence>();
+          listener.onPresence(Object.values(state).map(entries => entries[0]).filter(Boolean));
+        })
+        .subscribe(status => {
+          if (status === 'SUBSCRIBED') {
+            subscribed = true;
+            if (presence) channel.track(presence);
+            listener.onStatus('open');
+          } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+            listener.onStatus('error');
+          } else if (status === 'CLOSED') {
+            subscribed = false;
+            listener.onStatus('closed');
+          }
+        });
+    },
+
+    send(message) {
+      channel.send({ type: 'broadcast', event: MESSAGE_EVENT, payload: message })
+        .catch(err => console.error('Collaboration message failed', err));
+    },
+
+    track(next) {
+      presence = next;
+      if (subscribed) channel.track(next).catch(err => console.error('Presence update failed', err));
+    },
+
+    close() {
+      client.removeChannel(channel);
+    },
+  };
+};
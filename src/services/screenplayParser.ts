@@ -129,7 +129,7 @@ function isTransition(line: string): string | null {
 }
 
 // Check if line is a shot direction
-function parseShot(line: string): { type: string; subject: string } | null {
+export function parseShot(line: string): { type: string; subject: string } | null {
   for (const pattern of SHOT_PATTERNS) {
     const match = line.match(pattern);
     if (match) {
@@ -23,6 +23,7 @@ export interface ParsedPanel {
     panelNumber: number;
     description: string;
     bubbles: ParsedBubble[];
+    characters?: string[];  // Characters in the panel, from formats that track them
     artistNotes: string[];
     visualMarker: VisualMarker;
     aspectRatio: AspectRatio;
@@ -35,6 +36,8 @@ export interface ParsedPage {
     pageNumber: number;
     panels: ParsedPanel[];
     pageNotes?: string;
+    location?: string;      // Scene heading location, from screenplay formats
+    sceneType?: string;     // INT, EXT, INT/EXT
 }
 
 export interface ParsedCharacter {
@@ -6,7 +6,7 @@ import { AspectRatio } from "../types";
  */
 
 // Map aspect ratios to SeaArt dimensions
-function getImageDimensions(aspectRatio: AspectRatio | string): { width: number; height: number } {
+export function getImageDimensions(aspectRatio: AspectRatio | string): { width: number; height: number } {
     const ratio = String(aspectRatio).toLowerCase();
     switch (ratio) {
         case 'wide':
@@ -55,7 +55,8 @@ export async function generateSeaArtImage(
     aspectRatio: AspectRatio | string,
     apiKey: string,
     initImage?: string,
-    strength: number = 0.7
+    strength: number = 0.7,
+    seed?: number
 ): Promise<string> {
     if (!apiKey?.trim()) {
         throw new Error('SeaArt API key is missing or empty. Please enter your API key in the sidebar.');
@@ -75,6 +76,8 @@ export async function generateSeaArtImage(
             steps: 30,
         };
 
+        if (seed !== undefined) createBody.seed = seed;
+
         // Add init image for img2img if provided
         if (initImage) {
             // Strip data URL prefix if present
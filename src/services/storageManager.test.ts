@@ -0,0 +1,78 @@
+import { describe, test, expect } from 'vitest';
+import { ORPHAN_GRACE_PERIOD_MS, findOrphanedImages, formatBytes, getProjectUsage, isNearQuota } from './storageManager';
+import { AppState, AspectRatio, Project } from '../types';
+
+const project = (id: string, imageIds: string[]): Project => ({
+    id,
+    title: `Project ${id}`,
+    style: 'classic-noir',
+    issueType: 'issue',
+    imageProvider: 'gemini',
+    characters: [],
+    issues: [{
+        id: `${id}-i1`,
+        title: 'Issue #1',
+        pages: [{
+            id: `${id}-pg1`,
+            number: 1,
+            panels: imageIds.map(imageId => ({
+                id: `${id}-${imageId}`,
+                prompt: '',
+                aspectRatio: AspectRatio.WIDE,
+                characterIds: [],
+                textElements: [],
+                imageUrl: `idb://${imageId}`,
+                takes: [{ id: imageId, imageUrl: `idb://${imageId}`, prompt: '', createdAt: 0 }]
+            }))
+        }]
+    }]
+});
+
+const appState = (projects: Project[]): AppState => ({ projects, activeProjectId: null, activeIssueId: null, activePageId: null });
+
+describe('getProjectUsage', () => {
+    test('sums the stored images each project references', () => {
+        const images = [{ id: 'a', size: 100 }, { id: 'b', size: 250 }];
+        const [usage] = getProjectUsage([project('p1', ['a', 'b', 'not-stored'])], images);
+
+        expect(usage.imageCount).toBe(2);
+        expect(usage.imageBytes).toBe(350);
+        expect(usage.dataBytes).toBeGreaterThan(0);
+    });
+});
+
+describe('findOrphanedImages', () => {
+    const now = 10 * ORPHAN_GRACE_PERIOD_MS;
+
+    test('keeps images referenced by the current state or the undo history', () => {
+        const present = appState([project('p1', ['a'])]);
+        const past = appState([project('p1', ['a', 'deleted-panel'])]);
+        const images = [{ id: 'a', size: 1 }, { id: 'deleted-panel', size: 1 }, { id: 'orphan', size: 1 }];
+
+        expect(findOrphanedImages([present, past], images, now).map(i => i.id)).toEqual(['orphan']);
+        expect(findOrphanedImages([present], images, now).map(i => i.id)).toEqual(['deleted-panel', 'orphan']);
+    });
+
+    test('skips images saved within the grace period', () => {
+        const images = [
+            { id: 'old', size: 1, createdAt: now - ORPHAN_GRACE_PERIOD_MS - 1 },
+            { id: 'fresh', size: 1, createdAt: now - 1000 }
+        ];
+        expect(findOrphanedImages([appState([])], images, now).map(i => i.id)).toEqual(['old']);
+    });
+});
+
+describe('isNearQuota', () => {
+    test('includes the images about to be generated', () => {
+        expect(isNearQuota({ usage: 50, quota: 100 })).toBe(false);
+        expect(isNearQuota({ usage: 50, quota: 100 }, 40)).toBe(true);
+    });
+});
+
+describe('formatBytes', () => {
+    test('uses readable units', () => {
+        expect(formatBytes(512)).toBe('512 B');
+        expect(formatBytes(1536)).toBe('1.5 KB');
+        expect(formatBytes(250 * 1024 * 1024)).toBe('250 MB');
+    });
+});
@@ -0,0 +1,102 @@
+import { AppState, Project } from '../types';
+import { collectImageIds } from './projectArchive';
+import { StoredImageInfo } from './imageStorage';
+
+/**
+ * Storage Manager
+ *
+ * Deleting panels, issues or projects leaves their images in IndexedDB on
+ * purpose: undo can bring the panel back. Images no state in the undo history
+ * references anymore are swept from here instead, after a confirmation.
+ */
+
+// Warn before generating once the origin is this full
+export const QUOTA_WARNING_RATIO = 0.9;
+
+// A generated image with its thumbnail; used to project upcoming usage
+export const ESTIMATED_IMAGE_BYTES = 2 * 1024 * 1024;
+
+// Images this new may belong to a generation that hasn't reached the state yet
+export const ORPHAN_GRACE_PERIOD_MS = 10 * 60 * 1000;
+
+export interface StorageEstimate {
+    usage: number;
+    quota: number;
+}
+
+export interface ProjectStorageUsage {
+    projectId: string;
+    title: string;
+    imageCount: number;
+    imageBytes: number;
+    dataBytes: number;      // Project JSON in localStorage
+}
+
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+    const { usage, quota } = await navigator.storage.estimate();
+    if (usage === undefined || !quota) return null;
+    return { usage, quota };
+}
+
+export function getProjectUsage(projects: Project[], images: StoredImageInfo[]): ProjectStorageUsage[] {
+    const sizes = new Map(images.map(image => [image.id, image.size]));
+
+    return projects.map(project => {
+        const stored = collectImageIds(project).filter(id => sizes.has(id));
+        return {
+            projectId: project.id,
+            title: project.title,
+            imageCount: stored.length,
+            imageBytes: stored.reduce((total, id) => total + sizes.get(id)!, 0),
+            dataBytes: JSON.stringify(project).length,
+        };
+    });
+}
+
+/**
+ * Images that no project references in the current state or anywhere in the
+ * undo history, skipping any saved within the grace period.
+ */
+export function findOrphanedImages(
+    states: AppState[],
+    images: StoredImageInfo[],
+    now: number = Date.now()
+): StoredImageInfo[] {
+    const referenced = new Set(states.flatMap(state => state.projects.flatMap(collectImageIds)));
+    return images.filter(image =>
+        !referenced.has(image.id) && (image.createdAt === undefined || now - image.createdAt > ORPHAN_GRACE_PERIOD_MS)
+    );
+}
+
+export function isNearQuota(estimate: StorageEstimate, additionalBytes: number = 0): boolean {
+    return estimate.usage + additionalBytes >= estimate.quota * QUOTA_WARNING_RATIO;
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ['KB', 'MB', 'GB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
+
+/**
+ * Asks before generating when the new images would push the origin close to its
+ * quota, where saves start failing. Resolves true when it's fine to go ahead.
+ */
+export async function confirmStorageForGeneration(imageCount: number): Promise<boolean> {
+    const estimate = await getStorageEstimate().catch(() => null);
+    if (!estimate || !isNearQuota(estimate, imageCount * ESTIMATED_IMAGE_BYTES)) return true;
+
+    const percent = Math.round((estimate.usage / estimate.quota) * 100);
+    return confirm(
+        `Browser storage is ${percent}% full (${formatBytes(estimate.usage)} of ${formatBytes(estimate.quota)}). ` +
+        `Generating ${imageCount === 1 ? 'this image' : `${imageCount} images`} may fail to save.\n\n` +
+        `Free space from Archive → Storage. Generate anyway?`
+    );
+}
@@ -0,0 +1,182 @@
+import { describe, test, expect, vi } from 'vitest';
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+    OutboxHandlers,
+    OutboxMutation,
+    OutboxStore,
+    createOutboxMutation,
+    enqueueMutation,
+    flushOutbox,
+    getNextAttemptAt,
+    isNetworkError
+} from './syncOutbox';
+import { unwrapProject } from '../state/migrations';
+import { Project } from '../types';
+
+type Row = Record<string, unknown>;
+
+const createMemoryStore = (): OutboxStore => {
+    const mutations = new Map<string, OutboxMutation>();
+    return {
+        getAll: async (userId) => [...mutations.values()].filter(m => m.userId === userId),
+        put: async (mutation) => { mutations.set(mutation.id, mutation); },
+        remove: async (id) => { mutations.delete(id); },
+    };
+};
+
+/**
+ * In-memory stand-in for the parts of the Supabase query builder cloudSync uses.
+ */
+const createFakeSupabase = () => {
+    const rows: Row[] = [];
+    let offline = false;
+
+    const from = () => {
+        let op: 'select' | 'insert' | 'update' | 'delete' = 'select';
+        let payload: Row = {};
+        let single = false;
+        const filters: [string, unknown][] = [];
+
+        const run = () => {
+            if (offline) return { data: null, error: { message: 'TypeError: Failed to fetch' } };
+            const matches = rows.filter(row => filters.every(([key, value]) => row[key] === value));
+
+            switch (op) {
+                case 'insert':
+                    if (rows.some(r => r.user_id === payload.user_id && r.project_id === payload.project_id)) {
+                        return { data: null, error: { code: '23505', message: 'duplicate key value' } };
+                    }
+                    rows.push({ ...payload });
+                    return { data: null, error: null };
+                case 'update':
+                    matches.forEach(row => Object.assign(row, payload));
+                    return { data: matches.map(row => ({ revision: row.revision })), error: null };
+                case 'delete':
+                    matches.forEach(row => rows.splice(rows.indexOf(row), 1));
+                    return { data: null, error: null };
+                default:
+                    return { data: single ? matches[0] || null : matches, error: null };
+            }
+        };
+
+        const builder = {
+            select: () => builder,
+            insert: (row: Row) => { op = 'insert'; payload = row; return builder; },
+            update: (row: Row) => { op = 'update'; payload = row; return builder; },
+            delete: () => { op = 'delete'; return builder; },
+            eq: (key: string, value: unknown) => { filters.push([key, value]); return builder; },
+            maybeSingle: () => { single = true; return builder; },
+            then: (resolve: (value: ReturnType<typeof run>) => unknown, reject: (reason: unknown) => unknown) =>
+                Promise.resolve(run()).then(resolve, reject),
+        };
+        return builder;
+    };
+
+    return {
+        client: { from } as unknown as SupabaseClient,
+        rows,
+        setOffline: (value: boolean) => { offline = value; },
+    };
+};
+
+const project = (title: string): Project => ({
+    id: 'p1',
+    title,
+    style: 'classic-noir',
+    issueType: 'issue',
+    imageProvider: 'gemini',
+    characters: [],
+    issues: []
+});
+
+const createHandlers = (revisions: Record<string, number> = {}) => {
+    const handlers: OutboxHandlers = {
+        getBaseRevision: (projectId) => revisions[projectId] ?? null,
+        onSaved: vi.fn((saved: Project, revision: number) => { revisions[saved.id] = revision; }),
+        onConflict: vi.fn(),
+        onDeleted: vi.fn(),
+    };
+    return handlers;
+};
+
+describe('enqueueMutation', () => {
+    test('keeps one mutation per project and preserves its backoff', async () => {
+        const store = createMemoryStore();
+        await store.put({ ...createOutboxMutation('u1', 'p1', 'save', project('First'), 1000), attempts: 2, nextAttemptAt: 9000 });
+
+        await enqueueMutation(store, createOutboxMutation('u1', 'p1', 'save', project('Second'), 5000));
+        await enqueueMutation(store, createOutboxMutation('u1', 'p2', 'delete', undefined, 5000));
+
+        const mutations = await store.getAll('u1');
+        expect(mutations).toHaveLength(2);
+        expect(mutations[0]).toMatchObject({ attempts: 2, nextAttemptAt: 9000, queuedAt: 1000 });
+        expect(mutations[0].project?.title).toBe('Second');
+    });
+});
+
+describe('flushOutbox', () => {
+    test('uploads queued saves and empties the outbox', async () => {
+        const store = createMemoryStore();
+        const { client, rows } = createFakeSupabase();
+        const handlers = createHandlers();
+        await enqueueMutation(store, createOutboxMutation('u1', 'p1', 'save', project('Night Shift')));
+
+        const result = await flushOutbox(store, 'u1', handlers, { client });
+
+        expect(result).toEqual({ pending: 0, offline: false, error: undefined });
+        expect(handlers.onSaved).toHaveBeenCalledWith(expect.objectContaining({ title: 'Night Shift' }), 1, expect.any(String));
+        expect(rows).toHaveLength(1);
+        expect(rows[0].revision).toBe(1);
+        expect(unwrapProject(rows[0].project_data).project.title).toBe('Night Shift');
+    });
+
+    test('keeps mutations with backoff while offline and sends them when forced back online', async () => {
+        const store = createMemoryStore();
+        const supabase = createFakeSupabase();
+        const handlers = createHandlers();
+        await enqueueMutation(store, createOutboxMutation('u1', 'p1', 'save', project('Night Shift'), 1000));
+        await enqueueMutation(store, createOutboxMutation('u1', 'p2', 'delete', undefined, 1001));
+
+        supabase.setOffline(true);
+        const offline = await flushOutbox(store, 'u1', handlers, { client: supabase.client, now: 5000 });
+        expect(offline).toMatchObject({ pending: 2, offline: true });
+        // The second mutation isn't attempted once the network is known to be down
+        expect((await store.getAll('u1')).map(m => m.attempts)).toEqual([1, 0]);
+        expect(await getNextAttemptAt(store, 'u1')).toBe(1001);
+
+        supabase.setOffline(false);
+        const notDue = await flushOutbox(store, 'u1', handlers, { client: supabase.client, now: 5000 });
+        expect(notDue.pending).toBe(1);
+
+        const forced = await flushOutbox(store, 'u1', handlers, { client: supabase.client, now: 5000, force: true });
+        expect(forced).toMatchObject({ pending: 0, offline: false });
+        expect(handlers.onDeleted).toHaveBeenCalledWith('p2');
+        expect(supabase.rows).toHaveLength(1);
+    });
+
+    test('hands back the cloud copy when another device saved first', async () => {
+        const store = createMemoryStore();
+        const { client, rows } = createFakeSupabase();
+        rows.push({ user_id: 'u1', project_id: 'p1', project_data: { schemaVersion: 2, project: project('Other Device') }, revision: 2, updated_at: 'later' });
+        const handlers = createHandlers({ p1: 1 });
+        await enqueueMutation(store, createOutboxMutation('u1', 'p1', 'save', project('This Device')));
+
+        const result = await flushOutbox(store, 'u1', handlers, { client });
+
+        expect(result.pending).toBe(0);
+        expect(handlers.onSaved).not.toHaveBeenCalled();
+        expect(handlers.onConflict).toHaveBeenCalledWith(
+            expect.objectContaining({ title: 'This Device' }),
+            expect.objectContaining({ revision: 2, updatedAt: 'later', project: expect.objectContaining({ title: 'Other Device' }) })
+        );
+        expect(rows[0].revision).toBe(2);
+    });
+});
+
+describe('isNetworkError', () => {
+    test('recognizes fetch failures but not rejected requests', () => {
+        expect(isNetworkError('TypeError: Failed to fetch')).toBe(true);
+        expect(isNetworkError('NetworkError when attempting to fetch resource.')).toBe(true);
+        expect(isNetworkError('new row violates row-level security policy')).toBe(false);
+    });
+});
@@ -0,0 +1,217 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Project } from '../types';
+import { supabase } from './supabase';
+import { CloudProject, deleteProjectFromCloud, saveProjectToCloud } from './cloudSync';
+import { getBackoffDelay } from './generationQueue';
+
+/**
+ * Sync Outbox
+ *
+ * Cloud writes are queued here first and flushed when the network allows, so
+ * edits made offline survive a reload and go out as soon as the browser is
+ * back online. There is at most one mutation per project: a newer save or a
+ * delete replaces whatever was still waiting for that project.
+ */
+
+const DB_NAME = 'ink_tracker_sync_outbox';
+const STORE_NAME = 'mutations';
+const DB_VERSION = 1;
+
+export type OutboxMutationKind = 'save' | 'delete';
+
+export interface OutboxMutation {
+    id: string;             // `${userId}:${projectId}`
+    userId: string;
+    projectId: string;
+    kind: OutboxMutationKind;
+    project?: Project;      // Snapshot to upload, for saves
+    attempts: number;
+    nextAttemptAt: number;  // Epoch ms; waits until this time unless flushed with force
+    lastError?: string;
+    queuedAt: number;
+}
+
+// Persistence for the outbox; IndexedDB in the app, in memory in tests
+export interface OutboxStore {
+    getAll: (userId: string) => Promise<OutboxMutation[]>;
+    put: (mutation: OutboxMutation) => Promise<void>;
+    remove: (id: string) => Promise<void>;
+}
+
+export interface OutboxHandlers {
+    getBaseRevision: (projectId: string) => number | null;
+    getOwnerId?: (projectId: string) => string | undefined;  // For projects shared with this user
+    onSaved: (project: Project, revision: number, updatedAt: string) => void;
+    onConflict: (project: Project, cloud: CloudProject) => void;
+    onDeleted: (projectId: string) => void;
+}
+
+export interface OutboxFlushResult {
+    pending: number;
+    offline: boolean;
+    error?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDB(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result);
+
+        request.onupgradeneeded = (event) => {
+            const db = (event.target as IDBOpenDBRequest).result;
+            if (!db.objectStoreNames.contains(STORE_NAME)) {
+                const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                store.createIndex('userId', 'userId');
+            }
+        };
+    });
+
+    return dbPromise;
+}
+
+export const idbOutboxStore: OutboxStore = {
+    async getAll(userId) {
+        const db = await getDB();
+        const index = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index('userId');
+
+        return new Promise((resolve, reject) => {
+            const request = index.getAll(userId);
+            request.onsuccess = () => resolve(request.result || []);
+            request.onerror = () => reject(request.error);
+        });
+    },
+
+    async put(mutation) {
+        const db = await getDB();
+        const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+
+        await new Promise<void>((resolve, reject) => {
+            const request = store.put(mutation);
+            request.onsuccess = () => resolve();
+            request.onerror = () => reject(request.error);
+        });
+    },
+
+    async remove(id) {
+        const db = await getDB();
+        const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+
+        await new Promise<void>((resolve, reject) => {
+            const request = store.delete(id);
+            request.onsuccess = () => resolve();
+            request.onerror = () => reject(request.error);
+        });
+    },
+};
+
+export function createOutboxMutation(
+    userId: string,
+    projectId: string,
+    kind: OutboxMutationKind,
+    project?: Project,
+    now: number = Date.now()
+): OutboxMutation {
+    return {
+        id: `${userId}:${projectId}`,
+        userId,
+        projectId,
+        kind,
+        project,
+        attempts: 0,
+        nextAttemptAt: now,
+        queuedAt: now,
+    };
+}
+
+/**
+ * Fetch failures mean the browser is offline or Supabase is unreachable, as
+ * opposed to the request being rejected.
+ */
+export function isNetworkError(message: string): boolean {
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+    return /failed to fetch|networkerror|network request failed|load failed|fetch failed|ERR_INTERNET_DISCONNECTED/i.test(message);
+}
+
+/**
+ * Returns the mutation rescheduled with backoff after a failed attempt.
+ */
+export function recordMutationFailure(mutation: OutboxMutation, message: string, now: number = Date.now()): OutboxMutation {
+    const attempts = mutation.attempts + 1;
+    return { ...mutation, attempts, lastError: message, nextAttemptAt: now + getBackoffDelay(attempts) };
+}
+
+/**
+ * Queues a mutation, replacing any mutation still waiting for the same project.
+ * The wait of the replaced mutation is kept so a flapping connection isn't hammered.
+ */
+export async function enqueueMutation(store: OutboxStore, mutation: OutboxMutation): Promise<void> {
+    const existing = (await store.getAll(mutation.userId)).find(m => m.id === mutation.id);
+    await store.put(existing
+        ? { ...mutation, attempts: existing.attempts, nextAttemptAt: existing.nextAttemptAt, queuedAt: existing.queuedAt }
+        : mutation);
+}
+
+/**
+ * Sends every due mutation, oldest first. With force, backoff is ignored (used
+ * when the browser comes back online). Stops at the first network failure since
+ * the rest would fail the same way.
+ */
+export async function flushOutbox(
+    store: OutboxStore,
+    userId: string,
+    handlers: OutboxHandlers,
+    { force = false, now = Date.now(), client = supabase }: { force?: boolean; now?: number; client?: SupabaseClient | null } = {}
+): Promise<OutboxFlushResult> {
+    const mutations = (await store.getAll(userId)).sort((a, b) => a.queuedAt - b.queuedAt);
+    let error: string | undefined;
+    let offline = false;
+
+    for (const mutation of mutations) {
+        if (offline || (!force && mutation.nextAttemptAt > now)) continue;
+
+        let failure: string | undefined;
+        if (mutation.kind === 'delete') {
+            const result = await deleteProjectFromCloud(userId, mutation.projectId, client);
+            if (result.success) handlers.onDeleted(mutation.projectId);
+            else failure = result.error || 'Cloud delete failed';
+        } else if (mutation.project) {
+            const ownerId = handlers.getOwnerId?.(mutation.projectId) ?? userId;
+            const result = await saveProjectToCloud(ownerId, mutation.project, handlers.getBaseRevision(mutation.projectId), client);
+            if (result.success) handlers.onSaved(mutation.project, result.revision!, result.updatedAt!);
+            else if (result.conflict) handlers.onConflict(mutation.project, result.conflict);
+            else failure = result.error || 'Cloud save failed';
+        }
+
+        if (failure === undefined) {
+            await store.remove(mutation.id);
+            continue;
+        }
+
+        await store.put(recordMutationFailure(mutation, failure, now));
+        if (isNetworkError(failure)) offline = true;
+        else error = failure;
+    }
+
+    const pending = (await store.getAll(userId)).length;
+    return { pending, offline, error };
+}
+
+/**
+ * When the next waiting mutation becomes due, or null if nothing is queued.
+ */
+export async function getNextAttemptAt(store: OutboxStore, userId: string): Promise<number | null> {
+    const mutations = await store.getAll(userId);
+    return mutations.length ? Math.min(...mutations.map(m => m.nextAttemptAt)) : null;
+}
+
+export async function clearOutbox(store: OutboxStore, userId: string): Promise<void> {
+    for (const mutation of await store.getAll(userId)) {
+        await store.remove(mutation.id);
+    }
+}
@@ -25,13 +25,16 @@ const ACT_PATTERNS = [
   /^END\s+(TEASER|TAG)\s*$/i,
 ];
 
-interface EpisodeMetadata {
+export interface EpisodeMetadata {
   episodeNumber?: string;
   episodeTitle?: string;
+  seriesTitle?: string;   // From an FDX title page
+  writer?: string;        // From an FDX title page
+  draftDate?: string;     // From an FDX title page
   acts: ActBreak[];
 }
 
-interface ActBreak {
+export interface ActBreak {
   type: string;
   pageNumber: number;
   lineNumber: number;
@@ -40,7 +43,7 @@ interface ActBreak {
 /**
  * Parse episode number from a line
  */
-function parseEpisodeNumber(line: string): string | null {
+export function parseEpisodeNumber(line: string): string | null {
   for (const pattern of EPISODE_NUMBER_PATTERNS) {
     const match = line.match(pattern);
     if (match) {
@@ -57,7 +60,7 @@ function parseEpisodeNumber(line: string): string | null {
 /**
  * Parse episode title from a line
  */
-function parseEpisodeTitle(line: string): string | null {
+export function parseEpisodeTitle(line: string): string | null {
   const match = line.match(EPISODE_TITLE_PATTERN);
   return match ? match[1].trim() : null;
 }
@@ -65,7 +68,7 @@ function parseEpisodeTitle(line: string): string | null {
 /**
  * Check if line is an act break
  */
-function parseActBreak(line: string): string | null {
+export function parseActBreak(line: string): string | null {
   for (const pattern of ACT_PATTERNS) {
     const match = line.match(pattern);
     if (match) {
@@ -0,0 +1,101 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import {
+    DEFAULT_PRICE_TABLE,
+    MAX_USAGE_RECORDS,
+    UsageRecord,
+    clearUsage,
+    estimateCost,
+    getProjectSpend,
+    isOverBudget,
+    loadProjectSpend,
+    loadUsage,
+    recordUsage,
+    summarizeUsage
+} from './usageTracking';
+import { Project } from '../types';
+
+const call = (overrides: Partial<UsageRecord> = {}) => ({
+    projectId: 'p1',
+    source: 'batch' as const,
+    provider: 'fal' as const,
+    model: 'fal-ai/flux-pro',
+    width: 1024,
+    height: 1024,
+    durationMs: 4000,
+    success: true,
+    ...overrides,
+});
+
+describe('estimateCost', () => {
+    test('adds the per-image price to the per-megapixel price', () => {
+        expect(estimateCost({ perImage: 0.01, perMegapixel: 0.05 }, 2000, 1000)).toBeCloseTo(0.11);
+    });
+});
+
+describe('recordUsage', () => {
+    beforeEach(() => localStorage.clear());
+
+    test('prices successful calls and charges nothing for failures', () => {
+        const ok = recordUsage(call());
+        const failed = recordUsage(call({ success: false, error: 'FAL API error 500' }));
+
+        expect(ok.cost).toBeCloseTo(estimateCost(DEFAULT_PRICE_TABLE.fal, 1024, 1024));
+        expect(failed.cost).toBe(0);
+        expect(loadUsage()).toEqual([ok, failed]);
+    });
+
+    test('clears only the given project', () => {
+        recordUsage(call());
+        recordUsage(call({ projectId: 'p2' }));
+        clearUsage('p1');
+
+        expect(loadUsage().map(record => record.projectId)).toEqual(['p2']);
+        expect(getProjectSpend('p1')).toBe(0);
+        expect(getProjectSpend('p2')).toBeGreaterThan(0);
+    });
+
+    test('keeps counting spend after old records are dropped', () => {
+        const full = Array.from({ length: MAX_USAGE_RECORDS }, (_, i) => ({ ...call(), id: `r${i}`, cost: 0.01, createdAt: i }));
+        localStorage.setItem('ink_tracker_usage', JSON.stringify(full));
+        recordUsage(call(), { ...DEFAULT_PRICE_TABLE, fal: { perImage: 0.01, perMegapixel: 0 } });
+
+        expect(loadUsage()).toHaveLength(MAX_USAGE_RECORDS);
+        expect(loadUsage()[0].id).toBe('r1');
+        expect(getProjectSpend('p1')).toBeCloseTo((MAX_USAGE_RECORDS + 1) * 0.01);
+    });
+
+    test('starts the running totals from records saved before they existed', () => {
+        localStorage.setItem('ink_tracker_usage', JSON.stringify([
+            { ...call(), id: 'a', cost: 0.5, createdAt: 1 },
+            { ...call({ projectId: 'p2' }), id: 'b', cost: 2, createdAt: 2 },
+        ]));
+
+        expect(loadProjectSpend()).toEqual({ p1: 0.5, p2: 2 });
+    });
+});
+
+describe('summarizeUsage', () => {
+    test('totals each group and lists the most expensive first', () => {
+        const records = [
+            { ...call({ provider: 'gemini' }), id: 'a', cost: 0.04, createdAt: 1 },
+            { ...call(), id: 'b', cost: 0.05, createdAt: 2 },
+            { ...call({ success: false }), id: 'c', cost: 0, createdAt: 3 },
+        ];
+
+        expect(summarizeUsage(records, record => record.provider)).toEqual([
+            { key: 'fal', generations: 2, failures: 1, cost: 0.05, durationMs: 8000 },
+            { key: 'gemini', generations: 1, failures: 0, cost: 0.04, durationMs: 4000 },
+        ]);
+    });
+});
+
+describe('isOverBudget', () => {
+    test('compares the project spend against its cap', () => {
+        const spend = { p1: 1.5, p2: 5 };
+        const project = { id: 'p1' } as Project;
+
+        expect(isOverBudget(project, spend)).toBe(false);
+        expect(isOverBudget({ ...project, budgetCap: 2 }, spend)).toBe(false);
+        expect(isOverBudget({ ...project, budgetCap: 1.5 }, spend)).toBe(true);
+    });
+});
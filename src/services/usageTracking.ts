@@ -0,0 +1,178 @@
+import { ImageProvider, Project } from '../types';
+import { genId } from '../utils/helpers';
+
+/**
+ * Usage Tracking
+ *
+ * Every generation call is recorded on this device with its provider, model,
+ * resolution, duration and outcome, plus a cost estimated from the price
+ * table at the time it ran. Records power the usage dashboard; the budget cap
+ * that stops batch generation reads running per-project totals instead, which
+ * are kept apart so dropping old records never lowers a project's spend.
+ */
+
+const USAGE_STORAGE_KEY = 'ink_tracker_usage';
+const SPEND_STORAGE_KEY = 'ink_tracker_usage_spend';
+const PRICE_TABLE_STORAGE_KEY = 'ink_tracker_price_table';
+
+// Oldest records are dropped beyond this, to keep localStorage small
+export const MAX_USAGE_RECORDS = 5000;
+
+export type UsageSource = 'panel' | 'batch' | 'sidebar' | 'character';
+
+export interface UsageContext {
+    source: UsageSource;
+    issueId?: string;
+    panelId?: string;
+}
+
+export interface UsageRecord {
+    id: string;
+    projectId: string;
+    issueId?: string;
+    panelId?: string;
+    source: UsageSource;
+    provider: ImageProvider;
+    model: string;
+    width: number;
+    height: number;
+    durationMs: number;
+    success: boolean;
+    error?: string;
+    cost: number;           // Estimated USD; failed calls cost nothing
+    createdAt: number;
+}
+
+export interface ProviderPrice {
+    perImage: number;       // USD per generated image
+    perMegapixel: number;   // USD per megapixel, for providers that bill by size
+}
+
+export type PriceTable = Record<ImageProvider, ProviderPrice>;
+
+// Estimated USD spent per project id, never trimmed
+export type ProjectSpend = Record<string, number>;
+
+// Published list prices for the models each adapter uses; adjust in the dashboard
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+    gemini: { perImage: 0.039, perMegapixel: 0 },
+    leonardo: { perImage: 0.024, perMegapixel: 0 },
+    grok: { perImage: 0.07, perMegapixel: 0 },
+    fal: { perImage: 0, perMegapixel: 0.05 },
+    seaart: { perImage: 0.012, perMegapixel: 0 },
+    openai: { perImage: 0, perMegapixel: 0.04 },
+};
+
+export interface UsageSummary {
+    key: string;
+    generations: number;
+    failures: number;
+    cost: number;
+    durationMs: number;
+}
+
+function readJson<T>(key: string, fallback: T): T {
+    try {
+        const saved = localStorage.getItem(key);
+        return saved ? JSON.parse(saved) : fallback;
+    } catch {
+        return fallback;
+    }
+}
+
+function writeJson(key: string, value: unknown) {
+    try {
+        localStorage.setItem(key, JSON.stringify(value));
+    } catch (e) {
+        console.error(`Failed to save ${key}:`, e);
+    }
+}
+
+export function loadPriceTable(): PriceTable {
+    const saved = readJson<Partial<PriceTable>>(PRICE_TABLE_STORAGE_KEY, {});
+    return { ...DEFAULT_PRICE_TABLE, ...saved };
+}
+
+export function savePriceTable(table: PriceTable): void {
+    writeJson(PRICE_TABLE_STORAGE_KEY, table);
+}
+
+export function estimateCost(price: ProviderPrice, width: number, height: number): number {
+    return price.perImage + price.perMegapixel * (width * height) / 1_000_000;
+}
+
+export function loadUsage(): UsageRecord[] {
+    return readJson<UsageRecord[]>(USAGE_STORAGE_KEY, []);
+}
+
+/**
+ * Running spend per project. Devices that tracked usage before the totals
+ * existed start from the records they still have.
+ */
+export function loadProjectSpend(): ProjectSpend {
+    const saved = readJson<ProjectSpend | null>(SPEND_STORAGE_KEY, null);
+    if (saved) return saved;
+    return loadUsage().reduce<ProjectSpend>((spend, record) => ({ ...spend, [record.projectId]: (spend[record.projectId] || 0) + record.cost }), {});
+}
+
+/**
+ * Saves one generation call, pricing it with the current price table.
+ */
+export function recordUsage(
+    entry: Omit<UsageRecord, 'id' | 'cost' | 'createdAt'>,
+    prices: PriceTable = loadPriceTable(),
+    now: number = Date.now()
+): UsageRecord {
+    const record: UsageRecord = {
+        ...entry,
+        id: genId(),
+        cost: entry.success ? estimateCost(prices[entry.provider], entry.width, entry.height) : 0,
+        createdAt: now,
+    };
+    const spend = loadProjectSpend();
+    writeJson(SPEND_STORAGE_KEY, { ...spend, [record.projectId]: (spend[record.projectId] || 0) + record.cost });
+    writeJson(USAGE_STORAGE_KEY, [...loadUsage(), record].slice(-MAX_USAGE_RECORDS));
+    return record;
+}
+
+/**
+ * Forgets a project's records and spend, or everything when no project is given.
+ */
+export function clearUsage(projectId?: string): void {
+    const spend = projectId ? loadProjectSpend() : {};
+    if (projectId) delete spend[projectId];
+    writeJson(SPEND_STORAGE_KEY, spend);
+    writeJson(USAGE_STORAGE_KEY, projectId ? loadUsage().filter(record => record.projectId !== projectId) : []);
+}
+
+/**
+ * Totals grouped by a record field, most expensive first.
+ */
+export function summarizeUsage(records: UsageRecord[], groupBy: (record: UsageRecord) => string): UsageSummary[] {
+    const groups = new Map<string, UsageSummary>();
+    records.forEach(record => {
+        const key = groupBy(record);
+        const summary = groups.get(key) || { key, generations: 0, failures: 0, cost: 0, durationMs: 0 };
+        summary.generations++;
+        if (!record.success) summary.failures++;
+        summary.cost += record.cost;
+        summary.durationMs += record.durationMs;
+        groups.set(key, summary);
+    });
+    return [...groups.values()].sort((a, b) => b.cost - a.cost || b.generations - a.generations);
+}
+
+export function getProjectSpend(projectId: string, spend: ProjectSpend = loadProjectSpend()): number {
+    return spend[projectId] || 0;
+}
+
+/**
+ * Whether the project's estimated spend has reached its budget cap.
+ */
+export function isOverBudget(project: Project, spend: ProjectSpend = loadProjectSpend()): boolean {
+    return project.budgetCap !== undefined && getProjectSpend(project.id, spend) >= project.budgetCap;
+}
+
+export function formatCost(usd: number): string {
+    return `$${usd.toFixed(usd > 0 && usd < 1 ? 3 : 2)}`;
+}
@@ -0,0 +1,43 @@
+import { describe, test, expect } from 'vitest';
+import { getWardrobeVariant, resolveWardrobe, updateWardrobeSelection } from './wardrobe';
+import { buildCharacterPrompt } from '../hooks/useImageGeneration';
+import { AspectRatio, Character, Issue, Page, Panel } from '../types';
+
+const maggie: Character = {
+    id: 'maggie',
+    name: 'Maggie',
+    description: 'Night-shift waitress',
+    appearance: { hairColor: 'red', clothing: 'diner uniform', accessories: 'name tag' },
+    wardrobe: [
+        { id: 'coat', name: 'winter coat', clothing: 'long wool coat', accessories: 'knit scarf' },
+        { id: 'armor', name: 'battle armor', clothing: 'dented plate armor' },
+    ],
+};
+
+const panel: Panel = { id: 'a', prompt: '', aspectRatio: AspectRatio.WIDE, characterIds: ['maggie', 'hank'], textElements: [] };
+const page: Page = { id: 'pg1', number: 1, panels: [panel] };
+const issue: Issue = { id: 'i1', title: 'Issue #1', pages: [page] };
+
+describe('resolveWardrobe', () => {
+    test('panel picks win over the page, and the page over the issue default', () => {
+        const dressedIssue = { ...issue, wardrobe: { maggie: 'coat', hank: 'coat' } };
+        const dressedPage = { ...page, wardrobe: { hank: 'armor' } };
+
+        expect(resolveWardrobe(dressedIssue, dressedPage)).toEqual({ maggie: 'coat', hank: 'armor' });
+        expect(resolveWardrobe(dressedIssue, dressedPage, { ...panel, wardrobe: { maggie: 'armor' } })).toEqual({ maggie: 'armor', hank: 'armor' });
+    });
+
+    test('falls back to the usual outfit when a variant was deleted', () => {
+        expect(getWardrobeVariant(maggie, { maggie: 'coat' })?.name).toBe('winter coat');
+        expect(getWardrobeVariant(maggie, { maggie: 'gone' })).toBeUndefined();
+        expect(updateWardrobeSelection({ maggie: 'coat', hank: 'armor' }, 'maggie')).toEqual({ hank: 'armor' });
+    });
+});
+
+describe('buildCharacterPrompt', () => {
+    test("swaps in the variant's clothing and accessories", () => {
+        expect(buildCharacterPrompt(maggie)).toBe('Maggie (red hair, wearing diner uniform, with name tag)');
+        expect(buildCharacterPrompt(maggie, maggie.wardrobe![0])).toBe('Maggie (red hair, wearing long wool coat, with knit scarf)');
+        expect(buildCharacterPrompt(maggie, maggie.wardrobe![1])).toBe('Maggie (red hair, wearing dented plate armor)');
+    });
+});
@@ -0,0 +1,35 @@
+import { Character, Issue, Page, Panel, WardrobeSelection, WardrobeVariant } from '../types';
+
+/**
+ * Wardrobe
+ *
+ * Characters can have named outfit variants. Which one they wear is chosen per
+ * issue (the default), per page and per panel; the most specific choice wins.
+ */
+
+/**
+ * The outfit each character wears in a panel: the panel's picks over the page's
+ * over the issue default.
+ */
+export function resolveWardrobe(issue?: Issue, page?: Page, panel?: Panel): WardrobeSelection {
+    return { ...issue?.wardrobe, ...page?.wardrobe, ...panel?.wardrobe };
+}
+
+/**
+ * The selected variant, or undefined for the character's usual clothing
+ * (including when the variant has since been deleted).
+ */
+export function getWardrobeVariant(character: Character, selection: WardrobeSelection): WardrobeVariant | undefined {
+    const variantId = selection[character.id];
+    return variantId ? character.wardrobe?.find(variant => variant.id === variantId) : undefined;
+}
+
+/**
+ * Sets or clears (with undefined) one character's pick in a selection.
+ */
+export function updateWardrobeSelection(selection: WardrobeSelection | undefined, characterId: string, variantId?: string): WardrobeSelection {
+    const next = { ...selection };
+    if (variantId) next[characterId] = variantId;
+    else delete next[characterId];
+    return next;
+}
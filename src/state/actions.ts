@@ -1,38 +1,51 @@
-import { Project, Issue, Panel, Character, TextElement, AspectRatio, AppState } from '../types';
+import { Project, Issue, Page, Panel, PanelTake, PanelComment, Character, SceneLocation, Prop, TextElement, AspectRatio, AppState, ProjectRole } from '../types';
 
 // Page template types
 export type PageTemplate = '2x2' | '3x3' | '2x3' | 'manga-right' | 'manga-left' | 'single' | 'double-wide';
 
+// Actions that create entities take optional ids so collaborators can replay them
+// and end up with the same ids; the reducer generates any that are missing.
 export type Action =
 | { type: 'HYDRATE'; payload: AppState }
 | { type: 'SET_ACTIVE_PROJECT'; id: string }
 | { type: 'ADD_PROJECT'; title: string; projectType?: 'comic' | 'screenplay' | 'stage-play' | 'tv-series' }
+| { type: 'IMPORT_PROJECT'; project: Project }
+| { type: 'SYNC_PROJECTS'; projects: Project[] }
+| { type: 'SET_PROJECT_ROLES'; roles: Record<string, ProjectRole> }
 | { type: 'UPDATE_PROJECT'; id: string; updates: Partial<Project> }
-| { type: 'UPDATE_PROJECT_GEMINI_KEY'; projectId: string; apiKey: string }
-| { type: 'UPDATE_PROJECT_LEONARDO_KEY'; projectId: string; apiKey: string }
-| { type: 'UPDATE_PROJECT_GROK_KEY'; projectId: string; apiKey: string }
-| { type: 'UPDATE_PROJECT_FAL_KEY'; projectId: string; apiKey: string }
-| { type: 'UPDATE_PROJECT_SEAART_KEY'; projectId: string; apiKey: string }
-| { type: 'UPDATE_PROJECT_OPENAI_KEY'; projectId: string; apiKey: string }
 | { type: 'DELETE_PROJECT'; id: string }
-| { type: 'ADD_ISSUE'; projectId: string; title?: string }
+| { type: 'ADD_ISSUE'; projectId: string; title?: string; id?: string; firstPageId?: string }
 | { type: 'UPDATE_ISSUE'; issueId: string; updates: Partial<Issue> }
 | { type: 'DELETE_ISSUE'; issueId: string }
 | { type: 'SET_ACTIVE_ISSUE'; id: string }
-| { type: 'ADD_PAGE'; issueId: string }
+| { type: 'ADD_PAGE'; issueId: string; id?: string }
+| { type: 'UPDATE_PAGE'; pageId: string; updates: Partial<Omit<Page, 'id' | 'panels'>> }
 | { type: 'SET_ACTIVE_PAGE'; id: string }
-| { type: 'ADD_PANEL'; pageId: string }
+| { type: 'ADD_PANEL'; pageId: string; id?: string }
 | { type: 'UPDATE_PANEL'; panelId: string; updates: Partial<Panel> }
 | { type: 'DELETE_PANEL'; panelId: string; pageId: string }
+| { type: 'ADD_PANEL_TAKE'; panelId: string; take: PanelTake }
+| { type: 'SELECT_PANEL_TAKE'; panelId: string; takeId: string }
+| { type: 'DELETE_PANEL_TAKE'; panelId: string; takeId: string }
+| { type: 'ADD_PANEL_COMMENT'; panelId: string; threadId: string; elementId?: string; comment: PanelComment }
+| { type: 'RESOLVE_COMMENT_THREAD'; panelId: string; threadId: string; resolved: boolean; by?: string; at?: number }
+| { type: 'DELETE_PANEL_COMMENT'; panelId: string; threadId: string; commentId: string }
 | { type: 'REORDER_PANELS'; pageId: string; panels: Panel[] }
 | { type: 'REORDER_PAGES'; issueId: string; oldIndex: number; newIndex: number }
-| { type: 'ADD_CHARACTER'; name: string; description: string; appearance?: Character['appearance'] }
+| { type: 'ADD_CHARACTER'; name: string; aliases?: string[]; description: string; appearance?: Character['appearance']; wardrobe?: Character['wardrobe']; id?: string }
 | { type: 'UPDATE_CHARACTER'; id: string; updates: Partial<Omit<Character, 'id'>> }
 | { type: 'DELETE_CHARACTER'; id: string }
+| { type: 'ADD_LOCATION'; name: string; description: string; lighting?: string; id?: string }
+| { type: 'UPDATE_LOCATION'; id: string; updates: Partial<Omit<SceneLocation, 'id'>> }
+| { type: 'DELETE_LOCATION'; id: string }
+| { type: 'ADD_PROP'; name: string; description: string; id?: string }
+| { type: 'UPDATE_PROP'; id: string; updates: Partial<Omit<Prop, 'id'>> }
+| { type: 'DELETE_PROP'; id: string }
 | { type: 'ADD_TEXT_ELEMENT'; panelId: string; element: TextElement }
 | { type: 'UPDATE_TEXT_ELEMENT'; panelId: string; elementId: string; updates: Partial<TextElement> }
 | { type: 'DELETE_TEXT_ELEMENT'; panelId: string; elementId: string }
-| { type: 'IMPORT_ISSUE'; projectId: string; issue: Issue; characters: Character[] }
-| { type: 'APPLY_PAGE_TEMPLATE'; pageId: string; template: PageTemplate }
+| { type: 'IMPORT_ISSUE'; projectId: string; issue: Issue; characters: Character[]; locations?: SceneLocation[] }
+| { type: 'APPLY_PAGE_TEMPLATE'; pageId: string; template: PageTemplate; panelIds?: string[] }
+| { type: 'APPLY_REMOTE_ACTION'; projectId: string; senderRole: ProjectRole; action: Action }
 | { type: 'UNDO' }
 | { type: 'REDO' };
@@ -2,16 +2,18 @@ import {
     AppState,
     Project
 } from '../types';
+import { LEGACY_SCHEMA_VERSION, migrateProject, parseAppState } from './migrations';
+import { LOCAL_VAULT_SCOPE, stashLegacyApiKeys } from '../services/keyVault';
 
 export const createInitialState = (): AppState => {
     const saved = localStorage.getItem('ink_tracker_data');
     if (saved) {
         try {
-            const parsed = JSON.parse(saved);
-            if (parsed?.projects) {
-                parsed.projects = normalizeProjects(parsed.projects);
-            }
-            return parsed;
+            const { state, apiKeys } = parseAppState(saved);
+            // Keys on projects saved in this browser go to its signed-out vault;
+            // signed-in users get theirs back from their cloud rows
+            stashLegacyApiKeys(apiKeys, LOCAL_VAULT_SCOPE).catch(err => console.error('Failed to stash legacy API keys:', err));
+            return state;
         } catch (e) {
             console.error("Load failed", e);
         }
@@ -49,34 +51,9 @@ export const createInitialState = (): AppState => {
     };
 };
 
+/**
+ * Brings bare, unversioned projects up to the current schema.
+ */
 export const normalizeProjects = (projects: Project[]): Project[] => {
-    return projects.map((proj) => {
-        const normalized: Project = {
-            ...proj,
-            issueType: proj.issueType || 'issue',
-            imageProvider: proj.imageProvider || 'gemini',
-            projectType: proj.projectType || 'comic',
-            openaiApiKey: proj.openaiApiKey || '',
-            fluxModel: proj.fluxModel || 'fal-ai/flux-pro',
-            panelFrameStyle: proj.panelFrameStyle || 'opaque-black',
-            textOverlayStyle: proj.textOverlayStyle || 'opaque',
-            characters: proj.characters || [],
-            issues: (proj.issues || []).map((iss) => ({
-                ...iss,
-                pages: (iss.pages || []).map((pg) => ({
-                    ...pg,
-                    panels: (pg.panels || []).map((pan) => ({
-                        ...pan,
-                        textElements: pan.textElements || [],
-                        characterIds: pan.characterIds || [],
-                    })),
-                })),
-            })),
-        };
-
-        if ((normalized.imageProvider as string) === 'fal-flux') normalized.imageProvider = 'fal';
-        if ((normalized.imageProvider as string) === 'replicate-flux') normalized.imageProvider = 'gemini';
-
-        return normalized;
-    });
+    return projects.map((proj) => migrateProject(proj, LEGACY_SCHEMA_VERSION));
 };
@@ -0,0 +1,122 @@
+import { describe, test, expect } from 'vitest';
+import {
+    CURRENT_SCHEMA_VERSION,
+    LEGACY_SCHEMA_VERSION,
+    MIGRATIONS,
+    migrateProject,
+    parseAppState,
+    serializeAppState,
+    unwrapProject,
+    wrapProject
+} from './migrations';
+import { AppState, Project } from '../types';
+import appStateV0 from './fixtures/appState.v0.json?raw';
+import projectV1 from './fixtures/project.v1.json?raw';
+
+describe('MIGRATIONS', () => {
+    test('are in ascending order and end at the current version', () => {
+        const versions = MIGRATIONS.map(m => m.version);
+        expect(versions).toEqual([...versions].sort((a, b) => a - b));
+        expect(new Set(versions).size).toBe(versions.length);
+        expect(versions[versions.length - 1]).toBe(CURRENT_SCHEMA_VERSION);
+    });
+
+    test('current data is left untouched', () => {
+        const { state } = parseAppState(appStateV0);
+        const project = state.projects[0];
+        expect(migrateProject(project, CURRENT_SCHEMA_VERSION)).toBe(project);
+    });
+});
+
+describe('legacy localStorage (v0)', () => {
+    const { state, apiKeys } = parseAppState(appStateV0);
+    const [night, replicate] = state.projects;
+
+    test('keeps active selections', () => {
+        expect(state.activeProjectId).toBe('p1');
+        expect(state.activePageId).toBe('pg1');
+    });
+
+    test('fills defaults for missing fields', () => {
+        expect(night.issueType).toBe('issue');
+        expect(night.projectType).toBe('comic');
+        expect(night.characters).toEqual([]);
+        expect(night.issues[1].pages).toEqual([]);
+        expect(night.issues[0].pages[0].panels[0].textElements).toEqual([]);
+        expect(night.issues[0].pages[0].panels[0].characterIds).toEqual([]);
+        expect(replicate.characters).toHaveLength(1);
+    });
+
+    test('renames retired providers', () => {
+        expect(night.imageProvider).toBe('fal');
+        expect(replicate.imageProvider).toBe('gemini');
+    });
+
+    test('takes API keys off projects and returns them without storing them', () => {
+        localStorage.clear();
+        parseAppState(appStateV0);
+
+        expect(night).not.toHaveProperty('falApiKey');
+        expect(apiKeys).toEqual({ fal: 'fal-key' });
+        expect(localStorage.length).toBe(0);
+    });
+
+    test('only returns keys from projects the user owns', () => {
+        const legacy = JSON.parse(appStateV0) as AppState;
+        const shared: AppState = { ...legacy, projectRoles: { [legacy.projects[0].id]: 'editor' } };
+        const parsed = parseAppState(JSON.stringify(shared));
+
+        expect(parsed.apiKeys).toEqual({});
+        expect(parsed.state.projects[0]).not.toHaveProperty('falApiKey');
+    });
+
+    test('moves single panel images into the take history', () => {
+        const [withImage, withoutImage] = night.issues[0].pages[0].panels;
+        expect(withImage.takes).toEqual([{ id: 'panel1-legacy', imageUrl: 'idb://panel1', prompt: 'Rain on the diner window', createdAt: 0 }]);
+        expect(withImage.activeTakeId).toBe('panel1-legacy');
+        expect(withImage.imageUrl).toBe('idb://panel1');
+        expect(withoutImage.takes).toBeUndefined();
+    });
+});
+
+describe('versioned localStorage', () => {
+    test('round-trips through serializeAppState', () => {
+        const { state } = parseAppState(appStateV0);
+        const json = serializeAppState(state);
+
+        expect(JSON.parse(json).schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+        expect(parseAppState(json)).toEqual({ state, apiKeys: {} });
+    });
+});
+
+describe('cloud and backup projects', () => {
+    test('migrates a v1 envelope from its own version', () => {
+        const { project, schemaVersion } = unwrapProject(JSON.parse(projectV1));
+        const [single, withTakes] = project.issues[0].pages[0].panels;
+
+        expect(schemaVersion).toBe(1);
+        // Only v2 and later run, so v1 settings are kept as they were
+        expect(project.imageProvider).toBe('leonardo');
+        expect(project.textOverlayStyle).toBe('border-only');
+        expect(single.activeTakeId).toBe('panel3-legacy');
+        expect(withTakes.takes).toHaveLength(2);
+        expect(withTakes.activeTakeId).toBe('take-b');
+    });
+
+    test('treats a bare project as legacy data', () => {
+        const legacy = JSON.parse(appStateV0).projects[0] as Project;
+        expect(unwrapProject(legacy)).toEqual({
+            project: migrateProject(legacy, LEGACY_SCHEMA_VERSION),
+            schemaVersion: LEGACY_SCHEMA_VERSION,
+            apiKeys: { fal: 'fal-key' },
+        });
+    });
+
+    test('wrapProject stamps the current version', () => {
+        const { project } = unwrapProject(JSON.parse(projectV1));
+        const wrapped = wrapProject(project);
+
+        expect(wrapped.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+        expect(unwrapProject(JSON.parse(JSON.stringify(wrapped)))).toEqual({ project, schemaVersion: CURRENT_SCHEMA_VERSION, apiKeys: {} });
+    });
+});
@@ -0,0 +1,187 @@
+import { AppState, Project } from '../types';
+import { ApiKeys, extractLegacyApiKeys } from '../services/keyVault';
+
+/**
+ * Persisted data carries the schema version it was written with. Older data is
+ * brought forward by running every migration newer than its version, in order.
+ *
+ * To change the stored shape: add a migration with the next version number and
+ * bump CURRENT_SCHEMA_VERSION, then add a fixture snapshot of the old format to
+ * migrations.test.ts.
+ *
+ * Migrations are pure. Data they take off a project, like the API keys moved
+ * into the key vault, is returned to the caller to store.
+ */
+
+// Data written before versioning existed is treated as version 0
+export const LEGACY_SCHEMA_VERSION = 0;
+
+export interface Migration {
+    version: number;
+    description: string;
+    migrate: (project: Project) => Project;
+}
+
+export interface PersistedAppState {
+    schemaVersion: number;
+    state: AppState;
+}
+
+export interface PersistedProject {
+    schemaVersion: number;
+    project: Project;
+}
+
+export interface ParsedAppState {
+    state: AppState;
+    apiKeys: ApiKeys;       // Keys found on projects this user owns
+}
+
+export interface UnwrappedProject {
+    project: Project;
+    schemaVersion: number;  // The version the project was stored with
+    apiKeys: ApiKeys;
+}
+
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Fill defaults for fields added before versioning and rename retired providers',
+        migrate: (proj) => {
+            const migrated: Project = {
+                ...proj,
+                issueType: proj.issueType || 'issue',
+                imageProvider: proj.imageProvider || 'gemini',
+                projectType: proj.projectType || 'comic',
+                fluxModel: proj.fluxModel || 'fal-ai/flux-pro',
+                panelFrameStyle: proj.panelFrameStyle || 'opaque-black',
+                textOverlayStyle: proj.textOverlayStyle || 'opaque',
+                characters: proj.characters || [],
+                issues: (proj.issues || []).map((iss) => ({
+                    ...iss,
+                    pages: (iss.pages || []).map((pg) => ({
+                        ...pg,
+                        panels: (pg.panels || []).map((pan) => ({
+                            ...pan,
+                            textElements: pan.textElements || [],
+                            characterIds: pan.characterIds || [],
+                        })),
+                    })),
+                })),
+            };
+
+            if ((migrated.imageProvider as string) === 'fal-flux') migrated.imageProvider = 'fal';
+            if ((migrated.imageProvider as string) === 'replicate-flux') migrated.imageProvider = 'gemini';
+
+            return migrated;
+        },
+    },
+    {
+        version: 2,
+        description: 'Move single panel images into the take history',
+        migrate: (proj) => ({
+            ...proj,
+            issues: proj.issues.map((iss) => ({
+                ...iss,
+                pages: iss.pages.map((pg) => ({
+                    ...pg,
+                    panels: pg.panels.map((pan) => {
+                        if (!pan.imageUrl || pan.takes?.length) return pan;
+                        const takeId = `${pan.id}-legacy`;
+                        return {
+                            ...pan,
+                            takes: [{ id: takeId, imageUrl: pan.imageUrl, prompt: pan.prompt || '', createdAt: 0 }],
+                            activeTakeId: takeId,
+                        };
+                    }),
+                })),
+            })),
+        }),
+    },
+    {
+        version: 3,
+        description: 'Move API keys out of projects into the key vault',
+        migrate: (proj) => extractLegacyApiKeys(proj).project,
+    },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Data stored before this version may still carry plaintext API keys
+export const KEY_VAULT_SCHEMA_VERSION = 3;
+
+/**
+ * Runs every migration newer than fromVersion. Data from a newer app version is
+ * returned unchanged.
+ */
+export function migrateProject(project: Project, fromVersion: number): Project {
+    return MIGRATIONS
+        .filter(migration => migration.version > fromVersion)
+        .reduce((proj, migration) => migration.migrate(proj), project);
+}
+
+/**
+ * The API keys a project stored at fromVersion carries, which migrating it
+ * removes.
+ */
+export function getLegacyApiKeys(project: Project, fromVersion: number): ApiKeys {
+    return fromVersion < KEY_VAULT_SCHEMA_VERSION ? extractLegacyApiKeys(project).keys : {};
+}
+
+/**
+ * Migrates every project in the state. Keys are only collected from projects
+ * the user owns, so opening someone else's shared project never adopts theirs.
+ */
+export function migrateAppState(state: AppState, fromVersion: number): ParsedAppState {
+    if (!state?.projects) return { state, apiKeys: {} };
+    const owned = state.projects.filter(project => (state.projectRoles?.[project.id] || 'owner') === 'owner');
+    return {
+        state: { ...state, projects: state.projects.map(project => migrateProject(project, fromVersion)) },
+        apiKeys: Object.assign({}, ...owned.map(project => getLegacyApiKeys(project, fromVersion))),
+    };
+}
+
+const isVersioned = (value: unknown): value is { schemaVersion: number } =>
+    !!value && typeof (value as { schemaVersion?: unknown }).schemaVersion === 'number';
+
+/**
+ * Serializes app state for localStorage inside a versioned envelope.
+ */
+export function serializeAppState(state: AppState): string {
+    const persisted: PersistedAppState = { schemaVersion: CURRENT_SCHEMA_VERSION, state };
+    return JSON.stringify(persisted);
+}
+
+/**
+ * Reads app state saved by serializeAppState, or the bare AppState written
+ * before versioning, and migrates it to the current schema.
+ */
+export function parseAppState(json: string): ParsedAppState {
+    const parsed = JSON.parse(json);
+    if (isVersioned(parsed) && 'state' in parsed) {
+        return migrateAppState((parsed as PersistedAppState).state, parsed.schemaVersion);
+    }
+    return migrateAppState(parsed as AppState, LEGACY_SCHEMA_VERSION);
+}
+
+/**
+ * Wraps a project for storage outside localStorage (cloud rows).
+ */
+export function wrapProject(project: Project): PersistedProject {
+    return { schemaVersion: CURRENT_SCHEMA_VERSION, project };
+}
+
+/**
+ * Reads a project stored by wrapProject, or a bare legacy project, and migrates
+ * it. The caller decides whether the returned keys are the user's to keep.
+ */
+export function unwrapProject(data: unknown): UnwrappedProject {
+    const { project, schemaVersion }: PersistedProject = isVersioned(data) && 'project' in data
+        ? data as PersistedProject
+        : { project: data as Project, schemaVersion: LEGACY_SCHEMA_VERSION };
+    return {
+        project: migrateProject(project, schemaVersion),
+        schemaVersion,
+        apiKeys: getLegacyApiKeys(project, schemaVersion),
+    };
+}
@@ -1,6 +1,6 @@
 import { describe, test, expect } from 'vitest';
-import { appReducer } from './reducer';
-import { AppState, AspectRatio } from '../types';
+import { appReducer, createInitialHistoryState, historyReducer } from './reducer';
+import { AppState, AspectRatio, ProjectRole } from '../types';
 import { Action } from './actions';
 
 describe('reducer - ADD_PANEL action', () => {
@@ -432,3 +432,252 @@ describe('reducer - REORDER_PAGES action', () => {
         expect(pages[1].panels[0].prompt).toBe('Panel 1');
     });
 });
+
+describe('reducer - panel takes', () => {
+    const createMockStateWithImage = (): AppState => ({
+        projects: [{
+            id: 'p1',
+            title: 'Test Project',
+            style: 'classic-noir',
+            issueType: 'issue',
+            imageProvider: 'gemini',
+            projectType: 'comic',
+            characters: [],
+            issues: [{
+                id: 'i1',
+                title: 'Issue #1',
+                pages: [{
+                    id: 'pg1',
+                    number: 1,
+                    panels: [{
+                        id: 'panel1',
+                        prompt: 'Rooftop chase',
+                        imageUrl: 'idb://panel1',
+                        aspectRatio: AspectRatio.TALL,
+                        characterIds: [],
+                        textElements: []
+                    }]
+                }]
+            }]
+        }],
+        activeProjectId: 'p1',
+        activeIssueId: 'i1',
+        activePageId: 'pg1'
+    });
+
+    const getPanel = (state: AppState) => state.projects[0].issues[0].pages[0].panels[0];
+
+    const take = (id: string) => ({ id, imageUrl: `idb://${id}`, prompt: 'Rooftop chase', provider: 'fal' as const, seed: 42, createdAt: 1000 });
+
+    test('keeps the existing image as a take and makes the new take the hero', () => {
+        const newState = appReducer(createMockStateWithImage(), { type: 'ADD_PANEL_TAKE', panelId: 'panel1', take: take('t1') });
+        const panel = getPanel(newState);
+
+        expect(panel.takes).toHaveLength(2);
+        expect(panel.takes?.[0]).toMatchObject({ id: 'panel1-legacy', imageUrl: 'idb://panel1' });
+        expect(panel.activeTakeId).toBe('t1');
+        expect(panel.imageUrl).toBe('idb://t1');
+    });
+
+    test('selecting an earlier take restores its image', () => {
+        let state = appReducer(createMockStateWithImage(), { type: 'ADD_PANEL_TAKE', panelId: 'panel1', take: take('t1') });
+        state = appReducer(state, { type: 'ADD_PANEL_TAKE', panelId: 'panel1', take: take('t2') });
+        state = appReducer(state, { type: 'SELECT_PANEL_TAKE', panelId: 'panel1', takeId: 't1' });
+
+        expect(getPanel(state).activeTakeId).toBe('t1');
+        expect(getPanel(state).imageUrl).toBe('idb://t1');
+    });
+
+    test('deleting the hero falls back to the most recent remaining take', () => {
+        let state = appReducer(createMockStateWithImage(), { type: 'ADD_PANEL_TAKE', panelId: 'panel1', take: take('t1') });
+        state = appReducer(state, { type: 'ADD_PANEL_TAKE', panelId: 'panel1', take: take('t2') });
+        state = appReducer(state, { type: 'DELETE_PANEL_TAKE', panelId: 'panel1', takeId: 't2' });
+
+        expect(getPanel(state).takes).toHaveLength(2);
+        expect(getPanel(state).activeTakeId).toBe('t1');
+        expect(getPanel(state).imageUrl).toBe('idb://t1');
+    });
+
+    test('deleting a non-hero take leaves the hero alone', () => {
+        let state = appReducer(createMockStateWithImage(), { type: 'ADD_PANEL_TAKE', panelId: 'panel1', take: take('t1') });
+        state = appReducer(state, { type: 'ADD_PANEL_TAKE', panelId: 'panel1', take: take('t2') });
+        state = appReducer(state, { type: 'DELETE_PANEL_TAKE', panelId: 'panel1', takeId: 't1' });
+
+        expect(getPanel(state).takes?.map(t => t.id)).not.toContain('t1');
+        expect(getPanel(state).imageUrl).toBe('idb://t2');
+    });
+});
+
+describe('reducer - IMPORT_PROJECT action', () => {
+    test('adds the restored project alongside existing ones and opens it', () => {
+        const state: AppState = {
+            projects: [{ id: 'p1', title: 'Existing', style: 'classic-noir', issueType: 'issue', imageProvider: 'gemini', characters: [], issues: [] }],
+            activeProjectId: 'p1',
+            activeIssueId: null,
+            activePageId: null
+        };
+        const restored = {
+            id: 'p2', title: 'Restored', style: 'classic-noir', issueType: 'issue' as const, imageProvider: 'gemini' as const, characters: [],
+            issues: [{ id: 'i2', title: 'Issue #1', pages: [{ id: 'pg2', number: 1, panels: [] }] }]
+        };
+
+        const newState = appReducer(state, { type: 'IMPORT_PROJECT', project: restored });
+
+        expect(newState.projects.map(p => p.id)).toEqual(['p1', 'p2']);
+        expect(newState.activeProjectId).toBe('p2');
+        expect(newState.activeIssueId).toBe('i2');
+        expect(newState.activePageId).toBe('pg2');
+    });
+});
+
+describe('reducer - SYNC_PROJECTS action', () => {
+    test('replaces projects by id, appends new ones and keeps valid selections', () => {
+        const state: AppState = {
+            projects: [
+                { id: 'p1', title: 'Local', style: 'classic-noir', issueType: 'issue', imageProvider: 'gemini', characters: [], issues: [{ id: 'i1', title: 'Issue #1', pages: [{ id: 'pg1', number: 1, panels: [] }] }] },
+                { id: 'p2', title: 'Untouched', style: 'classic-noir', issueType: 'issue', imageProvider: 'gemini', characters: [], issues: [] }
+            ],
+            activeProjectId: 'p1',
+            activeIssueId: 'i1',
+            activePageId: 'pg1'
+        };
+        const fromCloud = { ...state.projects[0], title: 'From Cloud', issues: [{ id: 'i2', title: 'Issue #2', pages: [{ id: 'pg2', number: 1, panels: [] }] }] };
+        const added = { ...state.projects[1], id: 'p3', title: 'Other Device' };
+
+        const newState = appReducer(state, { type: 'SYNC_PROJECTS', projects: [fromCloud, added] });
+
+        expect(newState.projects.map(p => p.title)).toEqual(['From Cloud', 'Untouched', 'Other Device']);
+        expect(newState.activeProjectId).toBe('p1');
+        // The active issue was removed on the other device
+        expect(newState.activeIssueId).toBe('i2');
+        expect(newState.activePageId).toBe('pg2');
+    });
+});
+
+describe('reducer - APPLY_REMOTE_ACTION action', () => {
+    const state: AppState = {
+        projects: [{
+            id: 'p1', title: 'Shared', style: 'classic-noir', issueType: 'issue', imageProvider: 'gemini', characters: [],
+            issues: [{ id: 'i1', title: 'Issue #1', pages: [{ id: 'pg1', number: 1, panels: [] }] }]
+        }],
+        activeProjectId: 'p1',
+        activeIssueId: 'i1',
+        activePageId: 'pg1'
+    };
+
+    test("applies a peer's edit without moving this user to what they created", () => {
+        const newState = appReducer(state, { type: 'APPLY_REMOTE_ACTION', projectId: 'p1', senderRole: 'editor', action: { type: 'ADD_PAGE', issueId: 'i1', id: 'pg2' } });
+
+        expect(newState.projects[0].issues[0].pages.map(p => p.id)).toEqual(['pg1', 'pg2']);
+        expect(newState.activePageId).toBe('pg1');
+    });
+
+    test("drops edits the sender's role doesn't allow", () => {
+        const remote = (senderRole: ProjectRole, action: Action) => appReducer(state, { type: 'APPLY_REMOTE_ACTION', projectId: 'p1', senderRole, action });
+
+        expect(remote('viewer', { type: 'ADD_PAGE', issueId: 'i1', id: 'pg2' })).toBe(state);
+        expect(remote('letterer', { type: 'ADD_PAGE', issueId: 'i1', id: 'pg2' })).toBe(state);
+        expect(remote('editor', { type: 'DELETE_PROJECT', id: 'p1' })).toBe(state);
+        expect(remote('letterer', { type: 'SYNC_PROJECTS', projects: [{ ...state.projects[0], title: 'Taken over' }] })).toBe(state);
+        expect(remote('owner', { type: 'ADD_PROJECT', title: 'Injected' })).toBe(state);
+    });
+
+    test('drops edits aimed at another project', () => {
+        const other = { ...state.projects[0], id: 'p2', issues: [{ id: 'i9', title: 'Private', pages: [] }] };
+        const withOther = { ...state, projects: [...state.projects, other] };
+
+        expect(appReducer(withOther, { type: 'APPLY_REMOTE_ACTION', projectId: 'p1', senderRole: 'owner', action: { type: 'DELETE_ISSUE', issueId: 'i9' } })).toBe(withOther);
+        expect(appReducer(withOther, { type: 'APPLY_REMOTE_ACTION', projectId: 'p1', senderRole: 'owner', action: { type: 'SYNC_PROJECTS', projects: [other] } })).toBe(withOther);
+    });
+
+    test('keeps peer edits when the local user undoes their own', () => {
+        let history = createInitialHistoryState(state);
+        history = historyReducer(history, { type: 'ADD_PANEL', pageId: 'pg1', id: 'local' });
+        history = historyReducer(history, { type: 'APPLY_REMOTE_ACTION', projectId: 'p1', senderRole: 'editor', action: { type: 'ADD_PAGE', issueId: 'i1', id: 'pg2' } });
+        history = historyReducer(history, { type: 'UNDO' });
+
+        const issue = history.present.projects[0].issues[0];
+        expect(issue.pages.map(p => p.id)).toEqual(['pg1', 'pg2']);
+        expect(issue.pages[0].panels).toHaveLength(0);
+    });
+});
+
+describe('reducer - panel comments', () => {
+    const state: AppState = {
+        projects: [{
+            id: 'p1', title: 'Shared', style: 'classic-noir', issueType: 'issue', imageProvider: 'gemini', characters: [],
+            issues: [{ id: 'i1', title: 'Issue #1', pages: [{ id: 'pg1', number: 1, panels: [
+                { id: 'pan1', prompt: '', aspectRatio: AspectRatio.WIDE, characterIds: [], textElements: [] }
+            ] }] }]
+        }],
+        activeProjectId: 'p1',
+        activeIssueId: 'i1',
+        activePageId: 'pg1'
+    };
+    const comment = (id: string, authorId: string, body: string) => ({ id, authorId, authorName: authorId, body, mentions: [], createdAt: 1 });
+    const threads = (s: AppState) => s.projects[0].issues[0].pages[0].panels[0].comments || [];
+
+    test('starts a thread, adds replies and records the author as a member', () => {
+        let newState = appReducer(state, { type: 'ADD_PANEL_COMMENT', panelId: 'pan1', threadId: 't1', comment: comment('c1', 'ana', 'Too dark') });
+        newState = appReducer(newState, { type: 'ADD_PANEL_COMMENT', panelId: 'pan1', threadId: 't1', comment: comment('c2', 'ben', 'Fixed') });
+
+        expect(threads(newState)).toHaveLength(1);
+        expect(threads(newState)[0].comments.map(c => c.id)).toEqual(['c1', 'c2']);
+        expect(newState.projects[0].members?.map(m => m.id)).toEqual(['ana', 'ben']);
+    });
+
+    test('resolves a thread and reopens it on a new reply', () => {
+        let newState = appReducer(state, { type: 'ADD_PANEL_COMMENT', panelId: 'pan1', threadId: 't1', comment: comment('c1', 'ana', 'Too dark') });
+        newState = appReducer(newState, { type: 'RESOLVE_COMMENT_THREAD', panelId: 'pan1', threadId: 't1', resolved: true, by: 'ben', at: 5 });
+        expect(threads(newState)[0]).toMatchObject({ resolved: true, resolvedBy: 'ben', resolvedAt: 5 });
+
+        newState = appReducer(newState, { type: 'ADD_PANEL_COMMENT', panelId: 'pan1', threadId: 't1', comment: comment('c2', 'ana', 'Still too dark') });
+        expect(threads(newState)[0].resolved).toBe(false);
+    });
+
+    test('drops a thread once its last comment is deleted', () => {
+        let newState = appReducer(state, { type: 'ADD_PANEL_COMMENT', panelId: 'pan1', threadId: 't1', comment: comment('c1', 'ana', 'Too dark') });
+        newState = appReducer(newState, { type: 'DELETE_PANEL_COMMENT', panelId: 'pan1', threadId: 't1', commentId: 'c1' });
+
+        expect(threads(newState)).toEqual([]);
+    });
+});
+
+describe('reducer - project roles', () => {
+    const state: AppState = {
+        projects: [{
+            id: 'p1', title: 'Shared', style: 'classic-noir', issueType: 'issue', imageProvider: 'gemini', characters: [],
+            issues: [{ id: 'i1', title: 'Issue #1', pages: [{ id: 'pg1', number: 1, panels: [
+                { id: 'pan1', prompt: 'Diner', aspectRatio: AspectRatio.WIDE, characterIds: [], textElements: [] }
+            ] }] }]
+        }],
+        activeProjectId: 'p1',
+        activeIssueId: 'i1',
+        activePageId: 'pg1',
+        projectRoles: { p1: 'viewer' }
+    };
+    const prompt = (s: AppState) => s.projects[0].issues[0].pages[0].panels[0].prompt;
+
+    test('ignores edits the role does not allow without recording them in history', () => {
+        const history = historyReducer(createInitialHistoryState(state), { type: 'UPDATE_PANEL', panelId: 'pan1', updates: { prompt: 'Alley' } });
+
+        expect(prompt(history.present)).toBe('Diner');
+        expect(history.past).toHaveLength(0);
+    });
+
+    test("still applies collaborators' edits to a viewer", () => {
+        const newState = appReducer(state, { type: 'APPLY_REMOTE_ACTION', projectId: 'p1', senderRole: 'editor', action: { type: 'UPDATE_PANEL', panelId: 'pan1', updates: { prompt: 'Alley' } } });
+
+        expect(prompt(newState)).toBe('Alley');
+    });
+
+    test('keeps the loaded roles when undoing', () => {
+        let history = createInitialHistoryState({ ...state, projectRoles: {} });
+        history = historyReducer(history, { type: 'UPDATE_PANEL', panelId: 'pan1', updates: { prompt: 'Alley' } });
+        history = historyReducer(history, { type: 'SET_PROJECT_ROLES', roles: { p1: 'letterer' } });
+        history = historyReducer(history, { type: 'UNDO' });
+
+        expect(prompt(history.present)).toBe('Diner');
+        expect(history.present.projectRoles).toEqual({ p1: 'letterer' });
+    });
+});
@@ -6,11 +6,17 @@ import {
     Issue,
     Page,
     Panel,
+    PanelTake,
     Character,
+    CommentThread,
     TextElement,
-    AspectRatio
+    AspectRatio,
+    ProjectRole
 } from '../types';
 import { genId, getDefaultAspectRatio } from '../utils/helpers';
+import { serializeAppState } from './migrations';
+import { LOCAL_MEMBER_ID } from '../services/comments';
+import { isActionPermitted, isRemoteActionPermitted } from '../services/permissions';
 
 // Page template configurations
 const PAGE_TEMPLATES: Record<PageTemplate, { panels: Array<{ x: number; y: number; width: number; height: number; aspectRatio: AspectRatio }> }> = {
@@ -76,9 +82,35 @@ const PAGE_TEMPLATES: Record<PageTemplate, { panels: Array<{ x: number; y: numbe
     },
 };
 
+// Rewrites the comment threads of one panel, wherever it is
+function updatePanelThreads(projects: Project[], panelId: string, update: (threads: CommentThread[]) => CommentThread[]): Project[] {
+    return projects.map(proj => ({
+        ...proj,
+        issues: proj.issues.map(iss => ({
+            ...iss,
+            pages: iss.pages.map(pg => ({
+                ...pg,
+                panels: pg.panels.map(pan => pan.id === panelId ? { ...pan, comments: update(pan.comments || []) } : pan)
+            }))
+        }))
+    }));
+}
+
+export function getTemplatePanelCount(template: PageTemplate): number {
+    return PAGE_TEMPLATES[template]?.panels.length || 0;
+}
+
 const MAX_HISTORY = 50; // Maximum number of undo steps
 
-export function appReducer(state: AppState, action: Action): AppState {
+// Panels created before take history only have imageUrl; keep that image as the
+// first take, with the id migration v2 gives it so every peer and device agrees
+function getPanelTakes(panel: Panel): PanelTake[] {
+    if (panel.takes) return panel.takes;
+    if (!panel.imageUrl) return [];
+    return [{ id: `${panel.id}-legacy`, imageUrl: panel.imageUrl, prompt: panel.prompt || '', createdAt: 0 }];
+}
+
+function reduceAppState(state: AppState, action: Action): AppState {
     let newState = { ...state };
 
     switch (action.type) {
@@ -119,32 +151,45 @@ export function appReducer(state: AppState, action: Action): AppState {
             break;
         }
 
-        case 'UPDATE_PROJECT':
-            newState.projects = state.projects.map(p => p.id === action.id ? { ...p, ...action.updates } : p);
-            break;
-
-        case 'UPDATE_PROJECT_GEMINI_KEY':
-            newState.projects = state.projects.map(p => p.id === action.projectId ? { ...p, geminiApiKey: action.apiKey } : p);
-            break;
-
-        case 'UPDATE_PROJECT_LEONARDO_KEY':
-            newState.projects = state.projects.map(p => p.id === action.projectId ? { ...p, leonardoApiKey: action.apiKey } : p);
-            break;
-
-        case 'UPDATE_PROJECT_GROK_KEY':
-            newState.projects = state.projects.map(p => p.id === action.projectId ? { ...p, grokApiKey: action.apiKey } : p);
+        case 'IMPORT_PROJECT': {
+            const imported = action.project;
+            newState = {
+                ...state,
+                projects: [...state.projects, imported],
+                activeProjectId: imported.id,
+                activeIssueId: imported.issues[0]?.id || null,
+                activePageId: imported.issues[0]?.pages[0]?.id || null
+            };
             break;
+        }
 
-        case 'UPDATE_PROJECT_FAL_KEY':
-            newState.projects = state.projects.map(p => p.id === action.projectId ? { ...p, falApiKey: action.apiKey } : p);
+        case 'SYNC_PROJECTS': {
+            // Cloud copies replace local projects with the same id; new ones are appended
+            const synced = new Map(action.projects.map(p => [p.id, p]));
+            const projects = [
+                ...state.projects.map(p => synced.get(p.id) || p),
+                ...action.projects.filter(p => !state.projects.some(existing => existing.id === p.id))
+            ];
+
+            const activeProject = projects.find(p => p.id === state.activeProjectId) || projects[0];
+            const activeIssue = activeProject?.issues.find(i => i.id === state.activeIssueId) || activeProject?.issues[0];
+            const activePage = activeIssue?.pages.find(pg => pg.id === state.activePageId) || activeIssue?.pages[0];
+            newState = {
+                ...state,
+                projects,
+                activeProjectId: activeProject?.id || null,
+                activeIssueId: activeIssue?.id || null,
+                activePageId: activePage?.id || null
+            };
             break;
+        }
 
-        case 'UPDATE_PROJECT_SEAART_KEY':
-            newState.projects = state.projects.map(p => p.id === action.projectId ? { ...p, seaartApiKey: action.apiKey } : p);
+        case 'SET_PROJECT_ROLES':
+            newState.projectRoles = action.roles;
             break;
 
-        case 'UPDATE_PROJECT_OPENAI_KEY':
-            newState.projects = state.projects.map(p => p.id === action.projectId ? { ...p, openaiApiKey: action.apiKey } : p);
+        case 'UPDATE_PROJECT':
+            newState.projects = state.projects.map(p => p.id === action.id ? { ...p, ...action.updates } : p);
             break;
 
         case 'DELETE_PROJECT': {
@@ -161,9 +206,9 @@ export function appReducer(state: AppState, action: Action): AppState {
                 const typeLabel = proj.issueType === 'issue' ? 'Issue' : 'Chapter';
                 const num = proj.issues.length + 1;
                 const newIss: Issue = {
-                    id: genId(),
+                    id: action.id || genId(),
                                                    title: action.title || `${typeLabel} #${num}`,
-                                                   pages: [{ id: genId(), number: 1, panels: [] }]
+                                                   pages: [{ id: action.firstPageId || genId(), number: 1, panels: [] }]
                 };
                 newState.activeIssueId = newIss.id;
                 newState.activePageId = newIss.pages[0].id;
@@ -202,13 +247,23 @@ export function appReducer(state: AppState, action: Action): AppState {
                 ...proj,
                 issues: proj.issues.map(iss => {
                     if (iss.id !== action.issueId) return iss;
-                    const newPg: Page = { id: genId(), number: iss.pages.length + 1, panels: [] };
+                    const newPg: Page = { id: action.id || genId(), number: iss.pages.length + 1, panels: [] };
                     newState.activePageId = newPg.id;
                     return { ...iss, pages: [...iss.pages, newPg] };
                 })
             }));
             break;
 
+        case 'UPDATE_PAGE':
+            newState.projects = state.projects.map(proj => ({
+                ...proj,
+                issues: proj.issues.map(iss => ({
+                    ...iss,
+                    pages: iss.pages.map(pg => pg.id === action.pageId ? { ...pg, ...action.updates } : pg)
+                }))
+            }));
+            break;
+
         case 'SET_ACTIVE_PAGE':
             newState.activePageId = action.id;
             break;
@@ -227,7 +282,7 @@ export function appReducer(state: AppState, action: Action): AppState {
                         // Get default aspect ratio based on project type
                         const defaultAspectRatio = getDefaultAspectRatio(proj.projectType);
                         const newPan: Panel = {
-                            id: genId(),
+                            id: action.id || genId(),
                             prompt: '',
                             aspectRatio: defaultAspectRatio,
                             characterIds: [],
@@ -288,6 +343,92 @@ export function appReducer(state: AppState, action: Action): AppState {
             }));
             break;
 
+        case 'ADD_PANEL_TAKE':
+            newState.projects = state.projects.map(proj => ({
+                ...proj,
+                issues: proj.issues.map(iss => ({
+                    ...iss,
+                    pages: iss.pages.map(pg => ({
+                        ...pg,
+                        panels: pg.panels.map(pan =>
+                        pan.id === action.panelId
+                        ? { ...pan, takes: [...getPanelTakes(pan), action.take], activeTakeId: action.take.id, imageUrl: action.take.imageUrl }
+                        : pan
+                        )
+                    }))
+                }))
+            }));
+            break;
+
+        case 'SELECT_PANEL_TAKE':
+            newState.projects = state.projects.map(proj => ({
+                ...proj,
+                issues: proj.issues.map(iss => ({
+                    ...iss,
+                    pages: iss.pages.map(pg => ({
+                        ...pg,
+                        panels: pg.panels.map(pan => {
+                            const take = pan.id === action.panelId ? pan.takes?.find(t => t.id === action.takeId) : undefined;
+                            return take ? { ...pan, activeTakeId: take.id, imageUrl: take.imageUrl } : pan;
+                        })
+                    }))
+                }))
+            }));
+            break;
+
+        case 'DELETE_PANEL_TAKE':
+            newState.projects = state.projects.map(proj => ({
+                ...proj,
+                issues: proj.issues.map(iss => ({
+                    ...iss,
+                    pages: iss.pages.map(pg => ({
+                        ...pg,
+                        panels: pg.panels.map(pan => {
+                            if (pan.id !== action.panelId || !pan.takes) return pan;
+                            const takes = pan.takes.filter(t => t.id !== action.takeId);
+                            if (pan.activeTakeId !== action.takeId) return { ...pan, takes };
+                            // Deleting the hero falls back to the most recent remaining take
+                            const fallback = takes[takes.length - 1];
+                            return { ...pan, takes, activeTakeId: fallback?.id, imageUrl: fallback?.imageUrl };
+                        })
+                    }))
+                }))
+            }));
+            break;
+
+        case 'ADD_PANEL_COMMENT': {
+            const { comment } = action;
+            newState.projects = updatePanelThreads(state.projects, action.panelId, threads => {
+                if (!threads.some(t => t.id === action.threadId)) {
+                    return [...threads, { id: action.threadId, elementId: action.elementId, comments: [comment], resolved: false }];
+                }
+                // Replying reopens a resolved thread
+                return threads.map(t => t.id === action.threadId
+                    ? { ...t, comments: [...t.comments, comment], resolved: false, resolvedBy: undefined, resolvedAt: undefined }
+                    : t);
+            }).map(proj => {
+                const hasPanel = proj.issues.some(iss => iss.pages.some(pg => pg.panels.some(pan => pan.id === action.panelId)));
+                if (!hasPanel || comment.authorId === LOCAL_MEMBER_ID || proj.members?.some(m => m.id === comment.authorId)) return proj;
+                return { ...proj, members: [...(proj.members || []), { id: comment.authorId, name: comment.authorName }] };
+            });
+            break;
+        }
+
+        case 'RESOLVE_COMMENT_THREAD':
+            newState.projects = updatePanelThreads(state.projects, action.panelId, threads => threads.map(t => {
+                if (t.id !== action.threadId) return t;
+                return action.resolved
+                    ? { ...t, resolved: true, resolvedBy: action.by, resolvedAt: action.at ?? Date.now() }
+                    : { ...t, resolved: false, resolvedBy: undefined, resolvedAt: undefined };
+            }));
+            break;
+
+        case 'DELETE_PANEL_COMMENT':
+            newState.projects = updatePanelThreads(state.projects, action.panelId, threads => threads
+                .map(t => t.id === action.threadId ? { ...t, comments: t.comments.filter(c => c.id !== action.commentId) } : t)
+                .filter(t => t.comments.length > 0));
+            break;
+
         case 'REORDER_PANELS':
             newState.projects = state.projects.map(proj => ({
                 ...proj,
@@ -326,10 +467,12 @@ export function appReducer(state: AppState, action: Action): AppState {
                 return {
                     ...proj,
                     characters: [...proj.characters, { 
-                        id: genId(), 
+                        id: action.id || genId(), 
                         name: action.name, 
+                        aliases: action.aliases,
                         description: action.description,
-                        appearance: action.appearance
+                        appearance: action.appearance,
+                        wardrobe: action.wardrobe
                     }]
                 };
             });
@@ -367,6 +510,89 @@ export function appReducer(state: AppState, action: Action): AppState {
             });
             break;
 
+        case 'ADD_LOCATION':
+            newState.projects = state.projects.map(proj => {
+                if (proj.id !== state.activeProjectId) return proj;
+                return {
+                    ...proj,
+                    locations: [...(proj.locations || []), {
+                        id: action.id || genId(),
+                        name: action.name,
+                        description: action.description,
+                        lighting: action.lighting
+                    }]
+                };
+            });
+            break;
+
+        case 'UPDATE_LOCATION':
+            newState.projects = state.projects.map(proj => {
+                if (proj.id !== state.activeProjectId) return proj;
+                return {
+                    ...proj,
+                    locations: proj.locations?.map(loc => loc.id === action.id ? { ...loc, ...action.updates } : loc)
+                };
+            });
+            break;
+
+        case 'DELETE_LOCATION':
+            newState.projects = state.projects.map(proj => {
+                if (proj.id !== state.activeProjectId) return proj;
+                return {
+                    ...proj,
+                    locations: proj.locations?.filter(loc => loc.id !== action.id),
+                    issues: proj.issues.map(iss => ({
+                        ...iss,
+                        pages: iss.pages.map(pg => ({
+                            ...pg,
+                            panels: pg.panels.map(pan => pan.locationId === action.id ? { ...pan, locationId: undefined } : pan)
+                        }))
+                    }))
+                };
+            });
+            break;
+
+        case 'ADD_PROP':
+            newState.projects = state.projects.map(proj => {
+                if (proj.id !== state.activeProjectId) return proj;
+                return {
+                    ...proj,
+                    props: [...(proj.props || []), {
+                        id: action.id || genId(),
+                        name: action.name,
+                        description: action.description
+                    }]
+                };
+            });
+            break;
+
+        case 'UPDATE_PROP':
+            newState.projects = state.projects.map(proj => {
+                if (proj.id !== state.activeProjectId) return proj;
+                return {
+                    ...proj,
+                    props: proj.props?.map(prop => prop.id === action.id ? { ...prop, ...action.updates } : prop)
+                };
+            });
+            break;
+
+        case 'DELETE_PROP':
+            newState.projects = state.projects.map(proj => {
+                if (proj.id !== state.activeProjectId) return proj;
+                return {
+                    ...proj,
+                    props: proj.props?.filter(prop => prop.id !== action.id),
+                    issues: proj.issues.map(iss => ({
+                        ...iss,
+                        pages: iss.pages.map(pg => ({
+                            ...pg,
+                            panels: pg.panels.map(pan => pan.propIds?.includes(action.id) ? { ...pan, propIds: pan.propIds.filter(id => id !== action.id) } : pan)
+                        }))
+                    }))
+                };
+            });
+            break;
+
         case 'ADD_TEXT_ELEMENT':
             newState.projects = state.projects.map(proj => ({
                 ...proj,
@@ -436,6 +662,14 @@ export function appReducer(state: AppState, action: Action): AppState {
                                 existing => existing.name.toUpperCase() === newChar.name.toUpperCase()
                             )
                         )
+                    ],
+                    locations: [
+                        ...(proj.locations || []),
+                        ...(action.locations || []).filter(
+                            newLoc => !proj.locations?.some(
+                                existing => existing.name.toUpperCase() === newLoc.name.toUpperCase()
+                            )
+                        )
                     ]
                 };
             });
@@ -455,7 +689,7 @@ export function appReducer(state: AppState, action: Action): AppState {
                         if (pg.id !== action.pageId) return pg;
                         // Create new panels based on template
                         const newPanels: Panel[] = template.panels.map((config, idx) => ({
-                            id: genId(),
+                            id: action.panelIds?.[idx] || genId(),
                             prompt: '',
                             aspectRatio: config.aspectRatio,
                             characterIds: [],
@@ -472,6 +706,10 @@ export function appReducer(state: AppState, action: Action): AppState {
             break;
         }
 
+        case 'APPLY_REMOTE_ACTION':
+            newState = applyRemoteAction(state, action.projectId, action.senderRole, action.action);
+            break;
+
         // UNDO and REDO are handled by the history wrapper
         case 'UNDO':
         case 'REDO':
@@ -479,10 +717,38 @@ export function appReducer(state: AppState, action: Action): AppState {
             break;
     }
 
-    localStorage.setItem('ink_tracker_data', JSON.stringify(newState));
     return newState;
 }
 
+export function appReducer(state: AppState, action: Action): AppState {
+    // Collaborators' actions are checked against their own role in applyRemoteAction
+    if (!isActionPermitted(state, action)) return state;
+
+    const newState = reduceAppState(state, action);
+    localStorage.setItem('ink_tracker_data', serializeAppState(newState));
+    return newState;
+}
+
+/**
+ * Applies a collaborator's action as if their project were active here, then
+ * puts this user's navigation back so peers' edits never move them around.
+ * Actions the sender's role doesn't allow are dropped.
+ */
+function applyRemoteAction(state: AppState, projectId: string, senderRole: ProjectRole, action: Action): AppState {
+    if (!isRemoteActionPermitted(state, projectId, senderRole, action)) return state;
+    const applied = reduceAppState({ ...state, activeProjectId: projectId }, action);
+    const project = applied.projects.find(p => p.id === state.activeProjectId);
+    const issue = project?.issues.find(i => i.id === state.activeIssueId) || project?.issues[0];
+    const page = issue?.pages.find(p => p.id === state.activePageId) || issue?.pages[0];
+
+    return {
+        ...applied,
+        activeProjectId: project ? state.activeProjectId : applied.projects[0]?.id || null,
+        activeIssueId: project ? issue?.id || null : applied.projects[0]?.issues[0]?.id || null,
+        activePageId: project ? page?.id || null : applied.projects[0]?.issues[0]?.pages[0]?.id || null,
+    };
+}
+
 // Actions that should NOT be recorded in history (navigation, UI state)
 const NON_HISTORICAL_ACTIONS = new Set([
     'HYDRATE',
@@ -520,6 +786,19 @@ export function historyReducer(
             };
         }
 
+        case 'APPLY_REMOTE_ACTION':
+        case 'SET_PROJECT_ROLES': {
+            // Peers' edits and role changes are folded into every undo step too, so
+            // undoing a local edit neither takes back what a collaborator did since
+            // nor brings back an old role
+            const rebase = (state: AppState) => reduceAppState(state, action);
+            return {
+                past: past.map(rebase),
+                present: appReducer(present, action),
+                future: future.map(rebase),
+            };
+        }
+
         case 'REDO': {
             if (future.length === 0) return stateWithHistory;
             const next = future[0];
@@ -6,9 +6,21 @@ export enum AspectRatio {
     PORTRAIT = 'portrait'
 }
 
+// A named outfit, swapped in for the character's usual clothing and accessories
+export interface WardrobeVariant {
+    id: string;
+    name: string;           // e.g. "winter coat", "battle armor"
+    clothing: string;
+    accessories?: string;
+}
+
+// Character id -> wardrobe variant id
+export type WardrobeSelection = Record<string, string>;
+
 export interface Character {
     id: string;
     name: string;
+    aliases?: string[];  // Nicknames and other names scripts use, e.g. "MAGS", "DETECTIVE CHEN"
     description: string; // Legacy/simple description
     // Detailed appearance fields
     appearance?: {
@@ -28,6 +40,25 @@ export interface Character {
         additionalNotes?: string;
         customStylePrompt?: string;
     };
+    referenceImages?: string[];  // idb:// reference sheets sent to providers that take image references
+    wardrobe?: WardrobeVariant[];
+}
+
+// A recurring set; named SceneLocation to stay clear of the DOM's Location
+export interface SceneLocation {
+    id: string;
+    name: string;               // As written in scene headings, e.g. "JOE'S DINER"
+    description: string;
+    lighting?: string;          // e.g. "flickering neon through rain-streaked windows"
+    referenceImages?: string[]; // idb:// images sent to providers that take image references
+}
+
+// A recurring object the story depends on: a specific gun, a letter, a car
+export interface Prop {
+    id: string;
+    name: string;
+    description: string;
+    referenceImages?: string[]; // idb:// images sent to providers that take image references
 }
 
 export type TextElementType = 'dialogue' | 'thought' | 'caption' | 'phone';
@@ -50,16 +81,61 @@ export interface TextElement {
     tailStyle?: 'pointy' | 'cloud' | 'none';
 }
 
+// One generated (or uploaded) image kept in a panel's take history
+export interface PanelTake {
+    id: string;
+    imageUrl: string;           // idb:// reference, keyed by take id
+    prompt: string;             // Panel prompt at generation time
+    provider?: ImageProvider;   // Undefined for uploaded images
+    seed?: number;              // Only recorded for providers that accept a seed
+    createdAt: number;
+}
+
+// What a user may do in a project: owners manage sharing, editors change
+// anything, letterers only the text on panels, viewers read
+export type ProjectRole = 'owner' | 'editor' | 'letterer' | 'viewer';
+
+// Someone who works on a project; comment authors are added as they comment
+export interface ProjectMember {
+    id: string;             // Supabase user id, or 'local' when signed out
+    name: string;
+}
+
+export interface PanelComment {
+    id: string;
+    authorId: string;
+    authorName: string;
+    body: string;
+    mentions: string[];     // Ids of members @mentioned in the body
+    createdAt: number;
+}
+
+// A review thread on a panel, or on one of its text elements
+export interface CommentThread {
+    id: string;
+    elementId?: string;
+    comments: PanelComment[];
+    resolved: boolean;
+    resolvedBy?: string;    // Member name
+    resolvedAt?: number;
+}
+
 export interface Panel {
     id: string;
     prompt: string;
-    imageUrl?: string;
+    imageUrl?: string;          // Mirrors the hero take's image
+    takes?: PanelTake[];
+    activeTakeId?: string;
     aspectRatio: AspectRatio;
     notes?: string;
+    comments?: CommentThread[];
     characterIds: string[];
     textElements: TextElement[];
     referencePanelId?: string;
     referenceStrength?: number;
+    wardrobe?: WardrobeSelection;   // Overrides the page and issue wardrobe
+    locationId?: string;
+    propIds?: string[];
     title?: string;
     promptHistory?: string[];
     // Freeform position on canvas
@@ -81,6 +157,7 @@ export interface Page {
     id: string;
     number: number;
     panels: Panel[];
+    wardrobe?: WardrobeSelection;   // Overrides the issue wardrobe
 }
 
 export interface Issue {
@@ -88,6 +165,7 @@ export interface Issue {
     title: string;
     pages: Page[];
     scriptText?: string; // Original imported script for reference
+    wardrobe?: WardrobeSelection;   // Default outfits for the issue
 }
 
 export type ImageProvider = 'gemini' | 'leonardo' | 'grok' | 'fal' | 'seaart' | 'openai';
@@ -95,6 +173,18 @@ export type ImageProvider = 'gemini' | 'leonardo' | 'grok' | 'fal' | 'seaart' |
 export type PanelFrameStyle = 'opaque-black' | 'opaque-white' | 'translucent';
 export type TextOverlayStyle = 'opaque' | 'semi-transparent' | 'border-only';
 
+export type PrintPageSize = 'us-comic' | 'manga-b6' | 'a4' | 'us-letter';
+
+// Print PDF settings; all measurements are in inches
+export interface PrintSettings {
+    pageSize: PrintPageSize;
+    bleed: number;          // Extra area past the trim on every side
+    safeMargin: number;     // Distance inside the trim that lettering stays clear of
+    fullBleed: boolean;     // Art runs out to the bleed line; otherwise pages sit inside the safe area
+    cropMarks: boolean;
+    minDpi: number;         // Panels printing below this resolution are flagged before export
+}
+
 export interface Project {
     id: string;
     title: string;
@@ -102,18 +192,17 @@ export interface Project {
     issueType: 'issue' | 'chapter';
     imageProvider: ImageProvider;
     projectType?: 'comic' | 'screenplay' | 'stage-play' | 'tv-series';
-    geminiApiKey?: string;
-    leonardoApiKey?: string;
-    grokApiKey?: string;
-    falApiKey?: string;
-    seaartApiKey?: string;
-    openaiApiKey?: string;
     customStylePrompt?: string;
     fluxModel?: string;
     panelFrameStyle?: PanelFrameStyle;
     textOverlayStyle?: TextOverlayStyle;
+    printSettings?: PrintSettings;
+    budgetCap?: number;             // USD; batch generation stops once estimated spend reaches it
     issues: Issue[];
     characters: Character[];
+    locations?: SceneLocation[];
+    props?: Prop[];
+    members?: ProjectMember[];
 }
 
 export interface AppState {
@@ -121,6 +210,7 @@ export interface AppState {
     activeProjectId: string | null;
     activeIssueId: string | null;
     activePageId: string | null;
+    projectRoles?: Record<string, ProjectRole>;  // This user's role in projects others shared with them
 }
 
 // History-aware state for undo/redo
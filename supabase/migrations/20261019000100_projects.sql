@@ -0,0 +1,41 @@
+-- One row per project, keyed by its owner. project_data holds the versioned
+-- envelope written by wrapProject (src/state/migrations.ts).
+create table if not exists public.projects (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  project_id text not null,
+  project_data jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+-- Conflict-aware sync: every write bumps revision and only succeeds while the
+-- row is still at the revision the writer last saw (services/cloudSync.ts)
+alter table public.projects add column if not exists revision integer not null default 0;
+alter table public.projects add column if not exists updated_at timestamptz not null default now();
+
+-- A second device creating the same project fails with 23505 and is treated
+-- as a conflict rather than a duplicate row
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'projects_user_id_project_id_key') then
+    alter table public.projects add constraint projects_user_id_project_id_key unique (user_id, project_id);
+  end if;
+end $$;
+
+alter table public.projects enable row level security;
+
+drop policy if exists "Owners read their projects" on public.projects;
+create policy "Owners read their projects" on public.projects
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "Owners create their projects" on public.projects;
+create policy "Owners create their projects" on public.projects
+  for insert with check (auth.uid() = user_id);
+
+drop policy if exists "Owners update their projects" on public.projects;
+create policy "Owners update their projects" on public.projects
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+drop policy if exists "Owners delete their projects" on public.projects;
+create policy "Owners delete their projects" on public.projects
+  for delete using (auth.uid() = user_id);
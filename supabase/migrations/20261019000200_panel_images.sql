@@ -0,0 +1,22 @@
+-- Private bucket for panel images, one folder per user:
+-- panel-images/<user id>/<image id> (services/cloudImageStorage.ts)
+insert into storage.buckets (id, name, public)
+values ('panel-images', 'panel-images', false)
+on conflict (id) do nothing;
+
+drop policy if exists "Users read their panel images" on storage.objects;
+create policy "Users read their panel images" on storage.objects
+  for select using (bucket_id = 'panel-images' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "Users upload their panel images" on storage.objects;
+create policy "Users upload their panel images" on storage.objects
+  for insert with check (bucket_id = 'panel-images' and (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Uploads use upsert, which updates an existing object
+drop policy if exists "Users replace their panel images" on storage.objects;
+create policy "Users replace their panel images" on storage.objects
+  for update using (bucket_id = 'panel-images' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "Users delete their panel images" on storage.objects;
+create policy "Users delete their panel images" on storage.objects
+  for delete using (bucket_id = 'panel-images' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,135 @@
+-- Who else may open a project (services/projectSharing.ts). An invite is a
+-- row with the invitee's email and no user_id; accepting it fills in user_id.
+create table if not exists public.project_members (
+  project_id text not null,
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  email text not null,
+  user_id uuid references auth.users (id) on delete cascade,
+  role text not null check (role in ('editor', 'letterer', 'viewer')),
+  invited_by text,
+  created_at timestamptz not null default now(),
+  constraint project_members_project_id_owner_id_email_key unique (project_id, owner_id, email)
+);
+
+create index if not exists project_members_user_id_idx on public.project_members (user_id);
+
+-- Membership lookups for policies, run as the table owner so policies on
+-- project_members can use them without recursing into themselves
+create or replace function public.project_role(p_owner_id uuid, p_project_id text)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when auth.uid() = p_owner_id then 'owner'
+    else (
+      select role from public.project_members
+      where owner_id = p_owner_id and project_id = p_project_id and user_id = auth.uid()
+    )
+  end;
+$$;
+
+-- Invitees may only claim their invite; the role stays what the owner chose
+create or replace function public.project_members_guard()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.uid() is distinct from old.owner_id and (
+    new.project_id <> old.project_id or new.owner_id <> old.owner_id or new.email <> old.email
+    or new.role <> old.role or new.invited_by is distinct from old.invited_by
+  ) then
+    raise exception 'Only the owner can change an invite';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists project_members_guard on public.project_members;
+create trigger project_members_guard
+  before update on public.project_members
+  for each row execute function public.project_members_guard();
+
+alter table public.project_members enable row level security;
+
+drop policy if exists "Owners manage members" on public.project_members;
+create policy "Owners manage members" on public.project_members
+  for all using (auth.uid() = owner_id) with check (auth.uid() = owner_id);
+
+drop policy if exists "Members see each other" on public.project_members;
+create policy "Members see each other" on public.project_members
+  for select using (public.project_role(owner_id, project_id) is not null);
+
+drop policy if exists "Invitees see their invites" on public.project_members;
+create policy "Invitees see their invites" on public.project_members
+  for select using (email = lower(auth.jwt() ->> 'email'));
+
+drop policy if exists "Invitees accept their invites" on public.project_members;
+create policy "Invitees accept their invites" on public.project_members
+  for update using (email = lower(auth.jwt() ->> 'email') and user_id is null)
+  with check (user_id = auth.uid());
+
+drop policy if exists "Members leave and invitees decline" on public.project_members;
+create policy "Members leave and invitees decline" on public.project_members
+  for delete using (user_id = auth.uid() or email = lower(auth.jwt() ->> 'email'));
+
+-- Members read the owner's row; editors and letterers write it. Letterers may
+-- only change lettering and review comments, which projects_member_guard
+-- enforces below; services/permissions applies the same limits in the app.
+drop policy if exists "Members read shared projects" on public.projects;
+create policy "Members read shared projects" on public.projects
+  for select using (public.project_role(user_id, project_id) is not null);
+
+drop policy if exists "Editors and letterers update shared projects" on public.projects;
+create policy "Editors and letterers update shared projects" on public.projects
+  for update using (public.project_role(user_id, project_id) in ('editor', 'letterer'))
+  with check (public.project_role(user_id, project_id) in ('editor', 'letterer'));
+
+-- A project with every panel's text elements and comments taken out, which is
+-- all a letterer's save may differ in (besides the schema version it was written in)
+create or replace function public.project_without_lettering(project_data jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  select jsonb_set(project_data - 'schemaVersion', '{project,issues}', coalesce((
+    select jsonb_agg(jsonb_set(issue, '{pages}', coalesce((
+      select jsonb_agg(jsonb_set(page, '{panels}', coalesce((
+        select jsonb_agg(panel - 'textElements' - 'comments' order by panel_index)
+        from jsonb_array_elements(page -> 'panels') with ordinality as panels(panel, panel_index)
+      ), '[]'::jsonb)) order by page_index)
+      from jsonb_array_elements(issue -> 'pages') with ordinality as pages(page, page_index)
+    ), '[]'::jsonb)) order by issue_index)
+    from jsonb_array_elements(project_data -> 'project' -> 'issues') with ordinality as issues(issue, issue_index)
+  ), '[]'::jsonb));
+$$;
+
+-- Members never move a row to another owner or project, and letterers only
+-- change lettering and comments
+create or replace function public.projects_member_guard()
+returns trigger
+language plpgsql
+as $$
+declare
+  caller_role text := public.project_role(old.user_id, old.project_id);
+begin
+  if caller_role = 'owner' then
+    return new;
+  end if;
+  if new.user_id <> old.user_id or new.project_id <> old.project_id then
+    raise exception 'Only the owner can move a project';
+  end if;
+  if caller_role = 'letterer'
+    and public.project_without_lettering(new.project_data) is distinct from public.project_without_lettering(old.project_data) then
+    raise exception 'Letterers can only change lettering and comments';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists projects_member_guard on public.projects;
+create trigger projects_member_guard
+  before update on public.projects
+  for each row execute function public.projects_member_guard();
@@ -0,0 +1,24 @@
+-- Live sessions use private Realtime channels named
+-- ink-tracker:<owner id>:<project id>:<issue id> (services/realtimeTransport.ts).
+-- Only the project's owner and members may subscribe, broadcast and track presence.
+create or replace function public.can_join_live_session(topic text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select split_part(topic, ':', 1) = 'ink-tracker'
+    and split_part(topic, ':', 2) ~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    and public.project_role(split_part(topic, ':', 2)::uuid, split_part(topic, ':', 3)) is not null;
+$$;
+
+drop policy if exists "Project members receive live session messages" on realtime.messages;
+create policy "Project members receive live session messages" on realtime.messages
+  for select to authenticated
+  using (public.can_join_live_session(realtime.topic()));
+
+drop policy if exists "Project members send live session messages" on realtime.messages;
+create policy "Project members send live session messages" on realtime.messages
+  for insert to authenticated
+  with check (public.can_join_live_session(realtime.topic()));
@@ -0,0 +1,31 @@
+-- Panel images of a project live in its owner's folder:
+-- panel-images/<owner id>/<project id>/<image id> (services/cloudImageStorage.ts).
+-- Owners already reach their whole folder through *_panel_images.sql; these
+-- let members read a shared project's images and editors and letterers add to them.
+
+-- The caller's role in the project an object's folder belongs to, or null
+create or replace function public.panel_image_role(object_name text)
+returns text
+language sql
+stable
+set search_path = public
+as $$
+  select case
+    when array_length(storage.foldername(object_name), 1) = 2
+      and (storage.foldername(object_name))[1] ~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    then public.project_role(((storage.foldername(object_name))[1])::uuid, (storage.foldername(object_name))[2])
+  end;
+$$;
+
+drop policy if exists "Members read shared panel images" on storage.objects;
+create policy "Members read shared panel images" on storage.objects
+  for select using (bucket_id = 'panel-images' and public.panel_image_role(name) is not null);
+
+drop policy if exists "Editors and letterers upload shared panel images" on storage.objects;
+create policy "Editors and letterers upload shared panel images" on storage.objects
+  for insert with check (bucket_id = 'panel-images' and public.panel_image_role(name) in ('editor', 'letterer'));
+
+-- Uploads use upsert, which updates an existing object
+drop policy if exists "Editors and letterers replace shared panel images" on storage.objects;
+create policy "Editors and letterers replace shared panel images" on storage.objects
+  for update using (bucket_id = 'panel-images' and public.panel_image_role(name) in ('editor', 'letterer'));